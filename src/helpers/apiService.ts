@@ -44,15 +44,34 @@ interface MessageResponse {
       created_at: string;
       updated_at: string;
       content: string;
+      sender_type?: string;
     };
   };
 }
 
+interface ConversationsResponse {
+  data: ConversationResponse['data'][];
+}
+
+interface MessagesResponse {
+  data: MessageResponse['data'][];
+}
+
 interface AIProcessResponse {
   user_message: MessageResponse;
   ai_response: MessageResponse;
 }
 
+interface AIStreamHandlers {
+  onToken: (delta: string) => void;
+  signal?: AbortSignal;
+}
+
+interface AIStreamResult {
+  text: string;
+  response: AIProcessResponse | null;
+}
+
 interface UserResponse {
   data: {
     id: string;
@@ -86,6 +105,79 @@ export class APIService {
     };
   }
 
+  // Reads a `process_with_ai` response as server-sent events. Servers that
+  // don't support streaming answer with plain JSON, which is treated as a
+  // single final event.
+  private async streamProcessWithAI(token: string, conversationId: string, body: object, handlers: AIStreamHandlers): Promise<AIStreamResult> {
+    const response = await axios.post(
+      `${this.baseUrl}/conversations/${conversationId}/messages/process_with_ai`,
+      { ...body, stream: true },
+      {
+        headers: { ...this.getAuthHeaders(token), 'Accept': 'text/event-stream' },
+        responseType: 'stream',
+        signal: handlers.signal,
+      }
+    );
+
+    const contentType = String(response.headers['content-type'] || '');
+    const stream = response.data as NodeJS.ReadableStream;
+    let text = '';
+    let final: AIProcessResponse | null = null;
+    let pending = '';
+
+    const handleEvent = (block: string) => {
+      let eventName = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+          eventName = line.slice(6).trim();
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+      if (dataLines.length === 0) return;
+
+      const payload = JSON.parse(dataLines.join('\n'));
+      if (eventName === 'token') {
+        const delta = payload.delta || '';
+        text += delta;
+        handlers.onToken(delta);
+      } else if (eventName === 'done') {
+        final = payload as AIProcessResponse;
+      } else if (eventName === 'error') {
+        throw new Error(payload.error || 'Stream failed');
+      }
+    };
+
+    for await (const chunk of stream) {
+      pending += chunk.toString();
+      if (!contentType.includes('text/event-stream')) continue;
+
+      let boundary = pending.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const block = pending.slice(0, boundary);
+        pending = pending.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        handleEvent(block);
+        boundary = pending.search(/\r?\n\r?\n/);
+      }
+    }
+
+    if (!contentType.includes('text/event-stream')) {
+      final = JSON.parse(pending) as AIProcessResponse;
+      text = final.ai_response.data.attributes.text_content || '';
+      handlers.onToken(text);
+    } else if (pending.trim()) {
+      handleEvent(pending);
+    }
+
+    const finalResponse = final as AIProcessResponse | null;
+    if (finalResponse && !text) {
+      text = finalResponse.ai_response.data.attributes.text_content || '';
+    }
+
+    return { text, response: finalResponse };
+  }
+
   // --------------------------------------------------------------------------
   // PUBLIC METHODS
   // --------------------------------------------------------------------------
@@ -132,6 +224,18 @@ export class APIService {
     }
   }
 
+  async processMessageWithAIStream(token: string, conversationId: string, data: MessageCreateRequest, handlers: AIStreamHandlers): Promise<AIStreamResult> {
+    try {
+      return await this.streamProcessWithAI(token, conversationId, { message: data }, handlers);
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        throw error;
+      }
+      console.error('Failed to stream message with AI:', error);
+      throw new Error(`Failed to stream message with AI: ${error}`);
+    }
+  }
+
   async processExistingMessageWithAI(token: string, conversationId: string, messageId: string): Promise<AIProcessResponse> {
     try {
       const response: AxiosResponse<AIProcessResponse> = await axios.post(
@@ -146,6 +250,32 @@ export class APIService {
     }
   }
 
+  async getConversations(token: string): Promise<ConversationsResponse> {
+    try {
+      const response: AxiosResponse<ConversationsResponse> = await axios.get(
+        `${this.baseUrl}/conversations`,
+        { headers: this.getAuthHeaders(token) }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get conversations:', error);
+      throw new Error(`Failed to get conversations: ${error}`);
+    }
+  }
+
+  async getConversationMessages(token: string, conversationId: string): Promise<MessagesResponse> {
+    try {
+      const response: AxiosResponse<MessagesResponse> = await axios.get(
+        `${this.baseUrl}/conversations/${conversationId}/messages`,
+        { headers: this.getAuthHeaders(token) }
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Failed to get conversation messages:', error);
+      throw new Error(`Failed to get conversation messages: ${error}`);
+    }
+  }
+
   async returnCurrentUser(token: string): Promise<UserResponse> {
     try {
       const response: AxiosResponse<UserResponse> = await axios.get(
@@ -160,4 +290,4 @@ export class APIService {
   }
 }
 
-export type { ConversationResponse, MessageResponse, MessageCreateRequest, ConversationCreateRequest, AIProcessResponse }; 
\ No newline at end of file
+export type { ConversationResponse, ConversationsResponse, MessageResponse, MessagesResponse, MessageCreateRequest, ConversationCreateRequest, AIProcessResponse, AIStreamHandlers, AIStreamResult }; 
\ No newline at end of file
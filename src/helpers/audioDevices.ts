@@ -0,0 +1,57 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { InputDevice, MonitorSource } from '../shared/audioDeviceTypes';
+import { listInputSources, listMonitorSources } from './linuxAudioDevices';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// AUDIO DEVICES
+// ============================================================================
+//
+// Enumerates the devices the main-process recorder can use. Microphone ids
+// are what sox takes as AUDIODEV on each platform. Only Linux can pick which
+// output is recorded as system audio; SystemAudioDump on macOS always records
+// everything that plays.
+
+const COMMAND_TIMEOUT_MS = 5000;
+
+export async function listInputDevices(platform: NodeJS.Platform = process.platform): Promise<InputDevice[]> {
+  try {
+    if (platform === 'linux') return await listInputSources();
+    if (platform === 'darwin') return await listCoreAudioInputs();
+  } catch (error) {
+    console.warn('⚠️ Could not list microphones:', error instanceof Error ? error.message : String(error));
+  }
+  return [];
+}
+
+export async function listOutputDevices(platform: NodeJS.Platform = process.platform): Promise<MonitorSource[]> {
+  if (platform !== 'linux') return [];
+
+  try {
+    return await listMonitorSources();
+  } catch (error) {
+    console.warn('⚠️ Could not list audio outputs:', error instanceof Error ? error.message : String(error));
+    return [];
+  }
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+// sox's coreaudio driver opens devices by name
+async function listCoreAudioInputs(): Promise<InputDevice[]> {
+  const { stdout } = await execFileAsync('system_profiler', ['SPAudioDataType', '-json'], { timeout: COMMAND_TIMEOUT_MS });
+  const devices: any[] = JSON.parse(stdout).SPAudioDataType?.[0]?._items ?? [];
+
+  return devices
+    .filter(device => Number(device.coreaudio_device_input) > 0)
+    .map(device => ({
+      id: device._name,
+      label: device._name,
+      isDefault: device.coreaudio_default_audio_input_device === 'spaudio_yes',
+    }))
+    .sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
@@ -0,0 +1,108 @@
+import { spawn } from 'child_process';
+import { AudioUploadFormat } from '../shared/audioUploadTypes';
+
+// ============================================================================
+// AUDIO ENCODER
+// ============================================================================
+//
+// Compresses recorded WAV for upload. Like the rest of the audio pipeline it
+// shells out to command-line tools: sox writes FLAC and opusenc (opus-tools)
+// writes Opus in Ogg. A format whose tool is missing is simply not offered.
+
+interface EncoderCommand {
+  program: string;
+  // Arguments that read WAV on stdin and write the encoded file to stdout
+  args: string[];
+  // Arguments that succeed when the tool is installed with this format
+  probeArgs: string[];
+}
+
+const ENCODERS: Record<Exclude<AudioUploadFormat, 'wav'>, EncoderCommand> = {
+  // Speech at 32 kbit/s is transparent enough and about 1/8 of 16-bit PCM
+  opus: {
+    program: 'opusenc',
+    args: ['--quiet', '--bitrate', '32', '-', '-'],
+    probeArgs: ['--version'],
+  },
+  flac: {
+    program: 'sox',
+    args: ['-t', 'wav', '-', '-t', 'flac', '-C', '8', '-'],
+    // Only succeeds when sox was built with FLAC support
+    probeArgs: ['-n', '-t', 'flac', '-', 'trim', '0', '0'],
+  },
+};
+
+const ENCODE_TIMEOUT_MS = 120000;
+
+const availability = new Map<AudioUploadFormat, Promise<boolean>>();
+
+/**
+ * Whether this machine can produce the format. Checked once per format.
+ */
+export function isEncoderAvailable(format: AudioUploadFormat): Promise<boolean> {
+  if (format === 'wav') return Promise.resolve(true);
+
+  if (!availability.has(format)) {
+    const { program, probeArgs } = ENCODERS[format];
+    availability.set(format, run(program, probeArgs, Buffer.alloc(0)).then(
+      () => true,
+      (error) => {
+        console.log(`ℹ️ ${format} encoding unavailable: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+      }
+    ));
+  }
+  return availability.get(format)!;
+}
+
+/**
+ * Encodes a WAV file into the given format; WAV is returned as is.
+ * @throws when the encoder is missing or fails
+ */
+export async function encodeAudio(wavBuffer: Buffer, format: AudioUploadFormat): Promise<Buffer> {
+  if (format === 'wav') return wavBuffer;
+
+  const { program, args } = ENCODERS[format];
+  const started = Date.now();
+  const encoded = await run(program, args, wavBuffer);
+  if (encoded.length === 0) {
+    throw new Error(`${program} produced no ${format} output`);
+  }
+
+  console.log(`🗜️ Encoded ${format}: ${wavBuffer.length} → ${encoded.length} bytes (${Math.round(100 * encoded.length / wavBuffer.length)}%) in ${Date.now() - started}ms`);
+  return encoded;
+}
+
+function run(program: string, args: string[], input: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(program, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+    const output: Buffer[] = [];
+    let stderr = '';
+
+    const timer = setTimeout(() => {
+      child.kill();
+      reject(new Error(`${program} timed out`));
+    }, ENCODE_TIMEOUT_MS);
+
+    child.stdout.on('data', (data: Buffer) => output.push(data));
+    child.stderr.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(output));
+      } else {
+        reject(new Error(`${program} exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+
+    // The encoder may exit before reading everything, e.g. on bad input
+    child.stdin.on('error', () => {});
+    child.stdin.end(input);
+  });
+}
@@ -0,0 +1,352 @@
+import {
+  AudioLevels,
+  AudioProcessingSettings,
+  DEFAULT_AUDIO_PROCESSING,
+  LevelMeter,
+} from '../shared/audioProcessingTypes';
+
+// ============================================================================
+// AUDIO PROCESSING CHAIN
+// ============================================================================
+//
+// Cleans up the microphone before it is mixed and uploaded: a high-pass
+// filter takes out rumble and fan hum, spectral subtraction removes steady
+// background noise, automatic gain control evens out the level and a limiter
+// keeps peaks from clipping. Every stage can be switched off on its own, and
+// the level after each one is metered so its effect can be checked.
+
+// Reported for digital silence instead of -Infinity
+const MIN_LEVEL_DB = -100;
+
+const HIGH_PASS_HZ = 80;
+
+const NOISE_FRAME = 512;
+// How far above the noise estimate a bin is pushed down
+const OVER_SUBTRACTION = 2;
+// Attenuation never goes below this (-20 dB), which keeps artifacts down
+const NOISE_GAIN_FLOOR = 0.1;
+// Per-frame rise of the noise floor estimate (about 1.3 dB/s at 16 kHz),
+// so it follows a noise that gets louder without chasing speech
+const NOISE_FLOOR_RISE = 1.005;
+// The estimate never rests below about -100 dBFS per bin, or a multiplicative
+// rise could never leave a floor of zero
+const NOISE_FLOOR_MIN_POWER = 1e-8;
+
+const AGC_BLOCK_MS = 10;
+const AGC_TARGET_RMS = 0.1; // -20 dBFS
+// Blocks below this (-50 dBFS), or not 10 dB above the background, are
+// pauses and don't steer the gain
+const AGC_GATE_RMS = 0.003;
+const AGC_SPEECH_OVER_FLOOR = 3.16;
+const AGC_FLOOR_RISE = 1.002;
+const AGC_MIN_GAIN = 0.25;
+const AGC_MAX_GAIN = 16;
+// Turning down is quicker than turning up, so loud words aren't blasted
+const AGC_ATTACK = 0.2;
+const AGC_RELEASE = 0.02;
+
+const LIMITER_CEILING = 0.89; // -1 dBFS
+const LIMITER_RELEASE_MS = 50;
+
+export function measureLevel(samples: Float32Array): LevelMeter {
+  let sumOfSquares = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumOfSquares += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const rms = samples.length > 0 ? Math.sqrt(sumOfSquares / samples.length) : 0;
+  return { rmsDb: toDecibels(rms), peakDb: toDecibels(peak) };
+}
+
+export class AudioProcessingChain {
+  private settings: AudioProcessingSettings;
+
+  constructor(private sampleRate: number, settings: AudioProcessingSettings = DEFAULT_AUDIO_PROCESSING) {
+    this.settings = { ...settings };
+  }
+
+  setSettings(changes: Partial<AudioProcessingSettings>): void {
+    this.settings = { ...this.settings, ...changes };
+  }
+
+  getSettings(): AudioProcessingSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Runs a whole recording through the enabled stages. Stages start fresh
+   * on every call, so recordings don't influence each other.
+   */
+  process(samples: Float32Array): { output: Float32Array; levels: AudioLevels } {
+    let output = samples;
+    const levels: AudioLevels = { input: measureLevel(samples) };
+
+    if (this.settings.highPass) {
+      output = new HighPassFilter(this.sampleRate, HIGH_PASS_HZ).process(output);
+      levels.highPass = measureLevel(output);
+    }
+    if (this.settings.noiseSuppression) {
+      output = new NoiseSuppressor().process(output);
+      levels.noiseSuppression = measureLevel(output);
+    }
+    if (this.settings.autoGain) {
+      output = new AutoGainControl(this.sampleRate).process(output);
+      levels.autoGain = measureLevel(output);
+    }
+    if (this.settings.limiter) {
+      output = new Limiter(this.sampleRate).process(output);
+      levels.limiter = measureLevel(output);
+    }
+
+    return { output, levels };
+  }
+
+  /**
+   * Only the limiter, for signals that were summed after processing.
+   */
+  limit(samples: Float32Array): Float32Array {
+    return this.settings.limiter ? new Limiter(this.sampleRate).process(samples) : samples;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// STAGES
+// ----------------------------------------------------------------------------
+
+// Second-order Butterworth high-pass (RBJ cookbook biquad)
+class HighPassFilter {
+  private b0: number;
+  private b1: number;
+  private b2: number;
+  private a1: number;
+  private a2: number;
+
+  constructor(sampleRate: number, cutoffHz: number) {
+    const omega = 2 * Math.PI * cutoffHz / sampleRate;
+    const alpha = Math.sin(omega) / (2 * Math.SQRT1_2);
+    const cos = Math.cos(omega);
+    const a0 = 1 + alpha;
+    this.b0 = (1 + cos) / 2 / a0;
+    this.b1 = -(1 + cos) / a0;
+    this.b2 = (1 + cos) / 2 / a0;
+    this.a1 = -2 * cos / a0;
+    this.a2 = (1 - alpha) / a0;
+  }
+
+  process(samples: Float32Array): Float32Array {
+    const output = new Float32Array(samples.length);
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const y = this.b0 * x + this.b1 * x1 + this.b2 * x2 - this.a1 * y1 - this.a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      output[i] = y;
+    }
+    return output;
+  }
+}
+
+// Spectral subtraction against a minimum-tracking noise floor, in 50%
+// overlapping frames with a square-root Hann window on both sides
+class NoiseSuppressor {
+  private window: Float64Array;
+  private noise: Float64Array | null = null;
+  private smoothedPower: Float64Array | null = null;
+  private previousGain = new Float64Array(NOISE_FRAME / 2 + 1).fill(1);
+
+  constructor() {
+    this.window = new Float64Array(NOISE_FRAME);
+    for (let i = 0; i < NOISE_FRAME; i++) {
+      this.window[i] = Math.sqrt(0.5 - 0.5 * Math.cos(2 * Math.PI * i / NOISE_FRAME));
+    }
+  }
+
+  process(samples: Float32Array): Float32Array {
+    const hop = NOISE_FRAME / 2;
+    const bins = NOISE_FRAME / 2 + 1;
+    const output = new Float32Array(samples.length);
+    const real = new Float64Array(NOISE_FRAME);
+    const imaginary = new Float64Array(NOISE_FRAME);
+
+    // Start half a frame early so the first samples get full overlap too
+    for (let start = -hop; start < samples.length; start += hop) {
+      for (let i = 0; i < NOISE_FRAME; i++) {
+        const index = start + i;
+        real[i] = index >= 0 && index < samples.length ? samples[index] * this.window[i] : 0;
+        imaginary[i] = 0;
+      }
+      fft(real, imaginary, false);
+
+      this.updateNoiseFloor(real, imaginary);
+
+      for (let k = 0; k < bins; k++) {
+        const power = real[k] * real[k] + imaginary[k] * imaginary[k];
+        const raw = power > 0 && this.noise ? 1 - OVER_SUBTRACTION * this.noise[k] / power : 1;
+        // Smoothing over time keeps isolated bins from flickering ("musical noise")
+        const gain = Math.max(NOISE_GAIN_FLOOR, 0.5 * this.previousGain[k] + 0.5 * Math.max(0, raw));
+        this.previousGain[k] = gain;
+
+        real[k] *= gain;
+        imaginary[k] *= gain;
+        if (k > 0 && k < NOISE_FRAME / 2) {
+          real[NOISE_FRAME - k] = real[k];
+          imaginary[NOISE_FRAME - k] = -imaginary[k];
+        }
+      }
+      fft(real, imaginary, true);
+
+      for (let i = 0; i < NOISE_FRAME; i++) {
+        const index = start + i;
+        if (index >= 0 && index < samples.length) {
+          output[index] += real[i] * this.window[i];
+        }
+      }
+    }
+
+    return output;
+  }
+
+  private updateNoiseFloor(real: Float64Array, imaginary: Float64Array): void {
+    const bins = NOISE_FRAME / 2 + 1;
+    if (!this.smoothedPower || !this.noise) {
+      const power = new Float64Array(bins);
+      let total = 0;
+      for (let k = 0; k < bins; k++) {
+        power[k] = real[k] * real[k] + imaginary[k] * imaginary[k];
+        total += power[k];
+      }
+      // Digital silence before the mic opens says nothing about the room;
+      // seed from the first frame that has any sound, and suppress nothing until then
+      if (total === 0) return;
+      this.smoothedPower = power;
+      this.noise = Float64Array.from(power);
+      return;
+    }
+
+    for (let k = 0; k < bins; k++) {
+      const power = real[k] * real[k] + imaginary[k] * imaginary[k];
+      this.smoothedPower[k] = 0.8 * this.smoothedPower[k] + 0.2 * power;
+      this.noise[k] = Math.min(this.smoothedPower[k], Math.max(this.noise[k], NOISE_FLOOR_MIN_POWER) * NOISE_FLOOR_RISE);
+    }
+  }
+}
+
+class AutoGainControl {
+  private blockSize: number;
+
+  constructor(sampleRate: number) {
+    this.blockSize = Math.max(1, Math.round(sampleRate * AGC_BLOCK_MS / 1000));
+  }
+
+  process(samples: Float32Array): Float32Array {
+    const output = new Float32Array(samples.length);
+    let gain = 1;
+    let floor = Infinity;
+
+    for (let start = 0; start < samples.length; start += this.blockSize) {
+      const end = Math.min(start + this.blockSize, samples.length);
+      let sumOfSquares = 0;
+      for (let i = start; i < end; i++) {
+        sumOfSquares += samples[i] * samples[i];
+      }
+      const rms = Math.sqrt(sumOfSquares / (end - start));
+      floor = Math.min(rms, floor * AGC_FLOOR_RISE);
+
+      let nextGain = gain;
+      if (rms > Math.max(AGC_GATE_RMS, floor * AGC_SPEECH_OVER_FLOOR)) {
+        const desired = Math.min(AGC_MAX_GAIN, Math.max(AGC_MIN_GAIN, AGC_TARGET_RMS / rms));
+        nextGain = gain + (desired - gain) * (desired < gain ? AGC_ATTACK : AGC_RELEASE);
+      }
+
+      // Ramp across the block to avoid zipper noise
+      for (let i = start; i < end; i++) {
+        const progress = (i - start + 1) / (end - start);
+        output[i] = samples[i] * (gain + (nextGain - gain) * progress);
+      }
+      gain = nextGain;
+    }
+
+    return output;
+  }
+}
+
+// Peak limiter with instant attack, so nothing passes the ceiling
+class Limiter {
+  private releaseCoefficient: number;
+
+  constructor(sampleRate: number) {
+    this.releaseCoefficient = 1 - Math.exp(-1 / (sampleRate * LIMITER_RELEASE_MS / 1000));
+  }
+
+  process(samples: Float32Array): Float32Array {
+    const output = new Float32Array(samples.length);
+    let gain = 1;
+
+    for (let i = 0; i < samples.length; i++) {
+      const magnitude = Math.abs(samples[i]);
+      const required = magnitude > LIMITER_CEILING ? LIMITER_CEILING / magnitude : 1;
+      gain = Math.min(required, gain + (1 - gain) * this.releaseCoefficient);
+      output[i] = samples[i] * gain;
+    }
+
+    return output;
+  }
+}
+
+// ----------------------------------------------------------------------------
+// HELPERS
+// ----------------------------------------------------------------------------
+
+function toDecibels(amplitude: number): number {
+  return amplitude > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(amplitude)) : MIN_LEVEL_DB;
+}
+
+// In-place iterative radix-2 FFT; the inverse is scaled by 1/n
+function fft(real: Float64Array, imaginary: Float64Array, inverse: boolean): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imaginary[i], imaginary[j]] = [imaginary[j], imaginary[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / size;
+    const stepReal = Math.cos(angle);
+    const stepImaginary = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let twiddleReal = 1;
+      let twiddleImaginary = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddReal = real[odd] * twiddleReal - imaginary[odd] * twiddleImaginary;
+        const oddImaginary = real[odd] * twiddleImaginary + imaginary[odd] * twiddleReal;
+        real[odd] = real[even] - oddReal;
+        imaginary[odd] = imaginary[even] - oddImaginary;
+        real[even] += oddReal;
+        imaginary[even] += oddImaginary;
+
+        const nextReal = twiddleReal * stepReal - twiddleImaginary * stepImaginary;
+        twiddleImaginary = twiddleReal * stepImaginary + twiddleImaginary * stepReal;
+        twiddleReal = nextReal;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      real[i] /= n;
+      imaginary[i] /= n;
+    }
+  }
+}
@@ -1,40 +1,90 @@
 import { BrowserWindow } from 'electron';
-import * as recordModule from 'node-record-lpcm16';
-import * as fs from 'fs';
-import * as path from 'path';
-import * as os from 'os';
-import { spawn } from 'child_process';
+import { TranscriptSource } from '../shared/transcriptionTypes';
+import { AudioLevels, AudioProcessingSettings } from '../shared/audioProcessingTypes';
+import { AudioProcessingChain } from './audioProcessingChain';
+import { cancelEchoInWorker } from './echoCancellerWorker';
+import { AudioFormat, CANONICAL_AUDIO_FORMAT, decodePcm, encodePcm, normalizeAudio, Resampler } from '../shared/audioFormat';
+import { AUDIO_UPLOAD_CONTENT_TYPES, AUDIO_UPLOAD_FORMATS, AudioUploadFormat } from '../shared/audioUploadTypes';
+import { isWav, parseWav, writeWav } from './wavFile';
+import { encodeAudio, isEncoderAvailable } from './audioEncoder';
+import { MultipartUploader } from './multipartUploader';
+import { AudioSource, createSystemAudioSource, MicrophoneSource } from './audioSources';
+import { AudioDeviceSelection } from '../shared/audioDeviceTypes';
+import { LiveAudioLevels } from '../shared/audioLevelTypes';
+import { LiveLevelMeter } from './liveLevelMeter';
+import { DEFAULT_VOICE_ACTIVITY, SpeechSegment, VoiceActivitySettings } from '../shared/voiceActivityTypes';
+import { formatSegmentTime, trimSilence } from './voiceActivity';
 
 // ============================================================================
 // AUDIO SERVICE
 // ============================================================================
 
+// What the presign endpoint handed out for one upload
+interface AudioUploadTarget {
+  uploadUrl: string;
+  filename: string;
+  format: AudioUploadFormat;
+}
+
 export interface AudioResult {
   buffer: Buffer;
   messageId: string;
   audioUrl: string;
 }
 
+// Receives raw 16 kHz mono PCM as it is recorded, e.g. for live transcription
+export type AudioChunkListener = (source: TranscriptSource, chunk: Buffer) => void;
+
+// Receives the live track levels while recording, for the recording HUD
+export type AudioLevelListener = (levels: LiveAudioLevels) => void;
+
+// Told when system audio must be captured elsewhere and sent in, and when to stop
+export type SystemAudioRequestListener = (wanted: boolean) => void;
+
+// Often enough for a meter to look live without flooding IPC
+const LEVEL_UPDATE_INTERVAL_MS = 200;
+
 export class AudioService {
   private readonly baseUrl = 'https://contextor-api-c1cb32489441.herokuapp.com';
-  private recordingInstance: any = null;
   private audioChunks: Buffer[] = [];
   private isRecording: boolean = false;
-  private readonly sampleRate = 16000;
-  private readonly channels = 1;
-  private readonly bitsPerSample = 16;
+  private readonly sampleRate = CANONICAL_AUDIO_FORMAT.sampleRate;
+  private readonly channels = CANONICAL_AUDIO_FORMAT.channels;
+  private readonly bitsPerSample = CANONICAL_AUDIO_FORMAT.bitsPerSample;
   
   // Enhanced system audio recording properties
-  private systemAudioStream: any = null;
+  private isMicrophoneActive = false;
+  private isSystemAudioActive = false; // Accepting system audio, from the source or over IPC
   private systemAudioChunks: Buffer[] = [];
   private microphoneAudioChunks: Buffer[] = [];
+  private resamplers: Partial<Record<TranscriptSource, Resampler>> = {}; // For tracks captured at another rate
+  private chunkListener: AudioChunkListener | null = null;
+  private levelListener: AudioLevelListener | null = null;
+  private systemAudioRequestListener: SystemAudioRequestListener | null = null;
+  private levelMeters: Partial<Record<TranscriptSource, LiveLevelMeter>> = {};
+  private levelTimer: NodeJS.Timeout | null = null;
+  private recordingStartedAt = 0;
   
   // Configuration options
   private enableSystemAudioRecording = true; // Can be toggled to avoid echo
   private enableEchoCancellation = true; // Enable echo cancellation when mixing
-  private echoCancellationSensitivity: 'low' | 'medium' | 'high' = 'medium'; // Sensitivity level
-  private audioScenario: 'auto' | 'earphones' | 'speakers' = 'auto'; // Manual scenario override
-  private voiceRecordingMode: 'headphones' | 'speakers' | 'auto' = 'auto'; // Voice recording scenario
+  private echoCancellationSensitivity: 'low' | 'medium' | 'high' = 'medium'; // How fast the canceller adapts
+  private audioScenario: 'auto' | 'earphones' | 'speakers' = 'auto'; // Earphones skips echo cancellation
+  private voiceRecordingMode: 'headphones' | 'speakers' | 'auto' = 'auto'; // Headphones skips echo cancellation
+  private channelLayout: 'mixed' | 'stereo' = 'mixed'; // Stereo keeps mic on the left, system audio on the right
+  private processingChain = new AudioProcessingChain(this.sampleRate); // Mic clean-up before mixing
+  private lastLevels: AudioLevels | null = null; // Meter readings from the last recording
+  private uploadFormat: AudioUploadFormat = 'opus'; // Preferred upload encoding, 'wav' for none
+  private microphoneDevice: AudioDeviceSelection | null = null; // null records the default input
+  private systemOutputDevice: AudioDeviceSelection | null = null; // null follows the default output
+  private voiceActivity: VoiceActivitySettings = { ...DEFAULT_VOICE_ACTIVITY }; // Silence trimming after recording
+  private lastSegments: SpeechSegment[] | null = null; // Utterances in the last recording, null when not trimmed
+
+  constructor(
+    private uploader: MultipartUploader = new MultipartUploader(),
+    private microphoneSource: AudioSource = new MicrophoneSource(),
+    private systemAudioSource: AudioSource | null = createSystemAudioSource()
+  ) {}
 
   // --------------------------------------------------------------------------
   // PUBLIC METHODS
@@ -66,13 +116,87 @@ export class AudioService {
     console.log(`🔧 Voice recording mode set to: ${mode}`);
   }
 
-  getConfiguration(): { systemAudioEnabled: boolean; echoCancellationEnabled: boolean; echoCancellationSensitivity: string; audioScenario: string; voiceRecordingMode: string } {
+  setChannelLayout(layout: 'mixed' | 'stereo'): void {
+    this.channelLayout = layout;
+    console.log(`🔧 Channel layout set to: ${layout}`);
+  }
+
+  setAudioProcessing(changes: Partial<AudioProcessingSettings>): void {
+    this.processingChain.setSettings(changes);
+    console.log('🔧 Audio processing:', this.processingChain.getSettings());
+  }
+
+  setUploadFormat(format: AudioUploadFormat): void {
+    this.uploadFormat = format;
+    console.log(`🔧 Upload format set to: ${format}`);
+  }
+
+  setMicrophoneDevice(device: AudioDeviceSelection | null): void {
+    this.microphoneDevice = device;
+    this.microphoneSource.setDevice?.(device?.id ?? null);
+    console.log(`🔧 Microphone set to: ${device?.label ?? 'system default'}`);
+  }
+
+  setSystemOutputDevice(device: AudioDeviceSelection | null): void {
+    this.systemOutputDevice = device;
+    this.systemAudioSource?.setDevice?.(device?.id ?? null);
+    console.log(`🔧 System audio output set to: ${device?.label ?? 'system default'}`);
+  }
+
+  setVoiceActivity(settings: VoiceActivitySettings): void {
+    this.voiceActivity = { ...settings };
+    console.log('🔧 Voice activity:', this.voiceActivity);
+  }
+
+  getLevels(): AudioLevels | null {
+    return this.lastLevels;
+  }
+
+  getSegments(): SpeechSegment[] | null {
+    return this.lastSegments;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  setChunkListener(listener: AudioChunkListener | null): void {
+    this.chunkListener = listener;
+  }
+
+  setLevelListener(listener: AudioLevelListener | null): void {
+    this.levelListener = listener;
+  }
+
+  setSystemAudioRequestListener(listener: SystemAudioRequestListener | null): void {
+    this.systemAudioRequestListener = listener;
+  }
+
+  /**
+   * Accepts system audio captured elsewhere (16-bit mono PCM) while recording,
+   * for platforms without a native system audio source. Chunks from the
+   * source itself take the same path.
+   */
+  appendSystemAudioChunk(chunk: Buffer, sampleRate: number = this.sampleRate): void {
+    if (!this.isRecording || !this.isSystemAudioActive) return;
+    this.appendChunk('system', chunk, sampleRate);
+  }
+
+  getConfiguration(): { systemAudioEnabled: boolean; echoCancellationEnabled: boolean; echoCancellationSensitivity: string; audioScenario: string; voiceRecordingMode: string; channelLayout: string; highPassEnabled: boolean; noiseSuppressionEnabled: boolean; autoGainControlEnabled: boolean; limiterEnabled: boolean; microphoneDevice: AudioDeviceSelection | null; systemOutputDevice: AudioDeviceSelection | null } {
+    const processing = this.processingChain.getSettings();
     return {
       systemAudioEnabled: this.enableSystemAudioRecording,
       echoCancellationEnabled: this.enableEchoCancellation,
       echoCancellationSensitivity: this.echoCancellationSensitivity,
       audioScenario: this.audioScenario,
-      voiceRecordingMode: this.voiceRecordingMode
+      voiceRecordingMode: this.voiceRecordingMode,
+      channelLayout: this.channelLayout,
+      highPassEnabled: processing.highPass,
+      noiseSuppressionEnabled: processing.noiseSuppression,
+      autoGainControlEnabled: processing.autoGain,
+      limiterEnabled: processing.limiter,
+      microphoneDevice: this.microphoneDevice,
+      systemOutputDevice: this.systemOutputDevice
     };
   }
 
@@ -85,6 +209,13 @@ export class AudioService {
     this.audioChunks = [];
     this.microphoneAudioChunks = [];
     this.systemAudioChunks = [];
+    this.resamplers = {};
+    this.lastSegments = null;
+    this.recordingStartedAt = Date.now();
+    this.levelMeters = {
+      microphone: new LiveLevelMeter(this.recordingStartedAt),
+      system: new LiveLevelMeter(this.recordingStartedAt),
+    };
     this.isRecording = true;
 
     try {
@@ -101,6 +232,7 @@ export class AudioService {
         console.log('⚠️ System audio recording disabled - will only record microphone');
       }
 
+      this.startLevelUpdates();
       console.log('Combined audio recording started successfully');
     } catch (error) {
       console.error('Failed to start recording:', error);
@@ -117,6 +249,7 @@ export class AudioService {
 
     try {
       console.log('Stopping combined audio recording...');
+      this.stopLevelUpdates();
       
       // Stop microphone recording
       const microphoneBuffer = await this.stopMicrophoneRecording();
@@ -132,13 +265,19 @@ export class AudioService {
       }
 
       // Combine microphone and system audio
-      const combinedBuffer = await this.combineAudioBuffers(microphoneBuffer, systemAudioBuffer);
+      const mixedBuffer = await this.combineAudioBuffers(microphoneBuffer, systemAudioBuffer);
       
-      if (!combinedBuffer || combinedBuffer.length === 0) {
+      if (!mixedBuffer || mixedBuffer.length === 0) {
         console.log('No combined audio data available');
         return null;
       }
 
+      // Trimmed before the length check, so a muted mic counts as no recording
+      const combinedBuffer = this.trimRecording(mixedBuffer);
+      if (!combinedBuffer) {
+        return null;
+      }
+
       // Check minimum recording duration (at least 0.5 seconds)
       const minBytes = this.sampleRate * this.channels * this.bitsPerSample / 8 * 0.5;
       if (combinedBuffer.length < minBytes) {
@@ -168,41 +307,12 @@ export class AudioService {
         bitsPerSample: this.bitsPerSample
       });
 
-      // Check if sox is available
-      await this.checkSoxAvailability();
-
-      // Create a new recording instance with better configuration
-      this.recordingInstance = recordModule.record({
-        sampleRateHertz: this.sampleRate,
-        threshold: 0,
-        verbose: true, // Enable verbose logging for debugging
-        recordProgram: 'sox',
-        silence: '1.0',
-      });
-
-      // Listen to the stream for audio data
-      this.recordingInstance._stream.on('data', (chunk: Buffer) => {
+      await this.microphoneSource.start((chunk, sampleRate) => {
         if (this.isRecording) {
-          this.microphoneAudioChunks.push(chunk);
-          console.log(`🎤 Microphone chunk received: ${chunk.length} bytes`);
+          this.appendChunk('microphone', chunk, sampleRate);
         }
       });
-
-      this.recordingInstance._stream.on('error', (error: Error) => {
-        console.error('❌ Microphone recording error:', error);
-        console.error('Error details:', {
-          name: error.name,
-          message: error.message,
-          stack: error.stack
-        });
-      });
-
-      this.recordingInstance._stream.on('end', () => {
-        console.log('🔚 Microphone recording stream ended');
-      });
-
-      // Start the recording
-      this.recordingInstance.start();
+      this.isMicrophoneActive = true;
       console.log('✅ Microphone recording started successfully');
     } catch (error) {
       console.error('❌ Failed to start microphone recording:', error);
@@ -227,37 +337,24 @@ export class AudioService {
     }
   }
 
-  private async checkSoxAvailability(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const { spawn } = require('child_process');
-      const soxTest = spawn('sox', ['--version']);
-      
-      soxTest.on('error', (error: Error) => {
-        console.error('❌ Sox not available:', error.message);
-        reject(new Error('Sox audio tool not found. Please install sox: brew install sox (macOS) or apt-get install sox (Linux)'));
-      });
-      
-      soxTest.on('close', (code: number) => {
-        if (code === 0) {
-          console.log('✅ Sox is available');
-          resolve();
-        } else {
-          console.error('❌ Sox test failed with code:', code);
-          reject(new Error('Sox audio tool test failed. Please check your sox installation'));
-        }
-      });
-    });
+  private notifyChunk(source: TranscriptSource, chunk: Buffer): void {
+    try {
+      this.chunkListener?.(source, chunk);
+    } catch (error) {
+      console.warn(`⚠️ Audio chunk listener failed for ${source} audio:`, error);
+    }
   }
 
   private async stopMicrophoneRecording(): Promise<Buffer | null> {
-    if (!this.recordingInstance) {
+    if (!this.isMicrophoneActive) {
       return null;
     }
 
     try {
       // Stop the recording
-      this.recordingInstance.stop();
-      this.recordingInstance = null;
+      await this.microphoneSource.stop();
+      this.isMicrophoneActive = false;
+      this.flushResampler('microphone');
 
       // Combine all microphone audio chunks
       const rawMicrophoneBuffer = Buffer.concat(this.microphoneAudioChunks);
@@ -268,8 +365,7 @@ export class AudioService {
         return null;
       }
 
-      // Convert raw PCM to WAV format using sox
-      const wavBuffer = await this.convertPcmToWavWithSox(rawMicrophoneBuffer);
+      const wavBuffer = writeWav(rawMicrophoneBuffer, CANONICAL_AUDIO_FORMAT);
       console.log('Microphone recording stopped, buffer size:', wavBuffer.length);
       return wavBuffer;
     } catch (error) {
@@ -283,17 +379,19 @@ export class AudioService {
   // --------------------------------------------------------------------------
 
   private async startSystemAudioRecording(): Promise<void> {
+    // Chunks streamed over IPC are accepted even when the source fails
+    this.isSystemAudioActive = true;
+
+    if (!this.systemAudioSource) {
+      console.log('ℹ️ No native system audio source on this platform, asking the renderer for it');
+      this.systemAudioRequestListener?.(true);
+      return;
+    }
+
     try {
-      console.log('🔊 Starting system audio capture...');
-      
-      // Check if electron-audio-loopback is available
-      await this.checkAudioLoopbackAvailability();
-      
-      // For now, system audio capture is handled in the renderer process
-      // The main process just tracks that we want system audio
-      this.systemAudioStream = { isRendererHandled: true };
-      
-      console.log('ℹ️ System audio capture will be handled in renderer process');
+      console.log(`🔊 Starting system audio capture from ${this.systemAudioSource.name}...`);
+      await this.systemAudioSource.start((chunk, sampleRate) => this.appendSystemAudioChunk(chunk, sampleRate));
+      console.log('✅ System audio capture started successfully');
     } catch (error) {
       console.error('❌ Failed to start system audio recording:', error);
       console.error('Error details:', {
@@ -307,35 +405,141 @@ export class AudioService {
     }
   }
 
-  private async checkAudioLoopbackAvailability(): Promise<void> {
+  private async stopSystemAudioRecording(): Promise<Buffer | null> {
     try {
-      const audioLoopback = require('electron-audio-loopback');
-      console.log('✅ electron-audio-loopback is available');
+      if (!this.isSystemAudioActive) {
+        return null;
+      }
+
+      // Let the source deliver what it still has buffered before closing the track
+      await this.systemAudioSource?.stop();
+      if (!this.systemAudioSource) this.systemAudioRequestListener?.(false);
+      this.isSystemAudioActive = false;
+      this.flushResampler('system');
+
+      const systemPcm = Buffer.concat(this.systemAudioChunks);
+      this.systemAudioChunks = [];
+      console.log(`ℹ️ System audio recording stopped: ${systemPcm.length} bytes`);
+
+      return systemPcm.length > 0 ? writeWav(systemPcm, CANONICAL_AUDIO_FORMAT) : null;
     } catch (error) {
-      console.error('❌ electron-audio-loopback not available:', error);
-      throw new Error('electron-audio-loopback not installed. Please run: npm install electron-audio-loopback');
+      console.error('Failed to stop system audio recording:', error);
+      if (!this.systemAudioSource) this.systemAudioRequestListener?.(false);
+      this.isSystemAudioActive = false;
+      this.systemAudioChunks = [];
+      return null;
     }
   }
 
-  private async stopSystemAudioRecording(): Promise<Buffer | null> {
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - CHUNK HANDLING
+  // --------------------------------------------------------------------------
+
+  /**
+   * Stores a chunk of 16-bit mono PCM for a track. Other sample rates are
+   * converted as the chunks arrive, so the stored track and the chunk
+   * listener both get the canonical format.
+   */
+  private appendChunk(source: TranscriptSource, chunk: Buffer, sampleRate: number): void {
+    const resampler = this.resamplers[source];
+    if (resampler || sampleRate !== this.sampleRate) {
+      if (!resampler) {
+        console.log(`🔄 Resampling ${source} audio from ${sampleRate} Hz to ${this.sampleRate} Hz`);
+        this.resamplers[source] = new Resampler(sampleRate, this.sampleRate);
+      } else if (resampler.fromRate !== sampleRate) {
+        console.warn(`⚠️ Dropping ${source} audio chunk at ${sampleRate} Hz, recording is at ${resampler.fromRate} Hz`);
+        return;
+      }
+      const [samples] = decodePcm(chunk, { ...CANONICAL_AUDIO_FORMAT, sampleRate });
+      chunk = this.encodePcmBuffer([this.resamplers[source]!.process(samples)]);
+    }
+
+    this.trackChunks(source).push(chunk);
+    this.levelMeters[source]?.add(decodePcm(chunk, CANONICAL_AUDIO_FORMAT)[0]);
+    this.notifyChunk(source, chunk);
+  }
+
+  // Pushes out the samples a resampler holds back at the end of a track
+  private flushResampler(source: TranscriptSource): void {
+    const resampler = this.resamplers[source];
+    if (!resampler) return;
+    delete this.resamplers[source];
+
+    const tail = this.encodePcmBuffer([resampler.flush()]);
+    if (tail.length > 0) {
+      this.trackChunks(source).push(tail);
+      this.notifyChunk(source, tail);
+    }
+  }
+
+  private trackChunks(source: TranscriptSource): Buffer[] {
+    return source === 'microphone' ? this.microphoneAudioChunks : this.systemAudioChunks;
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - SILENCE TRIMMING
+  // --------------------------------------------------------------------------
+
+  /**
+   * Cuts the silence out of a finished recording and remembers where the
+   * utterances are. Returns null when nothing could be heard; a recording
+   * that cannot be analyzed is kept as it is.
+   */
+  private trimRecording(wav: Buffer): Buffer | null {
+    if (!this.voiceActivity.trimSilence) {
+      return wav;
+    }
+
     try {
-      if (!this.systemAudioStream) {
+      const trimmed = trimSilence(wav, this.voiceActivity.maxPauseSeconds * 1000);
+      if (!trimmed) {
+        console.log('🤫 Nothing audible in the recording, discarding it');
+        this.lastSegments = [];
         return null;
       }
 
-      // For now, system audio is handled in renderer process
-      // The main process doesn't have the actual audio data
-      console.log('ℹ️ System audio recording stopped (handled in renderer)');
-      
-      // Clear the stream reference
-      this.systemAudioStream = null;
-      this.systemAudioChunks = [];
+      this.lastSegments = trimmed.segments;
+      console.log(`✂️ Trimmed recording from ${formatSegmentTime(trimmed.originalMs)} to ${formatSegmentTime(trimmed.trimmedMs)}, ${trimmed.segments.length} utterance(s)`);
+      return trimmed.wav;
+    } catch (error) {
+      console.warn('⚠️ Could not trim silence, keeping the full recording:', error instanceof Error ? error.message : String(error));
+      return wav;
+    }
+  }
 
-      // Return null since we don't have the audio data in main process
-      return null;
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - LIVE LEVELS
+  // --------------------------------------------------------------------------
+
+  private startLevelUpdates(): void {
+    this.stopLevelUpdates();
+    this.levelTimer = setInterval(() => this.emitLevels(true), LEVEL_UPDATE_INTERVAL_MS);
+  }
+
+  // Sends a last update so the HUD knows the recording is over
+  private stopLevelUpdates(): void {
+    if (!this.levelTimer) return;
+    clearInterval(this.levelTimer);
+    this.levelTimer = null;
+    this.emitLevels(false);
+  }
+
+  private emitLevels(recording: boolean): void {
+    if (!this.levelListener) return;
+
+    const now = Date.now();
+    const read = (source: TranscriptSource, active: boolean) =>
+      recording && active ? this.levelMeters[source]?.read(now) ?? null : null;
+
+    try {
+      this.levelListener({
+        recording,
+        elapsedMs: now - this.recordingStartedAt,
+        microphone: read('microphone', this.isMicrophoneActive),
+        system: read('system', this.isSystemAudioActive),
+      });
     } catch (error) {
-      console.error('Failed to stop system audio recording:', error);
-      return null;
+      console.warn('⚠️ Audio level listener failed:', error);
     }
   }
 
@@ -350,33 +554,33 @@ export class AudioService {
       }
 
       if (!microphoneBuffer) {
-        return systemAudioBuffer;
+        return this.encodeRecording([this.decodeToRecordingFormat(systemAudioBuffer!, 'system')]);
       }
 
+      const mic = this.decodeToRecordingFormat(microphoneBuffer, 'microphone');
+
       if (!systemAudioBuffer) {
-        return microphoneBuffer;
+        return this.encodeRecording([this.processMicrophone(mic)]);
       }
 
-      // Both buffers exist - apply voice echo cancellation first, then system audio mixing
-      console.log('🎵 Processing audio with voice echo cancellation and system audio mixing...');
+      // Both buffers exist - remove the system audio the mic picked up, then mix
+      console.log('🎵 Processing audio with echo cancellation and system audio mixing...');
       console.log(`🔧 Voice recording mode: ${this.voiceRecordingMode}, System audio scenario: ${this.audioScenario}`);
       
-      // Extract PCM data from WAV buffers
-      const micPcm = this.extractPcmFromWav(microphoneBuffer);
-      const sysPcm = this.extractPcmFromWav(systemAudioBuffer);
+      const sys = this.decodeToRecordingFormat(systemAudioBuffer, 'system');
       
-      // Step 1: Apply voice echo cancellation
-      const voiceProcessedPcm = this.applyVoiceEchoCancellation(micPcm, sysPcm);
+      // Echo cancellation needs the mic before anything non-linear touches it
+      const voice = this.processMicrophone(this.shouldCancelEcho() ? await this.cancelSystemAudioEcho(mic, sys) : mic);
       
-      // Step 2: Apply system audio echo cancellation (keeping the working solution)
-      const finalPcm = this.enableEchoCancellation 
-        ? this.mixAudioBuffersWithEchoCancellation(voiceProcessedPcm, sysPcm)
-        : this.mixAudioBuffers(voiceProcessedPcm, sysPcm);
+      // Stereo keeps the speakers apart instead of mixing them down
+      if (this.channelLayout === 'stereo') {
+        console.log('✅ Audio processing completed, mic on left and system audio on right channel');
+        return this.encodeRecording([voice, sys]);
+      }
       
-      // Convert back to WAV
-      const finalWav = this.convertPcmToWav(finalPcm);
+      const finalWav = this.encodeRecording([this.mixAudioBuffers(voice, sys)]);
       
-      console.log('✅ Audio processing completed with voice and system echo cancellation');
+      console.log('✅ Audio processing completed');
       return finalWav;
     } catch (error) {
       console.error('Failed to combine audio buffers:', error);
@@ -386,334 +590,76 @@ export class AudioService {
     }
   }
 
-  private extractPcmFromWav(wavBuffer: Buffer): Buffer {
-    // Skip WAV header (44 bytes) and return PCM data
-    return wavBuffer.slice(44);
+  /**
+   * Decodes a track to float samples in the canonical format, so both tracks
+   * line up sample for sample whatever they were captured at.
+   */
+  private decodeToRecordingFormat(wavBuffer: Buffer, label: TranscriptSource): Float32Array {
+    const { format, data } = parseWav(wavBuffer);
+    if (format.sampleRate !== this.sampleRate || format.channels !== this.channels) {
+      console.log(`🔄 Converting ${label} audio from ${this.describeFormat(format)} to ${this.describeFormat(CANONICAL_AUDIO_FORMAT)}`);
+    }
+    const [samples] = normalizeAudio(decodePcm(data, format), format.sampleRate);
+    return samples;
   }
 
-  private mixAudioBuffersWithEchoCancellation(micPcm: Buffer, sysPcm: Buffer): Buffer {
-    // Convert to Int16 arrays for easier manipulation
-    const micArray = new Int16Array(micPcm.buffer, micPcm.byteOffset, micPcm.length / 2);
-    const sysArray = new Int16Array(sysPcm.buffer, sysPcm.byteOffset, sysPcm.length / 2);
-    
-    // Use the longer buffer as the base
-    const maxLength = Math.max(micArray.length, sysArray.length);
-    const mixedArray = new Int16Array(maxLength);
-    
-    // Echo cancellation parameters based on sensitivity
-    let echoThreshold: number;
-    let echoReduction: number;
-    let micAmplitudeThreshold: number;
-    
-    switch (this.echoCancellationSensitivity) {
-      case 'low':
-        echoThreshold = 0.12; // Slightly more sensitive than before
-        echoReduction = 0.35; // Moderate reduction
-        micAmplitudeThreshold = 0.7; // Allow normal voices
-        break;
-      case 'high':
-        echoThreshold = 0.18; // More sensitive to catch more echo
-        echoReduction = 0.65; // More aggressive reduction
-        micAmplitudeThreshold = 0.85; // Allow louder voices
-        break;
-      case 'medium':
-      default:
-        echoThreshold = 0.15; // Balanced sensitivity
-        echoReduction = 0.5; // Moderate reduction
-        micAmplitudeThreshold = 0.75; // Allow normal voices
-        break;
-    }
-    
-    console.log(`🔍 Applying echo cancellation (${this.echoCancellationSensitivity}): threshold=${echoThreshold}, reduction=${echoReduction}, micThreshold=${micAmplitudeThreshold}`);
-    
-    let echoCount = 0;
-    let totalEchoSamples = 0;
-    let consecutiveEchoSamples = 0;
-    const minConsecutiveEcho = 50; // Minimum consecutive samples to consider it echo
-    
-    // Auto-detect earphones vs speakers scenario
-    let earphonesDetected = false;
-    let speakerEchoDetected = false;
-    
-    // Use manual setting if provided, otherwise auto-detect
-    if (this.audioScenario === 'earphones') {
-      earphonesDetected = true;
-      console.log('🎧 Manual earphones mode selected');
-    } else if (this.audioScenario === 'speakers') {
-      speakerEchoDetected = true;
-      console.log('🔊 Manual speakers mode selected');
-    } else {
-      // Auto-detect scenario based on patterns
-      // Analyze first 1000 samples to detect the scenario
-      const analysisSamples = Math.min(1000, maxLength);
-      let highSimilarityCount = 0;
-      let systemAudioPresent = 0;
-      
-      for (let i = 0; i < analysisSamples; i++) {
-        const micSample = i < micArray.length ? micArray[i] : 0;
-        const sysSample = i < sysArray.length ? sysArray[i] : 0;
-        
-        const micNormalized = micSample / 32767;
-        const sysNormalized = sysSample / 32767;
-        
-        const similarity = Math.abs(micNormalized - sysNormalized);
-        const sysAmplitude = Math.abs(sysNormalized);
-        
-        if (similarity < 0.1) {
-          highSimilarityCount++;
-        }
-        if (sysAmplitude > 0.05) {
-          systemAudioPresent++;
-        }
-      }
-      
-      const similarityRatio = highSimilarityCount / analysisSamples;
-      const systemAudioRatio = systemAudioPresent / analysisSamples;
-      
-      // Detect scenario based on patterns
-      if (similarityRatio < 0.1 && systemAudioRatio > 0.3) {
-        // Low similarity + system audio present = likely earphones (no echo)
-        earphonesDetected = true;
-        console.log('🎧 Earphones detected - minimal echo cancellation needed');
-      } else if (similarityRatio > 0.3 && systemAudioRatio > 0.2) {
-        // High similarity + system audio = likely speakers (echo present)
-        speakerEchoDetected = true;
-        console.log('🔊 Speakers detected - aggressive echo cancellation needed');
-      } else {
-        // Default to balanced approach
-        console.log('🤔 Unknown scenario - using balanced echo cancellation');
-      }
-    }
-    
-    // Adjust parameters based on detected scenario
-    if (earphonesDetected) {
-      // With earphones: minimal echo cancellation, preserve voice
-      echoThreshold = 0.08; // Very high threshold (only obvious echo)
-      echoReduction = 0.2; // Minimal reduction
-      micAmplitudeThreshold = 0.9; // Allow all voices
-      console.log('🎧 Earphones mode: minimal echo cancellation');
-    } else if (speakerEchoDetected) {
-      // With speakers: more aggressive echo cancellation
-      echoThreshold = 0.2; // Lower threshold (catch more echo)
-      echoReduction = Math.min(echoReduction + 0.2, 0.8); // More aggressive
-      micAmplitudeThreshold = Math.max(micAmplitudeThreshold - 0.1, 0.6); // Slightly more restrictive
-      console.log('🔊 Speakers mode: aggressive echo cancellation');
-    }
-    
-    for (let i = 0; i < maxLength; i++) {
-      const micSample = i < micArray.length ? micArray[i] : 0;
-      const sysSample = i < sysArray.length ? sysArray[i] : 0;
-      
-      // Normalize samples to -1 to 1 range for processing
-      const micNormalized = micSample / 32767;
-      const sysNormalized = sysSample / 32767;
-      
-      // More sophisticated echo detection
-      const similarity = Math.abs(micNormalized - sysNormalized);
-      const micAmplitude = Math.abs(micNormalized);
-      const sysAmplitude = Math.abs(sysNormalized);
-      
-      // Echo detection criteria:
-      // 1. Samples are very similar (low similarity)
-      // 2. System audio has significant amplitude (not silence)
-      // 3. Microphone amplitude is not too high (not loud voice)
-      // 4. System audio amplitude is higher than microphone (echo pattern)
-      const potentialEcho = similarity < echoThreshold && 
-                            sysAmplitude > 0.03 && 
-                            micAmplitude < micAmplitudeThreshold && 
-                            micAmplitude > 0.01 &&
-                            sysAmplitude > micAmplitude * 0.8; // System audio should be comparable or louder
-      
-      let processedMicSample = micNormalized;
-      
-      if (potentialEcho) {
-        consecutiveEchoSamples++;
-        
-        // Only apply echo reduction if we have enough consecutive echo samples
-        if (consecutiveEchoSamples >= minConsecutiveEcho) {
-          // Gradual echo reduction based on similarity
-          const reductionFactor = (echoThreshold - similarity) / echoThreshold;
-          const actualReduction = echoReduction * reductionFactor;
-          processedMicSample = micNormalized * (1 - actualReduction);
-          
-          echoCount++;
-          totalEchoSamples++;
-          
-          // Log echo detection less frequently to avoid spam
-          if (echoCount % 1000 === 0) {
-            console.log(`🎵 Echo detected at sample ${i}, similarity: ${similarity.toFixed(3)}, reduction: ${actualReduction.toFixed(3)}`);
-          }
-        }
-      } else {
-        // Reset consecutive echo count when no echo is detected
-        consecutiveEchoSamples = 0;
-      }
-      
-      // Mix the processed microphone audio with system audio
-      // Give more weight to system audio since it's cleaner
-      const mixedSample = (processedMicSample * 0.4) + (sysNormalized * 0.6);
-      
-      // Convert back to Int16 and apply clipping protection
-      const finalSample = Math.round(mixedSample * 32767);
-      mixedArray[i] = Math.max(-32768, Math.min(32767, finalSample));
-    }
-    
-    // Log echo statistics
-    const echoPercentage = (totalEchoSamples / maxLength) * 100;
-    console.log(`📊 Echo cancellation stats: ${totalEchoSamples} samples processed (${echoPercentage.toFixed(1)}% of total)`);
-    
-    return Buffer.from(mixedArray.buffer);
+  private describeFormat(format: AudioFormat): string {
+    return `${format.sampleRate} Hz ${format.channels}ch ${format.bitsPerSample}-bit ${format.sampleFormat}`;
   }
 
-  // Legacy method for backward compatibility
-  private mixAudioBuffers(micPcm: Buffer, sysPcm: Buffer): Buffer {
-    // Convert to Int16 arrays for easier manipulation
-    const micArray = new Int16Array(micPcm.buffer, micPcm.byteOffset, micPcm.length / 2);
-    const sysArray = new Int16Array(sysPcm.buffer, sysPcm.byteOffset, sysPcm.length / 2);
-    
-    // Use the longer buffer as the base
-    const maxLength = Math.max(micArray.length, sysArray.length);
-    const mixedArray = new Int16Array(maxLength);
-    
-    for (let i = 0; i < maxLength; i++) {
-      const micSample = i < micArray.length ? micArray[i] : 0;
-      const sysSample = i < sysArray.length ? sysArray[i] : 0;
-      
-      // Mix samples with normalization to prevent clipping
-      const mixedSample = Math.round((micSample + sysSample) / 2);
-      mixedArray[i] = Math.max(-32768, Math.min(32767, mixedSample));
+  private encodePcmBuffer(channels: Float32Array[]): Buffer {
+    const pcm = encodePcm(channels, this.bitsPerSample);
+    return Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  }
+
+  // Stereo recordings keep the canonical rate and depth with two channels
+  private encodeRecording(channels: Float32Array[]): Buffer {
+    return writeWav(this.encodePcmBuffer(channels), { ...CANONICAL_AUDIO_FORMAT, channels: channels.length });
+  }
+
+  private shouldCancelEcho(): boolean {
+    // Nothing from the speakers reaches the mic through headphones
+    return this.enableEchoCancellation &&
+      this.audioScenario !== 'earphones' &&
+      this.voiceRecordingMode !== 'headphones';
+  }
+
+  // Runs in a worker thread, a long recording takes too long for the main one
+  private async cancelSystemAudioEcho(mic: Float32Array, sys: Float32Array): Promise<Float32Array> {
+    // Sensitivity trades convergence speed against leftover echo
+    const stepSize = { low: 0.25, medium: 0.5, high: 0.8 }[this.echoCancellationSensitivity];
+    try {
+      return await cancelEchoInWorker(mic, sys, { sampleRate: this.sampleRate, stepSize });
+    } catch (error) {
+      console.warn('⚠️ Echo cancellation failed, mixing without it:', error instanceof Error ? error.message : String(error));
+      return mic;
     }
-    
-    return Buffer.from(mixedArray.buffer);
   }
 
-  // --------------------------------------------------------------------------
-  // PRIVATE METHODS - VOICE ECHO CANCELLATION
-  // --------------------------------------------------------------------------
+  private processMicrophone(samples: Float32Array): Float32Array {
+    const { output, levels } = this.processingChain.process(samples);
+    this.lastLevels = levels;
 
-  private applyVoiceEchoCancellation(micPcm: Buffer, sysPcm: Buffer): Buffer {
-    // Convert to Int16 arrays for easier manipulation
-    const micArray = new Int16Array(micPcm.buffer, micPcm.byteOffset, micPcm.length / 2);
-    const sysArray = new Int16Array(sysPcm.buffer, sysPcm.byteOffset, sysPcm.length / 2);
+    const stages = Object.entries(levels).map(([stage, meter]) => `${stage} ${meter!.rmsDb.toFixed(1)}`);
+    console.log(`📊 Mic levels (RMS dBFS): ${stages.join(' → ')}`);
+    return output;
+  }
+
+  private mixAudioBuffers(mic: Float32Array, sys: Float32Array): Float32Array {
+    const useLimiter = this.processingChain.getSettings().limiter;
+    // With the limiter catching peaks both sides keep their full level;
+    // without it, halving is what prevents clipping
+    const scale = useLimiter ? 1 : 0.5;
     
     // Use the longer buffer as the base
-    const maxLength = Math.max(micArray.length, sysArray.length);
-    const processedArray = new Int16Array(maxLength);
-    
-    // Determine voice recording scenario
-    let voiceScenario: 'headphones' | 'speakers' = 'headphones';
-    
-    if (this.voiceRecordingMode === 'auto') {
-      // Auto-detect voice recording scenario
-      const analysisSamples = Math.min(2000, maxLength);
-      let voiceEchoCount = 0;
-      let voicePresent = 0;
-      
-      for (let i = 0; i < analysisSamples; i++) {
-        const micSample = i < micArray.length ? micArray[i] : 0;
-        const sysSample = i < sysArray.length ? sysArray[i] : 0;
-        
-        const micNormalized = micSample / 32767;
-        const sysNormalized = sysSample / 32767;
-        
-        const micAmplitude = Math.abs(micNormalized);
-        const sysAmplitude = Math.abs(sysNormalized);
-        const similarity = Math.abs(micNormalized - sysNormalized);
-        
-        // Detect voice echo patterns
-        if (micAmplitude > 0.1 && sysAmplitude > 0.05 && similarity < 0.15) {
-          voiceEchoCount++;
-        }
-        if (micAmplitude > 0.15) {
-          voicePresent++;
-        }
-      }
-      
-      const voiceEchoRatio = voiceEchoCount / analysisSamples;
-      const voiceRatio = voicePresent / analysisSamples;
-      
-      if (voiceEchoRatio > 0.1 && voiceRatio > 0.2) {
-        voiceScenario = 'speakers';
-        console.log('🎤 Voice echo detected - using speakers mode for voice');
-      } else {
-        voiceScenario = 'headphones';
-        console.log('🎧 No voice echo detected - using headphones mode for voice');
-      }
-    } else {
-      voiceScenario = this.voiceRecordingMode;
-      console.log(`🎤 Manual voice recording mode: ${voiceScenario}`);
-    }
-    
-    // Apply different strategies based on voice scenario
-    if (voiceScenario === 'headphones') {
-      // Headphones: No voice echo, preserve voice quality
-      console.log('🎧 Headphones voice mode: preserving voice quality');
-      
-      for (let i = 0; i < maxLength; i++) {
-        const micSample = i < micArray.length ? micArray[i] : 0;
-        const sysSample = i < sysArray.length ? sysArray[i] : 0;
-        
-        // With headphones, microphone audio is clean voice
-        // Only apply minimal processing to remove any system audio bleed
-        const micNormalized = micSample / 32767;
-        const sysNormalized = sysSample / 32767;
-        
-        // Very conservative echo detection for voice
-        const similarity = Math.abs(micNormalized - sysNormalized);
-        const micAmplitude = Math.abs(micNormalized);
-        const sysAmplitude = Math.abs(sysNormalized);
-        
-        // Only remove obvious system audio bleed, not voice
-        const isSystemBleed = similarity < 0.05 && sysAmplitude > 0.1 && micAmplitude < 0.3;
-        
-        let processedMicSample = micNormalized;
-        if (isSystemBleed) {
-          // Minimal reduction for system audio bleed
-          processedMicSample = micNormalized * 0.8;
-        }
-        
-        // Mix with higher voice priority
-        const mixedSample = (processedMicSample * 0.7) + (sysNormalized * 0.3);
-        const finalSample = Math.round(mixedSample * 32767);
-        processedArray[i] = Math.max(-32768, Math.min(32767, finalSample));
-      }
-    } else {
-      // Speakers: Voice echo present, need aggressive voice echo cancellation
-      console.log('🔊 Speakers voice mode: aggressive voice echo cancellation');
-      
-      for (let i = 0; i < maxLength; i++) {
-        const micSample = i < micArray.length ? micArray[i] : 0;
-        const sysSample = i < sysArray.length ? sysArray[i] : 0;
-        
-        const micNormalized = micSample / 32767;
-        const sysNormalized = sysSample / 32767;
-        
-        const similarity = Math.abs(micNormalized - sysNormalized);
-        const micAmplitude = Math.abs(micNormalized);
-        const sysAmplitude = Math.abs(sysNormalized);
-        
-        // Voice echo detection: voice that sounds similar to system audio
-        const isVoiceEcho = similarity < 0.2 && 
-                           sysAmplitude > 0.05 && 
-                           micAmplitude > 0.1 && 
-                           micAmplitude < 0.8;
-        
-        let processedMicSample = micNormalized;
-        if (isVoiceEcho) {
-          // Aggressive voice echo reduction
-          const reductionFactor = (0.2 - similarity) / 0.2;
-          const voiceEchoReduction = 0.6 * reductionFactor;
-          processedMicSample = micNormalized * (1 - voiceEchoReduction);
-        }
-        
-        // Mix with balanced priority
-        const mixedSample = (processedMicSample * 0.5) + (sysNormalized * 0.5);
-        const finalSample = Math.round(mixedSample * 32767);
-        processedArray[i] = Math.max(-32768, Math.min(32767, finalSample));
-      }
+    const mixed = new Float32Array(Math.max(mic.length, sys.length));
+    for (let i = 0; i < mixed.length; i++) {
+      const micSample = i < mic.length ? mic[i] : 0;
+      const sysSample = i < sys.length ? sys[i] : 0;
+      mixed[i] = (micSample + sysSample) * scale;
     }
     
-    return Buffer.from(processedArray.buffer);
+    return this.processingChain.limit(mixed);
   }
 
   // --------------------------------------------------------------------------
@@ -734,183 +680,69 @@ export class AudioService {
     }
   }
 
-  async uploadAudioBuffer(buffer: Buffer, token: string, conversationId: string): Promise<AudioResult | null> {
-    try {
-      if (!buffer || buffer.length === 0) {
-        console.error('No audio buffer to upload');
-        return null;
-      }
-
-      // Validate that the buffer is a proper WAV file
-      if (!this.isValidWavBuffer(buffer)) {
-        console.error('Invalid WAV buffer - missing or corrupted WAV header');
-        return null;
-      }
-
-      const uploadResult = await this.uploadToS3Directly(buffer, token, conversationId);
-      if (!uploadResult) return null;
+  /**
+   * Uploads a recorded WAV and creates its audio message, with the
+   * speaker-labeled transcript as its text when there is one.
+   * @returns null when the buffer itself is unusable
+   * @throws when the upload fails, with the HTTP status in the message
+   */
+  async uploadAudioBuffer(buffer: Buffer, token: string, conversationId: string, transcript?: string): Promise<AudioResult | null> {
+    if (!buffer || buffer.length === 0) {
+      console.error('No audio buffer to upload');
+      return null;
+    }
 
-      return { 
-        buffer, 
-        messageId: uploadResult.messageId,
-        audioUrl: uploadResult.audioUrl
-      };
-    } catch (error) {
-      console.error('Audio upload process failed:', error);
+    // Validate that the buffer is a proper WAV file
+    if (!this.isValidWavBuffer(buffer)) {
+      console.error('Invalid WAV buffer - missing or corrupted WAV header');
       return null;
     }
+
+    const uploadResult = await this.uploadToS3Directly(buffer, token, conversationId, transcript);
+
+    return { 
+      buffer, 
+      messageId: uploadResult.messageId,
+      audioUrl: uploadResult.audioUrl
+    };
   }
 
   // --------------------------------------------------------------------------
   // UTILITY METHODS
   // --------------------------------------------------------------------------
 
-  private async convertPcmToWavWithSox(pcmBuffer: Buffer): Promise<Buffer> {
-    return new Promise((resolve, reject) => {
-      try {
-        console.log(`Converting PCM to WAV using sox: ${pcmBuffer.length} bytes, ${this.sampleRate}Hz, ${this.channels} channel(s), ${this.bitsPerSample} bits`);
-        
-        // Create temporary files
-        const tempDir = os.tmpdir();
-        const timestamp = Date.now();
-        const pcmFile = path.join(tempDir, `pcm-${timestamp}.raw`);
-        const wavFile = path.join(tempDir, `wav-${timestamp}.wav`);
-        
-        // Write PCM data to temporary file
-        fs.writeFileSync(pcmFile, pcmBuffer);
-        
-        // Use sox to convert PCM to WAV
-        const sox = spawn('sox', [
-          '-r', this.sampleRate.toString(),
-          '-c', this.channels.toString(),
-          '-b', this.bitsPerSample.toString(),
-          '-e', 'signed',
-          '-t', 'raw',
-          pcmFile,
-          '-t', 'wav',
-          wavFile
-        ]);
-        
-        let stderr = '';
-        sox.stderr.on('data', (data) => {
-          stderr += data.toString();
-        });
-        
-        sox.on('close', (code) => {
-          try {
-            // Clean up temporary PCM file
-            fs.unlinkSync(pcmFile);
-            
-            if (code === 0) {
-              // Read the WAV file
-              const wavBuffer = fs.readFileSync(wavFile);
-              
-              // Clean up temporary WAV file
-              fs.unlinkSync(wavFile);
-              
-              console.log(`Successfully converted PCM to WAV: ${pcmBuffer.length} bytes -> ${wavBuffer.length} bytes`);
-              resolve(wavBuffer);
-            } else {
-              console.error(`Sox conversion failed with code ${code}:`, stderr);
-              reject(new Error(`Sox conversion failed: ${stderr}`));
-            }
-          } catch (error) {
-            console.error('Error during sox conversion cleanup:', error);
-            reject(error);
-          }
-        });
-        
-        sox.on('error', (error) => {
-          console.error('Sox process error:', error);
-          reject(error);
-        });
-      } catch (error) {
-        console.error('Error setting up sox conversion:', error);
-        reject(error);
-      }
-    });
-  }
-
-  private convertPcmToWav(pcmBuffer: Buffer): Buffer {
-    // WAV file header structure
-    const headerSize = 44;
-    const dataSize = pcmBuffer.length;
-    const fileSize = headerSize + dataSize - 8;
-    
-    const buffer = Buffer.alloc(headerSize + dataSize);
-    
-    // RIFF header
-    buffer.write('RIFF', 0);
-    buffer.writeUInt32LE(fileSize, 4);
-    buffer.write('WAVE', 8);
-    
-    // fmt chunk
-    buffer.write('fmt ', 12);
-    buffer.writeUInt32LE(16, 16); // fmt chunk size
-    buffer.writeUInt16LE(1, 20); // audio format (PCM)
-    buffer.writeUInt16LE(this.channels, 22); // number of channels
-    buffer.writeUInt32LE(this.sampleRate, 24); // sample rate
-    buffer.writeUInt32LE(this.sampleRate * this.channels * this.bitsPerSample / 8, 28); // byte rate
-    buffer.writeUInt16LE(this.channels * this.bitsPerSample / 8, 32); // block align
-    buffer.writeUInt16LE(this.bitsPerSample, 34); // bits per sample
-    
-    // data chunk
-    buffer.write('data', 36);
-    buffer.writeUInt32LE(dataSize, 40);
-    
-    // Copy PCM data
-    pcmBuffer.copy(buffer, headerSize);
-    
-    return buffer;
-  }
-
   isValidWavBuffer(buffer: Buffer): boolean {
-    if (buffer.length < 44) {
-      return false;
-    }
-    
-    // Check for WAV header
-    const riff = buffer.toString('ascii', 0, 4);
-    const wave = buffer.toString('ascii', 8, 12);
-    
-    return riff === 'RIFF' && wave === 'WAVE';
+    // Walks the chunks and checks the fmt chunk, not just the magic bytes
+    return isWav(buffer);
   }
 
-  private async uploadToS3Directly(buffer: Buffer, token: string, conversationId: string): Promise<{ messageId: string; audioUrl: string } | null> {
+  private async uploadToS3Directly(buffer: Buffer, token: string, conversationId: string, transcript?: string): Promise<{ messageId: string; audioUrl: string }> {
     try {
-      // Step 1: Get pre-signed URL from API
-      console.log('Getting pre-signed URL for audio...');
-      const presignedResponse = await fetch(`${this.baseUrl}/conversations/${conversationId}/messages/get_audio_upload_url`, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (!presignedResponse.ok) {
-        console.error('Failed to get pre-signed URL for audio:', presignedResponse.statusText);
-        return null;
+      // Step 1: Get pre-signed URL from API, agreeing on a format
+      let target = await this.requestUploadTarget(token, conversationId, await this.getUploadFormatCandidates());
+      let body: Buffer;
+      try {
+        body = await encodeAudio(buffer, target.format);
+      } catch (error) {
+        // The presigned key carries the format, so WAV needs a URL of its own
+        console.warn(`⚠️ ${target.format} encoding failed, uploading WAV instead:`, error instanceof Error ? error.message : String(error));
+        target = await this.requestUploadTarget(token, conversationId, ['wav']);
+        body = buffer;
       }
 
-      const presignedData = await presignedResponse.json();
-      const { upload_url, filename } = presignedData;
-
-      // Step 2: Upload directly to S3 using pre-signed URL
-      console.log('Uploading audio to S3...');
-      const s3Response = await fetch(upload_url, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'audio/wav',
-          'Content-Length': buffer.length.toString(),
-        },
-        body: buffer,
+      // Step 2: Upload to S3, in resumable parts when the recording is long
+      console.log(`Uploading ${target.format} audio to S3...`);
+      const filename = await this.uploader.upload({
+        kind: 'audio',
+        body,
+        ...(body !== buffer && { source: buffer }),
+        contentType: AUDIO_UPLOAD_CONTENT_TYPES[target.format],
+        token,
+        messagesUrl: `${this.baseUrl}/conversations/${conversationId}/messages`,
+        single: target,
+        params: { format: target.format }
       });
 
-      if (!s3Response.ok) {
-        console.error('Failed to upload audio to S3:', s3Response.statusText);
-        return null;
-      }
-
       // Step 3: Create message with S3 URL
       console.log('Creating message with S3 audio URL...');
       const s3Url = `https://${process.env.AWS_S3_BUCKET || 'contextor-api'}.s3.amazonaws.com/${filename}`;
@@ -922,13 +754,13 @@ export class AudioService {
           'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
-          audio_url: s3Url
+          audio_url: s3Url,
+          ...(transcript && { text_content: transcript })
         }),
       });
 
       if (!messageResponse.ok) {
-        console.error('Failed to create audio message:', messageResponse.statusText);
-        return null;
+        throw new Error(`Failed to create audio message (status ${messageResponse.status} ${messageResponse.statusText})`);
       }
 
       const messageData = await messageResponse.json();
@@ -940,8 +772,45 @@ export class AudioService {
       return { messageId, audioUrl: s3Url };
     } catch (error) {
       console.error('Failed to upload audio to S3:', error);
-      return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Formats to offer the server, best first: the preferred one, any other
+   * compressed format this machine can encode, then WAV.
+   */
+  private async getUploadFormatCandidates(): Promise<AudioUploadFormat[]> {
+    if (this.uploadFormat === 'wav') return ['wav'];
+
+    const ordered = [this.uploadFormat, ...AUDIO_UPLOAD_FORMATS.filter(format => format !== this.uploadFormat && format !== 'wav'), 'wav' as const];
+    const available = await Promise.all(ordered.map(format => isEncoderAvailable(format)));
+    return ordered.filter((_, index) => available[index]);
+  }
+
+  /**
+   * Servers that predate compressed uploads ignore the formats parameter and
+   * answer without a format; those get WAV, as before.
+   */
+  private async requestUploadTarget(token: string, conversationId: string, formats: AudioUploadFormat[]): Promise<AudioUploadTarget> {
+    console.log(`Getting pre-signed URL for audio (formats: ${formats.join(', ')})...`);
+    const query = new URLSearchParams({ formats: formats.join(',') });
+    const presignedResponse = await fetch(`${this.baseUrl}/conversations/${conversationId}/messages/get_audio_upload_url?${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${token}`,
+      },
+    });
+
+    if (!presignedResponse.ok) {
+      throw new Error(`Failed to get pre-signed URL for audio (status ${presignedResponse.status} ${presignedResponse.statusText})`);
+    }
+
+    const { upload_url, filename, format } = await presignedResponse.json();
+    if (format !== undefined && !formats.includes(format)) {
+      throw new Error(`Server chose an audio format that was not offered: ${format}`);
     }
+    return { uploadUrl: upload_url, filename, format: format ?? 'wav' };
   }
 
   isCurrentlyRecording(): boolean {
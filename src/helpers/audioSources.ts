@@ -0,0 +1,367 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as path from 'path';
+import * as recordModule from 'node-record-lpcm16';
+import { CANONICAL_AUDIO_FORMAT, decodePcm, encodePcm, mixChannels } from '../shared/audioFormat';
+import { MonitorSource } from '../shared/audioDeviceTypes';
+import { listInputDevices } from './audioDevices';
+import { detectLinuxAudioBackend, LinuxAudioBackend, listMonitorSources, monitorRecorderCommand, watchAudioDevices } from './linuxAudioDevices';
+
+// ============================================================================
+// AUDIO SOURCES
+// ============================================================================
+//
+// Where the main-process recorder gets its PCM from. Every source delivers
+// 16-bit mono chunks at its own sample rate and AudioService converts them to
+// the canonical format, so a source only has to know how to capture.
+
+export type PcmChunkHandler = (chunk: Buffer, sampleRate: number) => void;
+
+export interface AudioSource {
+  readonly name: string;
+  // Resolves once audio is flowing; rejects if capture could not start
+  start(onChunk: PcmChunkHandler): Promise<void>;
+  // Resolves once the last chunk has been delivered
+  stop(): Promise<void>;
+  // Sources that can record from more than one device; null is the default
+  setDevice?(device: string | null): void;
+}
+
+// How long a capture process gets to exit before it is killed outright
+const STOP_TIMEOUT_MS = 2000;
+// Device events come in bursts, e.g. a headset adds a sink and a source
+const DEVICE_CHANGE_DEBOUNCE_MS = 500;
+
+/**
+ * A microphone recorded with sox through node-record-lpcm16, the system
+ * default unless a device is set.
+ */
+export class MicrophoneSource implements AudioSource {
+  readonly name = 'sox microphone';
+  private recordingInstance: any = null;
+
+  constructor(
+    private readonly sampleRate: number = CANONICAL_AUDIO_FORMAT.sampleRate,
+    private device: string | null = null
+  ) {}
+
+  setDevice(device: string | null): void {
+    this.device = device;
+  }
+
+  async start(onChunk: PcmChunkHandler): Promise<void> {
+    await checkSoxAvailability();
+    const device = await this.resolveDevice();
+
+    // record() starts sox straight away. Raw output, as a WAV header would
+    // end up in the PCM; silence is trimmed after the recording instead.
+    this.recordingInstance = recordModule.record({
+      sampleRate: this.sampleRate,
+      channels: 1,
+      audioType: 'raw',
+      recorder: 'sox',
+      // sox opens AUDIODEV instead of the default input
+      ...(device && { device }),
+    });
+
+    this.recordingInstance._stream.on('data', (chunk: Buffer) => onChunk(chunk, this.sampleRate));
+
+    this.recordingInstance._stream.on('error', (error: Error) => {
+      console.error('❌ Microphone recording error:', error);
+      console.error('Error details:', {
+        name: error.name,
+        message: error.message,
+        stack: error.stack
+      });
+    });
+
+    this.recordingInstance._stream.on('end', () => {
+      console.log('🔚 Microphone recording stream ended');
+    });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.recordingInstance) return;
+    this.recordingInstance.stop();
+    this.recordingInstance = null;
+  }
+
+  // An unplugged headset should not stop the recording
+  private async resolveDevice(): Promise<string | null> {
+    if (!this.device) return null;
+
+    const inputs = await listInputDevices();
+    if (inputs.length > 0 && !inputs.some(input => input.id === this.device)) {
+      console.warn(`⚠️ Microphone ${this.device} not found, recording the default input instead`);
+      return null;
+    }
+    console.log(`🎤 Recording from microphone ${this.device}`);
+    return this.device;
+  }
+}
+
+export interface ProcessAudioSourceOptions {
+  name: string;
+  program: string;
+  args: string[];
+  // What the program writes to stdout, always signed 16-bit little-endian
+  sampleRate: number;
+  channels: number;
+}
+
+/**
+ * A command-line recorder that writes raw PCM to stdout, such as parec or
+ * SystemAudioDump. Multichannel output is mixed down to mono.
+ */
+export class ProcessAudioSource implements AudioSource {
+  private process: ChildProcess | null = null;
+
+  constructor(private readonly options: ProcessAudioSourceOptions) {}
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  // False once the program has exited, e.g. because its device went away
+  isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  async start(onChunk: PcmChunkHandler): Promise<void> {
+    const { program, args, sampleRate, channels } = this.options;
+    const format = { ...CANONICAL_AUDIO_FORMAT, sampleRate, channels };
+    const frameSize = channels * format.bitsPerSample / 8;
+
+    const child = spawn(program, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', reject);
+    });
+    this.process = child;
+    console.log(`✅ ${this.name} started with PID:`, child.pid);
+
+    // Pipe reads do not respect frame boundaries
+    let remainder = Buffer.alloc(0);
+    child.stdout!.on('data', (data: Buffer) => {
+      const pending = remainder.length > 0 ? Buffer.concat([remainder, data]) : data;
+      const usable = pending.length - (pending.length % frameSize);
+      remainder = Buffer.from(pending.subarray(usable));
+      if (usable === 0) return;
+
+      const frames = pending.subarray(0, usable);
+      if (channels === 1) {
+        onChunk(Buffer.from(frames), sampleRate);
+        return;
+      }
+      const pcm = encodePcm(mixChannels(decodePcm(frames, format), 1));
+      onChunk(Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength), sampleRate);
+    });
+
+    child.stderr!.on('data', (data: Buffer) => {
+      console.error(`${this.name} stderr:`, data.toString().trim());
+    });
+
+    child.on('error', (error) => {
+      console.error(`❌ ${this.name} process error:`, error);
+    });
+
+    child.on('close', (code, signal) => {
+      console.log(`${this.name} process closed with ${signal ?? `code ${code}`}`);
+      if (this.process === child) {
+        this.process = null;
+      }
+    });
+  }
+
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child) return;
+    this.process = null;
+
+    // Wait for close so that stdout has been drained
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, STOP_TIMEOUT_MS);
+      child.once('close', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+  }
+}
+
+/**
+ * Records an output's monitor on Linux with parec or pw-record. Follows the
+ * default output unless a device is given, and moves the recording when
+ * devices are plugged in or out.
+ */
+export class LinuxSystemAudioSource implements AudioSource {
+  readonly name = 'Linux output monitor';
+  private backend: LinuxAudioBackend | null = null;
+  private recorder: ProcessAudioSource | null = null;
+  private current: MonitorSource | null = null;
+  private onChunk: PcmChunkHandler | null = null;
+  private stopWatching: (() => void) | null = null;
+  private changeTimer: NodeJS.Timeout | null = null;
+  // Device changes are handled one at a time
+  private switching: Promise<void> = Promise.resolve();
+
+  // A monitor source or sink name; null follows the default output
+  constructor(private device: string | null = null) {}
+
+  // Takes effect straight away when recording
+  setDevice(device: string | null): void {
+    this.device = device;
+    if (this.onChunk) {
+      this.scheduleDeviceCheck();
+    }
+  }
+
+  async start(onChunk: PcmChunkHandler): Promise<void> {
+    this.backend = await detectLinuxAudioBackend();
+    if (!this.backend) {
+      throw new Error('No PulseAudio or PipeWire tools found. Please install pulseaudio-utils or pipewire-bin for system audio');
+    }
+
+    const target = await this.resolveTarget();
+    if (!target) {
+      throw new Error('No audio output found to record system audio from');
+    }
+
+    this.onChunk = onChunk;
+    await this.record(target);
+    this.stopWatching = watchAudioDevices(this.backend, () => this.scheduleDeviceCheck());
+  }
+
+  async stop(): Promise<void> {
+    this.onChunk = null;
+    this.stopWatching?.();
+    this.stopWatching = null;
+    if (this.changeTimer) {
+      clearTimeout(this.changeTimer);
+      this.changeTimer = null;
+    }
+
+    await this.switching;
+    await this.recorder?.stop();
+    this.recorder = null;
+    this.current = null;
+  }
+
+  private async resolveTarget(): Promise<MonitorSource | null> {
+    const sources = await listMonitorSources(this.backend);
+    if (this.device) {
+      const chosen = sources.find(source => source.name === this.device || source.sinkName === this.device);
+      if (chosen) return chosen;
+      console.warn(`⚠️ Audio output ${this.device} not found, recording the default output instead`);
+    }
+    return sources[0] ?? null;
+  }
+
+  private async record(target: MonitorSource): Promise<void> {
+    const recorder = new ProcessAudioSource({
+      name: `${this.backend === 'pulse' ? 'parec' : 'pw-record'} (${target.description})`,
+      ...monitorRecorderCommand(this.backend!, target),
+      sampleRate: CANONICAL_AUDIO_FORMAT.sampleRate,
+      channels: 1,
+    });
+    await recorder.start((chunk, sampleRate) => this.onChunk?.(chunk, sampleRate));
+
+    this.recorder = recorder;
+    this.current = target;
+    console.log(`🐧 Recording system audio from ${target.description} (${target.name})`);
+  }
+
+  private scheduleDeviceCheck(): void {
+    if (this.changeTimer) clearTimeout(this.changeTimer);
+    this.changeTimer = setTimeout(() => {
+      this.changeTimer = null;
+      this.switching = this.switching.then(() => this.followDeviceChange());
+    }, DEVICE_CHANGE_DEBOUNCE_MS);
+  }
+
+  // Moves the recording when its output went away or the default changed
+  private async followDeviceChange(): Promise<void> {
+    if (!this.onChunk) return;
+
+    try {
+      const target = await this.resolveTarget();
+      if (!this.onChunk) return;
+      if (target && target.name === this.current?.name && this.recorder?.isRunning()) return;
+
+      await this.recorder?.stop();
+      this.recorder = null;
+      this.current = null;
+
+      if (!target) {
+        console.warn('⚠️ No audio output left to record, waiting for one to appear');
+        return;
+      }
+      console.log(`🔌 Audio outputs changed, switching system audio to ${target.description}`);
+      await this.record(target);
+    } catch (error) {
+      console.error('❌ Failed to follow audio device change:', error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+/**
+ * Where the bundled macOS system audio recorder lives.
+ */
+export function getSystemAudioDumpPath(): string {
+  const { app } = require('electron');
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'app.asar.unpacked', 'assets', 'SystemAudioDump')
+    : path.join(__dirname, '..', 'assets', 'SystemAudioDump');
+}
+
+/**
+ * Picks the native system audio capture for this platform: an output's
+ * monitor on Linux (PulseAudio or PipeWire) and SystemAudioDump on macOS.
+ * Returns null where there is none (Windows), in which case the renderer
+ * records the loopback stream and sends it over the system-audio-chunk IPC.
+ */
+export function createSystemAudioSource(platform: NodeJS.Platform = process.platform): AudioSource | null {
+  if (platform === 'linux') {
+    return new LinuxSystemAudioSource();
+  }
+
+  if (platform === 'darwin') {
+    return new ProcessAudioSource({
+      name: 'SystemAudioDump',
+      program: getSystemAudioDumpPath(),
+      args: [],
+      sampleRate: 24000,
+      channels: 1,
+    });
+  }
+
+  return null;
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+function checkSoxAvailability(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const soxTest = spawn('sox', ['--version']);
+
+    soxTest.on('error', (error: Error) => {
+      console.error('❌ Sox not available:', error.message);
+      reject(new Error('Sox audio tool not found. Please install sox: brew install sox (macOS) or apt-get install sox (Linux)'));
+    });
+
+    soxTest.on('close', (code: number) => {
+      if (code === 0) {
+        console.log('✅ Sox is available');
+        resolve();
+      } else {
+        console.error('❌ Sox test failed with code:', code);
+        reject(new Error('Sox audio tool test failed. Please check your sox installation'));
+      }
+    });
+  });
+}
@@ -0,0 +1,307 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { APIService, AIProcessResponse, ConversationResponse, MessageResponse } from './apiService';
+import {
+  ConversationSyncResult,
+  MessageSearchResult,
+  StoredConversation,
+  StoredConversationWithMessages,
+  StoredMessage,
+} from '../shared/conversationStoreTypes';
+
+// ============================================================================
+// CONVERSATION STORE
+// ============================================================================
+//
+// Mirrors every conversation and message seen by the main process under
+// userData/conversations so history can be browsed and searched offline.
+// Layout: `index.json` holds conversation metadata, and each conversation has
+// a `<id>.jsonl` file with one message record per line (the last record for a
+// message ID wins). New and changed messages are appended; a sync rewrites
+// the file with one record per message.
+
+export class ConversationStore {
+  private rootDir: string | null = null;
+  private conversations: Map<string, StoredConversation> | null = null;
+  private isSyncing: boolean = false;
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS - MIRRORING
+  // --------------------------------------------------------------------------
+
+  upsertConversation(data: ConversationResponse['data']): StoredConversation {
+    const conversations = this.loadIndex();
+    const existing = conversations.get(data.id);
+
+    const conversation: StoredConversation = {
+      id: data.id,
+      title: data.attributes.title,
+      messageCount: data.attributes.message_count,
+      createdAt: data.attributes.created_at,
+      updatedAt: data.attributes.updated_at,
+      lastSyncedAt: existing?.lastSyncedAt ?? null,
+    };
+
+    conversations.set(conversation.id, conversation);
+    this.saveIndex();
+    return conversation;
+  }
+
+  removeConversation(conversationId: string): void {
+    const conversations = this.loadIndex();
+    if (conversations.delete(conversationId)) {
+      this.saveIndex();
+    }
+
+    const messagesPath = this.getMessagesPath(conversationId);
+    if (fs.existsSync(messagesPath)) {
+      fs.unlinkSync(messagesPath);
+    }
+  }
+
+  recordMessage(message: MessageResponse): void {
+    const stored = this.toStoredMessage(message.data);
+    this.appendMessages(stored.conversationId, [stored]);
+  }
+
+  recordAIExchange(result: AIProcessResponse): void {
+    this.recordMessage(result.user_message);
+    this.recordMessage(result.ai_response);
+  }
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS - QUERIES
+  // --------------------------------------------------------------------------
+
+  listConversations(): StoredConversation[] {
+    return Array.from(this.loadIndex().values())
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  openConversation(conversationId: string): StoredConversationWithMessages | null {
+    const conversation = this.loadIndex().get(conversationId);
+    if (!conversation) {
+      return null;
+    }
+
+    return { conversation, messages: this.readMessages(conversationId) };
+  }
+
+  searchMessages(query: string, limit: number = 50): MessageSearchResult[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: MessageSearchResult[] = [];
+    for (const conversation of this.listConversations()) {
+      for (const message of this.readMessages(conversation.id)) {
+        const haystack = `${conversation.title}\n${message.textContent || ''}`.toLowerCase();
+        if (!terms.every(term => haystack.includes(term))) {
+          continue;
+        }
+
+        results.push({
+          conversation,
+          message,
+          snippet: this.buildSnippet(message.textContent || conversation.title, terms[0]),
+        });
+
+        if (results.length >= limit) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS - SYNC
+  // --------------------------------------------------------------------------
+
+  async syncWithBackend(token: string, apiService: APIService): Promise<ConversationSyncResult> {
+    if (this.isSyncing) {
+      return { conversations: 0, messages: 0 };
+    }
+
+    this.isSyncing = true;
+    let syncedConversations = 0;
+    let syncedMessages = 0;
+
+    try {
+      const remote = await apiService.getConversations(token);
+
+      for (const data of remote.data) {
+        const local = this.loadIndex().get(data.id);
+        const isStale = !local?.lastSyncedAt || local.lastSyncedAt < data.attributes.updated_at;
+        const conversation = this.upsertConversation(data);
+        if (!isStale) {
+          continue;
+        }
+
+        const messages = await apiService.getConversationMessages(token, data.id);
+        this.replaceMessages(data.id, messages.data.map(message => this.toStoredMessage(message)));
+
+        conversation.lastSyncedAt = data.attributes.updated_at;
+        this.saveIndex();
+
+        syncedConversations++;
+        syncedMessages += messages.data.length;
+      }
+
+      console.log(`🔄 Conversation store synced: ${syncedConversations} conversations, ${syncedMessages} messages`);
+      return { conversations: syncedConversations, messages: syncedMessages };
+    } finally {
+      this.isSyncing = false;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - STORAGE
+  // --------------------------------------------------------------------------
+
+  private getRootDir(): string {
+    if (!this.rootDir) {
+      this.rootDir = path.join(app.getPath('userData'), 'conversations');
+      fs.mkdirSync(this.rootDir, { recursive: true });
+    }
+    return this.rootDir;
+  }
+
+  private getIndexPath(): string {
+    return path.join(this.getRootDir(), 'index.json');
+  }
+
+  private getMessagesPath(conversationId: string): string {
+    // Conversation IDs come from the backend; keep them filesystem-safe anyway
+    const safeId = conversationId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return path.join(this.getRootDir(), `${safeId}.jsonl`);
+  }
+
+  private loadIndex(): Map<string, StoredConversation> {
+    if (this.conversations) {
+      return this.conversations;
+    }
+
+    this.conversations = new Map();
+    try {
+      if (fs.existsSync(this.getIndexPath())) {
+        const entries: StoredConversation[] = JSON.parse(fs.readFileSync(this.getIndexPath(), 'utf8'));
+        entries.forEach(entry => this.conversations!.set(entry.id, entry));
+      }
+    } catch (error) {
+      console.error('Failed to read conversation index, starting empty:', error);
+    }
+
+    return this.conversations;
+  }
+
+  private saveIndex(): void {
+    const entries = Array.from(this.loadIndex().values());
+    const tempPath = `${this.getIndexPath()}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(entries, null, 2));
+    fs.renameSync(tempPath, this.getIndexPath());
+  }
+
+  private appendMessages(conversationId: string, messages: StoredMessage[]): void {
+    // A record identical to the stored one would only grow the file
+    const stored = new Map(this.readMessages(conversationId).map(message => [message.id, JSON.stringify(message)]));
+    const lines = messages
+      .map(message => JSON.stringify(message))
+      .filter((line, index) => stored.get(messages[index].id) !== line);
+    if (lines.length === 0) return;
+
+    fs.appendFileSync(this.getMessagesPath(conversationId), lines.join('\n') + '\n');
+    this.touchConversation(conversationId, messages);
+  }
+
+  /**
+   * Rewrites a conversation's file with the backend's messages merged over
+   * the stored ones, one record each, dropping the records they replace.
+   */
+  private replaceMessages(conversationId: string, messages: StoredMessage[]): void {
+    const byId = new Map(this.readMessages(conversationId).map(message => [message.id, message]));
+    messages.forEach(message => byId.set(message.id, message));
+    if (byId.size === 0) return;
+
+    const merged = Array.from(byId.values()).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const messagesPath = this.getMessagesPath(conversationId);
+    const tempPath = `${messagesPath}.tmp`;
+    fs.writeFileSync(tempPath, merged.map(message => JSON.stringify(message)).join('\n') + '\n');
+    fs.renameSync(tempPath, messagesPath);
+    this.touchConversation(conversationId, messages);
+  }
+
+  private touchConversation(conversationId: string, messages: StoredMessage[]): void {
+    if (messages.length === 0) return;
+
+    // Messages can arrive before we've seen the conversation itself
+    const conversations = this.loadIndex();
+    const latest = messages.reduce((max, message) => message.updatedAt > max ? message.updatedAt : max, '');
+    const conversation = conversations.get(conversationId);
+
+    if (!conversation) {
+      conversations.set(conversationId, {
+        id: conversationId,
+        title: 'Untitled conversation',
+        messageCount: messages.length,
+        createdAt: messages[0].createdAt || latest,
+        updatedAt: latest,
+        lastSyncedAt: null,
+      });
+      this.saveIndex();
+    } else if (latest > conversation.updatedAt) {
+      conversation.updatedAt = latest;
+      this.saveIndex();
+    }
+  }
+
+  private readMessages(conversationId: string): StoredMessage[] {
+    const messagesPath = this.getMessagesPath(conversationId);
+    if (!fs.existsSync(messagesPath)) {
+      return [];
+    }
+
+    const byId = new Map<string, StoredMessage>();
+    for (const line of fs.readFileSync(messagesPath, 'utf8').split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const message: StoredMessage = JSON.parse(line);
+        byId.set(message.id, message);
+      } catch (error) {
+        console.warn('Skipping corrupt conversation store line:', error);
+      }
+    }
+
+    return Array.from(byId.values())
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - UTILITY FUNCTIONS
+  // --------------------------------------------------------------------------
+
+  private toStoredMessage(data: MessageResponse['data']): StoredMessage {
+    const { attributes } = data;
+    return {
+      id: data.id,
+      conversationId: String(attributes.conversation_id),
+      contentType: attributes.content_type,
+      senderType: attributes.sender_type,
+      textContent: attributes.text_content,
+      screenshotUrl: attributes.screenshot_url,
+      audioUrl: attributes.audio_url,
+      createdAt: attributes.created_at,
+      updatedAt: attributes.updated_at,
+    };
+  }
+
+  private buildSnippet(text: string, term: string): string {
+    const index = text.toLowerCase().indexOf(term);
+    const start = Math.max(0, index - 40);
+    const end = Math.min(text.length, (index === -1 ? 0 : index) + term.length + 80);
+    return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  }
+}
@@ -0,0 +1,49 @@
+import { isMainThread, parentPort, Worker, workerData } from 'worker_threads';
+import { cancelEcho, EchoCancellerOptions } from '../shared/echoCanceller';
+
+// ============================================================================
+// ECHO CANCELLER WORKER
+// ============================================================================
+//
+// The whole-recording echo cancellation pass takes several seconds per
+// minute of audio. Run on the main process thread it would freeze every
+// window and all IPC when a long recording stops, so it runs in a worker
+// thread instead. This file is both the worker and the function that
+// starts it.
+
+interface EchoCancellerJob {
+  mic: Float32Array;
+  reference: Float32Array;
+  options: EchoCancellerOptions;
+}
+
+if (!isMainThread && parentPort) {
+  const { mic, reference, options } = workerData as EchoCancellerJob;
+  const output = cancelEcho(mic, reference, options);
+  parentPort.postMessage(output, [output.buffer as ArrayBuffer]);
+}
+
+/**
+ * cancelEcho in a worker thread. Rejects if the worker could not run.
+ */
+export function cancelEchoInWorker(mic: Float32Array, reference: Float32Array, options: EchoCancellerOptions): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const job: EchoCancellerJob = { mic, reference, options };
+    const worker = new Worker(__filename, { workerData: job });
+    let settled = false;
+
+    worker.once('message', (output: Float32Array) => {
+      settled = true;
+      resolve(output);
+    });
+    worker.once('error', (error) => {
+      settled = true;
+      reject(error);
+    });
+    worker.once('exit', (code) => {
+      if (!settled) {
+        reject(new Error(`Echo canceller worker exited with code ${code}`));
+      }
+    });
+  });
+}
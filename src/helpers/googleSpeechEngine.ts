@@ -0,0 +1,122 @@
+import { SpeechClient } from '@google-cloud/speech';
+import {
+  TranscriptionEngine,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+} from './transcriptionService';
+
+// ============================================================================
+// GOOGLE SPEECH ENGINE
+// ============================================================================
+//
+// Streaming recognition through @google-cloud/speech. Credentials come from
+// the usual Application Default Credentials (GOOGLE_APPLICATION_CREDENTIALS).
+// Google caps a streaming session at about five minutes, so the stream is
+// rotated before that limit and recording continues on a fresh session.
+
+// gRPC status returned when a stream exceeds the maximum duration
+const OUT_OF_RANGE = 11;
+
+class GoogleSpeechStream implements TranscriptionStream {
+  private readonly SESSION_LIMIT_MS = 4.5 * 60 * 1000;
+  private readonly END_TIMEOUT_MS = 5000;
+
+  private recognizeStream: ReturnType<SpeechClient['streamingRecognize']> | null = null;
+  private sessionStartedAt = 0;
+  private isEnded = false;
+
+  constructor(
+    private client: SpeechClient,
+    private options: TranscriptionStreamOptions,
+    private onResult: (result: TranscriptionResult) => void,
+    private onError: (error: Error) => void
+  ) {}
+
+  write(pcm: Buffer): void {
+    if (this.isEnded) return;
+
+    if (!this.recognizeStream || Date.now() - this.sessionStartedAt > this.SESSION_LIMIT_MS) {
+      this.rotateSession();
+    }
+    this.recognizeStream!.write(pcm);
+  }
+
+  end(): Promise<void> {
+    this.isEnded = true;
+    const stream = this.recognizeStream;
+    this.recognizeStream = null;
+    if (!stream) {
+      return Promise.resolve();
+    }
+
+    // Final results arrive after the write side is closed; don't wait forever for them
+    return new Promise((resolve) => {
+      const timeout = setTimeout(resolve, this.END_TIMEOUT_MS);
+      const finish = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      stream.once('end', finish);
+      stream.once('error', finish);
+      stream.end();
+    });
+  }
+
+  private rotateSession(): void {
+    if (this.recognizeStream) {
+      this.recognizeStream.end();
+    }
+
+    this.sessionStartedAt = Date.now();
+    const stream = this.client.streamingRecognize({
+      config: {
+        encoding: 'LINEAR16',
+        sampleRateHertz: this.options.sampleRate,
+        languageCode: this.options.languageCode,
+        enableAutomaticPunctuation: true,
+      },
+      interimResults: true,
+    });
+
+    stream.on('data', (response: any) => {
+      const result = response.results?.[0];
+      const transcript = result?.alternatives?.[0]?.transcript;
+      if (typeof transcript === 'string') {
+        this.onResult({ text: transcript, isFinal: Boolean(result.isFinal) });
+      }
+    });
+
+    stream.on('error', (error: Error & { code?: number }) => {
+      // A session that ran past the limit is simply replaced on the next write
+      if (error.code === OUT_OF_RANGE) {
+        if (this.recognizeStream === stream) {
+          this.recognizeStream = null;
+        }
+        return;
+      }
+      if (!this.isEnded) {
+        this.onError(error);
+      }
+    });
+
+    this.recognizeStream = stream;
+  }
+}
+
+export class GoogleSpeechEngine implements TranscriptionEngine {
+  readonly id = 'google';
+
+  private client: SpeechClient | null = null;
+
+  createStream(
+    options: TranscriptionStreamOptions,
+    onResult: (result: TranscriptionResult) => void,
+    onError: (error: Error) => void
+  ): TranscriptionStream {
+    if (!this.client) {
+      this.client = new SpeechClient();
+    }
+    return new GoogleSpeechStream(this.client, options, onResult, onError);
+  }
+}
@@ -0,0 +1,230 @@
+import { spawn, execFile } from 'child_process';
+import { promisify } from 'util';
+import { CANONICAL_AUDIO_FORMAT } from '../shared/audioFormat';
+import { InputDevice, MonitorSource } from '../shared/audioDeviceTypes';
+
+const execFileAsync = promisify(execFile);
+
+// ============================================================================
+// LINUX AUDIO DEVICES
+// ============================================================================
+//
+// Finds the microphones and the output devices that can be recorded as
+// system audio on Linux. PulseAudio is asked through pactl, which also covers
+// PipeWire systems running pipewire-pulse; plain PipeWire is asked through
+// pw-cli, and ALSA through arecord.
+
+export type LinuxAudioBackend = 'pulse' | 'pipewire';
+
+// Every sink has a monitor source that plays back what the sink outputs
+const MONITOR_SUFFIX = '.monitor';
+const COMMAND_TIMEOUT_MS = 5000;
+const PIPEWIRE_POLL_INTERVAL_MS = 3000;
+// Device added or removed, or the default output changed
+const PULSE_DEVICE_EVENT = /Event '(new|remove)' on (sink|source) #|Event 'change' on server #/;
+// pactl output is translated otherwise
+const C_LOCALE_ENV = { ...process.env, LC_ALL: 'C' };
+
+let detectedBackend: Promise<LinuxAudioBackend | null> | null = null;
+
+/**
+ * Which sound server tools are installed. Checked once.
+ */
+export function detectLinuxAudioBackend(): Promise<LinuxAudioBackend | null> {
+  if (!detectedBackend) {
+    detectedBackend = (async () => {
+      if (await succeeds('pactl', ['info'])) return 'pulse';
+      if (await succeeds('pw-cli', ['info', '0'])) return 'pipewire';
+      console.log('ℹ️ Neither pactl nor pw-cli is available, no native system audio');
+      return null;
+    })();
+  }
+  return detectedBackend;
+}
+
+/**
+ * Lists the outputs that can be recorded, the default output first.
+ */
+export async function listMonitorSources(backend?: LinuxAudioBackend | null): Promise<MonitorSource[]> {
+  const server = backend === undefined ? await detectLinuxAudioBackend() : backend;
+  if (!server) return [];
+
+  const sources = server === 'pulse' ? await listPulseMonitors() : await listPipeWireSinks();
+  return sources.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * Lists the microphones sox can record from, the default input first. The
+ * ids are PulseAudio source names, or ALSA devices without PulseAudio.
+ */
+export async function listInputSources(backend?: LinuxAudioBackend | null): Promise<InputDevice[]> {
+  const server = backend === undefined ? await detectLinuxAudioBackend() : backend;
+  const inputs = server === 'pulse' ? await listPulseInputs() : await listAlsaInputs();
+  return inputs.sort((a, b) => Number(b.isDefault) - Number(a.isDefault));
+}
+
+/**
+ * The command that records a monitor as 16-bit mono PCM at the canonical
+ * rate on stdout.
+ */
+export function monitorRecorderCommand(backend: LinuxAudioBackend, source: MonitorSource): { program: string; args: string[] } {
+  const rate = String(CANONICAL_AUDIO_FORMAT.sampleRate);
+
+  if (backend === 'pulse') {
+    return {
+      program: 'parec',
+      args: [`--device=${source.name}`, '--format=s16le', `--rate=${rate}`, '--channels=1', '--latency-msec=100'],
+    };
+  }
+
+  // Targeting a sink records its output rather than an input
+  return {
+    program: 'pw-record',
+    args: [
+      `--target=${source.name}`,
+      '-P', '{ stream.capture.sink = true }',
+      '--format=s16', `--rate=${rate}`, '--channels=1',
+      '--raw', '-',
+    ],
+  };
+}
+
+/**
+ * Calls onChange whenever outputs come or go or the default output changes.
+ * PulseAudio reports this itself; PipeWire is polled. Returns a function
+ * that stops watching.
+ */
+export function watchAudioDevices(backend: LinuxAudioBackend, onChange: () => void): () => void {
+  if (backend === 'pipewire') {
+    const timer = setInterval(onChange, PIPEWIRE_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }
+
+  const subscriber = spawn('pactl', ['subscribe'], { stdio: ['ignore', 'pipe', 'ignore'], env: C_LOCALE_ENV });
+  let partialLine = '';
+
+  subscriber.stdout.on('data', (data: Buffer) => {
+    const lines = (partialLine + data.toString()).split('\n');
+    partialLine = lines.pop() ?? '';
+    if (lines.some(line => PULSE_DEVICE_EVENT.test(line))) {
+      onChange();
+    }
+  });
+
+  subscriber.on('error', (error) => {
+    console.warn('⚠️ Could not watch for audio device changes:', error.message);
+  });
+
+  return () => {
+    subscriber.kill();
+  };
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+interface PulseSource {
+  name: string;
+  description: string;
+  // Set on monitor sources
+  monitorOf: string | null;
+}
+
+async function listPulseSources(): Promise<{ sources: PulseSource[]; defaultSink: string | null; defaultSource: string | null }> {
+  const [info, list] = await Promise.all([
+    run('pactl', ['info']),
+    run('pactl', ['list', 'sources']),
+  ]);
+  const serverField = (key: string) => info.match(new RegExp(`^${key}: (.+)$`, 'm'))?.[1].trim() ?? null;
+
+  // One "Source #N" block per source, with indented "Key: value" lines
+  const sources: PulseSource[] = [];
+  for (const block of list.split(/^Source #\d+$/m).slice(1)) {
+    const field = (key: string) => block.match(new RegExp(`^\\s+${key}: (.+)$`, 'm'))?.[1].trim();
+    const name = field('Name');
+    if (!name) continue;
+
+    const monitorOf = field('Monitor of Sink');
+    sources.push({
+      name,
+      description: field('Description') ?? name,
+      monitorOf: monitorOf && monitorOf !== 'n/a' ? monitorOf : null,
+    });
+  }
+  return { sources, defaultSink: serverField('Default Sink'), defaultSource: serverField('Default Source') };
+}
+
+async function listPulseMonitors(): Promise<MonitorSource[]> {
+  const { sources, defaultSink } = await listPulseSources();
+  return sources
+    .filter(source => source.monitorOf !== null)
+    .map(source => ({
+      name: source.name,
+      description: source.description,
+      sinkName: source.monitorOf!,
+      isDefault: source.monitorOf === defaultSink || source.name === `${defaultSink}${MONITOR_SUFFIX}`,
+    }));
+}
+
+async function listPulseInputs(): Promise<InputDevice[]> {
+  const { sources, defaultSource } = await listPulseSources();
+  return sources
+    .filter(source => source.monitorOf === null)
+    .map(source => ({ id: source.name, label: source.description, isDefault: source.name === defaultSource }));
+}
+
+async function listAlsaInputs(): Promise<InputDevice[]> {
+  // e.g. "card 1: Headset [USB Headset], device 0: USB Audio [USB Audio]"
+  const output = await run('arecord', ['-l']).catch(() => '');
+  const inputs: InputDevice[] = [];
+  for (const match of output.matchAll(/^card (\d+): \S+ \[(.+?)\], device (\d+): .*?\[(.+?)\]/gm)) {
+    const [, card, cardName, device, deviceName] = match;
+    inputs.push({
+      // plughw converts to whatever rate and format sox asks for
+      id: `plughw:${card},${device}`,
+      label: cardName === deviceName ? cardName : `${cardName} - ${deviceName}`,
+      isDefault: false,
+    });
+  }
+  return inputs;
+}
+
+async function listPipeWireSinks(): Promise<MonitorSource[]> {
+  const [nodes, metadata] = await Promise.all([
+    run('pw-cli', ['ls', 'Node']),
+    run('pw-metadata', ['0', 'default.audio.sink']).catch(() => ''),
+  ]);
+  const defaultSink = metadata.match(/"name"\s*:\s*"([^"]+)"/)?.[1] ?? null;
+
+  // One "id N, type PipeWire:Interface:Node" block per node, with indented
+  // key = "value" properties
+  const sinks: MonitorSource[] = [];
+  for (const block of nodes.split(/^\s*id \d+, type /m).slice(1)) {
+    const property = (key: string) => block.match(new RegExp(`^\\s+${key.replace(/\./g, '\\.')} = "(.*)"$`, 'm'))?.[1];
+    const name = property('node.name');
+    if (!name || property('media.class') !== 'Audio/Sink') continue;
+
+    sinks.push({
+      name,
+      description: property('node.description') ?? property('node.nick') ?? name,
+      sinkName: name,
+      isDefault: name === defaultSink,
+    });
+  }
+  return sinks;
+}
+
+async function run(program: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync(program, args, { env: C_LOCALE_ENV, timeout: COMMAND_TIMEOUT_MS });
+  return stdout;
+}
+
+async function succeeds(program: string, args: string[]): Promise<boolean> {
+  try {
+    await run(program, args);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,306 @@
+import {
+  LiveAssistEvent,
+  LiveAssistSettings,
+  LiveAssistState,
+  LiveAssistTrigger,
+  QuestionSensitivity,
+} from '../shared/liveAssistTypes';
+import { SCREEN_TEXT_HEADING } from '../shared/screenshotText';
+import { TranscriptEvent, TranscriptSegment, TranscriptSource } from '../shared/transcriptionTypes';
+import { QuestionDetector } from './questionDetector';
+import {
+  TranscriptionEngine,
+  TranscriptionService,
+  TranscriptionStreamOptions,
+  formatTranscript,
+} from './transcriptionService';
+
+// ============================================================================
+// LIVE ASSIST SERVICE
+// ============================================================================
+//
+// Runs a continuous listening session. Audio is transcribed as it arrives and
+// screenshots are collected, both trimmed to a rolling context window. On a
+// fixed cadence, or as soon as the other side finishes a question, the window
+// is handed to the assist handler, which asks the AI for a suggestion.
+
+export interface LiveAssistContext {
+  trigger: LiveAssistTrigger;
+  // The question that fired a 'question' trigger
+  question?: string;
+  // "Me: ..." / "Them: ..." lines for the context window
+  transcript: string;
+  // Newest screenshot that no earlier request has seen
+  screenshot: Buffer | null;
+  contextMinutes: number;
+}
+
+export type LiveAssistHandler = (context: LiveAssistContext) => Promise<string | null>;
+
+// Screenshots are large, so only the newest few inside the window are kept
+const MAX_SCREENSHOTS = 5;
+
+/**
+ * Builds the text_content of the message sent on the user's behalf.
+ */
+export function composeLiveAssistPrompt(context: LiveAssistContext, screenText?: string): string {
+  const sections = [
+    context.trigger === 'question' && context.question
+      ? `💡 Live assist: they just asked "${context.question}". Suggest a short answer I could give.`
+      : '💡 Live assist: briefly suggest what I could say or do next.',
+    context.transcript ? `🗣️ Conversation (last ${context.contextMinutes} min):\n${context.transcript}` : undefined,
+    screenText?.trim() ? `${SCREEN_TEXT_HEADING}\n${screenText.trim()}` : undefined,
+  ].filter(Boolean);
+
+  return sections.join('\n\n');
+}
+
+export class LiveAssistService {
+  private state: LiveAssistState = 'stopped';
+  private settings: LiveAssistSettings | null = null;
+  private engine: TranscriptionEngine | null = null;
+  private streamOptions: TranscriptionStreamOptions | null = null;
+  private transcription: TranscriptionService;
+  private questionDetector: QuestionDetector;
+  private segments: { segment: TranscriptSegment; heardAt: number; session: number }[] = [];
+  // Segment IDs restart with every transcription session (each resume)
+  private transcriptSession = 0;
+  private screenshots: { buffer: Buffer; capturedAt: number }[] = [];
+  // Anything heard or captured after these was not part of a request yet
+  private lastAssistAt = 0;
+  private lastScreenshotSentAt = 0;
+  private intervalTimer: NodeJS.Timeout | null = null;
+  private isAssisting = false;
+  private pendingTrigger: { trigger: LiveAssistTrigger; question?: string } | null = null;
+
+  constructor(
+    private handler: LiveAssistHandler,
+    private onEvent: (event: LiveAssistEvent) => void,
+    onTranscriptEvent: (event: TranscriptEvent) => void,
+    // Checked when a question is detected, so it follows the current conversation
+    private shouldAnswerQuestions: () => boolean = () => true
+  ) {
+    this.transcription = new TranscriptionService((event) => {
+      this.handleTranscriptEvent(event);
+      onTranscriptEvent(event);
+    });
+    this.questionDetector = new QuestionDetector((question) => {
+      if (this.shouldAnswerQuestions()) {
+        void this.requestAssist('question', question);
+      }
+    });
+  }
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  start(engine: TranscriptionEngine, options: TranscriptionStreamOptions, settings: LiveAssistSettings): void {
+    if (this.state !== 'stopped') {
+      console.log('💡 Live assist already running, restarting');
+    }
+
+    this.engine = engine;
+    this.streamOptions = options;
+    this.settings = settings;
+    this.segments = [];
+    this.screenshots = [];
+    this.lastAssistAt = Date.now();
+    this.lastScreenshotSentAt = 0;
+    this.pendingTrigger = null;
+    this.questionDetector.reset();
+
+    this.transcription.start(engine, options);
+    this.setState('running');
+    this.scheduleInterval();
+    console.log(`💡 Live assist started: every ${settings.intervalSeconds}s, ${settings.contextMinutes} min of context`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.state === 'stopped') return;
+
+    this.setState('stopped');
+    this.clearIntervalTimer();
+    this.pendingTrigger = null;
+    this.questionDetector.reset();
+    if (this.transcription.isActive()) {
+      await this.transcription.stop();
+    }
+    this.segments = [];
+    this.screenshots = [];
+    console.log('💡 Live assist stopped');
+  }
+
+  /**
+   * Stops listening without dropping the context gathered so far.
+   */
+  async pause(): Promise<void> {
+    if (this.state !== 'running') return;
+
+    this.setState('paused');
+    this.clearIntervalTimer();
+    this.pendingTrigger = null;
+    this.questionDetector.reset();
+    if (this.transcription.isActive()) {
+      await this.transcription.stop();
+    }
+  }
+
+  resume(): void {
+    if (this.state !== 'paused' || !this.engine || !this.streamOptions) return;
+
+    this.transcription.start(this.engine, this.streamOptions);
+    this.setState('running');
+    this.scheduleInterval();
+  }
+
+  updateSettings(settings: LiveAssistSettings): void {
+    const intervalChanged = settings.intervalSeconds !== this.settings?.intervalSeconds;
+    this.settings = settings;
+    if (this.state === 'running' && intervalChanged) {
+      this.scheduleInterval();
+    }
+  }
+
+  setQuestionSensitivity(sensitivity: QuestionSensitivity): void {
+    this.questionDetector.setSensitivity(sensitivity);
+  }
+
+  /**
+   * Speech start/stop on a channel, from the capture side's VAD. Only the
+   * other side's channel matters for spotting the end of a question.
+   */
+  setVoiceActivity(source: TranscriptSource, active: boolean): void {
+    if (this.state !== 'running' || source !== 'system') return;
+    this.questionDetector.setVoiceActive(active);
+  }
+
+  writeAudio(source: TranscriptSource, pcm: Buffer): void {
+    if (this.state !== 'running') return;
+    this.transcription.write(source, pcm);
+  }
+
+  addScreenshot(buffer: Buffer): void {
+    if (this.state !== 'running') return;
+    this.screenshots.push({ buffer, capturedAt: Date.now() });
+    this.prune();
+  }
+
+  getState(): LiveAssistState {
+    return this.state;
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private handleTranscriptEvent(event: TranscriptEvent): void {
+    if (event.type === 'reset') {
+      this.transcriptSession++;
+      return;
+    }
+    if (event.type === 'remove') {
+      this.segments = this.segments.filter(entry =>
+        entry.session !== this.transcriptSession || entry.segment.id !== event.id);
+      return;
+    }
+    if (event.type !== 'segment' || !event.segment.isFinal) return;
+
+    this.segments.push({ segment: event.segment, heardAt: Date.now(), session: this.transcriptSession });
+    this.prune();
+    this.questionDetector.addSegment(event.segment);
+  }
+
+  private async requestAssist(trigger: LiveAssistTrigger, question?: string): Promise<void> {
+    if (this.state !== 'running' || !this.settings) return;
+
+    // One request at a time; a question outranks a waiting interval
+    if (this.isAssisting) {
+      if (!this.pendingTrigger || trigger === 'question') {
+        this.pendingTrigger = { trigger, question };
+      }
+      return;
+    }
+
+    this.prune();
+    const hasNewSpeech = this.segments.some(entry => entry.heardAt > this.lastAssistAt);
+    const screenshot = this.screenshots[this.screenshots.length - 1];
+    const newScreenshot = screenshot && screenshot.capturedAt > this.lastScreenshotSentAt ? screenshot : null;
+    if (trigger === 'interval' && !hasNewSpeech && !newScreenshot) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    this.isAssisting = true;
+    // A question restarts the cadence so an interval request doesn't follow right behind it
+    this.scheduleInterval();
+
+    try {
+      const suggestion = await this.handler({
+        trigger,
+        question,
+        transcript: formatTranscript(this.segments.map(entry => entry.segment)),
+        screenshot: newScreenshot?.buffer ?? null,
+        contextMinutes: this.settings.contextMinutes
+      });
+
+      this.lastAssistAt = startedAt;
+      if (newScreenshot) {
+        this.lastScreenshotSentAt = newScreenshot.capturedAt;
+      }
+      // Stopping while the request was out discards its answer
+      if (suggestion?.trim() && this.getState() !== 'stopped') {
+        this.emit({ type: 'suggestion', trigger, text: suggestion.trim() });
+      }
+    } catch (error) {
+      console.error('❌ Live assist request failed:', error);
+      this.emit({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      this.isAssisting = false;
+      const pending = this.pendingTrigger;
+      this.pendingTrigger = null;
+      if (pending) {
+        void this.requestAssist(pending.trigger, pending.question);
+      }
+    }
+  }
+
+  private prune(): void {
+    if (!this.settings) return;
+
+    const cutoff = Date.now() - this.settings.contextMinutes * 60 * 1000;
+    this.segments = this.segments.filter(entry => entry.heardAt >= cutoff);
+    this.screenshots = this.screenshots
+      .filter(screenshot => screenshot.capturedAt >= cutoff)
+      .slice(-MAX_SCREENSHOTS);
+  }
+
+  private scheduleInterval(): void {
+    this.clearIntervalTimer();
+    if (!this.settings || this.state !== 'running') return;
+
+    this.intervalTimer = setInterval(() => {
+      void this.requestAssist('interval');
+    }, this.settings.intervalSeconds * 1000);
+  }
+
+  private clearIntervalTimer(): void {
+    if (this.intervalTimer) {
+      clearInterval(this.intervalTimer);
+      this.intervalTimer = null;
+    }
+  }
+
+  private setState(state: LiveAssistState): void {
+    this.state = state;
+    this.emit({ type: 'state', state });
+  }
+
+  private emit(event: LiveAssistEvent): void {
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      console.warn('⚠️ Failed to deliver live assist event:', error);
+    }
+  }
+}
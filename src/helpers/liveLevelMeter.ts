@@ -0,0 +1,63 @@
+import { LiveTrackLevel } from '../shared/audioLevelTypes';
+import { measureLevel } from './audioProcessingChain';
+
+// ============================================================================
+// LIVE LEVEL METER
+// ============================================================================
+//
+// Meters one track while it is being recorded. Chunks are measured as they
+// arrive and read() reports the loudest reading since the previous call, so
+// short peaks are not lost between updates. A track that stays quieter than
+// a muted or unplugged microphone usually is gets its silence timed, which
+// lets the HUD warn before a long recording turns out to be empty.
+
+// Below this a microphone is treated as picking up nothing
+export const SIGNAL_THRESHOLD_DB = -60;
+// A 16-bit sample within one step of full scale
+const CLIP_THRESHOLD = 32766 / 32768;
+// Keeps a single clipped sample visible for a while
+const CLIP_HOLD_MS = 1000;
+// Reported for digital silence, matching measureLevel
+const MIN_LEVEL_DB = -100;
+
+export class LiveLevelMeter {
+  private rmsDb = MIN_LEVEL_DB;
+  private peakDb = MIN_LEVEL_DB;
+  private lastClipAt = -Infinity;
+  private lastSignalAt: number;
+
+  constructor(startedAt: number = Date.now()) {
+    this.lastSignalAt = startedAt;
+  }
+
+  add(samples: Float32Array, now: number = Date.now()): void {
+    if (samples.length === 0) return;
+
+    const level = measureLevel(samples);
+    this.rmsDb = Math.max(this.rmsDb, level.rmsDb);
+    this.peakDb = Math.max(this.peakDb, level.peakDb);
+
+    if (level.rmsDb >= SIGNAL_THRESHOLD_DB) {
+      this.lastSignalAt = now;
+    }
+    for (let i = 0; i < samples.length; i++) {
+      if (Math.abs(samples[i]) >= CLIP_THRESHOLD) {
+        this.lastClipAt = now;
+        break;
+      }
+    }
+  }
+
+  // Returns the level since the previous read and starts a new window
+  read(now: number = Date.now()): LiveTrackLevel {
+    const level: LiveTrackLevel = {
+      rmsDb: this.rmsDb,
+      peakDb: this.peakDb,
+      clipping: now - this.lastClipAt < CLIP_HOLD_MS,
+      silentMs: Math.max(0, now - this.lastSignalAt),
+    };
+    this.rmsDb = MIN_LEVEL_DB;
+    this.peakDb = MIN_LEVEL_DB;
+    return level;
+  }
+}
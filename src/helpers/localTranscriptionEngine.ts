@@ -0,0 +1,129 @@
+import {
+  TranscriptionEngine,
+  TranscriptionResult,
+  TranscriptionStream,
+  TranscriptionStreamOptions,
+} from './transcriptionService';
+
+// ============================================================================
+// LOCAL TRANSCRIPTION ENGINE
+// ============================================================================
+//
+// Offline stand-in for a real speech-to-text backend. It does not recognize
+// words: it detects utterances by signal energy and reports each one either
+// as the next scripted phrase or as "[speech 1.4s]". That is enough to drive
+// the live transcript end to end without credentials or a network.
+
+export interface LocalTranscriptionOptions {
+  // Returned in order, one per detected utterance
+  phrases?: string[];
+  // RMS level (0-1) above which a frame counts as speech
+  speechThreshold?: number;
+  // Silence that closes an utterance
+  endOfUtteranceMs?: number;
+  // How often interim results are reported during an utterance
+  interimIntervalMs?: number;
+}
+
+const FRAME_MS = 20;
+
+class LocalTranscriptionStream implements TranscriptionStream {
+  private readonly frameBytes: number;
+  private pending: Buffer = Buffer.alloc(0);
+  private speechMs = 0;
+  private silenceMs = 0;
+  private lastInterimAtMs = 0;
+  private isInUtterance = false;
+
+  constructor(
+    private options: TranscriptionStreamOptions,
+    private settings: Required<Omit<LocalTranscriptionOptions, 'phrases'>>,
+    private nextPhrase: () => string | undefined,
+    private onResult: (result: TranscriptionResult) => void
+  ) {
+    this.frameBytes = Math.max(2, Math.round(options.sampleRate * FRAME_MS / 1000) * 2);
+  }
+
+  write(pcm: Buffer): void {
+    this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, pcm]) : pcm;
+
+    let offset = 0;
+    while (this.pending.length - offset >= this.frameBytes) {
+      this.processFrame(this.pending.subarray(offset, offset + this.frameBytes));
+      offset += this.frameBytes;
+    }
+    this.pending = this.pending.subarray(offset);
+  }
+
+  async end(): Promise<void> {
+    if (this.isInUtterance) {
+      this.finishUtterance();
+    }
+    this.pending = Buffer.alloc(0);
+  }
+
+  private processFrame(frame: Buffer): void {
+    let sumOfSquares = 0;
+    const samples = frame.length / 2;
+    for (let i = 0; i < samples; i++) {
+      const sample = frame.readInt16LE(i * 2) / 32768;
+      sumOfSquares += sample * sample;
+    }
+    const isSpeech = Math.sqrt(sumOfSquares / samples) >= this.settings.speechThreshold;
+
+    if (isSpeech) {
+      if (!this.isInUtterance) {
+        this.isInUtterance = true;
+        this.speechMs = 0;
+        this.lastInterimAtMs = 0;
+      }
+      this.speechMs += FRAME_MS + this.silenceMs;
+      this.silenceMs = 0;
+
+      if (this.speechMs - this.lastInterimAtMs >= this.settings.interimIntervalMs) {
+        this.lastInterimAtMs = this.speechMs;
+        this.onResult({ text: '…', isFinal: false });
+      }
+      return;
+    }
+
+    if (this.isInUtterance) {
+      this.silenceMs += FRAME_MS;
+      if (this.silenceMs >= this.settings.endOfUtteranceMs) {
+        this.finishUtterance();
+      }
+    }
+  }
+
+  private finishUtterance(): void {
+    const seconds = (this.speechMs / 1000).toFixed(1);
+    this.onResult({ text: this.nextPhrase() ?? `[speech ${seconds}s]`, isFinal: true });
+    this.isInUtterance = false;
+    this.speechMs = 0;
+    this.silenceMs = 0;
+  }
+}
+
+export class LocalTranscriptionEngine implements TranscriptionEngine {
+  readonly id = 'local';
+
+  private phrases: string[];
+  private settings: Required<Omit<LocalTranscriptionOptions, 'phrases'>>;
+
+  constructor(options: LocalTranscriptionOptions = {}) {
+    this.phrases = [...(options.phrases ?? [])];
+    this.settings = {
+      speechThreshold: options.speechThreshold ?? 0.02,
+      endOfUtteranceMs: options.endOfUtteranceMs ?? 600,
+      interimIntervalMs: options.interimIntervalMs ?? 500,
+    };
+  }
+
+  createStream(
+    options: TranscriptionStreamOptions,
+    onResult: (result: TranscriptionResult) => void,
+    _onError: (error: Error) => void
+  ): TranscriptionStream {
+    return new LocalTranscriptionStream(options, this.settings, () => this.phrases.shift(), onResult);
+  }
+}
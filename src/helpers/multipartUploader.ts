@@ -0,0 +1,465 @@
+import { app } from 'electron';
+import { createHash, randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { UploadMediaKind, UploadProgress } from '../shared/multipartUploadTypes';
+import { isRetryableError } from './uploadQueue';
+
+// ============================================================================
+// MULTIPART UPLOADER
+// ============================================================================
+//
+// Sends captures to S3. Small files go up in one PUT to the URL the caller
+// presigned; large ones as an S3 multipart upload, so a dropped connection
+// only costs the part in flight. Finished parts and their ETags are written
+// to userData/uploads/multipart.json as they complete, and when the same
+// capture is uploaded again (the outbox retrying after a failure, crash or
+// restart) the upload carries on from the first missing part. Encoders don't
+// produce the same bytes twice, so the body of an encoded capture is kept
+// next to its session and sent again from there. Sessions that are never
+// finished are aborted on the server once they are too old to resume.
+
+export interface SingleUploadTarget {
+  uploadUrl: string;
+  filename: string;
+}
+
+export interface UploadRequest {
+  kind: UploadMediaKind;
+  body: Buffer;
+  // What the body was encoded from, when it is not the capture itself.
+  // Sessions are keyed on it so a re-encoded retry still resumes
+  source?: Buffer;
+  contentType: string;
+  token: string;
+  // The conversation's messages endpoint, e.g. .../conversations/42/messages
+  messagesUrl: string;
+  // Presigned PUT for the whole file, used below the multipart threshold and
+  // when the server has no multipart endpoints
+  single: SingleUploadTarget;
+  // Extra fields for create_multipart_upload, e.g. the negotiated format
+  params?: Record<string, string>;
+}
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+interface MultipartSession {
+  // Identifies the capture being uploaded, so a retry finds its session
+  key: string;
+  uploadId: string;
+  filename: string;
+  // Needed to abort the upload after the request that started it is gone
+  messagesUrl: string;
+  // The encoded body, stored next to the sessions file, for requests with a source
+  bodyFile?: string;
+  partSize: number;
+  totalBytes: number;
+  parts: UploadedPart[];
+  createdAt: string;
+}
+
+type ProgressReporter = (bytesSent: number) => void;
+
+export class MultipartUploader {
+  private readonly MULTIPART_THRESHOLD = 8 * 1024 * 1024;
+  private readonly PART_SIZE = 5 * 1024 * 1024; // S3 minimum for all but the last part
+  private readonly PART_ATTEMPTS = 3;
+  private readonly BASE_RETRY_DELAY = 1000;
+  private readonly SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // Older sessions are aborted rather than resumed
+  private readonly PROGRESS_INTERVAL = 200; // ms between progress events
+
+  private sessions: MultipartSession[] | null = null;
+
+  constructor(
+    private onProgress: (progress: UploadProgress) => void = () => {},
+    private rootDir: string | null = null // Defaults to userData/uploads
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Uploads a capture, in parts when it is large enough.
+   * @returns the S3 key the file was stored under
+   * @throws when the upload fails, with the HTTP status in the message
+   */
+  async upload(request: UploadRequest): Promise<string> {
+    await this.abortStaleSessions(request.token);
+
+    // A resumed upload sends the bytes its first parts were cut from
+    const key = this.getSessionKey(request);
+    const session = this.loadSessions().find(candidate => candidate.key === key) ?? null;
+    const storedBody = session && this.readSessionBody(session);
+    let body = storedBody ?? request.body;
+    // Parts cut from other bytes can't be joined with these
+    if (session && ((request.source && !storedBody) || body.length !== session.totalBytes)) {
+      console.warn(`⚠️ Multipart upload ${session.uploadId} cannot be resumed, starting over`);
+      await this.abortSession(request.token, session);
+      body = request.body;
+    }
+
+    const progressId = randomUUID();
+    let lastSent = 0;
+    let lastReportedAt = 0;
+    const report = (bytesSent: number, done: boolean = false) => {
+      lastSent = bytesSent;
+      // Slices complete far more often than a progress bar needs redrawing
+      if (!done && Date.now() - lastReportedAt < this.PROGRESS_INTERVAL) return;
+      lastReportedAt = Date.now();
+      this.onProgress({ uploadId: progressId, kind: request.kind, bytesSent, totalBytes: body.length, done });
+    };
+
+    try {
+      report(0);
+      let filename: string | null = null;
+      if (body.length >= this.MULTIPART_THRESHOLD) {
+        filename = await this.uploadMultipart(request, key, body, report);
+      }
+      if (!filename) {
+        await putWithProgress(request.single.uploadUrl, body, { 'Content-Type': request.contentType }, report);
+        filename = request.single.filename;
+      }
+      report(body.length, true);
+      return filename;
+    } catch (error) {
+      report(lastSent, true);
+      throw error;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - MULTIPART
+  // --------------------------------------------------------------------------
+
+  /**
+   * @returns null when the server does not support multipart uploads
+   */
+  private async uploadMultipart(request: UploadRequest, key: string, body: Buffer, report: ProgressReporter): Promise<string | null> {
+    let session = this.loadSessions().find(candidate => candidate.key === key) ?? null;
+
+    if (session) {
+      console.log(`⏯️ Resuming multipart upload ${session.uploadId}: ${session.parts.length} part(s) already sent`);
+    } else {
+      session = await this.createSession(request, key, body);
+      if (!session) {
+        return null;
+      }
+    }
+
+    try {
+      await this.sendParts(request, session, body, report);
+      await this.completeSession(request, session);
+    } catch (error) {
+      // The server no longer knows the upload (expired or aborted); start over next time
+      if (/status 404/.test(error instanceof Error ? error.message : String(error))) {
+        this.removeSession(key);
+      }
+      throw error;
+    }
+
+    this.removeSession(key);
+    return session.filename;
+  }
+
+  private async createSession(request: UploadRequest, key: string, body: Buffer): Promise<MultipartSession | null> {
+    const response = await fetch(`${request.messagesUrl}/create_multipart_upload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${request.token}`,
+      },
+      body: JSON.stringify({
+        kind: request.kind,
+        content_type: request.contentType,
+        size: body.length,
+        part_size: this.PART_SIZE,
+        ...request.params
+      }),
+    });
+
+    if (response.status === 404 || response.status === 405 || response.status === 501) {
+      console.log(`ℹ️ Server has no multipart uploads (status ${response.status}), uploading in one request`);
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to start multipart upload (status ${response.status} ${response.statusText})`);
+    }
+
+    const { upload_id, filename } = await response.json();
+    const session: MultipartSession = {
+      key,
+      uploadId: upload_id,
+      filename,
+      messagesUrl: request.messagesUrl,
+      partSize: this.PART_SIZE,
+      totalBytes: body.length,
+      parts: [],
+      createdAt: new Date().toISOString(),
+    };
+    if (request.source) {
+      session.bodyFile = this.writeSessionBody(key, body);
+    }
+    this.loadSessions().push(session);
+    this.saveSessions();
+
+    console.log(`📦 Started multipart upload ${session.uploadId}: ${Math.ceil(session.totalBytes / session.partSize)} parts`);
+    return session;
+  }
+
+  private async sendParts(request: UploadRequest, session: MultipartSession, body: Buffer, report: ProgressReporter): Promise<void> {
+    const partCount = Math.ceil(session.totalBytes / session.partSize);
+    const partBytes = (partNumber: number) => body.subarray((partNumber - 1) * session.partSize, partNumber * session.partSize);
+
+    let sentBytes = session.parts.reduce((total, part) => total + partBytes(part.partNumber).length, 0);
+    report(sentBytes);
+
+    for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+      if (session.parts.some(part => part.partNumber === partNumber)) continue;
+
+      const bytes = partBytes(partNumber);
+      const etag = await this.sendPart(request, session, partNumber, bytes, sent => report(sentBytes + sent));
+
+      session.parts.push({ partNumber, etag });
+      this.saveSessions();
+      sentBytes += bytes.length;
+      console.log(`📦 Part ${partNumber}/${partCount} uploaded`);
+    }
+  }
+
+  private async sendPart(request: UploadRequest, session: MultipartSession, partNumber: number, bytes: Buffer, report: ProgressReporter): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const uploadUrl = await this.getPartUrl(request, session, partNumber);
+        const etag = await putWithProgress(uploadUrl, bytes, {}, report);
+        if (!etag) {
+          throw new Error(`S3 returned no ETag for part ${partNumber}`);
+        }
+        return etag;
+      } catch (error) {
+        if (attempt >= this.PART_ATTEMPTS || !isRetryableError(error)) {
+          throw error;
+        }
+        console.warn(`⚠️ Part ${partNumber} failed (attempt ${attempt}), retrying:`, error instanceof Error ? error.message : String(error));
+        await new Promise(resolve => setTimeout(resolve, this.BASE_RETRY_DELAY * 2 ** (attempt - 1)));
+      }
+    }
+  }
+
+  private async getPartUrl(request: UploadRequest, session: MultipartSession, partNumber: number): Promise<string> {
+    const query = new URLSearchParams({
+      upload_id: session.uploadId,
+      filename: session.filename,
+      part_number: String(partNumber)
+    });
+    const response = await fetch(`${request.messagesUrl}/get_multipart_part_url?${query}`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${request.token}`,
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get pre-signed URL for part ${partNumber} (status ${response.status} ${response.statusText})`);
+    }
+
+    const { upload_url } = await response.json();
+    return upload_url;
+  }
+
+  private async completeSession(request: UploadRequest, session: MultipartSession): Promise<void> {
+    const parts = [...session.parts]
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(part => ({ part_number: part.partNumber, etag: part.etag }));
+
+    const response = await fetch(`${request.messagesUrl}/complete_multipart_upload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${request.token}`,
+      },
+      body: JSON.stringify({ upload_id: session.uploadId, filename: session.filename, parts }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to complete multipart upload (status ${response.status} ${response.statusText})`);
+    }
+    console.log(`✅ Multipart upload ${session.uploadId} completed`);
+  }
+
+  /**
+   * Aborts sessions too old to resume, so the server drops their parts.
+   * Ones that can't be aborted now are tried again on the next upload.
+   */
+  private async abortStaleSessions(token: string): Promise<void> {
+    const cutoff = Date.now() - this.SESSION_MAX_AGE;
+    const stale = this.loadSessions().filter(session => new Date(session.createdAt).getTime() <= cutoff);
+    for (const session of stale) {
+      try {
+        await this.abortSession(token, session);
+      } catch (error) {
+        console.warn(`⚠️ Failed to abort multipart upload ${session.uploadId}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  private async abortSession(token: string, session: MultipartSession): Promise<void> {
+    const response = await fetch(`${session.messagesUrl}/abort_multipart_upload`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ upload_id: session.uploadId, filename: session.filename }),
+    });
+
+    // 404: the server already dropped it
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Failed to abort multipart upload (status ${response.status} ${response.statusText})`);
+    }
+    this.removeSession(session.key);
+    console.log(`🗑️ Multipart upload ${session.uploadId} aborted`);
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - PERSISTENCE
+  // --------------------------------------------------------------------------
+
+  private getSessionKey(request: UploadRequest): string {
+    return createHash('sha256')
+      .update(`${request.kind}\n${request.messagesUrl}\n${request.contentType}\n`)
+      .update(request.source ?? request.body)
+      .digest('hex');
+  }
+
+  private getRootDir(): string {
+    if (!this.rootDir) {
+      this.rootDir = path.join(app.getPath('userData'), 'uploads');
+      fs.mkdirSync(this.rootDir, { recursive: true });
+    }
+    return this.rootDir;
+  }
+
+  private getSessionsPath(): string {
+    return path.join(this.getRootDir(), 'multipart.json');
+  }
+
+  private loadSessions(): MultipartSession[] {
+    if (this.sessions) {
+      return this.sessions;
+    }
+
+    this.sessions = [];
+    try {
+      if (fs.existsSync(this.getSessionsPath())) {
+        const stored: MultipartSession[] = JSON.parse(fs.readFileSync(this.getSessionsPath(), 'utf8'));
+        this.sessions = stored;
+      }
+    } catch (error) {
+      console.error('Failed to read multipart upload sessions, starting fresh:', error);
+    }
+    return this.sessions;
+  }
+
+  private saveSessions(): void {
+    try {
+      const tempPath = `${this.getSessionsPath()}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.loadSessions(), null, 2));
+      fs.renameSync(tempPath, this.getSessionsPath());
+    } catch (error) {
+      // Losing the record only means a later retry starts from the first part
+      console.error('Failed to save multipart upload sessions:', error);
+    }
+  }
+
+  private removeSession(key: string): void {
+    const removed = this.loadSessions().filter(session => session.key === key);
+    this.sessions = this.loadSessions().filter(session => session.key !== key);
+    this.saveSessions();
+
+    for (const session of removed) {
+      if (session.bodyFile) {
+        fs.rmSync(path.join(this.getRootDir(), session.bodyFile), { force: true });
+      }
+    }
+  }
+
+  private writeSessionBody(key: string, body: Buffer): string | undefined {
+    const bodyFile = `${key}.body`;
+    try {
+      fs.writeFileSync(path.join(this.getRootDir(), bodyFile), body);
+      return bodyFile;
+    } catch (error) {
+      // Without it a retry re-encodes and starts over, as if never sent
+      console.error('Failed to save multipart upload body:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * @returns null when the session has no stored body or it can't be read
+   */
+  private readSessionBody(session: MultipartSession): Buffer | null {
+    if (!session.bodyFile) return null;
+    try {
+      return fs.readFileSync(path.join(this.getRootDir(), session.bodyFile));
+    } catch (error) {
+      console.error('Failed to read multipart upload body:', error);
+      return null;
+    }
+  }
+}
+
+// Written in slices so progress moves while a part is in flight
+const PROGRESS_SLICE_BYTES = 64 * 1024;
+const PUT_TIMEOUT_MS = 60000;
+
+/**
+ * PUTs a body to a presigned URL, reporting bytes as the socket accepts them.
+ * @returns the ETag S3 answered with, if any
+ */
+function putWithProgress(url: string, body: Buffer, headers: Record<string, string>, report: ProgressReporter): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const transport = target.protocol === 'http:' ? http : https;
+    const request = transport.request(target, {
+      method: 'PUT',
+      headers: { ...headers, 'Content-Length': body.length.toString() },
+    }, (response) => {
+      response.resume();
+      response.on('end', () => {
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          const etag = response.headers.etag;
+          resolve(typeof etag === 'string' ? etag : null);
+        } else {
+          reject(new Error(`Failed to upload to S3 (status ${status} ${response.statusMessage ?? ''})`.trim()));
+        }
+      });
+    });
+
+    // Inactivity, not total duration: a slow link still makes progress
+    request.setTimeout(PUT_TIMEOUT_MS, () => request.destroy(new Error('Upload to S3 timed out')));
+    request.on('error', reject);
+
+    let offset = 0;
+    const writeSlices = () => {
+      while (offset < body.length) {
+        const slice = body.subarray(offset, offset + PROGRESS_SLICE_BYTES);
+        offset += slice.length;
+        const written = offset;
+        if (!request.write(slice, () => report(written))) {
+          request.once('drain', writeSlices);
+          return;
+        }
+      }
+      request.end();
+    };
+    writeSlices();
+  });
+}
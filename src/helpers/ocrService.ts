@@ -0,0 +1,102 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createWorker, Worker } from 'tesseract.js';
+import { ImageRegion } from '../shared/ipcProtocol';
+
+// ============================================================================
+// OCR SERVICE
+// ============================================================================
+//
+// On-device text recognition for screenshots. A single Tesseract worker is
+// created on first use and reused. The English language data ships with the
+// app, so scanning never needs a network connection.
+
+export interface OcrWord {
+  text: string;
+  confidence: number;
+  box: ImageRegion;
+}
+
+export interface OcrLine {
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+/**
+ * Where the bundled English model lives: the LSTM model tesseract.js uses by
+ * default, gzipped. Packaged, it is read from app.asar.unpacked, since
+ * Tesseract's worker cannot read files inside the asar.
+ */
+function getLanguagePath(): string {
+  return app.isPackaged
+    ? path.join(process.resourcesPath, 'app.asar.unpacked', 'node_modules', '@tesseract.js-data', 'eng', '4.0.0_best_int')
+    : path.join(path.dirname(require.resolve('@tesseract.js-data/eng')), '4.0.0_best_int');
+}
+
+export class OcrService {
+  private readonly LANGUAGE = 'eng';
+
+  private workerPromise: Promise<Worker> | null = null;
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Recognizes the text in a PNG, grouped into lines with per-word boxes in
+   * image pixels.
+   */
+  async recognize(buffer: Buffer): Promise<OcrLine[]> {
+    const worker = await this.getWorker();
+    const { data } = await worker.recognize(buffer);
+
+    return data.lines.map(line => ({
+      text: line.text.trim(),
+      confidence: line.confidence,
+      words: line.words.map(word => ({
+        text: word.text,
+        confidence: word.confidence,
+        box: {
+          x: word.bbox.x0,
+          y: word.bbox.y0,
+          width: word.bbox.x1 - word.bbox.x0,
+          height: word.bbox.y1 - word.bbox.y0
+        }
+      }))
+    }));
+  }
+
+  async terminate(): Promise<void> {
+    if (!this.workerPromise) return;
+
+    try {
+      const worker = await this.workerPromise;
+      await worker.terminate();
+    } catch (error) {
+      console.warn('⚠️ Failed to stop OCR worker:', error);
+    } finally {
+      this.workerPromise = null;
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private getWorker(): Promise<Worker> {
+    if (!this.workerPromise) {
+      const cachePath = path.join(app.getPath('userData'), 'ocr');
+      fs.mkdirSync(cachePath, { recursive: true });
+
+      console.log('🔎 Starting OCR worker...');
+      this.workerPromise = createWorker(this.LANGUAGE, undefined, { langPath: getLanguagePath(), gzip: true, cachePath });
+      // A failed start is retried next time
+      this.workerPromise.catch(() => {
+        this.workerPromise = null;
+      });
+    }
+    return this.workerPromise;
+  }
+}
@@ -5,6 +5,8 @@ import * as fs from 'fs';
 import * as os from 'os';
 import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { CANONICAL_AUDIO_FORMAT, decodePcm, encodePcm, mixChannels, Resampler } from '../shared/audioFormat';
+import { getSystemAudioDumpPath, LinuxSystemAudioSource } from './audioSources';
 
 const execFileAsync = promisify(execFile);
 
@@ -39,6 +41,7 @@ export class PlatformAudioService {
   private isCapturing: boolean = false;
   private lastScreenshot: any = null;
   private systemAudioProc: any = null;
+  private linuxSystemAudio: LinuxSystemAudioSource | null = null;
   private audioChunks: AudioChunk[] = [];
   private screenshotInterval: NodeJS.Timeout | null = null;
   
@@ -47,7 +50,7 @@ export class PlatformAudioService {
   private readonly isWindows = process.platform === 'win32';
   private readonly isLinux = process.platform === 'linux';
   
-  // Audio configuration
+  // What SystemAudioDump writes; chunks are converted to the canonical format
   private readonly config: AudioCaptureConfig = {
     sampleRate: 24000,
     channels: 1,
@@ -286,10 +289,7 @@ export class PlatformAudioService {
     await this.killExistingSystemAudioDump();
     
     // Start SystemAudioDump for system audio capture
-    const { app } = require('electron');
-    const systemAudioPath = app.isPackaged
-      ? path.join(process.resourcesPath, 'app.asar.unpacked', 'assets', 'SystemAudioDump')
-      : path.join(__dirname, '..', 'assets', 'SystemAudioDump');
+    const systemAudioPath = getSystemAudioDumpPath();
 
     console.log('🔧 SystemAudioDump path:', systemAudioPath);
 
@@ -311,6 +311,7 @@ export class PlatformAudioService {
     const CHUNK_SIZE = SAMPLE_RATE * BYTES_PER_SAMPLE * CHANNELS * CHUNK_DURATION;
 
     let audioBuffer = Buffer.alloc(0);
+    const resampler = SAMPLE_RATE === CANONICAL_AUDIO_FORMAT.sampleRate ? null : new Resampler(SAMPLE_RATE, CANONICAL_AUDIO_FORMAT.sampleRate);
 
     this.systemAudioProc.stdout.on('data', async (data: Buffer) => {
       audioBuffer = Buffer.concat([audioBuffer, data]);
@@ -319,14 +320,15 @@ export class PlatformAudioService {
         const chunk = audioBuffer.slice(0, CHUNK_SIZE);
         audioBuffer = audioBuffer.slice(CHUNK_SIZE);
 
-        const monoChunk = CHANNELS === 2 ? this.convertStereoToMono(chunk) : chunk;
-        const base64Data = monoChunk.toString('base64');
+        const [mono] = mixChannels(decodePcm(chunk, { ...CANONICAL_AUDIO_FORMAT, sampleRate: SAMPLE_RATE, channels: CHANNELS }), 1);
+        const pcm = encodePcm([resampler ? resampler.process(mono) : mono]);
+        const base64Data = Buffer.from(pcm.buffer, pcm.byteOffset, pcm.byteLength).toString('base64');
 
         this.audioChunks.push({
           data: base64Data,
           timestamp: Date.now(),
           source: 'system',
-          mimeType: 'audio/pcm;rate=24000'
+          mimeType: `audio/pcm;rate=${CANONICAL_AUDIO_FORMAT.sampleRate}`
         });
       }
     });
@@ -356,10 +358,24 @@ export class PlatformAudioService {
 
   private async startLinuxAudioCapture(): Promise<void> {
     console.log('🐧 Starting Linux audio capture...');
-    
-    // Linux audio capture is handled in the renderer process
-    // Limited system audio support on Linux
-    console.log('ℹ️ Linux audio capture will be handled in renderer process');
+
+    // The microphone is captured in the renderer; system audio comes from
+    // the output's monitor, recorded here
+    const source = new LinuxSystemAudioSource();
+    try {
+      await source.start((chunk, sampleRate) => {
+        this.audioChunks.push({
+          data: chunk.toString('base64'),
+          timestamp: Date.now(),
+          source: 'system',
+          mimeType: `audio/pcm;rate=${sampleRate}`
+        });
+      });
+      this.linuxSystemAudio = source;
+    } catch (error) {
+      // Don't fail the capture - the microphone still works without it
+      console.warn('⚠️ Continuing without Linux system audio:', error instanceof Error ? error.message : String(error));
+    }
   }
 
   private async stopMacOSAudioCapture(): Promise<void> {
@@ -377,7 +393,8 @@ export class PlatformAudioService {
 
   private async stopLinuxAudioCapture(): Promise<void> {
     console.log('🛑 Stopping Linux audio capture...');
-    // Cleanup handled in renderer
+    await this.linuxSystemAudio?.stop();
+    this.linuxSystemAudio = null;
   }
 
   private async killExistingSystemAudioDump(): Promise<void> {
@@ -494,23 +511,6 @@ export class PlatformAudioService {
     }
   }
 
-  // ============================================================================
-  // PRIVATE METHODS - UTILITY FUNCTIONS
-  // ============================================================================
-
-  private convertStereoToMono(buffer: Buffer): Buffer {
-    const int16Array = new Int16Array(buffer.buffer, buffer.byteOffset, buffer.length / 2);
-    const monoArray = new Int16Array(int16Array.length / 2);
-    
-    for (let i = 0; i < monoArray.length; i++) {
-      const left = int16Array[i * 2];
-      const right = int16Array[i * 2 + 1];
-      monoArray[i] = Math.round((left + right) / 2);
-    }
-    
-    return Buffer.from(monoArray.buffer);
-  }
-
   // ============================================================================
   // IPC HANDLERS SETUP
   // ============================================================================
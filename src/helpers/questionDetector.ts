@@ -0,0 +1,138 @@
+import { QuestionSensitivity } from '../shared/liveAssistTypes';
+import { TranscriptSegment } from '../shared/transcriptionTypes';
+
+// ============================================================================
+// QUESTION DETECTOR
+// ============================================================================
+//
+// Watches what the other side says and decides when they have asked the user
+// something. Transcript text alone is not enough: engines punctuate
+// unreliably and a question is often followed by more talking. So a candidate
+// is only judged once the system channel has been silent for a moment, and
+// its wording is scored on punctuation and interrogative phrasing.
+
+const SENSITIVITY_PROFILES: Record<QuestionSensitivity, { threshold: number; silenceGapMs: number }> = {
+  low: { threshold: 0.9, silenceGapMs: 1200 },
+  medium: { threshold: 0.6, silenceGapMs: 800 },
+  high: { threshold: 0.4, silenceGapMs: 400 },
+};
+
+const WH_START = /^(who|whom|whose|what|when|where|why|which|how)\b/;
+const AUXILIARY_START = /^(can|could|would|will|shall|should|may|do|does|did|is|are|was|were|have|has)\b/;
+// "what do you...", "have you ever...", "can you..."
+const ADDRESSED = /\b(do|did|can|could|would|will|are|were|have|should) you\b/;
+const REQUEST = /\b(tell me|walk me through|talk me through|explain|describe|give me an example|what about|how about)\b/;
+const TAG_QUESTION = /(,\s*(right|correct|yes|no)|\b(isn't|aren't|don't|doesn't|didn't|won't|wouldn't|can't) (it|you|they|we|he|she))\W*$/;
+
+// Only the end of a long turn matters, and engines may emit a monologue
+const MAX_CANDIDATE_LENGTH = 500;
+
+/**
+ * Scores how much a sentence reads like a question, from 0 to 1.
+ */
+export function scoreQuestion(sentence: string): number {
+  const text = sentence.trim().toLowerCase().replace(/^(so|and|but|okay|ok|well|now)\b[,\s]*/, '');
+  if (!text) return 0;
+
+  let score = 0;
+  if (text.endsWith('?')) score += 0.6;
+  if (REQUEST.test(text)) score += 0.6;
+  if (WH_START.test(text)) score += 0.4;
+  if (AUXILIARY_START.test(text)) score += 0.3;
+  if (ADDRESSED.test(text)) score += 0.3;
+  if (TAG_QUESTION.test(text)) score += 0.4;
+
+  return Math.min(1, score);
+}
+
+/**
+ * The last sentence of a turn, which is where a question usually sits.
+ */
+export function lastSentence(text: string): string {
+  const sentences = text.trim().match(/[^.!?]+[.!?]*/g) ?? [];
+  return sentences.length > 0 ? sentences[sentences.length - 1].trim() : '';
+}
+
+export class QuestionDetector {
+  private candidate = '';
+  // Voice activity on the system channel, reported by the capture side
+  private isTheirVoiceActive = false;
+  private silenceTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private onQuestion: (question: string) => void,
+    private sensitivity: QuestionSensitivity = 'medium'
+  ) {}
+
+  setSensitivity(sensitivity: QuestionSensitivity): void {
+    this.sensitivity = sensitivity;
+  }
+
+  addSegment(segment: TranscriptSegment): void {
+    if (!segment.isFinal) return;
+
+    // The user already started answering
+    if (segment.speaker === 'me') {
+      this.reset();
+      return;
+    }
+
+    // Consecutive segments belong to the same turn until a gap ends it
+    this.candidate = `${this.candidate} ${segment.text.trim()}`.trim().slice(-MAX_CANDIDATE_LENGTH);
+    this.scheduleEvaluation();
+  }
+
+  /**
+   * Without any reports the channel counts as silent, so detection then
+   * relies on the transcript timing alone.
+   */
+  setVoiceActive(active: boolean): void {
+    if (active === this.isTheirVoiceActive) return;
+
+    this.isTheirVoiceActive = active;
+    if (active) {
+      this.clearSilenceTimer();
+    } else {
+      this.scheduleEvaluation();
+    }
+  }
+
+  reset(): void {
+    this.clearSilenceTimer();
+    this.candidate = '';
+    this.isTheirVoiceActive = false;
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private scheduleEvaluation(): void {
+    this.clearSilenceTimer();
+    if (!this.candidate || this.isTheirVoiceActive) return;
+
+    this.silenceTimer = setTimeout(() => {
+      this.silenceTimer = null;
+      this.evaluate();
+    }, SENSITIVITY_PROFILES[this.sensitivity].silenceGapMs);
+  }
+
+  private evaluate(): void {
+    const question = lastSentence(this.candidate);
+    // Each turn is judged once
+    this.candidate = '';
+
+    const score = scoreQuestion(question);
+    if (score >= SENSITIVITY_PROFILES[this.sensitivity].threshold) {
+      console.log(`❓ Question detected (${score.toFixed(1)}): ${question}`);
+      this.onQuestion(question);
+    }
+  }
+
+  private clearSilenceTimer(): void {
+    if (this.silenceTimer) {
+      clearTimeout(this.silenceTimer);
+      this.silenceTimer = null;
+    }
+  }
+}
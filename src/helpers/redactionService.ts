@@ -0,0 +1,265 @@
+import sharp from 'sharp';
+import { OcrLine } from './ocrService';
+import { ImageRegion } from '../shared/ipcProtocol';
+import { RedactionPatternId, RedactionSettings } from '../shared/settingsTypes';
+
+// ============================================================================
+// REDACTION SERVICE
+// ============================================================================
+//
+// Runs before a screenshot is uploaded: every match of the configured patterns
+// in the OCR'd text is mapped back to its word boxes, and those boxes (plus any
+// rectangles the user marked by hand) are pixelated and blurred in place. The
+// screen text that goes along with the upload has the same words masked.
+
+export interface RedactionCount {
+  label: string;
+  count: number;
+}
+
+export interface RedactionResult {
+  buffer: Buffer;
+  redactions: RedactionCount[];
+  // OCR'd text with redacted words replaced, empty when nothing was readable
+  screenText: string;
+}
+
+interface RedactionPattern {
+  label: string;
+  regex: RegExp;
+  accept?: (match: string) => boolean;
+}
+
+// Luhn checksum keeps order numbers and timestamps from being treated as cards
+const passesLuhnCheck = (value: string): boolean => {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+const BUILT_IN_PATTERNS: Record<RedactionPatternId, RedactionPattern> = {
+  'email': {
+    label: 'email address',
+    regex: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi
+  },
+  'credit-card': {
+    label: 'card number',
+    regex: /\b\d(?:[ -]?\d){12,18}\b/g,
+    accept: passesLuhnCheck
+  },
+  'aws-key': {
+    label: 'AWS access key',
+    regex: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA|AIPA|ANPA|ANVA)[A-Z0-9]{16}\b/g
+  }
+};
+
+/**
+ * Throws if a custom pattern is not a valid regular expression, so settings
+ * can be rejected before they are saved.
+ */
+export function compileCustomPattern(source: string): RegExp {
+  if (!source.trim()) {
+    throw new Error('Pattern is empty');
+  }
+  return new RegExp(source, 'gi');
+}
+
+/**
+ * Human readable list for the chat message, e.g. "2 email addresses, 1 AWS access key".
+ */
+export function formatRedactionSummary(redactions: RedactionCount[]): string | null {
+  if (redactions.length === 0) return null;
+  return redactions
+    .map(({ label, count }) => `${count} ${label}${count === 1 ? '' : (/(s|ch|sh|x)$/.test(label) ? 'es' : 's')}`)
+    .join(', ');
+}
+
+const REDACTED_TEXT = '[redacted]';
+
+export class RedactionService {
+  // Extra pixels around each word box so glyph edges are covered too
+  private readonly BOX_PADDING = 4;
+  private readonly PIXELATE_FACTOR = 12;
+  // Lines Tesseract is unsure about are mostly icons and UI chrome
+  private readonly MIN_LINE_CONFIDENCE = 40;
+  private readonly MAX_SCREEN_TEXT_LENGTH = 8000;
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  /**
+   * Blurs sensitive text and manual regions.
+   * @param lines OCR result for the same buffer
+   * @param manualRegions Rectangles in screenshot pixels the user chose to hide
+   */
+  async redact(
+    buffer: Buffer,
+    lines: OcrLine[],
+    settings: RedactionSettings,
+    manualRegions: ImageRegion[] = []
+  ): Promise<RedactionResult> {
+    const regions: ImageRegion[] = [...manualRegions];
+    const redactions: RedactionCount[] = [];
+
+    if (manualRegions.length > 0) {
+      redactions.push({ label: 'manually marked area', count: manualRegions.length });
+    }
+
+    if (settings.enabled) {
+      for (const pattern of this.getPatterns(settings)) {
+        const boxes = this.findMatches(lines, pattern);
+        if (boxes.length > 0) {
+          regions.push(...boxes);
+          redactions.push({ label: pattern.label, count: boxes.length });
+        }
+      }
+    }
+
+    const screenText = this.buildScreenText(lines, regions);
+
+    if (regions.length === 0) {
+      return { buffer, redactions, screenText };
+    }
+
+    console.log(`🔒 Redacting ${regions.length} screenshot regions:`, formatRedactionSummary(redactions));
+    return {
+      buffer: await this.blurRegions(buffer, regions),
+      redactions,
+      screenText
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - MATCHING
+  // --------------------------------------------------------------------------
+
+  private getPatterns(settings: RedactionSettings): RedactionPattern[] {
+    const patterns = settings.patterns
+      .filter(id => id in BUILT_IN_PATTERNS)
+      .map(id => BUILT_IN_PATTERNS[id]);
+
+    for (const source of settings.customPatterns) {
+      try {
+        patterns.push({ label: 'custom match', regex: compileCustomPattern(source) });
+      } catch (error) {
+        console.warn(`⚠️ Skipping invalid redaction pattern "${source}":`, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Matches run against each OCR line so values split into several words
+   * (card numbers, "name @ domain") are still found; every word the match
+   * touches is covered.
+   */
+  private findMatches(lines: OcrLine[], pattern: RedactionPattern): ImageRegion[] {
+    const boxes: ImageRegion[] = [];
+
+    for (const line of lines) {
+      if (line.words.length === 0) continue;
+
+      const wordOffsets: { start: number; end: number; box: ImageRegion }[] = [];
+      let text = '';
+      for (const word of line.words) {
+        if (text) text += ' ';
+        wordOffsets.push({ start: text.length, end: text.length + word.text.length, box: word.box });
+        text += word.text;
+      }
+
+      pattern.regex.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.regex.exec(text)) !== null) {
+        if (match[0].length === 0) {
+          pattern.regex.lastIndex++;
+          continue;
+        }
+        if (pattern.accept && !pattern.accept(match[0])) continue;
+
+        const start = match.index;
+        const end = start + match[0].length;
+        const touched = wordOffsets.filter(word => word.start < end && word.end > start);
+        if (touched.length > 0) {
+          boxes.push(this.unionBoxes(touched.map(word => word.box)));
+        }
+      }
+    }
+
+    return boxes;
+  }
+
+  private buildScreenText(lines: OcrLine[], regions: ImageRegion[]): string {
+    const text = lines
+      .filter(line => line.confidence >= this.MIN_LINE_CONFIDENCE)
+      .map(line => line.words
+        .map(word => regions.some(region => this.overlaps(word.box, region)) ? REDACTED_TEXT : word.text)
+        // "[redacted] [redacted]" would leak how many words were hidden
+        .filter((word, index, words) => !(word === REDACTED_TEXT && words[index - 1] === REDACTED_TEXT))
+        .join(' ')
+        .trim())
+      .filter(Boolean)
+      .join('\n');
+
+    return text.length > this.MAX_SCREEN_TEXT_LENGTH
+      ? `${text.slice(0, this.MAX_SCREEN_TEXT_LENGTH)}…`
+      : text;
+  }
+
+  private overlaps(a: ImageRegion, b: ImageRegion): boolean {
+    return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+  }
+
+  private unionBoxes(boxes: ImageRegion[]): ImageRegion {
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - IMAGE PROCESSING
+  // --------------------------------------------------------------------------
+
+  private async blurRegions(buffer: Buffer, regions: ImageRegion[]): Promise<Buffer> {
+    const { width: imageWidth = 0, height: imageHeight = 0 } = await sharp(buffer).metadata();
+    const overlays: sharp.OverlayOptions[] = [];
+
+    for (const region of regions) {
+      const left = Math.max(0, Math.floor(region.x) - this.BOX_PADDING);
+      const top = Math.max(0, Math.floor(region.y) - this.BOX_PADDING);
+      const width = Math.min(imageWidth - left, Math.ceil(region.width) + this.BOX_PADDING * 2);
+      const height = Math.min(imageHeight - top, Math.ceil(region.height) + this.BOX_PADDING * 2);
+      if (width <= 0 || height <= 0) continue;
+
+      // Pixelate first: a plain blur of short text can sometimes be reversed
+      const shrunk = await sharp(buffer)
+        .extract({ left, top, width, height })
+        .resize(
+          Math.max(1, Math.round(width / this.PIXELATE_FACTOR)),
+          Math.max(1, Math.round(height / this.PIXELATE_FACTOR)),
+          { fit: 'fill' }
+        )
+        .toBuffer();
+      const obscured = await sharp(shrunk)
+        .resize(width, height, { fit: 'fill', kernel: 'nearest' })
+        .blur(3)
+        .png()
+        .toBuffer();
+
+      overlays.push({ input: obscured, left, top });
+    }
+
+    return sharp(buffer).composite(overlays).png().toBuffer();
+  }
+}
@@ -1,4 +1,7 @@
-import { desktopCapturer, screen, BrowserWindow } from 'electron';
+import { BrowserWindow, desktopCapturer, Display, NativeImage, screen } from 'electron';
+import sharp from 'sharp';
+import { CaptureRegion, CaptureTarget, CaptureWindowSource } from '../shared/settingsTypes';
+import { MultipartUploader } from './multipartUploader';
 
 // ============================================================================
 // SCREENSHOT SERVICE
@@ -13,77 +16,257 @@ export interface ScreenshotResult {
 export class ScreenshotService {
   private readonly baseUrl = 'https://contextor-api-c1cb32489441.herokuapp.com';
 
+  constructor(private uploader: MultipartUploader = new MultipartUploader()) {}
+
   // --------------------------------------------------------------------------
   // PUBLIC METHODS
   // --------------------------------------------------------------------------
 
-  async takeScreenshot(window: BrowserWindow, token: string, conversationId: string): Promise<ScreenshotResult | null> {
+  /**
+   * Captures the configured target as PNG. Kept separate from uploading so a
+   * capture can be queued and retried when the upload fails.
+   * @param ownWindow Contextor's window, used by the 'window-display' mode
+   */
+  async captureScreenshot(target: CaptureTarget, ownWindow?: BrowserWindow | null): Promise<Buffer | null> {
+    try {
+      switch (target.mode) {
+        case 'all-displays':
+          return await this.captureAllDisplays();
+        case 'window':
+          return await this.captureWindow(target);
+        case 'window-display': {
+          const display = ownWindow
+            ? screen.getDisplayMatching(ownWindow.getBounds())
+            : screen.getPrimaryDisplay();
+          return await this.captureDisplay(display);
+        }
+        case 'cursor-display':
+        default:
+          return await this.captureDisplay(screen.getDisplayNearestPoint(screen.getCursorScreenPoint()));
+      }
+    } catch (error) {
+      console.error('Failed to capture screen:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Captures one display and crops it to a region picked in the overlay.
+   * @param region Rectangle in DIPs relative to the display's top-left corner
+   */
+  async captureRegion(display: Display, region: CaptureRegion): Promise<Buffer | null> {
     try {
-      const buffer = await this.captureScreen();
-      if (!buffer) return null;
+      const sources = await this.getScreenSources([display]);
+      const source = sources.find(candidate => candidate.display_id === String(display.id))
+        ?? (sources.length === 1 ? sources[0] : undefined);
 
-      const uploadResult = await this.uploadToS3Directly(buffer, token, conversationId);
-      if (!uploadResult) return null;
+      if (!source) {
+        console.error('No screen source found for display:', display.id);
+        return null;
+      }
+
+      // The thumbnail may not match the DIP size exactly, so scale per axis
+      const imageSize = source.thumbnail.getSize();
+      const scaleX = imageSize.width / display.bounds.width;
+      const scaleY = imageSize.height / display.bounds.height;
 
-      return { 
-        buffer, 
-        messageId: uploadResult.messageId,
-        screenshotUrl: uploadResult.screenshotUrl
+      const left = Math.max(0, Math.round(region.x * scaleX));
+      const top = Math.max(0, Math.round(region.y * scaleY));
+      const crop = {
+        x: left,
+        y: top,
+        width: Math.min(imageSize.width - left, Math.round(region.width * scaleX)),
+        height: Math.min(imageSize.height - top, Math.round(region.height * scaleY))
       };
+      console.log('Cropping display capture to region:', crop);
+
+      return this.imageToPng(source.thumbnail.crop(crop));
     } catch (error) {
-      console.error('Screenshot process failed:', error);
+      console.error('Failed to capture region:', error);
       return null;
     }
   }
 
+  /**
+   * Lists application windows that can be picked as a capture target.
+   */
+  async listWindowSources(): Promise<CaptureWindowSource[]> {
+    const sources = await desktopCapturer.getSources({
+      types: ['window'],
+      thumbnailSize: { width: 320, height: 200 },
+      fetchWindowIcons: false
+    });
+
+    return sources
+      .filter(source => source.name !== 'Contextor')
+      .map(source => ({
+        id: source.id,
+        name: source.name,
+        thumbnailDataUrl: source.thumbnail.toDataURL()
+      }));
+  }
+
+  /**
+   * Uploads a captured PNG and creates its screenshot message.
+   * @param prompt Optional question stored as the message's text content
+   * @throws when any step fails, with the HTTP status in the message
+   */
+  async uploadScreenshot(buffer: Buffer, token: string, conversationId: string, prompt?: string): Promise<ScreenshotResult> {
+    const uploadResult = await this.uploadToS3Directly(buffer, token, conversationId, prompt);
+    return {
+      buffer,
+      messageId: uploadResult.messageId,
+      screenshotUrl: uploadResult.screenshotUrl
+    };
+  }
+
   // --------------------------------------------------------------------------
-  // PRIVATE METHODS
+  // PRIVATE METHODS - CAPTURE
   // --------------------------------------------------------------------------
 
-  private async captureScreen(): Promise<Buffer | null> {
-    try {
-      const primaryDisplay = screen.getPrimaryDisplay();
-      const { width, height } = primaryDisplay.size;
-      console.log('Screen size:', { width, height });
-
-      const sources = await desktopCapturer.getSources({
-        types: ['screen'],
-        thumbnailSize: { width, height },
-        fetchWindowIcons: false
-      });
+  private async captureDisplay(display: Display): Promise<Buffer | null> {
+    console.log('Capturing display:', { id: display.id, bounds: display.bounds, scaleFactor: display.scaleFactor });
 
-      if (sources.length === 0) {
-        console.error('No screen sources found');
-        return null;
-      }
+    const sources = await this.getScreenSources([display]);
+    // display_id can be empty on some Linux setups; fall back to the only screen
+    const source = sources.find(candidate => candidate.display_id === String(display.id))
+      ?? (sources.length === 1 ? sources[0] : undefined);
 
-      const screenSource = sources[0];
-      console.log('Capturing display:', screenSource.name);
+    if (!source) {
+      console.error('No screen source found for display:', display.id);
+      return null;
+    }
 
-      const image = screenSource.thumbnail;
-      const size = image.getSize();
-      console.log('Image size:', size);
+    return this.imageToPng(source.thumbnail);
+  }
 
-      if (size.width === 0 || size.height === 0) {
-        console.error('Invalid image size:', size);
-        return null;
+  private async captureAllDisplays(): Promise<Buffer | null> {
+    const displays = screen.getAllDisplays();
+    if (displays.length === 1) {
+      return this.captureDisplay(displays[0]);
+    }
+
+    const sources = await this.getScreenSources(displays);
+
+    // Lay displays out by their DIP bounds at the highest scale factor so
+    // nothing is downsampled on mixed-DPI setups
+    const scale = Math.max(...displays.map(display => display.scaleFactor));
+    const minX = Math.min(...displays.map(display => display.bounds.x));
+    const minY = Math.min(...displays.map(display => display.bounds.y));
+    const maxX = Math.max(...displays.map(display => display.bounds.x + display.bounds.width));
+    const maxY = Math.max(...displays.map(display => display.bounds.y + display.bounds.height));
+
+    const layers: sharp.OverlayOptions[] = [];
+    for (const display of displays) {
+      const source = sources.find(candidate => candidate.display_id === String(display.id));
+      if (!source || source.thumbnail.isEmpty()) {
+        console.warn('Skipping display without a capture source:', display.id);
+        continue;
       }
 
-      const buffer = image.toPNG();
-      if (buffer.length === 0) {
-        console.error('Generated buffer is empty');
-        return null;
+      const input = await sharp(source.thumbnail.toPNG())
+        .resize(Math.round(display.bounds.width * scale), Math.round(display.bounds.height * scale), { fit: 'fill' })
+        .png()
+        .toBuffer();
+
+      layers.push({
+        input,
+        left: Math.round((display.bounds.x - minX) * scale),
+        top: Math.round((display.bounds.y - minY) * scale)
+      });
+    }
+
+    if (layers.length === 0) {
+      console.error('No screen sources found');
+      return null;
+    }
+
+    const buffer = await sharp({
+      create: {
+        width: Math.round((maxX - minX) * scale),
+        height: Math.round((maxY - minY) * scale),
+        channels: 4,
+        background: { r: 0, g: 0, b: 0, alpha: 1 }
       }
+    })
+      .composite(layers)
+      .png()
+      .toBuffer();
 
-      console.log('Buffer size:', buffer.length);
-      return buffer;
-    } catch (error) {
-      console.error('Failed to capture screen:', error);
+    console.log(`Stitched ${layers.length} displays, buffer size:`, buffer.length);
+    return buffer;
+  }
+
+  private async captureWindow(target: CaptureTarget): Promise<Buffer | null> {
+    const primaryDisplay = screen.getPrimaryDisplay();
+    const sources = await desktopCapturer.getSources({
+      types: ['window'],
+      thumbnailSize: this.getPhysicalSize(primaryDisplay),
+      fetchWindowIcons: false
+    });
+
+    // Window source IDs change when an app restarts, so fall back to the name
+    const source = sources.find(candidate => candidate.id === target.windowSourceId)
+      ?? sources.find(candidate => candidate.name === target.windowName);
+
+    if (!source) {
+      console.warn('Selected window is gone, capturing the display under the cursor instead:', target.windowName);
+      return this.captureDisplay(screen.getDisplayNearestPoint(screen.getCursorScreenPoint()));
+    }
+
+    console.log('Capturing window:', source.name);
+    return this.imageToPng(source.thumbnail);
+  }
+
+  private async getScreenSources(displays: Display[]): Promise<Electron.DesktopCapturerSource[]> {
+    // One thumbnail size applies to every source, so request the largest display
+    const sizes = displays.map(display => this.getPhysicalSize(display));
+    const sources = await desktopCapturer.getSources({
+      types: ['screen'],
+      thumbnailSize: {
+        width: Math.max(...sizes.map(size => size.width)),
+        height: Math.max(...sizes.map(size => size.height))
+      },
+      fetchWindowIcons: false
+    });
+
+    if (sources.length === 0) {
+      console.error('No screen sources found');
+    }
+    return sources;
+  }
+
+  private getPhysicalSize(display: Display): { width: number; height: number } {
+    return {
+      width: Math.round(display.size.width * display.scaleFactor),
+      height: Math.round(display.size.height * display.scaleFactor)
+    };
+  }
+
+  private imageToPng(image: NativeImage): Buffer | null {
+    const size = image.getSize();
+    console.log('Image size:', size);
+
+    if (size.width === 0 || size.height === 0) {
+      console.error('Invalid image size:', size);
+      return null;
+    }
+
+    const buffer = image.toPNG();
+    if (buffer.length === 0) {
+      console.error('Generated buffer is empty');
       return null;
     }
+
+    console.log('Buffer size:', buffer.length);
+    return buffer;
   }
 
-  private async uploadToS3Directly(buffer: Buffer, token: string, conversationId: string): Promise<{ messageId: string; screenshotUrl: string } | null> {
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - UPLOAD
+  // --------------------------------------------------------------------------
+
+  private async uploadToS3Directly(buffer: Buffer, token: string, conversationId: string, prompt?: string): Promise<{ messageId: string; screenshotUrl: string }> {
     try {
       // Step 1: Get pre-signed URL from API
       console.log('Getting pre-signed URL...');
@@ -95,31 +278,26 @@ export class ScreenshotService {
       });
 
       if (!presignedResponse.ok) {
-        console.error('Failed to get pre-signed URL:', presignedResponse.statusText);
-        return null;
+        throw new Error(`Failed to get pre-signed URL (status ${presignedResponse.status} ${presignedResponse.statusText})`);
       }
 
       const presignedData = await presignedResponse.json();
       const { upload_url, filename } = presignedData;
 
-      // Step 2: Upload directly to S3 using pre-signed URL
+      // Step 2: Upload to S3, in resumable parts for very large captures
       console.log('Uploading to S3...');
-      const s3Response = await fetch(upload_url, {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'image/png',
-        },
+      const storedFilename = await this.uploader.upload({
+        kind: 'screenshot',
         body: buffer,
+        contentType: 'image/png',
+        token,
+        messagesUrl: `${this.baseUrl}/conversations/${conversationId}/messages`,
+        single: { uploadUrl: upload_url, filename }
       });
 
-      if (!s3Response.ok) {
-        console.error('Failed to upload to S3:', s3Response.statusText);
-        return null;
-      }
-
       // Step 3: Create message with S3 URL
       console.log('Creating message with S3 URL...');
-      const s3Url = `https://${process.env.AWS_S3_BUCKET || 'contextor-api'}.s3.amazonaws.com/${filename}`;
+      const s3Url = `https://${process.env.AWS_S3_BUCKET || 'contextor-api'}.s3.amazonaws.com/${storedFilename}`;
       
       const messageResponse = await fetch(`${this.baseUrl}/conversations/${conversationId}/messages/create_screenshot_from_s3`, {
         method: 'POST',
@@ -128,13 +306,13 @@ export class ScreenshotService {
           'Authorization': `Bearer ${token}`,
         },
         body: JSON.stringify({
-          screenshot_url: s3Url
+          screenshot_url: s3Url,
+          ...(prompt && { text_content: prompt })
         }),
       });
 
       if (!messageResponse.ok) {
-        console.error('Failed to create message:', messageResponse.statusText);
-        return null;
+        throw new Error(`Failed to create message (status ${messageResponse.status} ${messageResponse.statusText})`);
       }
 
       const messageData = await messageResponse.json();
@@ -146,7 +324,7 @@ export class ScreenshotService {
       return { messageId, screenshotUrl: s3Url };
     } catch (error) {
       console.error('Failed to upload screenshot to S3:', error);
-      return null;
+      throw error;
     }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { app } from 'electron';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AppSettings, DEFAULT_SETTINGS } from '../shared/settingsTypes';
+
+// ============================================================================
+// SETTINGS STORE
+// ============================================================================
+//
+// Small JSON-backed preference store so user choices survive restarts.
+// Unknown or missing keys fall back to DEFAULT_SETTINGS.
+
+export class SettingsStore {
+  private settingsPath: string | null = null;
+  private settings: AppSettings | null = null;
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  get<K extends keyof AppSettings>(key: K): AppSettings[K] {
+    return this.load()[key];
+  }
+
+  set<K extends keyof AppSettings>(key: K, value: AppSettings[K]): void {
+    this.load()[key] = value;
+    this.save();
+  }
+
+  getAll(): AppSettings {
+    return { ...this.load() };
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private getSettingsPath(): string {
+    if (!this.settingsPath) {
+      this.settingsPath = path.join(app.getPath('userData'), 'settings.json');
+    }
+    return this.settingsPath;
+  }
+
+  private load(): AppSettings {
+    if (this.settings) {
+      return this.settings;
+    }
+
+    this.settings = { ...DEFAULT_SETTINGS };
+    try {
+      if (fs.existsSync(this.getSettingsPath())) {
+        const stored = JSON.parse(fs.readFileSync(this.getSettingsPath(), 'utf8'));
+        this.settings = { ...DEFAULT_SETTINGS, ...stored };
+      }
+    } catch (error) {
+      console.error('Failed to read settings, using defaults:', error);
+    }
+
+    return this.settings!;
+  }
+
+  private save(): void {
+    try {
+      const tempPath = `${this.getSettingsPath()}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify(this.load(), null, 2));
+      fs.renameSync(tempPath, this.getSettingsPath());
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }
+}
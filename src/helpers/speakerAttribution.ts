@@ -0,0 +1,86 @@
+import { TranscriptSource } from '../shared/transcriptionTypes';
+
+// ============================================================================
+// SPEAKER ATTRIBUTION
+// ============================================================================
+//
+// The system channel only ever carries the other side of a call, but without
+// headphones the microphone hears them as well. Keeping the level of both
+// channels over time shows whether a microphone utterance was the user
+// speaking or just the system channel leaking back in through the speakers.
+
+const BUCKET_MS = 100;
+// RMS level (0-1) above which a bucket counts as speech
+const SPEECH_LEVEL = 0.02;
+// Engines report an utterance after its first words were spoken
+const LOOKBACK_MS = 1000;
+
+export class SpeakerAttribution {
+  private readonly bucketBytes: number;
+  // Sum of squared samples per bucket, indexed by position in the recording
+  private energy = new Map<TranscriptSource, number[]>();
+  private bytesWritten = new Map<TranscriptSource, number>();
+
+  constructor(private sampleRate: number) {
+    this.bucketBytes = Math.max(2, Math.round(sampleRate * BUCKET_MS / 1000) * 2);
+  }
+
+  record(source: TranscriptSource, pcm: Buffer): void {
+    const energy = this.energy.get(source) ?? [];
+    let position = this.bytesWritten.get(source) ?? 0;
+
+    for (let offset = 0; offset + 1 < pcm.length; offset += 2) {
+      const sample = pcm.readInt16LE(offset) / 32768;
+      const bucket = Math.floor(position / this.bucketBytes);
+      energy[bucket] = (energy[bucket] ?? 0) + sample * sample;
+      position += 2;
+    }
+
+    this.energy.set(source, energy);
+    this.bytesWritten.set(source, position);
+  }
+
+  /**
+   * How much audio of a source has been seen, in milliseconds since the
+   * recording started. Both sources start together, so positions line up.
+   */
+  positionMs(source: TranscriptSource): number {
+    return (this.bytesWritten.get(source) ?? 0) / 2 / this.sampleRate * 1000;
+  }
+
+  /**
+   * True when the system channel was at least as loud as the microphone for
+   * most of the microphone's speech between the two positions.
+   */
+  isEcho(fromMs: number, toMs: number): boolean {
+    const mic = this.energy.get('microphone');
+    const system = this.energy.get('system');
+    if (!mic || !system) {
+      return false;
+    }
+
+    let speechBuckets = 0;
+    let echoBuckets = 0;
+    const first = Math.floor(Math.max(0, fromMs - LOOKBACK_MS) / BUCKET_MS);
+    const last = Math.floor(toMs / BUCKET_MS);
+
+    for (let bucket = first; bucket <= last; bucket++) {
+      const micLevel = this.levelAt(mic, bucket);
+      if (micLevel < SPEECH_LEVEL) continue;
+
+      speechBuckets++;
+      // Sound from the speakers reaches the microphone slightly later
+      const systemLevel = Math.max(this.levelAt(system, bucket), this.levelAt(system, bucket - 1));
+      if (systemLevel >= micLevel) {
+        echoBuckets++;
+      }
+    }
+
+    return speechBuckets > 0 && echoBuckets * 2 > speechBuckets;
+  }
+
+  private levelAt(energy: number[], bucket: number): number {
+    const sum = energy[bucket];
+    return sum ? Math.sqrt(sum / (this.bucketBytes / 2)) : 0;
+  }
+}
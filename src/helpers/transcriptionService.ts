@@ -0,0 +1,254 @@
+import {
+  TRANSCRIPT_SPEAKER_LABELS,
+  TranscriptEvent,
+  TranscriptSegment,
+  TranscriptSource,
+  TranscriptSpeaker,
+} from '../shared/transcriptionTypes';
+import { SpeakerAttribution } from './speakerAttribution';
+
+// ============================================================================
+// TRANSCRIPTION SERVICE
+// ============================================================================
+//
+// Feeds recorded PCM into a speech-to-text engine as it arrives and turns the
+// engine's interim/final results into transcript segments for the renderer.
+// Each audio source (microphone, system audio) gets its own engine stream so
+// results can be attributed to whoever was speaking: system audio is always
+// "them", the microphone is "me" unless it only picked up the speakers.
+
+export interface TranscriptionResult {
+  text: string;
+  isFinal: boolean;
+}
+
+export interface TranscriptionStreamOptions {
+  // 16-bit signed little-endian mono PCM
+  sampleRate: number;
+  languageCode: string;
+}
+
+export interface TranscriptionStream {
+  write(pcm: Buffer): void;
+  /** Flushes buffered audio; resolves once the last final result was emitted. */
+  end(): Promise<void>;
+}
+
+export interface TranscriptionEngine {
+  readonly id: string;
+  createStream(
+    options: TranscriptionStreamOptions,
+    onResult: (result: TranscriptionResult) => void,
+    onError: (error: Error) => void
+  ): TranscriptionStream;
+}
+
+/**
+ * Plain-text transcript with one "Me: ..." / "Them: ..." line per turn.
+ */
+export function formatTranscript(segments: TranscriptSegment[]): string {
+  const turns: { speaker: TranscriptSpeaker; text: string }[] = [];
+
+  for (const segment of [...segments].sort((a, b) => a.startedAt - b.startedAt)) {
+    const lastTurn = turns[turns.length - 1];
+    if (lastTurn && lastTurn.speaker === segment.speaker) {
+      lastTurn.text += ` ${segment.text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text: segment.text });
+    }
+  }
+
+  return turns.map(turn => `${TRANSCRIPT_SPEAKER_LABELS[turn.speaker]}: ${turn.text}`).join('\n');
+}
+
+export class TranscriptionService {
+  private engine: TranscriptionEngine | null = null;
+  private options: TranscriptionStreamOptions | null = null;
+  private streams = new Map<TranscriptSource, TranscriptionStream>();
+  // Sources whose engine stream failed; their audio is ignored until restart
+  private failedSources = new Set<TranscriptSource>();
+  private segments: TranscriptSegment[] = [];
+  private openSegments = new Map<TranscriptSource, TranscriptSegment>();
+  private attribution: SpeakerAttribution | null = null;
+  // Position in the microphone audio where each microphone segment began
+  private segmentStartsMs = new Map<string, number>();
+  // Microphone segments that were the system audio heard through the speakers
+  private echoSegmentIds = new Set<string>();
+  private segmentCounter = 0;
+  private startedAt = 0;
+  // Late results from streams of an earlier recording are dropped
+  private session = 0;
+
+  constructor(private onEvent: (event: TranscriptEvent) => void) {}
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  start(engine: TranscriptionEngine, options: TranscriptionStreamOptions): void {
+    if (this.engine) {
+      console.log('📝 Transcription already running, restarting');
+      this.abandonStreams();
+    }
+
+    this.session++;
+    this.engine = engine;
+    this.options = options;
+    this.failedSources.clear();
+    this.segments = [];
+    this.openSegments.clear();
+    this.attribution = new SpeakerAttribution(options.sampleRate);
+    this.segmentStartsMs.clear();
+    this.echoSegmentIds.clear();
+    this.segmentCounter = 0;
+    this.startedAt = Date.now();
+
+    console.log(`📝 Live transcription started with ${engine.id} engine`);
+    this.emit({ type: 'reset' });
+  }
+
+  /**
+   * Streams are opened lazily so a source that never produces audio never
+   * costs an engine session.
+   */
+  write(source: TranscriptSource, pcm: Buffer): void {
+    if (!this.engine || !this.options || pcm.length === 0) {
+      return;
+    }
+
+    // Levels are tracked even for a failed source; they still tell speakers apart
+    this.attribution?.record(source, pcm);
+    if (this.failedSources.has(source)) {
+      return;
+    }
+
+    let stream = this.streams.get(source);
+    if (!stream) {
+      const session = this.session;
+      stream = this.engine.createStream(
+        this.options,
+        (result) => session === this.session && this.handleResult(source, result),
+        (error) => session === this.session && this.handleError(source, error)
+      );
+      this.streams.set(source, stream);
+    }
+
+    stream.write(pcm);
+  }
+
+  /**
+   * Ends every engine stream and returns the finished transcript.
+   */
+  async stop(): Promise<TranscriptSegment[]> {
+    if (!this.engine) {
+      return [];
+    }
+
+    const streams = Array.from(this.streams.values());
+    this.streams.clear();
+
+    await Promise.all(streams.map(async (stream) => {
+      try {
+        await stream.end();
+      } catch (error) {
+        console.warn('⚠️ Failed to finish transcription stream:', error);
+      }
+    }));
+
+    // Whatever the engine never finalized is kept as it was last heard
+    for (const segment of this.openSegments.values()) {
+      if (segment.text && !this.echoSegmentIds.has(segment.id)) {
+        segment.isFinal = true;
+        this.emit({ type: 'segment', segment: { ...segment } });
+      }
+    }
+    this.openSegments.clear();
+
+    console.log(`📝 Live transcription stopped with ${this.segments.length} segments`);
+    this.engine = null;
+    this.options = null;
+    return this.segments.filter(segment => segment.isFinal && segment.text && !this.echoSegmentIds.has(segment.id));
+  }
+
+  isActive(): boolean {
+    return this.engine !== null;
+  }
+
+  getSegments(): TranscriptSegment[] {
+    return this.segments
+      .filter(segment => !this.echoSegmentIds.has(segment.id))
+      .map(segment => ({ ...segment }));
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private handleResult(source: TranscriptSource, result: TranscriptionResult): void {
+    const text = result.text.trim();
+
+    let segment = this.openSegments.get(source);
+    if (!segment) {
+      if (!text) return;
+      segment = {
+        id: `${source}-${++this.segmentCounter}`,
+        source,
+        speaker: source === 'system' ? 'them' : 'me',
+        text: '',
+        isFinal: false,
+        startedAt: Date.now() - this.startedAt
+      };
+      this.segments.push(segment);
+      this.openSegments.set(source, segment);
+      this.segmentStartsMs.set(segment.id, this.attribution?.positionMs(source) ?? 0);
+    }
+
+    segment.text = text;
+    segment.isFinal = result.isFinal;
+    if (result.isFinal) {
+      this.openSegments.delete(source);
+    }
+
+    // The system stream transcribes the same words, so an echo is dropped
+    // rather than shown twice
+    if (source === 'microphone' && this.isEcho(segment)) {
+      if (!this.echoSegmentIds.has(segment.id)) {
+        this.echoSegmentIds.add(segment.id);
+        this.emit({ type: 'remove', id: segment.id });
+      }
+      return;
+    }
+    this.echoSegmentIds.delete(segment.id);
+
+    this.emit({ type: 'segment', segment: { ...segment } });
+  }
+
+  private isEcho(segment: TranscriptSegment): boolean {
+    if (!this.attribution) return false;
+
+    const startMs = this.segmentStartsMs.get(segment.id) ?? 0;
+    return this.attribution.isEcho(startMs, this.attribution.positionMs('microphone'));
+  }
+
+  private handleError(source: TranscriptSource, error: Error): void {
+    console.error(`❌ Transcription failed for ${source} audio:`, error.message);
+    this.failedSources.add(source);
+    this.streams.delete(source);
+    this.emit({ type: 'error', source, message: error.message });
+  }
+
+  private abandonStreams(): void {
+    for (const stream of this.streams.values()) {
+      stream.end().catch(() => {});
+    }
+    this.streams.clear();
+  }
+
+  private emit(event: TranscriptEvent): void {
+    try {
+      this.onEvent(event);
+    } catch (error) {
+      console.warn('⚠️ Failed to deliver transcript event:', error);
+    }
+  }
+}
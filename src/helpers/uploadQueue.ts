@@ -0,0 +1,367 @@
+import { app, net } from 'electron';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ImageRegion } from '../shared/ipcProtocol';
+import {
+  UploadJob,
+  UploadJobKind,
+  UploadQueueStatus,
+} from '../shared/uploadQueueTypes';
+
+// ============================================================================
+// UPLOAD QUEUE
+// ============================================================================
+//
+// Durable outbox for captures and AI calls that failed because of the network.
+// Jobs live in userData/outbox/queue.json and their PNG/WAV payloads sit next
+// to it, so nothing is lost when the app quits before the connection returns.
+// Each job kind has a handler registered by the main process; handlers throw
+// to signal failure and the queue retries with exponential backoff.
+
+export type UploadJobHandler = (job: UploadJob, token: string, payload: Buffer | null) => Promise<void>;
+
+export interface EnqueueOptions {
+  conversationId: string;
+  payload?: Buffer;
+  payloadExtension?: 'png' | 'wav';
+  prompt?: string;
+  blurRegions?: ImageRegion[];
+  messageId?: string;
+  mediaType?: 'screenshot' | 'audio';
+  mediaUrl?: string;
+  lastError?: string;
+}
+
+/**
+ * A failure that no retry can fix, e.g. a queued capture that turned out to
+ * be unusable. Handlers throw it to fail the job at once.
+ */
+export class PermanentUploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentUploadError';
+  }
+}
+
+/**
+ * Network failures, timeouts, rate limits and server errors are worth retrying.
+ * Other 4xx responses (auth, payment, bad request) will not fix themselves.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof PermanentUploadError) {
+    return false;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const statusMatch = message.match(/status(?: code)? (\d{3})/);
+  if (!statusMatch) {
+    return true;
+  }
+
+  const status = Number(statusMatch[1]);
+  return status >= 500 || status === 408 || status === 429;
+}
+
+export class UploadQueue {
+  private readonly BASE_RETRY_DELAY = 5 * 1000; // 5 seconds
+  private readonly MAX_RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+  private readonly MAX_ATTEMPTS = 12;
+
+  private rootDir: string | null = null;
+  private jobs: UploadJob[] | null = null;
+  private handlers = new Map<UploadJobKind, UploadJobHandler>();
+  private retryTimer: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+
+  constructor(
+    private getToken: () => Promise<string | null>,
+    private onStatusChange: (status: UploadQueueStatus) => void
+  ) {}
+
+  // --------------------------------------------------------------------------
+  // PUBLIC METHODS
+  // --------------------------------------------------------------------------
+
+  registerHandler(kind: UploadJobKind, handler: UploadJobHandler): void {
+    this.handlers.set(kind, handler);
+  }
+
+  enqueue(kind: UploadJobKind, options: EnqueueOptions): UploadJob {
+    const id = randomUUID();
+    let payloadFile: string | undefined;
+
+    if (options.payload) {
+      payloadFile = `${id}.${options.payloadExtension || 'bin'}`;
+      fs.writeFileSync(path.join(this.getRootDir(), payloadFile), options.payload);
+    }
+
+    const job: UploadJob = {
+      id,
+      kind,
+      conversationId: options.conversationId,
+      state: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: new Date(Date.now() + this.BASE_RETRY_DELAY).toISOString(),
+      lastError: options.lastError,
+      payloadFile,
+      prompt: options.prompt,
+      blurRegions: options.blurRegions,
+      messageId: options.messageId,
+      mediaType: options.mediaType,
+      mediaUrl: options.mediaUrl,
+    };
+
+    this.loadJobs().push(job);
+    this.saveJobs();
+    console.log(`📥 Queued ${kind} job ${id} for conversation ${options.conversationId}`);
+
+    this.scheduleNextRun();
+    this.notifyStatus();
+    return job;
+  }
+
+  /**
+   * Resumes jobs persisted by a previous session and starts the retry timer.
+   */
+  start(): void {
+    const pendingCount = this.loadJobs().filter(job => job.state === 'pending').length;
+    if (pendingCount > 0) {
+      console.log(`📥 Upload queue restored ${pendingCount} pending jobs`);
+    }
+    this.scheduleNextRun();
+    this.notifyStatus();
+  }
+
+  stop(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Makes every job (including failed ones) due immediately.
+   */
+  retryAll(): void {
+    const now = new Date().toISOString();
+    for (const job of this.loadJobs()) {
+      job.state = 'pending';
+      job.nextAttemptAt = now;
+    }
+    this.saveJobs();
+    this.runDueJobs();
+  }
+
+  removeJob(jobId: string): void {
+    const job = this.loadJobs().find(candidate => candidate.id === jobId);
+    if (job) {
+      this.deleteJob(job);
+      this.notifyStatus();
+    }
+  }
+
+  getStatus(): UploadQueueStatus {
+    const jobs = this.loadJobs();
+    const pending = jobs.filter(job => job.state === 'pending');
+    const nextAttemptAt = pending
+      .map(job => job.nextAttemptAt)
+      .sort()[0] ?? null;
+
+    return {
+      pending: pending.length,
+      failed: jobs.length - pending.length,
+      isProcessing: this.isProcessing,
+      nextAttemptAt,
+      jobs: jobs.map(({ id, kind, state, attempts, createdAt, nextAttemptAt, lastError }) => ({
+        id, kind, state, attempts, createdAt, nextAttemptAt, lastError,
+      })),
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - PROCESSING
+  // --------------------------------------------------------------------------
+
+  private scheduleNextRun(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const nextAttemptAt = this.getStatus().nextAttemptAt;
+    if (!nextAttemptAt) return;
+
+    const delay = Math.max(0, new Date(nextAttemptAt).getTime() - Date.now());
+    this.retryTimer = setTimeout(() => this.runDueJobs(), delay);
+  }
+
+  /**
+   * Starts a run from a timer or event, where nothing awaits it. A run that
+   * throws (the outbox could not be read or written) is logged and retried.
+   */
+  private runDueJobs(): void {
+    this.processDueJobs().catch((error) => {
+      console.error('❌ Upload queue run failed:', error);
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+      }
+      this.retryTimer = setTimeout(() => this.runDueJobs(), this.BASE_RETRY_DELAY);
+    });
+  }
+
+  private async processDueJobs(): Promise<void> {
+    if (this.isProcessing) return;
+
+    // Offline: don't burn attempts, just look again after the base delay
+    if (!net.isOnline()) {
+      this.retryTimer = setTimeout(() => this.runDueJobs(), this.BASE_RETRY_DELAY);
+      return;
+    }
+
+    const token = await this.getToken();
+    if (!token) {
+      console.log('📥 Upload queue waiting for authentication');
+      this.retryTimer = setTimeout(() => this.runDueJobs(), this.BASE_RETRY_DELAY);
+      return;
+    }
+
+    this.isProcessing = true;
+    this.notifyStatus();
+
+    try {
+      const now = new Date().toISOString();
+      // Oldest first so a chained process-with-ai job runs after its upload
+      const dueJobs = this.loadJobs()
+        .filter(job => job.state === 'pending' && job.nextAttemptAt <= now)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+      for (const job of dueJobs) {
+        await this.runJob(job, token);
+      }
+    } finally {
+      this.isProcessing = false;
+      this.scheduleNextRun();
+      this.notifyStatus();
+    }
+  }
+
+  private async runJob(job: UploadJob, token: string): Promise<void> {
+    const handler = this.handlers.get(job.kind);
+    if (!handler) {
+      console.warn(`⚠️ No upload queue handler registered for ${job.kind}`);
+      job.nextAttemptAt = new Date(Date.now() + this.MAX_RETRY_DELAY).toISOString();
+      this.saveJobs();
+      return;
+    }
+
+    if (job.payloadFile && !fs.existsSync(path.join(this.getRootDir(), job.payloadFile))) {
+      job.state = 'failed';
+      job.lastError = 'Captured file is missing from the outbox';
+      this.saveJobs();
+      return;
+    }
+
+    job.attempts++;
+
+    try {
+      const payload = job.payloadFile ? this.readPayload(job.payloadFile) : null;
+      await handler(job, token, payload);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      job.lastError = errorMessage;
+
+      if (!isRetryableError(error) || job.attempts >= this.MAX_ATTEMPTS) {
+        // Keep the capture on disk; the user can still retry or discard it
+        job.state = 'failed';
+        console.error(`❌ Upload queue job ${job.id} (${job.kind}) failed permanently:`, errorMessage);
+      } else {
+        job.nextAttemptAt = new Date(Date.now() + this.getRetryDelay(job.attempts)).toISOString();
+        console.warn(`⚠️ Upload queue job ${job.id} (${job.kind}) failed, retrying at ${job.nextAttemptAt}:`, errorMessage);
+      }
+
+      this.saveJobs();
+      return;
+    }
+
+    console.log(`✅ Upload queue job ${job.id} (${job.kind}) completed after ${job.attempts} attempts`);
+    // Outside the retry path: the capture was delivered, so a cleanup error
+    // must not send it again
+    try {
+      this.deleteJob(job);
+    } catch (error) {
+      console.error(`❌ Failed to remove completed upload queue job ${job.id}:`, error);
+    }
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const exponential = this.BASE_RETRY_DELAY * Math.pow(2, attempts - 1);
+    // Jitter keeps several queued captures from hammering the API in lockstep
+    const jitter = Math.random() * this.BASE_RETRY_DELAY;
+    return Math.min(this.MAX_RETRY_DELAY, exponential + jitter);
+  }
+
+  private notifyStatus(): void {
+    try {
+      this.onStatusChange(this.getStatus());
+    } catch (error) {
+      console.warn('⚠️ Failed to report upload queue status:', error);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS - STORAGE
+  // --------------------------------------------------------------------------
+
+  private getRootDir(): string {
+    if (!this.rootDir) {
+      this.rootDir = path.join(app.getPath('userData'), 'outbox');
+      fs.mkdirSync(this.rootDir, { recursive: true });
+    }
+    return this.rootDir;
+  }
+
+  private getQueuePath(): string {
+    return path.join(this.getRootDir(), 'queue.json');
+  }
+
+  private loadJobs(): UploadJob[] {
+    if (this.jobs) {
+      return this.jobs;
+    }
+
+    this.jobs = [];
+    try {
+      if (fs.existsSync(this.getQueuePath())) {
+        this.jobs = JSON.parse(fs.readFileSync(this.getQueuePath(), 'utf8'));
+      }
+    } catch (error) {
+      console.error('Failed to read upload queue, starting empty:', error);
+    }
+
+    return this.jobs!;
+  }
+
+  private saveJobs(): void {
+    const tempPath = `${this.getQueuePath()}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(this.loadJobs(), null, 2));
+    fs.renameSync(tempPath, this.getQueuePath());
+  }
+
+  private readPayload(payloadFile: string): Buffer {
+    return fs.readFileSync(path.join(this.getRootDir(), payloadFile));
+  }
+
+  private deleteJob(job: UploadJob): void {
+    this.jobs = this.loadJobs().filter(candidate => candidate.id !== job.id);
+    this.saveJobs();
+
+    if (job.payloadFile) {
+      const payloadPath = path.join(this.getRootDir(), job.payloadFile);
+      if (fs.existsSync(payloadPath)) {
+        fs.unlinkSync(payloadPath);
+      }
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { decodePcm, mixChannels } from '../shared/audioFormat';
+import { SpeechSegment } from '../shared/voiceActivityTypes';
+import { TranscriptSegment } from '../shared/transcriptionTypes';
+import { measureLevel } from './audioProcessingChain';
+import { formatTranscript } from './transcriptionService';
+import { parseWav, writeWav } from './wavFile';
+
+// ============================================================================
+// VOICE ACTIVITY
+// ============================================================================
+//
+// Finds the parts of a finished recording where something can be heard and
+// cuts out the rest. Detection works on the level of short frames against a
+// threshold set from the recording's own noise floor, so a quiet room and a
+// noisy one both work without tuning. Stereo recordings are judged on both
+// channels mixed and cut on every channel alike.
+
+const FRAME_MS = 20;
+// The quietest tenth of the recording is taken as its noise floor
+const NOISE_FLOOR_PERCENTILE = 0.1;
+const THRESHOLD_ABOVE_NOISE_DB = 10;
+// Never so low that hiss counts, never so high that quiet speech is lost
+const MIN_THRESHOLD_DB = -50;
+const MAX_THRESHOLD_DB = -30;
+// Shorter bursts are clicks and bumps rather than speech
+const MIN_SPEECH_MS = 100;
+// Kept around every utterance so soft word onsets and endings survive
+const SPEECH_PADDING_MS = 200;
+
+export interface TrimmedRecording {
+  wav: Buffer;
+  segments: SpeechSegment[];
+  originalMs: number;
+  trimmedMs: number;
+}
+
+/**
+ * Finds the utterances in mono audio, as sample ranges [start, end). Quiet
+ * gaps of up to maxPauseMs stay inside an utterance.
+ */
+export function detectSpeech(samples: Float32Array, sampleRate: number, maxPauseMs: number): [number, number][] {
+  const frameSize = Math.max(1, Math.round(sampleRate * FRAME_MS / 1000));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  if (frameCount === 0) return [];
+
+  const levels = new Float32Array(frameCount);
+  for (let frame = 0; frame < frameCount; frame++) {
+    levels[frame] = measureLevel(samples.subarray(frame * frameSize, (frame + 1) * frameSize)).rmsDb;
+  }
+
+  const sorted = Float32Array.from(levels).sort();
+  const noiseFloor = sorted[Math.floor((sorted.length - 1) * NOISE_FLOOR_PERCENTILE)];
+  const threshold = Math.min(MAX_THRESHOLD_DB, Math.max(MIN_THRESHOLD_DB, noiseFloor + THRESHOLD_ABOVE_NOISE_DB));
+
+  // Runs of frames above the threshold, without the stray clicks
+  const minFrames = Math.ceil(MIN_SPEECH_MS / FRAME_MS);
+  const runs: [number, number][] = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= frameCount; frame++) {
+    const isVoiced = frame < frameCount && levels[frame] >= threshold;
+    if (isVoiced && runStart < 0) {
+      runStart = frame;
+    } else if (!isVoiced && runStart >= 0) {
+      if (frame - runStart >= minFrames) runs.push([runStart, frame]);
+      runStart = -1;
+    }
+  }
+
+  // Padded, and joined when the pause between them is short enough
+  const padding = Math.round(sampleRate * SPEECH_PADDING_MS / 1000);
+  const maxPause = Math.round(sampleRate * maxPauseMs / 1000);
+  const utterances: [number, number][] = [];
+  for (const [first, last] of runs) {
+    const start = Math.max(0, first * frameSize - padding);
+    const end = Math.min(samples.length, last * frameSize + padding);
+    const previous = utterances[utterances.length - 1];
+    if (previous && start - previous[1] <= maxPause) {
+      previous[1] = end;
+    } else {
+      utterances.push([start, end]);
+    }
+  }
+  return utterances;
+}
+
+/**
+ * Drops the silence before the first and after the last utterance and
+ * shortens every pause between utterances to maxPauseMs, keeping the room
+ * sound at either side of it rather than inserting digital silence.
+ * @returns null when nothing in the recording can be heard
+ */
+export function trimSilence(wav: Buffer, maxPauseMs: number): TrimmedRecording | null {
+  const { format, data } = parseWav(wav);
+  const frameBytes = format.channels * format.bitsPerSample / 8;
+  const totalFrames = data.length / frameBytes;
+  const toMs = (frames: number) => Math.round(frames * 1000 / format.sampleRate);
+
+  const [mono] = mixChannels(decodePcm(data, format), 1);
+  const utterances = detectSpeech(mono ?? new Float32Array(0), format.sampleRate, maxPauseMs);
+  if (utterances.length === 0) return null;
+
+  const halfPause = Math.round(format.sampleRate * maxPauseMs / 2000);
+  const pieces: Buffer[] = [];
+  const segments: SpeechSegment[] = [];
+  let outputFrames = 0;
+
+  utterances.forEach(([start, end], index) => {
+    const from = index > 0 ? start - halfPause : start;
+    const to = index < utterances.length - 1 ? end + halfPause : end;
+    segments.push({ startMs: toMs(start), endMs: toMs(end), offsetMs: toMs(outputFrames + start - from) });
+    pieces.push(data.subarray(from * frameBytes, to * frameBytes));
+    outputFrames += to - from;
+  });
+
+  return {
+    wav: outputFrames === totalFrames ? wav : writeWav(Buffer.concat(pieces), format),
+    segments,
+    originalMs: toMs(totalFrames),
+    trimmedMs: toMs(outputFrames),
+  };
+}
+
+/**
+ * Cuts one utterance out of a recording trimmed by trimSilence.
+ */
+export function extractSegment(trimmedWav: Buffer, segment: SpeechSegment): Buffer {
+  const { format, data } = parseWav(trimmedWav);
+  const frameBytes = format.channels * format.bitsPerSample / 8;
+  const toFrame = (ms: number) => Math.round(ms * format.sampleRate / 1000);
+
+  const start = toFrame(segment.offsetMs);
+  const end = start + toFrame(segment.endMs - segment.startMs);
+  return writeWav(data.subarray(start * frameBytes, end * frameBytes), format);
+}
+
+/**
+ * A time in the recording as m:ss.
+ */
+export function formatSegmentTime(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * The text sent with a whole trimmed recording. With more than one utterance
+ * it starts with when each was said, since the pauses between them are gone.
+ */
+export function annotateRecording(segments: SpeechSegment[], transcript: TranscriptSegment[]): string | undefined {
+  const lines: string[] = [];
+  if (segments.length > 1) {
+    lines.push('Utterances (times in the original recording, long pauses removed):');
+    segments.forEach((segment, index) => lines.push(`${index + 1}. ${describeTimes(segment)}`));
+  }
+  if (transcript.length > 0) {
+    if (lines.length > 0) lines.push('');
+    lines.push(formatTranscript(transcript));
+  }
+  return lines.length > 0 ? lines.join('\n') : undefined;
+}
+
+/**
+ * The text sent with one utterance on its own: where it sits in the
+ * recording and what was transcribed during it.
+ */
+export function annotateSegment(segments: SpeechSegment[], index: number, transcript: TranscriptSegment[]): string {
+  const said = transcript.filter(line => segmentIndexAt(segments, line.startedAt) === index);
+  const heading = `Part ${index + 1} of ${segments.length} (${describeTimes(segments[index])})`;
+  return said.length > 0 ? `${heading}\n${formatTranscript(said)}` : heading;
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+function describeTimes(segment: SpeechSegment): string {
+  return `${formatSegmentTime(segment.startMs)}-${formatSegmentTime(segment.endMs)}`;
+}
+
+// Engines time a line from when they first heard it, which can be a little
+// before the padded utterance starts
+function segmentIndexAt(segments: SpeechSegment[], ms: number): number {
+  let index = 0;
+  segments.forEach((segment, candidate) => {
+    if (segment.startMs <= ms + SPEECH_PADDING_MS) index = candidate;
+  });
+  return index;
+}
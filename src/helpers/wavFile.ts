@@ -0,0 +1,181 @@
+import { AudioFormat, SampleFormat, SUPPORTED_BIT_DEPTHS } from '../shared/audioFormat';
+
+// ============================================================================
+// WAV FILE
+// ============================================================================
+//
+// Reads and writes RIFF/WAVE files. The header is not always 44 bytes: sox
+// adds LIST chunks, float files carry a fact chunk and multichannel or 24-bit
+// audio may use WAVE_FORMAT_EXTENSIBLE, so the chunks are walked instead of
+// skipping a fixed offset.
+
+export interface WavData {
+  format: AudioFormat;
+  // Interleaved sample bytes from the data chunk
+  data: Buffer;
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const RIFF_HEADER_SIZE = 12;
+const CHUNK_HEADER_SIZE = 8;
+const MAX_CHANNELS = 8;
+const SAMPLE_RATE_RANGE = { min: 4000, max: 384000 };
+
+/**
+ * Parses a WAV file and validates its format.
+ * @throws when the buffer is not a WAV file or uses a format we cannot decode
+ */
+export function parseWav(buffer: Buffer): WavData {
+  if (buffer.length < RIFF_HEADER_SIZE ||
+      buffer.toString('ascii', 0, 4) !== 'RIFF' ||
+      buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    throw new Error('Not a RIFF/WAVE file');
+  }
+
+  let format: AudioFormat | null = null;
+  let data: Buffer | null = null;
+  let offset = RIFF_HEADER_SIZE;
+
+  while (offset + CHUNK_HEADER_SIZE <= buffer.length) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const declaredSize = buffer.readUInt32LE(offset + 4);
+    const bodyStart = offset + CHUNK_HEADER_SIZE;
+    // Recorders writing to a pipe leave the size as a placeholder, and a
+    // recording cut short may be truncated; take what is actually there
+    const bodyEnd = Math.min(bodyStart + declaredSize, buffer.length);
+
+    if (id === 'fmt ') {
+      format = parseFormatChunk(buffer.subarray(bodyStart, bodyEnd));
+    } else if (id === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk comes before its fmt chunk');
+      }
+      data = buffer.subarray(bodyStart, bodyEnd);
+      break;
+    }
+
+    // Chunks are padded to an even length
+    offset = bodyStart + declaredSize + (declaredSize % 2);
+  }
+
+  if (!format) {
+    throw new Error('WAV file has no fmt chunk');
+  }
+  if (!data) {
+    throw new Error('WAV file has no data chunk');
+  }
+
+  // Drop a trailing partial frame
+  const frameSize = format.channels * format.bitsPerSample / 8;
+  return { format, data: data.subarray(0, data.length - (data.length % frameSize)) };
+}
+
+export function isWav(buffer: Buffer): boolean {
+  try {
+    parseWav(buffer);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wraps sample bytes in a canonical WAV header: a fmt chunk followed by the
+ * data chunk, plus the fact chunk float files are expected to have.
+ */
+export function writeWav(data: Uint8Array, format: AudioFormat): Buffer {
+  validateFormat(format);
+
+  const isFloat = format.sampleFormat === 'float';
+  const blockAlign = format.channels * format.bitsPerSample / 8;
+  const factSize = isFloat ? CHUNK_HEADER_SIZE + 4 : 0;
+  const headerSize = RIFF_HEADER_SIZE + CHUNK_HEADER_SIZE + 16 + factSize + CHUNK_HEADER_SIZE;
+  const padding = data.length % 2;
+  const buffer = Buffer.alloc(headerSize + data.length + padding);
+
+  // RIFF header
+  buffer.write('RIFF', 0, 'ascii');
+  buffer.writeUInt32LE(buffer.length - 8, 4);
+  buffer.write('WAVE', 8, 'ascii');
+
+  // fmt chunk
+  buffer.write('fmt ', 12, 'ascii');
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(isFloat ? WAVE_FORMAT_IEEE_FLOAT : WAVE_FORMAT_PCM, 20);
+  buffer.writeUInt16LE(format.channels, 22);
+  buffer.writeUInt32LE(format.sampleRate, 24);
+  buffer.writeUInt32LE(format.sampleRate * blockAlign, 28);
+  buffer.writeUInt16LE(blockAlign, 32);
+  buffer.writeUInt16LE(format.bitsPerSample, 34);
+
+  let offset = 36;
+  if (isFloat) {
+    buffer.write('fact', offset, 'ascii');
+    buffer.writeUInt32LE(4, offset + 4);
+    buffer.writeUInt32LE(data.length / blockAlign, offset + 8);
+    offset += factSize;
+  }
+
+  // data chunk
+  buffer.write('data', offset, 'ascii');
+  buffer.writeUInt32LE(data.length, offset + 4);
+  buffer.set(data, offset + CHUNK_HEADER_SIZE);
+
+  return buffer;
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+function parseFormatChunk(chunk: Buffer): AudioFormat {
+  if (chunk.length < 16) {
+    throw new Error(`WAV fmt chunk too short (${chunk.length} bytes)`);
+  }
+
+  let formatTag = chunk.readUInt16LE(0);
+  const channels = chunk.readUInt16LE(2);
+  const sampleRate = chunk.readUInt32LE(4);
+  const blockAlign = chunk.readUInt16LE(12);
+  const bitsPerSample = chunk.readUInt16LE(14);
+
+  if (formatTag === WAVE_FORMAT_EXTENSIBLE) {
+    // The real format is the first two bytes of the sub-format GUID
+    if (chunk.length < 26) {
+      throw new Error('WAVE_FORMAT_EXTENSIBLE fmt chunk is missing its sub-format');
+    }
+    formatTag = chunk.readUInt16LE(24);
+  }
+
+  let sampleFormat: SampleFormat;
+  if (formatTag === WAVE_FORMAT_PCM) {
+    sampleFormat = 'int';
+  } else if (formatTag === WAVE_FORMAT_IEEE_FLOAT) {
+    sampleFormat = 'float';
+  } else {
+    throw new Error(`Unsupported WAV encoding 0x${formatTag.toString(16)}`);
+  }
+
+  const format = { sampleRate, channels, bitsPerSample, sampleFormat };
+  validateFormat(format);
+
+  if (blockAlign !== channels * bitsPerSample / 8) {
+    throw new Error(`WAV block align ${blockAlign} does not match ${channels} channel(s) of ${bitsPerSample} bits`);
+  }
+  return format;
+}
+
+function validateFormat(format: AudioFormat): void {
+  if (!Number.isInteger(format.channels) || format.channels < 1 || format.channels > MAX_CHANNELS) {
+    throw new Error(`Unsupported WAV channel count ${format.channels}`);
+  }
+  if (!Number.isInteger(format.sampleRate) || format.sampleRate < SAMPLE_RATE_RANGE.min || format.sampleRate > SAMPLE_RATE_RANGE.max) {
+    throw new Error(`Unsupported WAV sample rate ${format.sampleRate} Hz`);
+  }
+  if (!SUPPORTED_BIT_DEPTHS[format.sampleFormat].includes(format.bitsPerSample)) {
+    throw new Error(`Unsupported WAV bit depth: ${format.bitsPerSample}-bit ${format.sampleFormat}`);
+  }
+}
@@ -1,4 +1,4 @@
-import { BrowserWindow, screen, nativeImage } from 'electron';
+import { BrowserWindow, Display, screen, nativeImage } from 'electron';
 import * as path from 'path';
 import * as isDev from 'electron-is-dev';
 
@@ -8,6 +8,7 @@ import * as isDev from 'electron-is-dev';
 
 export class WindowManager {
   private mainWindow: BrowserWindow | null = null;
+  private regionSelectorWindow: BrowserWindow | null = null;
 
   // --------------------------------------------------------------------------
   // GETTERS
@@ -131,6 +132,76 @@ export class WindowManager {
     this.mainWindow?.setIgnoreMouseEvents(ignore);
   }
 
+  // --------------------------------------------------------------------------
+  // REGION SELECTOR OVERLAY
+  // --------------------------------------------------------------------------
+
+  /**
+   * Opens a transparent, borderless overlay covering the given display where
+   * the renderer's #region-selector route lets the user drag a rectangle.
+   */
+  openRegionSelector(display: Display, onClosed: () => void): BrowserWindow {
+    this.closeRegionSelector();
+
+    const { x, y, width, height } = display.bounds;
+    const win = new BrowserWindow({
+      x,
+      y,
+      width,
+      height,
+      frame: false,
+      transparent: true,
+      hasShadow: false,
+      alwaysOnTop: true,
+      movable: false,
+      resizable: false,
+      minimizable: false,
+      maximizable: false,
+      fullscreenable: false,
+      skipTaskbar: true,
+      enableLargerThanScreen: true,
+      show: false,
+      webPreferences: {
+        nodeIntegration: false,
+        contextIsolation: true,
+        preload: path.join(__dirname, '../preload.js'),
+      },
+    });
+
+    // Stay above full-screen apps and the main window while selecting
+    win.setAlwaysOnTop(true, 'screen-saver');
+    win.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+
+    if (isDev) {
+      win.loadURL('http://localhost:8080/#region-selector');
+    } else {
+      win.loadFile(path.join(__dirname, '../dist/index.html'), { hash: 'region-selector' });
+    }
+
+    win.once('ready-to-show', () => {
+      win.show();
+      win.focus();
+    });
+
+    // A replaced overlay closes after its successor opened; leave the field to that one
+    win.on('closed', () => {
+      if (this.regionSelectorWindow === win) {
+        this.regionSelectorWindow = null;
+      }
+      onClosed();
+    });
+
+    this.regionSelectorWindow = win;
+    return win;
+  }
+
+  closeRegionSelector(): void {
+    if (this.regionSelectorWindow && !this.regionSelectorWindow.isDestroyed()) {
+      this.regionSelectorWindow.close();
+    }
+    this.regionSelectorWindow = null;
+  }
+
   // --------------------------------------------------------------------------
   // MESSAGING
   // --------------------------------------------------------------------------
@@ -1,14 +1,60 @@
 import * as dotenv from 'dotenv';
 dotenv.config();
 
-import { app, globalShortcut, ipcMain, shell } from 'electron';
+import { app, desktopCapturer, Display, globalShortcut, ipcMain, net, screen, session, shell } from 'electron';
+import { randomUUID } from 'crypto';
 
 import { WindowManager } from './helpers/windowManager';
 import { TrayManager } from './helpers/trayManager';
-import { ScreenshotService } from './helpers/screenshotService';
-import { AudioService } from './helpers/audioService';
+import { ScreenshotService, ScreenshotResult } from './helpers/screenshotService';
+import { AudioService, AudioResult } from './helpers/audioService';
 import { audioScreenshotService } from 'electron-audio-shot';
-import { APIService } from './helpers/apiService';
+import { APIService, AIProcessResponse, ConversationResponse, MessageResponse } from './helpers/apiService';
+import { ConversationStore } from './helpers/conversationStore';
+import { PermanentUploadError, UploadQueue, isRetryableError } from './helpers/uploadQueue';
+import { MultipartUploader } from './helpers/multipartUploader';
+import { SettingsStore } from './helpers/settingsStore';
+import { OcrLine, OcrService } from './helpers/ocrService';
+import { TranscriptionEngine, TranscriptionService } from './helpers/transcriptionService';
+import { GoogleSpeechEngine } from './helpers/googleSpeechEngine';
+import { LocalTranscriptionEngine } from './helpers/localTranscriptionEngine';
+import { LiveAssistContext, LiveAssistService, composeLiveAssistPrompt } from './helpers/liveAssistService';
+import { RedactionService, compileCustomPattern, formatRedactionSummary } from './helpers/redactionService';
+import {
+  CHAT_STREAM_CHANNEL,
+  PNG_DATA_URL_PREFIX,
+  SCREENSHOT_REVIEW_CHANNEL,
+  ScreenshotReviewRequest,
+  ImageRegion,
+  COMMAND_CHANNEL,
+  ChatStreamEvent,
+  Command,
+  CommandResponse,
+  createCommandFailure,
+  createCommandSuccess,
+  validateCommandRequest,
+} from './shared/ipcProtocol';
+import { ConversationSyncResult } from './shared/conversationStoreTypes';
+import { composeScreenshotText } from './shared/screenshotText';
+import { TRANSCRIPT_CHANNEL, TranscriptSegment, TranscriptionEngineId, TranscriptionSettings } from './shared/transcriptionTypes';
+import {
+  LIVE_ASSIST_CHANNEL,
+  LIVE_ASSIST_LIMITS,
+  LIVE_ASSIST_SAMPLE_RATE,
+  LiveAssistSettings,
+  QUESTION_SENSITIVITIES,
+  QuestionDetectionSettings,
+} from './shared/liveAssistTypes';
+import { CAPTURE_TARGET_MODES, CaptureRegion, CaptureTarget, REDACTION_PATTERN_IDS, RedactionSettings } from './shared/settingsTypes';
+import { UPLOAD_QUEUE_STATUS_CHANNEL, UploadJob, UploadJobKind } from './shared/uploadQueueTypes';
+import { AUDIO_UPLOAD_FORMATS, AudioUploadSettings } from './shared/audioUploadTypes';
+import { UPLOAD_PROGRESS_CHANNEL } from './shared/multipartUploadTypes';
+import { AUDIO_LEVELS_CHANNEL } from './shared/audioLevelTypes';
+import { SYSTEM_AUDIO_REQUEST_CHANNEL } from './shared/systemAudioTypes';
+import { AudioDeviceSelection, isAudioDeviceSelection } from './shared/audioDeviceTypes';
+import { listInputDevices, listOutputDevices } from './helpers/audioDevices';
+import { MAX_PAUSE_LIMITS, SEGMENT_DELIVERIES, VoiceActivitySettings } from './shared/voiceActivityTypes';
+import { annotateRecording, annotateSegment, extractSegment } from './helpers/voiceActivity';
 
 // ============================================================================
 // MAIN APPLICATION
@@ -21,21 +67,63 @@ class ContextorApp {
   private audioService: AudioService;
   private platformAudioService: audioScreenshotService;
   private apiService: APIService;
+  private conversationStore: ConversationStore;
+  private uploadQueue: UploadQueue;
+  private settingsStore: SettingsStore;
+  private ocrService: OcrService;
+  private redactionService: RedactionService;
+  private transcriptionService: TranscriptionService;
+  private transcriptionEngines = new Map<TranscriptionEngineId, TranscriptionEngine>();
+  private liveAssistService: LiveAssistService;
+  private pendingRegionSelection: ((region: CaptureRegion | null) => void) | null = null;
+  private regionCaptureShortcut: string | null = null;
+  private pendingScreenshotReviews = new Map<string, { buffer: Buffer; conversationId: string }>();
   private lastAIResponse: string | null = null;
   private currentAuthToken: string | null = null;
   private currentConversationId: string | null = null;
+  private activeChatStreams: Map<string, AbortController> = new Map();
   private isFetchingToken: boolean = false;
   private tokenPromise: Promise<string | null> | null = null;
   private lastTokenCheck: number = 0;
   private readonly TOKEN_CHECK_INTERVAL = 3000; // 3 second
+  private lastConversationSync: number = 0;
+  private readonly CONVERSATION_SYNC_INTERVAL = 5 * 60 * 1000; // 5 minutes
+  private readonly CONVERSATION_SYNC_MIN_GAP = 60 * 1000; // 1 minute
 
   constructor() {
     this.windowManager = new WindowManager();
     this.trayManager = new TrayManager(this.windowManager);
-    this.screenshotService = new ScreenshotService();
-    this.audioService = new AudioService();
+    // One uploader so audio and screenshots share resumable sessions and progress
+    const uploader = new MultipartUploader((progress) => this.windowManager.sendMessage(UPLOAD_PROGRESS_CHANNEL, progress));
+    this.screenshotService = new ScreenshotService(uploader);
+    this.audioService = new AudioService(uploader);
     this.platformAudioService = new audioScreenshotService();
     this.apiService = new APIService();
+    this.conversationStore = new ConversationStore();
+    this.settingsStore = new SettingsStore();
+    this.ocrService = new OcrService();
+    this.redactionService = new RedactionService();
+    this.transcriptionService = new TranscriptionService(
+      (event) => this.windowManager.sendMessage(TRANSCRIPT_CHANNEL, event)
+    );
+    this.audioService.setChunkListener((source, chunk) => this.transcriptionService.write(source, chunk));
+    this.audioService.setLevelListener((levels) => this.windowManager.sendMessage(AUDIO_LEVELS_CHANNEL, levels));
+    this.audioService.setSystemAudioRequestListener((wanted) => this.windowManager.sendMessage(SYSTEM_AUDIO_REQUEST_CHANNEL, wanted));
+    this.audioService.setUploadFormat(this.settingsStore.get('audioUpload').format);
+    const audioDevices = this.settingsStore.get('audioDevices');
+    this.audioService.setMicrophoneDevice(audioDevices.microphone);
+    this.audioService.setSystemOutputDevice(audioDevices.systemOutput);
+    this.audioService.setVoiceActivity(this.settingsStore.get('voiceActivity'));
+    this.liveAssistService = new LiveAssistService(
+      (context) => this.runLiveAssist(context),
+      (event) => this.windowManager.sendMessage(LIVE_ASSIST_CHANNEL, event),
+      (event) => this.windowManager.sendMessage(TRANSCRIPT_CHANNEL, event),
+      () => this.isQuestionAnsweringEnabled()
+    );
+    this.uploadQueue = new UploadQueue(
+      () => this.getAuthToken(),
+      (status) => this.windowManager.sendMessage(UPLOAD_QUEUE_STATUS_CHANNEL, status)
+    );
     
     // Reset conversation ID on app startup
     this.currentConversationId = null;
@@ -48,11 +136,14 @@ class ContextorApp {
 
   async initialize(): Promise<void> {
     this.setupApp();
+    this.setupSystemAudioLoopback();
     this.createWindow();
     this.setupGlobalShortcuts();
     this.setupIpcHandlers();
     this.platformAudioService.setupIpcHandlers();
     this.handleCommandLineArgs();
+    this.startConversationSync();
+    this.setupUploadQueue();
   }
 
   // --------------------------------------------------------------------------
@@ -68,6 +159,21 @@ class ContextorApp {
   app.setAsDefaultProtocolClient('contextor-payment');
   }
 
+  // Windows has no native system audio source; the renderer records it as the
+  // audio of a screen share, which Electron only grants through this handler
+  private setupSystemAudioLoopback(): void {
+    if (process.platform !== 'win32') return;
+
+    session.defaultSession.setDisplayMediaRequestHandler((request, callback) => {
+      desktopCapturer.getSources({ types: ['screen'] })
+        .then(sources => callback({ video: sources[0], audio: 'loopback' }))
+        .catch(error => {
+          console.error('❌ Failed to grant system audio loopback:', error);
+          callback({});
+        });
+    });
+  }
+
   public createWindow(): void {
     this.windowManager.createMainWindow();
     this.trayManager.createTray();
@@ -83,6 +189,39 @@ class ContextorApp {
         this.windowManager.show();
       }
     });
+
+    this.registerRegionCaptureShortcut(this.settingsStore.get('regionCaptureShortcut'));
+  }
+
+  /**
+   * Binds region capture to a global shortcut, replacing the previous binding.
+   * @returns false when the accelerator is invalid or taken by another app
+   */
+  private registerRegionCaptureShortcut(accelerator: string): boolean {
+    if (this.regionCaptureShortcut) {
+      globalShortcut.unregister(this.regionCaptureShortcut);
+      this.regionCaptureShortcut = null;
+    }
+
+    try {
+      const registered = globalShortcut.register(accelerator, () => {
+        this.handleCommand({ type: 'take-region-screenshot' }).catch(error => {
+          console.error('❌ Region capture shortcut failed:', error);
+        });
+      });
+
+      if (!registered) {
+        console.warn(`⚠️ Region capture shortcut ${accelerator} is already in use`);
+        return false;
+      }
+
+      this.regionCaptureShortcut = accelerator;
+      console.log(`⌨️ Region capture bound to ${accelerator}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Invalid region capture shortcut ${accelerator}:`, error);
+      return false;
+    }
   }
 
   private setupIpcHandlers(): void {
@@ -91,9 +230,9 @@ class ContextorApp {
       return 'Hello from the main process!';
     });
 
-    // Text processing
-    ipcMain.on('send-text-to-main', async (event, text: string) => {
-      await this.handleTextMessage(text);
+    // Typed command protocol
+    ipcMain.handle(COMMAND_CHANNEL, async (event, request: unknown): Promise<CommandResponse> => {
+      return await this.handleCommandRequest(request);
     });
 
     // Window management
@@ -120,6 +259,13 @@ class ContextorApp {
       console.log('System audio recording started in renderer');
     });
 
+    // Live system audio as 16-bit mono PCM, fed to the recording and transcript.
+    // Without a sample rate it is taken to match the microphone.
+    ipcMain.on('system-audio-chunk', (event, chunk: ArrayBuffer | Uint8Array, sampleRate?: number) => {
+      const rate = typeof sampleRate === 'number' && Number.isInteger(sampleRate) && sampleRate > 0 ? sampleRate : undefined;
+      this.audioService.appendSystemAudioChunk(Buffer.from(chunk instanceof ArrayBuffer ? new Uint8Array(chunk) : chunk), rate);
+    });
+
     ipcMain.on('system-audio-stopped', (event, audioData: any) => {
       console.log('System audio recording stopped in renderer:', audioData);
       // Here you could potentially combine system audio with microphone audio
@@ -133,10 +279,12 @@ class ContextorApp {
         // Check permissions before starting
         await this.checkAudioPermissions();
         
+        this.startLiveTranscription();
         await this.audioService.startRecording();
         console.log('✅ Main process: Combined audio recording started successfully');
         return { success: true };
       } catch (error) {
+        await this.stopLiveTranscription();
         console.error('❌ Main process: Failed to start combined audio recording:', error);
         console.error('Error details:', {
           name: error instanceof Error ? error.name : 'Unknown',
@@ -150,10 +298,13 @@ class ContextorApp {
     ipcMain.handle('stop-combined-audio-recording', async () => {
       try {
         const buffer = await this.audioService.stopRecording();
+        const transcript = await this.stopLiveTranscription();
         
         if (buffer) {
           // Process the combined audio buffer
-          await this.processCombinedAudioBuffer(buffer);
+          await this.processCombinedAudioBuffer(buffer, transcript);
+        } else if (this.audioService.getSegments()?.length === 0) {
+          this.windowManager.sendMessage('chat-response', 'Nothing could be heard in the recording. Please check that your microphone is not muted and try again.');
         }
         
         return { success: true, buffer };
@@ -164,8 +315,14 @@ class ContextorApp {
     });
 
     // Audio configuration handlers
-    ipcMain.handle('set-audio-configuration', async (event, config: { systemAudioEnabled?: boolean; echoCancellationEnabled?: boolean; echoCancellationSensitivity?: 'low' | 'medium' | 'high'; audioScenario?: 'auto' | 'earphones' | 'speakers'; voiceRecordingMode?: 'headphones' | 'speakers' | 'auto' }) => {
+    ipcMain.handle('set-audio-configuration', async (event, config: { systemAudioEnabled?: boolean; echoCancellationEnabled?: boolean; echoCancellationSensitivity?: 'low' | 'medium' | 'high'; audioScenario?: 'auto' | 'earphones' | 'speakers'; voiceRecordingMode?: 'headphones' | 'speakers' | 'auto'; channelLayout?: 'mixed' | 'stereo'; highPassEnabled?: boolean; noiseSuppressionEnabled?: boolean; autoGainControlEnabled?: boolean; limiterEnabled?: boolean; microphoneDevice?: AudioDeviceSelection | null; systemOutputDevice?: AudioDeviceSelection | null }) => {
       try {
+        if (config.microphoneDevice !== undefined && !isAudioDeviceSelection(config.microphoneDevice)) {
+          return { success: false, error: 'microphoneDevice must be null or a device with an id and label' };
+        }
+        if (config.systemOutputDevice !== undefined && !isAudioDeviceSelection(config.systemOutputDevice)) {
+          return { success: false, error: 'systemOutputDevice must be null or a device with an id and label' };
+        }
         if (config.systemAudioEnabled !== undefined) {
           this.audioService.setSystemAudioRecording(config.systemAudioEnabled);
         }
@@ -181,6 +338,29 @@ class ContextorApp {
         if (config.voiceRecordingMode !== undefined) {
           this.audioService.setVoiceRecordingMode(config.voiceRecordingMode);
         }
+        if (config.channelLayout !== undefined) {
+          this.audioService.setChannelLayout(config.channelLayout);
+        }
+        // Processing stages; unset flags keep their current value
+        this.audioService.setAudioProcessing({
+          ...(config.highPassEnabled !== undefined && { highPass: config.highPassEnabled }),
+          ...(config.noiseSuppressionEnabled !== undefined && { noiseSuppression: config.noiseSuppressionEnabled }),
+          ...(config.autoGainControlEnabled !== undefined && { autoGain: config.autoGainControlEnabled }),
+          ...(config.limiterEnabled !== undefined && { limiter: config.limiterEnabled })
+        });
+        // Device choices are remembered across restarts
+        if (config.microphoneDevice !== undefined || config.systemOutputDevice !== undefined) {
+          const devices = { ...this.settingsStore.get('audioDevices') };
+          if (config.microphoneDevice !== undefined) {
+            devices.microphone = config.microphoneDevice && { id: config.microphoneDevice.id, label: config.microphoneDevice.label };
+            this.audioService.setMicrophoneDevice(devices.microphone);
+          }
+          if (config.systemOutputDevice !== undefined) {
+            devices.systemOutput = config.systemOutputDevice && { id: config.systemOutputDevice.id, label: config.systemOutputDevice.label };
+            this.audioService.setSystemOutputDevice(devices.systemOutput);
+          }
+          this.settingsStore.set('audioDevices', devices);
+        }
         return { success: true };
       } catch (error) {
         console.error('Failed to set audio configuration:', error);
@@ -197,6 +377,312 @@ class ContextorApp {
       }
     });
 
+    // Microphones and outputs the main-process recorder can use
+    ipcMain.handle('list-audio-devices', async () => {
+      const [inputs, outputs] = await Promise.all([listInputDevices(), listOutputDevices()]);
+      return { success: true, inputs, outputs };
+    });
+
+    // Mic levels after each processing stage, from the last recording
+    ipcMain.handle('get-audio-levels', async () => {
+      return { success: true, levels: this.audioService.getLevels() };
+    });
+
+    // Local conversation store handlers
+    ipcMain.handle('list-stored-conversations', async () => {
+      try {
+        return { success: true, conversations: this.conversationStore.listConversations() };
+      } catch (error) {
+        console.error('Failed to list stored conversations:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('search-stored-conversations', async (event, query: string) => {
+      try {
+        return { success: true, results: this.conversationStore.searchMessages(query) };
+      } catch (error) {
+        console.error('Failed to search stored conversations:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('open-stored-conversation', async (event, conversationId: string) => {
+      try {
+        const stored = this.conversationStore.openConversation(conversationId);
+        if (!stored) {
+          return { success: false, error: `Conversation not found: ${conversationId}` };
+        }
+        return { success: true, ...stored };
+      } catch (error) {
+        console.error('Failed to open stored conversation:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('forget-stored-conversation', async (event, conversationId: string) => {
+      try {
+        this.conversationStore.removeConversation(conversationId);
+        return { success: true };
+      } catch (error) {
+        console.error('Failed to forget stored conversation:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('sync-conversation-store', async () => {
+      try {
+        const result = await this.syncConversationStore(true);
+        return { success: true, synced: result };
+      } catch (error) {
+        console.error('Failed to sync conversation store:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Screenshot capture target handlers
+    ipcMain.handle('get-capture-target', async () => {
+      return { success: true, target: this.settingsStore.get('captureTarget') };
+    });
+
+    ipcMain.handle('set-capture-target', async (event, target: CaptureTarget) => {
+      if (!target || !CAPTURE_TARGET_MODES.includes(target.mode)) {
+        return { success: false, error: `Invalid capture target: ${JSON.stringify(target)}` };
+      }
+      if (target.mode === 'window' && !target.windowSourceId) {
+        return { success: false, error: 'Window capture requires a window source ID' };
+      }
+
+      this.settingsStore.set('captureTarget', {
+        mode: target.mode,
+        windowSourceId: target.mode === 'window' ? target.windowSourceId : undefined,
+        windowName: target.mode === 'window' ? target.windowName : undefined
+      });
+      console.log('📸 Capture target set to:', target.mode, target.windowName || '');
+      return { success: true };
+    });
+
+    ipcMain.handle('list-capture-windows', async () => {
+      try {
+        return { success: true, windows: await this.screenshotService.listWindowSources() };
+      } catch (error) {
+        console.error('Failed to list capture windows:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Region capture handlers
+    ipcMain.on('region-selection', (event, region: CaptureRegion | null) => {
+      const isValid = region
+        && [region.x, region.y, region.width, region.height].every(value => Number.isFinite(value))
+        && region.width > 0 && region.height > 0;
+
+      // Resolve before closing so the overlay's close handler doesn't cancel
+      this.resolveRegionSelection(isValid ? region : null);
+      this.windowManager.closeRegionSelector();
+    });
+
+    ipcMain.handle('get-region-capture-shortcut', async () => {
+      return { success: true, shortcut: this.settingsStore.get('regionCaptureShortcut') };
+    });
+
+    ipcMain.handle('set-region-capture-shortcut', async (event, accelerator: string) => {
+      const previous = this.settingsStore.get('regionCaptureShortcut');
+      if (!this.registerRegionCaptureShortcut(accelerator)) {
+        this.registerRegionCaptureShortcut(previous);
+        return { success: false, error: `Could not register shortcut: ${accelerator}` };
+      }
+
+      this.settingsStore.set('regionCaptureShortcut', accelerator);
+      return { success: true };
+    });
+
+    // Screenshot review handlers
+    ipcMain.handle('get-screenshot-review-enabled', async () => {
+      return { success: true, enabled: this.settingsStore.get('reviewScreenshotsBeforeSending') };
+    });
+
+    ipcMain.handle('set-screenshot-review-enabled', async (event, enabled: boolean) => {
+      this.settingsStore.set('reviewScreenshotsBeforeSending', Boolean(enabled));
+      return { success: true };
+    });
+
+    // Screenshot redaction handlers
+    ipcMain.handle('get-redaction-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('redaction') };
+    });
+
+    ipcMain.handle('set-redaction-settings', async (event, settings: RedactionSettings) => {
+      try {
+        const patterns = Array.isArray(settings?.patterns) ? settings.patterns : [];
+        const customPatterns = Array.isArray(settings?.customPatterns) ? settings.customPatterns : [];
+        if (!patterns.every(id => REDACTION_PATTERN_IDS.includes(id))) {
+          return { success: false, error: 'Unknown redaction pattern' };
+        }
+        // Reject invalid expressions here rather than silently skipping them at capture time
+        customPatterns.forEach(source => compileCustomPattern(String(source)));
+
+        this.settingsStore.set('redaction', {
+          enabled: Boolean(settings.enabled),
+          patterns,
+          customPatterns: customPatterns.map(String)
+        });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    // Live transcription handlers
+    ipcMain.handle('get-transcription-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('transcription') };
+    });
+
+    ipcMain.handle('set-transcription-settings', async (event, settings: TranscriptionSettings) => {
+      if (settings?.engine !== 'google' && settings?.engine !== 'local') {
+        return { success: false, error: 'Unknown transcription engine' };
+      }
+      if (typeof settings.languageCode !== 'string' || !settings.languageCode.trim()) {
+        return { success: false, error: 'Language code is required' };
+      }
+
+      this.settingsStore.set('transcription', {
+        enabled: Boolean(settings.enabled),
+        engine: settings.engine,
+        languageCode: settings.languageCode.trim()
+      });
+      return { success: true };
+    });
+
+    // Live assist handlers
+    ipcMain.on('live-assist-audio', (event, source: unknown, data: unknown) => {
+      if ((source === 'microphone' || source === 'system') && typeof data === 'string') {
+        this.liveAssistService.writeAudio(source, Buffer.from(data, 'base64'));
+      }
+    });
+
+    ipcMain.on('live-assist-screenshot', (event, data: unknown) => {
+      if (typeof data === 'string') {
+        this.liveAssistService.addScreenshot(Buffer.from(data, 'base64'));
+      }
+    });
+
+    ipcMain.on('live-assist-voice-activity', (event, source: unknown, active: unknown) => {
+      if ((source === 'microphone' || source === 'system') && typeof active === 'boolean') {
+        this.liveAssistService.setVoiceActivity(source, active);
+      }
+    });
+
+    ipcMain.handle('get-live-assist-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('liveAssist') };
+    });
+
+    ipcMain.handle('set-live-assist-settings', async (event, settings: LiveAssistSettings) => {
+      const outOfRange = (Object.keys(LIVE_ASSIST_LIMITS) as (keyof typeof LIVE_ASSIST_LIMITS)[]).find(key => {
+        const value = settings?.[key];
+        return !Number.isFinite(value) || value < LIVE_ASSIST_LIMITS[key].min || value > LIVE_ASSIST_LIMITS[key].max;
+      });
+      if (outOfRange) {
+        const { min, max } = LIVE_ASSIST_LIMITS[outOfRange];
+        return { success: false, error: `${outOfRange} must be between ${min} and ${max}` };
+      }
+
+      const liveAssist: LiveAssistSettings = {
+        intervalSeconds: Math.round(settings.intervalSeconds),
+        contextMinutes: Math.round(settings.contextMinutes),
+        screenshotIntervalSeconds: Math.round(settings.screenshotIntervalSeconds)
+      };
+      this.settingsStore.set('liveAssist', liveAssist);
+      this.liveAssistService.updateSettings(liveAssist);
+      return { success: true };
+    });
+
+    ipcMain.handle('get-question-detection-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('questionDetection') };
+    });
+
+    ipcMain.handle('set-question-detection-settings', async (event, settings: QuestionDetectionSettings) => {
+      if (!QUESTION_SENSITIVITIES.includes(settings?.sensitivity)) {
+        return { success: false, error: `Unknown question sensitivity: ${settings?.sensitivity}` };
+      }
+      if (!Array.isArray(settings.disabledConversationIds) ||
+          !settings.disabledConversationIds.every(id => typeof id === 'string')) {
+        return { success: false, error: 'disabledConversationIds must be a list of conversation IDs' };
+      }
+
+      this.settingsStore.set('questionDetection', {
+        sensitivity: settings.sensitivity,
+        disabledConversationIds: Array.from(new Set(settings.disabledConversationIds))
+      });
+      this.liveAssistService.setQuestionSensitivity(settings.sensitivity);
+      return { success: true };
+    });
+
+    ipcMain.handle('get-audio-upload-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('audioUpload') };
+    });
+
+    ipcMain.handle('set-audio-upload-settings', async (event, settings: AudioUploadSettings) => {
+      if (!AUDIO_UPLOAD_FORMATS.includes(settings?.format)) {
+        return { success: false, error: `Unknown audio upload format: ${settings?.format}` };
+      }
+
+      this.settingsStore.set('audioUpload', { format: settings.format });
+      this.audioService.setUploadFormat(settings.format);
+      return { success: true };
+    });
+
+    ipcMain.handle('get-voice-activity-settings', async () => {
+      return { success: true, settings: this.settingsStore.get('voiceActivity') };
+    });
+
+    ipcMain.handle('set-voice-activity-settings', async (event, settings: VoiceActivitySettings) => {
+      if (typeof settings?.trimSilence !== 'boolean') {
+        return { success: false, error: 'trimSilence must be true or false' };
+      }
+      const maxPause = settings.maxPauseSeconds;
+      if (!Number.isFinite(maxPause) || maxPause < MAX_PAUSE_LIMITS.min || maxPause > MAX_PAUSE_LIMITS.max) {
+        return { success: false, error: `maxPauseSeconds must be between ${MAX_PAUSE_LIMITS.min} and ${MAX_PAUSE_LIMITS.max}` };
+      }
+      if (!SEGMENT_DELIVERIES.includes(settings.delivery)) {
+        return { success: false, error: `Unknown segment delivery: ${settings.delivery}` };
+      }
+
+      const voiceActivity: VoiceActivitySettings = {
+        trimSilence: settings.trimSilence,
+        maxPauseSeconds: maxPause,
+        delivery: settings.delivery
+      };
+      this.settingsStore.set('voiceActivity', voiceActivity);
+      this.audioService.setVoiceActivity(voiceActivity);
+      return { success: true };
+    });
+
+    // Upload queue handlers
+    ipcMain.handle('get-upload-queue-status', async () => {
+      return { success: true, status: this.uploadQueue.getStatus() };
+    });
+
+    ipcMain.handle('retry-upload-queue', async () => {
+      try {
+        this.uploadQueue.retryAll();
+        return { success: true };
+      } catch (error) {
+        console.error('Failed to retry upload queue:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+    ipcMain.handle('discard-upload-job', async (event, jobId: string) => {
+      try {
+        this.uploadQueue.removeJob(jobId);
+        return { success: true };
+      } catch (error) {
+        console.error('Failed to discard upload job:', error);
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
     // Auth token handler
     ipcMain.on('auth-token-response', (event, token: string | null) => {
       this.handleAuthTokenResponse(token);
@@ -215,31 +701,83 @@ class ContextorApp {
     });
   }
 
-  private async handleTextMessage(text: string): Promise<void> {
-    if (text === 'end-conversation') {
-      this.processEndConversation();
-      return;
+  private async handleCommandRequest(request: unknown): Promise<CommandResponse> {
+    const requestId = typeof request === 'object' && request !== null && 'requestId' in request && typeof request.requestId === 'string'
+      ? request.requestId
+      : '';
+    const validationError = validateCommandRequest(request);
+    if (validationError) {
+      console.warn(`⚠️ Rejected command request ${requestId || '(no id)'}:`, validationError.message);
+      return createCommandFailure(requestId, validationError);
     }
 
-    if (text === 'take-screenshot') {
-      await this.processScreenshotCommand();
-      return;
-    }
+    const { command } = request as { command: Command };
+    console.log(`📥 Command received: ${command.type} (${requestId})`);
 
-    if (text === 'start-audio-recording') {
-      await this.processAudioCommand();
-      return;
+    try {
+      await this.handleCommand(command);
+      return createCommandSuccess(requestId);
+    } catch (error) {
+      console.error(`❌ Command ${command.type} failed:`, error);
+      return createCommandFailure(requestId, {
+        code: 'handler-failed',
+        message: error instanceof Error ? error.message : String(error)
+      });
     }
+  }
 
-    if (text === 'stop-audio-recording') {
-      await this.processAudioStopCommand();
-      return;
+  private async handleCommand(command: Command): Promise<void> {
+    switch (command.type) {
+      case 'end-conversation':
+        this.processEndConversation();
+        return;
+      case 'resume-conversation':
+        this.processResumeConversation(command.conversationId);
+        return;
+      case 'take-screenshot':
+        await this.processScreenshotCommand();
+        return;
+      case 'take-region-screenshot':
+        await this.processRegionScreenshotCommand();
+        return;
+      case 'submit-screenshot-review':
+        await this.processScreenshotReviewSubmission(command.reviewId, command.imageDataUrl, command.prompt, command.blurRegions);
+        return;
+      case 'cancel-screenshot-review':
+        this.pendingScreenshotReviews.delete(command.reviewId);
+        console.log('🖍️ Screenshot review cancelled:', command.reviewId);
+        return;
+      case 'start-audio-recording':
+        await this.processAudioCommand();
+        return;
+      case 'stop-audio-recording':
+        await this.processAudioStopCommand();
+        return;
+      case 'send-chat-message':
+        await this.processGeneralTextInput(command.text);
+        return;
+      case 'cancel-chat-stream':
+        this.cancelChatStream(command.streamId);
+        return;
+      case 'start-live-assist':
+        await this.processStartLiveAssist();
+        return;
+      case 'stop-live-assist':
+        await this.liveAssistService.stop();
+        return;
+      case 'pause-live-assist':
+        await this.liveAssistService.pause();
+        return;
+      case 'resume-live-assist':
+        this.liveAssistService.resume();
+        return;
     }
-
-    await this.processGeneralTextInput(text);
   }
 
   private async processGeneralTextInput(userText: string): Promise<void> {
+    let streamId: string | null = null;
+    let streamedText = '';
+
     try {
       const token = await this.getAuthToken();
       if (!token) {
@@ -255,25 +793,48 @@ class ContextorApp {
       }
 
       this.windowManager.sendMessage('loading-update', 'Processing with AI...');
-      
-      // Process message with AI via backend
-      const result = await this.apiService.processMessageWithAI(token, conversationId, {
+
+      // Stream the AI response so the renderer can show it as it arrives
+      streamId = randomUUID();
+      const controller = new AbortController();
+      this.activeChatStreams.set(streamId, controller);
+      this.sendChatStreamEvent({ streamId, type: 'start' });
+
+      const result = await this.apiService.processMessageWithAIStream(token, conversationId, {
         content_type: 'text',
         text_content: userText,
         sender_type: 'user'
+      }, {
+        signal: controller.signal,
+        onToken: (delta) => {
+          streamedText += delta;
+          this.sendChatStreamEvent({ streamId: streamId!, type: 'token', delta });
+        }
       });
 
-      const aiResponse = result.ai_response.data.attributes.text_content || 'No response received';
+      const aiResponse = result.text || 'No response received';
       this.lastAIResponse = aiResponse;
+      if (result.response) {
+        this.mirrorAIExchange(result.response);
+      }
 
-      this.windowManager.sendMessage('chat-response', aiResponse);
+      this.sendChatStreamEvent({ streamId, type: 'done', content: aiResponse });
 
       console.log('Processed general text input:', userText);
       console.log('AI response:', aiResponse);
     } catch (error) {
+      if (streamId && this.activeChatStreams.get(streamId)?.signal.aborted) {
+        console.log(`🛑 Chat stream ${streamId} cancelled by user`);
+        this.sendChatStreamEvent({ streamId, type: 'cancelled', content: streamedText });
+        return;
+      }
+
       console.error('Failed to process general text input:', error);
       if (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
+        if (streamId) {
+          this.sendChatStreamEvent({ streamId, type: 'error', message: errorMessage });
+        }
         if (errorMessage.includes('402')) {
           this.windowManager.sendMessage('toggle-insights-panel', true);
           this.windowManager.sendMessage('chat-response', 'Your daily message limit has been reached. Please upgrade to continue or come back tomorrow.');
@@ -281,7 +842,23 @@ class ContextorApp {
           this.windowManager.sendMessage('chat-response', 'Failed to process your message. Please try again.');
         }
       }
+    } finally {
+      if (streamId) {
+        this.activeChatStreams.delete(streamId);
+      }
+    }
+  }
+
+  private cancelChatStream(streamId: string): void {
+    const controller = this.activeChatStreams.get(streamId);
+    if (!controller) {
+      throw new Error(`No active chat stream: ${streamId}`);
     }
+    controller.abort();
+  }
+
+  private sendChatStreamEvent(event: ChatStreamEvent): void {
+    this.windowManager.sendMessage(CHAT_STREAM_CHANNEL, event);
   }
 
   private async processScreenshotCommand(): Promise<void> {
@@ -302,7 +879,139 @@ class ContextorApp {
     }
 
     this.windowManager.sendMessage('loading-update', 'Capturing screen...');
-    const screenshotResult = await this.screenshotService.takeScreenshot(window, token, conversationId);
+    const buffer = await this.screenshotService.captureScreenshot(this.settingsStore.get('captureTarget'), window);
+    if (!buffer) {
+      this.windowManager.sendMessage('screenshot-analysis', 'Failed to capture screenshot');
+      return;
+    }
+
+    await this.reviewOrSubmitScreenshot(buffer, token, conversationId);
+  }
+
+  private async processRegionScreenshotCommand(): Promise<void> {
+    const token = await this.getAuthToken();
+    if (!token) {
+      this.windowManager.sendMessage('screenshot-analysis', 'Please log in to use AI features.');
+      return;
+    }
+
+    const display = screen.getDisplayNearestPoint(screen.getCursorScreenPoint());
+    const region = await this.selectRegion(display);
+    if (!region) {
+      console.log('📐 Region selection cancelled');
+      this.windowManager.sendMessage('region-capture-cancelled');
+      return;
+    }
+
+    // Give the compositor a moment to remove the overlay before capturing
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    // Get or create conversation
+    const conversationId = await this.getOrCreateConversation(token);
+    if (!conversationId) {
+      this.windowManager.sendMessage('screenshot-analysis', 'Failed to create conversation. Please try again.');
+      return;
+    }
+
+    this.windowManager.sendMessage('loading-update', 'Capturing region...');
+    const buffer = await this.screenshotService.captureRegion(display, region);
+    if (!buffer) {
+      this.windowManager.sendMessage('screenshot-analysis', 'Failed to capture screenshot');
+      return;
+    }
+
+    await this.reviewOrSubmitScreenshot(buffer, token, conversationId);
+  }
+
+  private selectRegion(display: Display): Promise<CaptureRegion | null> {
+    // A new selection replaces one that is still open
+    this.resolveRegionSelection(null);
+
+    return new Promise(resolve => {
+      this.pendingRegionSelection = resolve;
+      this.windowManager.openRegionSelector(display, () => {
+        // Closing the overlay without a selection counts as cancelling
+        if (this.pendingRegionSelection === resolve) {
+          this.resolveRegionSelection(null);
+        }
+      });
+    });
+  }
+
+  private resolveRegionSelection(region: CaptureRegion | null): void {
+    const resolve = this.pendingRegionSelection;
+    this.pendingRegionSelection = null;
+    resolve?.(region);
+  }
+
+  private async reviewOrSubmitScreenshot(buffer: Buffer, token: string, conversationId: string): Promise<void> {
+    if (!this.settingsStore.get('reviewScreenshotsBeforeSending')) {
+      await this.submitScreenshot(buffer, token, conversationId);
+      return;
+    }
+
+    // Hold the capture until the renderer sends back the annotated version
+    const review: ScreenshotReviewRequest = {
+      reviewId: randomUUID(),
+      imageDataUrl: `${PNG_DATA_URL_PREFIX}${buffer.toString('base64')}`
+    };
+    this.pendingScreenshotReviews.set(review.reviewId, { buffer, conversationId });
+    this.windowManager.sendMessage(SCREENSHOT_REVIEW_CHANNEL, review);
+  }
+
+  private async processScreenshotReviewSubmission(reviewId: string, imageDataUrl: string, prompt: string, blurRegions: ImageRegion[]): Promise<void> {
+    const review = this.pendingScreenshotReviews.get(reviewId);
+    if (!review) {
+      throw new Error(`Unknown screenshot review: ${reviewId}`);
+    }
+    this.pendingScreenshotReviews.delete(reviewId);
+
+    const token = await this.getAuthToken();
+    if (!token) {
+      this.windowManager.sendMessage('screenshot-analysis', 'Please log in to use AI features.');
+      return;
+    }
+
+    const annotated = Buffer.from(imageDataUrl.slice(PNG_DATA_URL_PREFIX.length), 'base64');
+    await this.submitScreenshot(annotated, token, review.conversationId, prompt || undefined, blurRegions);
+  }
+
+  private async submitScreenshot(
+    capture: Buffer,
+    token: string,
+    conversationId: string,
+    prompt?: string,
+    blurRegions: ImageRegion[] = []
+  ): Promise<void> {
+    let scanned: { buffer: Buffer; messageText?: string };
+    try {
+      this.windowManager.sendMessage('loading-update', 'Reading text on screen...');
+      scanned = await this.scanScreenshot(capture, prompt, blurRegions);
+    } catch (error) {
+      // Kept unscanned on this machine only; the queue scans it again before uploading
+      this.uploadQueue.enqueue('screenshot-scan', {
+        conversationId,
+        payload: capture,
+        payloadExtension: 'png',
+        prompt,
+        blurRegions,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+      this.windowManager.sendMessage('screenshot-analysis', 'Failed to scan screenshot for sensitive content - it is saved and will be scanned and uploaded automatically.');
+      return;
+    }
+
+    const { buffer, messageText } = scanned;
+
+    let screenshotResult: ScreenshotResult | null = null;
+    try {
+      screenshotResult = await this.screenshotService.uploadScreenshot(buffer, token, conversationId, messageText);
+    } catch (error) {
+      if (this.queueFailedUpload('screenshot-upload', buffer, conversationId, error, messageText)) {
+        this.windowManager.sendMessage('screenshot-analysis', 'Connection problem - your screenshot is saved and will upload automatically once you are back online.');
+        return;
+      }
+    }
     
     if (screenshotResult) {
       try {
@@ -318,7 +1027,8 @@ class ContextorApp {
         
         this.windowManager.sendMessage('screenshot-with-image', {
           analysis: aiAnalysis,
-          imageUrl: screenshotUrl
+          imageUrl: screenshotUrl,
+          textContent: messageText
         });
 
           console.log('Screenshot analysis:', aiAnalysis);
@@ -342,15 +1052,54 @@ class ContextorApp {
   private async processAudioCommand(): Promise<void> {
     try {
       console.log('Starting audio recording...');
+      this.startLiveTranscription();
       await this.audioService.startRecording();
       this.windowManager.sendMessage('audio-recording-started');
       console.log('Audio recording started successfully');
     } catch (error) {
+      await this.stopLiveTranscription();
       console.error('Failed to start audio recording:', error);
       this.windowManager.sendMessage('audio-recording-error', 'Failed to start audio recording');
     }
   }
 
+  // --------------------------------------------------------------------------
+  // LIVE TRANSCRIPTION
+  // --------------------------------------------------------------------------
+
+  private startLiveTranscription(): void {
+    const settings = this.settingsStore.get('transcription');
+    if (!settings.enabled) return;
+
+    this.transcriptionService.start(this.getTranscriptionEngine(settings.engine), {
+      sampleRate: this.audioService.getSampleRate(),
+      languageCode: settings.languageCode
+    });
+  }
+
+  /**
+   * @returns the finished transcript segments, timed from the recording start
+   */
+  private async stopLiveTranscription(): Promise<TranscriptSegment[]> {
+    if (!this.transcriptionService.isActive()) return [];
+
+    try {
+      return await this.transcriptionService.stop();
+    } catch (error) {
+      console.warn('⚠️ Failed to stop live transcription:', error);
+      return [];
+    }
+  }
+
+  private getTranscriptionEngine(id: TranscriptionEngineId): TranscriptionEngine {
+    let engine = this.transcriptionEngines.get(id);
+    if (!engine) {
+      engine = id === 'local' ? new LocalTranscriptionEngine() : new GoogleSpeechEngine();
+      this.transcriptionEngines.set(id, engine);
+    }
+    return engine;
+  }
+
   private async processAudioStopCommand(): Promise<void> {
     const window = this.windowManager.window;
     if (!window) return;
@@ -371,9 +1120,13 @@ class ContextorApp {
     try {
       console.log('Stopping audio recording...');
       const audioBuffer = await this.audioService.stopRecording();
+      const transcript = await this.stopLiveTranscription();
       
       if (!audioBuffer) {
-        this.windowManager.sendMessage('audio-analysis', 'No audio recorded or recording was too short. Please try again and speak for at least 0.5 seconds.');
+        const nothingHeard = this.audioService.getSegments()?.length === 0;
+        this.windowManager.sendMessage('audio-analysis', nothingHeard
+          ? 'Nothing could be heard in the recording. Please check that your microphone is not muted and try again.'
+          : 'No audio recorded or recording was too short. Please try again and speak for at least 0.5 seconds.');
         return;
       }
 
@@ -384,32 +1137,7 @@ class ContextorApp {
 
       console.log(`Audio buffer size: ${audioBuffer.length} bytes`);
       this.windowManager.sendMessage('loading-update', 'Processing audio...');
-      
-      // Upload audio buffer to S3
-      const audioResult = await this.audioService.uploadAudioBuffer(audioBuffer, token, conversationId);
-      
-      if (audioResult) {
-        this.windowManager.sendMessage('loading-update', 'Analyzing with AI...');
-        
-        // Get AI analysis for the audio (this creates the AI response message)
-        const aiAnalysis = await this.getAudioAnalysis(audioResult.audioUrl, conversationId, audioResult.messageId);
-        
-        this.lastAIResponse = aiAnalysis;
-        
-        console.log('🎤 Sending audio-with-analysis message to renderer:', {
-          analysis: aiAnalysis,
-          audioUrl: audioResult.audioUrl
-        });
-        
-        this.windowManager.sendMessage('audio-with-analysis', {
-          analysis: aiAnalysis,
-          audioUrl: audioResult.audioUrl
-        });
-
-        console.log('Audio analysis:', aiAnalysis);
-      } else {
-        this.windowManager.sendMessage('audio-analysis', 'Failed to upload or process audio. Please try again.');
-      }
+      await this.deliverRecording(this.prepareRecordingParts(audioBuffer, transcript), token, conversationId, 'audio-analysis');
     } catch (error) {
       console.error('Failed to process audio:', error);
       if (error) {
@@ -428,6 +1156,72 @@ class ContextorApp {
     }
   }
 
+  // --------------------------------------------------------------------------
+  // LIVE ASSIST
+  // --------------------------------------------------------------------------
+
+  private async processStartLiveAssist(): Promise<void> {
+    const token = await this.getAuthToken();
+    if (!token) {
+      throw new Error('Please log in to use live assist.');
+    }
+
+    // Live assist always transcribes; the setting only turns off the view while recording
+    const transcription = this.settingsStore.get('transcription');
+    this.liveAssistService.setQuestionSensitivity(this.settingsStore.get('questionDetection').sensitivity);
+    this.liveAssistService.start(this.getTranscriptionEngine(transcription.engine), {
+      sampleRate: LIVE_ASSIST_SAMPLE_RATE,
+      languageCode: transcription.languageCode
+    }, this.settingsStore.get('liveAssist'));
+  }
+
+  /**
+   * Questions are answered unless the user switched that off for the
+   * conversation live assist is currently writing to.
+   */
+  private isQuestionAnsweringEnabled(): boolean {
+    const { disabledConversationIds } = this.settingsStore.get('questionDetection');
+    return !this.currentConversationId || !disabledConversationIds.includes(this.currentConversationId);
+  }
+
+  private async runLiveAssist(context: LiveAssistContext): Promise<string | null> {
+    const token = await this.getAuthToken();
+    if (!token) {
+      throw new Error('Please log in to use live assist.');
+    }
+
+    const conversationId = await this.getOrCreateConversation(token);
+    if (!conversationId) {
+      throw new Error('Failed to create conversation.');
+    }
+
+    const screenText = context.screenshot ? await this.readScreenForLiveAssist(context.screenshot) : undefined;
+    const result = await this.apiService.processMessageWithAI(token, conversationId, {
+      content_type: 'text',
+      text_content: composeLiveAssistPrompt(context, screenText),
+      sender_type: 'user'
+    });
+    this.mirrorAIExchange(result);
+
+    const suggestion = result.ai_response.data.attributes.text_content || null;
+    if (suggestion) {
+      this.lastAIResponse = suggestion;
+    }
+    return suggestion;
+  }
+
+  // Only the screen's text is sent, after the same redaction as uploaded screenshots
+  private async readScreenForLiveAssist(capture: Buffer): Promise<string | undefined> {
+    try {
+      const lines = await this.ocrService.recognize(capture);
+      const redaction = await this.redactionService.redact(capture, lines, this.settingsStore.get('redaction'));
+      return redaction.screenText;
+    } catch (error) {
+      console.warn('⚠️ Live assist could not read the screen, sending the transcript only:', error);
+      return undefined;
+    }
+  }
+
   private processEndConversation(): void {
     this.windowManager.sendMessage('hide-insights-panel');
     console.log('End conversation command received - hiding insights panel');
@@ -437,6 +1231,12 @@ class ContextorApp {
     console.log('🔄 Conversation reset - next interaction will create new conversation');
   }
 
+  private processResumeConversation(conversationId: string): void {
+    // Subsequent screenshots, audio and chat messages are added to this conversation
+    this.currentConversationId = conversationId;
+    console.log('📂 Resumed conversation:', conversationId);
+  }
+
   private async handleCreateMessage(conversationId: string, data: { content_type: string, text_content?: string, screenshot_url?: string, sender_type?: string }): Promise<any> {
     try {
       const token = await this.getAuthToken();
@@ -453,6 +1253,7 @@ class ContextorApp {
       
       const result = await this.apiService.createMessage(token, conversationId, messageData);
       console.log('Message created successfully:', result);
+      this.mirrorMessage(result);
       return result;
   } catch (error) {
       console.error('Failed to create message:', error);
@@ -468,6 +1269,9 @@ class ContextorApp {
       if (!this.isFetchingToken) {
         await this.handleReturnCurrentUser(token);
       }
+      this.syncConversationStore().catch(error => {
+        console.warn('⚠️ Conversation store sync failed:', error);
+      });
     }
   }
 
@@ -530,6 +1334,7 @@ class ContextorApp {
 
       this.currentConversationId = conversation.data.id;
       console.log('✅ New conversation created:', this.currentConversationId);
+      this.mirrorConversation(conversation);
       
       return this.currentConversationId;
     } catch (error) {
@@ -557,6 +1362,10 @@ class ContextorApp {
     }
   }
 
+  public stopUploadQueue(): void {
+    this.uploadQueue.stop();
+  }
+
   public handleAuthProtocol(url: string): void {
     const urlObj = new URL(url);
     const token = urlObj.searchParams.get('token');
@@ -597,6 +1406,145 @@ class ContextorApp {
     }
   }
 
+  // --------------------------------------------------------------------------
+  // UPLOAD QUEUE
+  // --------------------------------------------------------------------------
+
+  private setupUploadQueue(): void {
+    this.uploadQueue.registerHandler('screenshot-scan', async (job, token, payload) => {
+      const { buffer, messageText } = await this.scanScreenshot(payload!, job.prompt, job.blurRegions);
+      const result = await this.screenshotService.uploadScreenshot(buffer, token, job.conversationId, messageText);
+      await this.analyzeQueuedUpload(job, token, result.messageId, 'screenshot', result.screenshotUrl);
+    });
+
+    this.uploadQueue.registerHandler('screenshot-upload', async (job, token, payload) => {
+      const result = await this.screenshotService.uploadScreenshot(payload!, token, job.conversationId, job.prompt);
+      await this.analyzeQueuedUpload(job, token, result.messageId, 'screenshot', result.screenshotUrl);
+    });
+
+    this.uploadQueue.registerHandler('audio-upload', async (job, token, payload) => {
+      const result = await this.audioService.uploadAudioBuffer(payload!, token, job.conversationId, job.prompt);
+      if (!result) {
+        throw new PermanentUploadError('Queued recording is not a valid WAV file');
+      }
+      await this.analyzeQueuedUpload(job, token, result.messageId, 'audio', result.audioUrl);
+    });
+
+    this.uploadQueue.registerHandler('process-with-ai', async (job, token) => {
+      await this.deliverQueuedAnalysis(job, token, job.messageId!, job.mediaType!, job.mediaUrl!);
+    });
+
+    this.uploadQueue.start();
+  }
+
+  /**
+   * Keeps a capture on disk for retrying when its upload failed for a
+   * transient reason.
+   * @returns true when the capture was queued
+   */
+  private queueFailedUpload(kind: UploadJobKind, buffer: Buffer, conversationId: string, error: unknown, prompt?: string): boolean {
+    if (!isRetryableError(error)) {
+      return false;
+    }
+
+    this.uploadQueue.enqueue(kind, {
+      conversationId,
+      payload: buffer,
+      payloadExtension: kind === 'screenshot-upload' ? 'png' : 'wav',
+      prompt,
+      lastError: error instanceof Error ? error.message : String(error)
+    });
+    return true;
+  }
+
+  // The upload itself succeeded, so an AI failure must not re-upload the capture
+  private async analyzeQueuedUpload(job: UploadJob, token: string, messageId: string, mediaType: 'screenshot' | 'audio', mediaUrl: string): Promise<void> {
+    try {
+      await this.deliverQueuedAnalysis(job, token, messageId, mediaType, mediaUrl);
+    } catch (error) {
+      this.uploadQueue.enqueue('process-with-ai', {
+        conversationId: job.conversationId, messageId, mediaType, mediaUrl,
+        lastError: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  private async deliverQueuedAnalysis(job: UploadJob, token: string, messageId: string, mediaType: 'screenshot' | 'audio', mediaUrl: string): Promise<void> {
+    const response = await this.apiService.processExistingMessageWithAI(token, job.conversationId, messageId);
+    this.mirrorAIExchange(response);
+
+    // Results for other conversations are already stored; only show the open one
+    if (job.conversationId !== this.currentConversationId) {
+      console.log(`📥 Queued ${mediaType} analysis finished for conversation ${job.conversationId}`);
+      return;
+    }
+
+    const analysis = response.ai_response.data.attributes.text_content || 'No analysis available';
+    this.lastAIResponse = analysis;
+
+    if (mediaType === 'screenshot') {
+      this.windowManager.sendMessage('screenshot-with-image', {
+        analysis,
+        imageUrl: mediaUrl,
+        textContent: response.user_message.data.attributes.text_content
+      });
+    } else {
+      this.windowManager.sendMessage('audio-with-analysis', { analysis, audioUrl: mediaUrl });
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // LOCAL CONVERSATION STORE
+  // --------------------------------------------------------------------------
+
+  private startConversationSync(): void {
+    setInterval(() => {
+      this.syncConversationStore().catch(error => {
+        console.warn('⚠️ Periodic conversation store sync failed:', error);
+      });
+    }, this.CONVERSATION_SYNC_INTERVAL);
+  }
+
+  private async syncConversationStore(force: boolean = false): Promise<ConversationSyncResult | null> {
+    const token = this.currentAuthToken;
+    if (!token || !net.isOnline()) {
+      return null;
+    }
+
+    const now = Date.now();
+    if (!force && now - this.lastConversationSync < this.CONVERSATION_SYNC_MIN_GAP) {
+      return null;
+    }
+    this.lastConversationSync = now;
+
+    return await this.conversationStore.syncWithBackend(token, this.apiService);
+  }
+
+  // Mirroring must never break the live flow, so store errors are only logged
+  private mirrorConversation(conversation: ConversationResponse): void {
+    try {
+      this.conversationStore.upsertConversation(conversation.data);
+    } catch (error) {
+      console.warn('⚠️ Failed to mirror conversation locally:', error);
+    }
+  }
+
+  private mirrorMessage(message: MessageResponse): void {
+    try {
+      this.conversationStore.recordMessage(message);
+    } catch (error) {
+      console.warn('⚠️ Failed to mirror message locally:', error);
+    }
+  }
+
+  private mirrorAIExchange(result: AIProcessResponse): void {
+    try {
+      this.conversationStore.recordAIExchange(result);
+    } catch (error) {
+      console.warn('⚠️ Failed to mirror AI exchange locally:', error);
+    }
+  }
+
   // Add a method to clear token state
   private clearTokenState(): void {
     this.currentAuthToken = null;
@@ -605,14 +1553,51 @@ class ContextorApp {
     this.lastTokenCheck = 0;
   }
 
+  /**
+   * Runs OCR on a capture and redacts it. Throws when it cannot be scanned
+   * while redaction is on, since nothing leaves the machine unscanned.
+   */
+  private async scanScreenshot(capture: Buffer, prompt?: string, blurRegions: ImageRegion[] = []): Promise<{ buffer: Buffer; messageText?: string }> {
+    const redactionSettings = this.settingsStore.get('redaction');
+
+    // One OCR pass feeds both redaction and the text attached to the message
+    let lines: OcrLine[] = [];
+    try {
+      lines = await this.ocrService.recognize(capture);
+    } catch (error) {
+      console.error('Failed to run OCR on screenshot:', error);
+      if (redactionSettings.enabled) {
+        throw error;
+      }
+    }
+
+    const redaction = await this.redactionService.redact(capture, lines, redactionSettings, blurRegions);
+    return {
+      buffer: redaction.buffer,
+      messageText: composeScreenshotText({
+        prompt,
+        redactionSummary: formatRedactionSummary(redaction.redactions),
+        screenText: redaction.screenText
+      })
+    };
+  }
+
   // Get AI analysis for a screenshot
   private async getScreenshotAnalysis(screenshotUrl: string, conversationId: string, messageId: string): Promise<string> {
     try {
       // Use the existing message ID instead of creating a new message
       const response = await this.apiService.processExistingMessageWithAI(this.currentAuthToken!, conversationId, messageId);
+      this.mirrorAIExchange(response);
       return response.ai_response.data.attributes.text_content || 'No analysis available';
     } catch (error) {
       console.error('Failed to get screenshot analysis:', error);
+      if (isRetryableError(error)) {
+        this.uploadQueue.enqueue('process-with-ai', {
+          conversationId, messageId, mediaType: 'screenshot', mediaUrl: screenshotUrl,
+          lastError: error instanceof Error ? error.message : String(error)
+        });
+        return 'Connection problem - the screenshot was uploaded and will be analyzed automatically once you are back online.';
+      }
       return 'Failed to analyze screenshot. Please try again.';
     }
   }
@@ -622,9 +1607,17 @@ class ContextorApp {
     try {
       // Use the existing message ID instead of creating a new message
       const response = await this.apiService.processExistingMessageWithAI(this.currentAuthToken!, conversationId, messageId);
+      this.mirrorAIExchange(response);
       return response.ai_response.data.attributes.text_content || 'No analysis available';
     } catch (error) {
       console.error('Failed to get audio analysis:', error);
+      if (isRetryableError(error)) {
+        this.uploadQueue.enqueue('process-with-ai', {
+          conversationId, messageId, mediaType: 'audio', mediaUrl: audioUrl,
+          lastError: error instanceof Error ? error.message : String(error)
+        });
+        return 'Connection problem - the recording was uploaded and will be analyzed automatically once you are back online.';
+      }
       return 'Failed to analyze audio. Please try again.';
     }
   }
@@ -682,7 +1675,7 @@ class ContextorApp {
   }
 
   // Process combined audio buffer (microphone + system audio)
-  private async processCombinedAudioBuffer(buffer: Buffer): Promise<void> {
+  private async processCombinedAudioBuffer(buffer: Buffer, transcript: TranscriptSegment[]): Promise<void> {
     try {
       const token = await this.getAuthToken();
       if (!token) {
@@ -698,32 +1691,7 @@ class ContextorApp {
       }
 
       this.windowManager.sendMessage('loading-update', 'Processing audio...');
-      
-      // Upload audio buffer to S3
-      const audioResult = await this.audioService.uploadAudioBuffer(buffer, token, conversationId);
-      
-      if (audioResult) {
-        this.windowManager.sendMessage('loading-update', 'Analyzing with AI...');
-        
-        // Get AI analysis for the audio (this creates the AI response message)
-        const aiAnalysis = await this.getAudioAnalysis(audioResult.audioUrl, conversationId, audioResult.messageId);
-        
-        this.lastAIResponse = aiAnalysis;
-        
-        console.log('🎤 Sending audio-with-analysis message to renderer:', {
-          analysis: aiAnalysis,
-          audioUrl: audioResult.audioUrl
-        });
-        
-        this.windowManager.sendMessage('audio-with-analysis', {
-          analysis: aiAnalysis,
-          audioUrl: audioResult.audioUrl
-        });
-
-        console.log('Combined audio analysis:', aiAnalysis);
-      } else {
-        this.windowManager.sendMessage('chat-response', 'Failed to upload or process audio. Please try again.');
-      }
+      await this.deliverRecording(this.prepareRecordingParts(buffer, transcript), token, conversationId, 'chat-response');
     } catch (error) {
       console.error('Failed to process combined audio buffer:', error);
       if (error) {
@@ -738,6 +1706,69 @@ class ContextorApp {
     }
   }
 
+  /**
+   * What a finished recording is sent as: one part per utterance when they
+   * go separately, otherwise the whole recording annotated with when each
+   * utterance was said.
+   */
+  private prepareRecordingParts(buffer: Buffer, transcript: TranscriptSegment[]): { buffer: Buffer; transcript?: string }[] {
+    const segments = this.audioService.getSegments() ?? [];
+    if (this.settingsStore.get('voiceActivity').delivery === 'separate' && segments.length > 1) {
+      return segments.map((segment, index) => ({
+        buffer: extractSegment(buffer, segment),
+        transcript: annotateSegment(segments, index, transcript)
+      }));
+    }
+    return [{ buffer, transcript: annotateRecording(segments, transcript) }];
+  }
+
+  // Uploads and analyzes each part as its own message, in order
+  private async deliverRecording(parts: { buffer: Buffer; transcript?: string }[], token: string, conversationId: string, replyChannel: string): Promise<void> {
+    let queuedParts = 0;
+
+    for (const [index, part] of parts.entries()) {
+      const label = parts.length > 1 ? ` part ${index + 1} of ${parts.length}` : '';
+
+      // Upload audio buffer to S3, keeping it in the outbox if the network fails
+      let audioResult: AudioResult | null;
+      try {
+        audioResult = await this.audioService.uploadAudioBuffer(part.buffer, token, conversationId, part.transcript);
+      } catch (error) {
+        if (this.queueFailedUpload('audio-upload', part.buffer, conversationId, error, part.transcript)) {
+          queuedParts++;
+          continue;
+        }
+        audioResult = null;
+      }
+
+      if (!audioResult) {
+        this.windowManager.sendMessage(replyChannel, 'Failed to upload or process audio. Please try again.');
+        return;
+      }
+
+      this.windowManager.sendMessage('loading-update', `Analyzing${label} with AI...`);
+
+      // Get AI analysis for the audio (this creates the AI response message)
+      const aiAnalysis = await this.getAudioAnalysis(audioResult.audioUrl, conversationId, audioResult.messageId);
+
+      this.lastAIResponse = aiAnalysis;
+
+      console.log(`🎤 Sending audio-with-analysis message${label} to renderer:`, {
+        analysis: aiAnalysis,
+        audioUrl: audioResult.audioUrl
+      });
+
+      this.windowManager.sendMessage('audio-with-analysis', {
+        analysis: aiAnalysis,
+        audioUrl: audioResult.audioUrl
+      });
+    }
+
+    if (queuedParts > 0) {
+      this.windowManager.sendMessage(replyChannel, 'Connection problem - your recording is saved and will upload automatically once you are back online.');
+    }
+  }
+
   // Update a message with new content
   private async updateMessage(token: string, conversationId: string, messageId: string, content: string): Promise<void> {
     try {
@@ -775,6 +1806,7 @@ app.on('activate', () => {
 
 app.on('will-quit', () => {
   globalShortcut.unregisterAll();
+  contextorApp.stopUploadQueue();
 });
 
 app.on('open-url', (event, url) => {
@@ -3,11 +3,41 @@ if (typeof window !== 'undefined') {
 }
 
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ChatStreamEvent, Command, CommandResponse, ScreenshotReviewRequest } from './shared/ipcProtocol';
+import type { UploadQueueStatus } from './shared/uploadQueueTypes';
+import type { UploadProgress } from './shared/multipartUploadTypes';
+import type { CaptureRegion, CaptureTarget, RedactionSettings } from './shared/settingsTypes';
+import type { TranscriptEvent, TranscriptionSettings } from './shared/transcriptionTypes';
+import type { LiveAssistEvent, LiveAssistSettings, QuestionDetectionSettings } from './shared/liveAssistTypes';
+import type { AudioUploadSettings } from './shared/audioUploadTypes';
+import type { AudioDeviceSelection } from './shared/audioDeviceTypes';
+import type { LiveAudioLevels } from './shared/audioLevelTypes';
+import type { VoiceActivitySettings } from './shared/voiceActivityTypes';
+
+// Sandboxed preloads can only require 'electron', so the protocol constants
+// are mirrored here instead of imported at runtime.
+const COMMAND_CHANNEL = 'contextor-command';
+const COMMAND_PROTOCOL_VERSION = 1;
+const CHAT_STREAM_CHANNEL = 'chat-stream';
+const UPLOAD_QUEUE_STATUS_CHANNEL = 'upload-queue-status';
+const SCREENSHOT_REVIEW_CHANNEL = 'screenshot-review';
+const TRANSCRIPT_CHANNEL = 'transcript-update';
+const LIVE_ASSIST_CHANNEL = 'live-assist-update';
+const UPLOAD_PROGRESS_CHANNEL = 'upload-progress';
+const AUDIO_LEVELS_CHANNEL = 'audio-levels';
+const SYSTEM_AUDIO_REQUEST_CHANNEL = 'system-audio-request';
+
+const sendCommand = (command: Command): Promise<CommandResponse> =>
+  ipcRenderer.invoke(COMMAND_CHANNEL, {
+    version: COMMAND_PROTOCOL_VERSION,
+    requestId: crypto.randomUUID(),
+    command,
+  });
 
 contextBridge.exposeInMainWorld(
   'api', {
     getMessage: () => ipcRenderer.invoke('get-message'),
-    sendTextToMain: (text: string) => ipcRenderer.send('send-text-to-main', text),
+    sendCommand,
     resizeWindow: (height: number) => ipcRenderer.send('resize-window', height),
     setWindowSize: (width: number, height: number) => ipcRenderer.send('set-window-size', width, height),
     moveWindow: (x: number, y: number) => ipcRenderer.send('move-window', x, y),
@@ -15,7 +45,7 @@ contextBridge.exposeInMainWorld(
     onScreenshotAnalysis: (callback: (analysis: string) => void) => {
       ipcRenderer.on('screenshot-analysis', (_event, analysis) => callback(analysis));
     },
-    onScreenshotWithImage: (callback: (data: { analysis: string, imageUrl: string }) => void) => {
+    onScreenshotWithImage: (callback: (data: { analysis: string, imageUrl: string, textContent?: string }) => void) => {
       ipcRenderer.on('screenshot-with-image', (_event, data) => callback(data));
     },
     onAudioRecordingStarted: (callback: () => void) => {
@@ -38,15 +68,29 @@ contextBridge.exposeInMainWorld(
     disableSystemAudioLoopback: () => ipcRenderer.invoke('disable-loopback-audio'),
     notifySystemAudioStarted: () => ipcRenderer.send('system-audio-started'),
     notifySystemAudioStopped: (audioData: any) => ipcRenderer.send('system-audio-stopped', audioData),
+    sendSystemAudioChunk: (chunk: ArrayBuffer, sampleRate?: number) => ipcRenderer.send('system-audio-chunk', chunk, sampleRate),
     startCombinedAudioRecording: () => ipcRenderer.invoke('start-combined-audio-recording'),
     stopCombinedAudioRecording: () => ipcRenderer.invoke('stop-combined-audio-recording'),
     
-    setAudioConfiguration: (config: { systemAudioEnabled?: boolean; echoCancellationEnabled?: boolean; echoCancellationSensitivity?: 'low' | 'medium' | 'high'; audioScenario?: 'auto' | 'earphones' | 'speakers'; voiceRecordingMode?: 'headphones' | 'speakers' | 'auto' }) => 
+    setAudioConfiguration: (config: { systemAudioEnabled?: boolean; echoCancellationEnabled?: boolean; echoCancellationSensitivity?: 'low' | 'medium' | 'high'; audioScenario?: 'auto' | 'earphones' | 'speakers'; voiceRecordingMode?: 'headphones' | 'speakers' | 'auto'; channelLayout?: 'mixed' | 'stereo'; highPassEnabled?: boolean; noiseSuppressionEnabled?: boolean; autoGainControlEnabled?: boolean; limiterEnabled?: boolean; microphoneDevice?: AudioDeviceSelection | null; systemOutputDevice?: AudioDeviceSelection | null }) => 
       ipcRenderer.invoke('set-audio-configuration', config),
     getAudioConfiguration: () => ipcRenderer.invoke('get-audio-configuration'),
+    listAudioDevices: () => ipcRenderer.invoke('list-audio-devices'),
+    getAudioLevels: () => ipcRenderer.invoke('get-audio-levels'),
+    getAudioUploadSettings: () => ipcRenderer.invoke('get-audio-upload-settings'),
+    setAudioUploadSettings: (settings: AudioUploadSettings) => ipcRenderer.invoke('set-audio-upload-settings', settings),
+    getVoiceActivitySettings: () => ipcRenderer.invoke('get-voice-activity-settings'),
+    setVoiceActivitySettings: (settings: VoiceActivitySettings) => ipcRenderer.invoke('set-voice-activity-settings', settings),
     onChatResponse: (callback: (response: string) => void) => {
       ipcRenderer.on('chat-response', (_event, response) => callback(response));
     },
+    onChatStream: (callback: (event: ChatStreamEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, streamEvent: ChatStreamEvent) => callback(streamEvent);
+      ipcRenderer.on(CHAT_STREAM_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(CHAT_STREAM_CHANNEL, listener);
+      };
+    },
     onAuthCallback: (callback: (authData: { token: string, user: any, expires_at: string }) => void) => {
       ipcRenderer.on('auth-callback', (_event, authData) => callback(authData));
     },
@@ -77,6 +121,107 @@ contextBridge.exposeInMainWorld(
       ipcRenderer.invoke('create-message', conversationId, data),
     createScreenshotMessage: (conversationId: string, screenshotUrl: string) => 
       ipcRenderer.invoke('create-screenshot-message', conversationId, screenshotUrl),
+    // Local conversation store (offline history and search)
+    listStoredConversations: () => ipcRenderer.invoke('list-stored-conversations'),
+    searchStoredConversations: (query: string) => ipcRenderer.invoke('search-stored-conversations', query),
+    openStoredConversation: (conversationId: string) => ipcRenderer.invoke('open-stored-conversation', conversationId),
+    forgetStoredConversation: (conversationId: string) => ipcRenderer.invoke('forget-stored-conversation', conversationId),
+    syncConversationStore: () => ipcRenderer.invoke('sync-conversation-store'),
+    // Screenshot capture target
+    getCaptureTarget: () => ipcRenderer.invoke('get-capture-target'),
+    setCaptureTarget: (target: CaptureTarget) => ipcRenderer.invoke('set-capture-target', target),
+    listCaptureWindows: () => ipcRenderer.invoke('list-capture-windows'),
+    // Region capture
+    submitRegionSelection: (region: CaptureRegion | null) => ipcRenderer.send('region-selection', region),
+    onRegionCaptureCancelled: (callback: () => void) => {
+      const listener = () => callback();
+      ipcRenderer.on('region-capture-cancelled', listener);
+      return () => {
+        ipcRenderer.removeListener('region-capture-cancelled', listener);
+      };
+    },
+    getRegionCaptureShortcut: () => ipcRenderer.invoke('get-region-capture-shortcut'),
+    setRegionCaptureShortcut: (accelerator: string) => ipcRenderer.invoke('set-region-capture-shortcut', accelerator),
+    // Screenshot review before sending
+    onScreenshotReview: (callback: (review: ScreenshotReviewRequest) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, review: ScreenshotReviewRequest) => callback(review);
+      ipcRenderer.on(SCREENSHOT_REVIEW_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(SCREENSHOT_REVIEW_CHANNEL, listener);
+      };
+    },
+    getScreenshotReviewEnabled: () => ipcRenderer.invoke('get-screenshot-review-enabled'),
+    setScreenshotReviewEnabled: (enabled: boolean) => ipcRenderer.invoke('set-screenshot-review-enabled', enabled),
+    // Screenshot redaction
+    getRedactionSettings: () => ipcRenderer.invoke('get-redaction-settings'),
+    setRedactionSettings: (settings: RedactionSettings) => ipcRenderer.invoke('set-redaction-settings', settings),
+    // Live transcription
+    onTranscriptUpdate: (callback: (event: TranscriptEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, transcriptEvent: TranscriptEvent) => callback(transcriptEvent);
+      ipcRenderer.on(TRANSCRIPT_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(TRANSCRIPT_CHANNEL, listener);
+      };
+    },
+    getTranscriptionSettings: () => ipcRenderer.invoke('get-transcription-settings'),
+    setTranscriptionSettings: (settings: TranscriptionSettings) => ipcRenderer.invoke('set-transcription-settings', settings),
+    // Platform capture used by PlatformAudioCapture
+    startPlatformAudioCapture: () => ipcRenderer.invoke('start-platform-audio-capture'),
+    stopPlatformAudioCapture: () => ipcRenderer.invoke('stop-platform-audio-capture'),
+    captureScreenshot: (options: { quality?: 'low' | 'medium' | 'high' }) => ipcRenderer.invoke('capture-screenshot', options),
+    // Live assist
+    startLiveAssist: () => sendCommand({ type: 'start-live-assist' }),
+    stopLiveAssist: () => sendCommand({ type: 'stop-live-assist' }),
+    pauseLiveAssist: () => sendCommand({ type: 'pause-live-assist' }),
+    resumeLiveAssist: () => sendCommand({ type: 'resume-live-assist' }),
+    getLiveAssistSettings: () => ipcRenderer.invoke('get-live-assist-settings'),
+    setLiveAssistSettings: (settings: LiveAssistSettings) => ipcRenderer.invoke('set-live-assist-settings', settings),
+    sendLiveAssistAudio: (source: 'microphone' | 'system', data: string) => ipcRenderer.send('live-assist-audio', source, data),
+    sendLiveAssistScreenshot: (data: string) => ipcRenderer.send('live-assist-screenshot', data),
+    sendLiveAssistVoiceActivity: (source: 'microphone' | 'system', active: boolean) =>
+      ipcRenderer.send('live-assist-voice-activity', source, active),
+    getQuestionDetectionSettings: () => ipcRenderer.invoke('get-question-detection-settings'),
+    setQuestionDetectionSettings: (settings: QuestionDetectionSettings) =>
+      ipcRenderer.invoke('set-question-detection-settings', settings),
+    onLiveAssistUpdate: (callback: (event: LiveAssistEvent) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, liveAssistEvent: LiveAssistEvent) => callback(liveAssistEvent);
+      ipcRenderer.on(LIVE_ASSIST_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(LIVE_ASSIST_CHANNEL, listener);
+      };
+    },
+    // Offline upload queue
+    getUploadQueueStatus: () => ipcRenderer.invoke('get-upload-queue-status'),
+    retryUploadQueue: () => ipcRenderer.invoke('retry-upload-queue'),
+    discardUploadJob: (jobId: string) => ipcRenderer.invoke('discard-upload-job', jobId),
+    onUploadQueueStatus: (callback: (status: UploadQueueStatus) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, status: UploadQueueStatus) => callback(status);
+      ipcRenderer.on(UPLOAD_QUEUE_STATUS_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(UPLOAD_QUEUE_STATUS_CHANNEL, listener);
+      };
+    },
+    onUploadProgress: (callback: (progress: UploadProgress) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, progress: UploadProgress) => callback(progress);
+      ipcRenderer.on(UPLOAD_PROGRESS_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(UPLOAD_PROGRESS_CHANNEL, listener);
+      };
+    },
+    onAudioLevels: (callback: (levels: LiveAudioLevels) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, levels: LiveAudioLevels) => callback(levels);
+      ipcRenderer.on(AUDIO_LEVELS_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(AUDIO_LEVELS_CHANNEL, listener);
+      };
+    },
+    onSystemAudioRequest: (callback: (wanted: boolean) => void) => {
+      const listener = (_event: Electron.IpcRendererEvent, wanted: boolean) => callback(wanted);
+      ipcRenderer.on(SYSTEM_AUDIO_REQUEST_CHANNEL, listener);
+      return () => {
+        ipcRenderer.removeListener(SYSTEM_AUDIO_REQUEST_CHANNEL, listener);
+      };
+    },
     notifyInsightsPanelOpened: () => ipcRenderer.send('insights-panel-opened'),
     notifyInsightsPanelClosed: () => ipcRenderer.send('insights-panel-closed'),
   }
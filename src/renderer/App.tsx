@@ -5,10 +5,34 @@ import { styles } from './design-system/styles';
 import { InsightsPanel } from './components/InsightsPanel';
 import { AuthenticationSection } from './components/AuthenticationSection';
 import { PlayerBar } from './components/PlayerBar';
+import { ConversationList } from './components/ConversationList';
+import { ScreenshotAnnotator } from './components/ScreenshotAnnotator';
 import { LoadingBar } from './components/LoadingBar';
 import { apiService, ConversationResponse } from './services/api';
 import { PaymentModal } from './components/PaymentModal';
 import { SystemAudioService } from './services/systemAudioService';
+import { PlatformAudioCapture } from './services/platformAudioCapture';
+import type { ChatStreamEvent, Command, CommandResponse, ImageRegion, ScreenshotReviewRequest } from '../shared/ipcProtocol';
+import type {
+  ConversationSyncResult,
+  MessageSearchResult,
+  StoredConversation,
+  StoredConversationWithMessages,
+} from '../shared/conversationStoreTypes';
+import type { UploadQueueStatus } from '../shared/uploadQueueTypes';
+import type { UploadProgress } from '../shared/multipartUploadTypes';
+import type { LiveAudioLevels } from '../shared/audioLevelTypes';
+import type { CaptureRegion, CaptureTarget, CaptureWindowSource, RedactionSettings } from '../shared/settingsTypes';
+import type { TranscriptEvent, TranscriptSegment, TranscriptionSettings } from '../shared/transcriptionTypes';
+import type {
+  LiveAssistEvent,
+  LiveAssistSettings,
+  LiveAssistState,
+  QuestionDetectionSettings,
+  QuestionSensitivity,
+} from '../shared/liveAssistTypes';
+import type { AudioUploadSettings } from '../shared/audioUploadTypes';
+import type { VoiceActivitySettings } from '../shared/voiceActivityTypes';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -26,17 +50,18 @@ declare global {
   interface Window {
     api: {
       getMessage: () => Promise<string>;
-      sendTextToMain: (text: string) => void;
+      sendCommand: (command: Command) => Promise<CommandResponse>;
       resizeWindow: (height: number) => void;
       setWindowSize: (width: number, height: number) => void;
       moveWindow: (x: number, y: number) => void;
       onScreenshotAnalysis: (callback: (analysis: string) => void) => void;
-      onScreenshotWithImage: (callback: (data: { analysis: string, imageUrl: string }) => void) => void;
+      onScreenshotWithImage: (callback: (data: { analysis: string, imageUrl: string, textContent?: string }) => void) => void;
       onAudioRecordingStarted: (callback: () => void) => void;
       onAudioRecordingError: (callback: (error: string) => void) => void;
       onAudioAnalysis: (callback: (analysis: string) => void) => void;
       onAudioWithAnalysis: (callback: (data: { analysis: string, audioUrl: string }) => void) => void;
       onChatResponse: (callback: (response: string) => void) => void;
+      onChatStream: (callback: (event: ChatStreamEvent) => void) => () => void;
       onAuthCallback: (callback: (authData: { token: string, user: any, expires_at: string }) => void) => void;
       onPaymentCallback: (callback: (paymentData: { status: string, session_id: string }) => void) => void;
       onLogout: (callback: () => void) => void;
@@ -51,6 +76,54 @@ declare global {
       sendAuthStateChanged: () => void;
       createMessage: (conversationId: string, data: { content_type: string, text_content?: string, screenshot_url?: string, sender_type?: string }) => Promise<any>;
       createScreenshotMessage: (conversationId: string, screenshotUrl: string) => Promise<any>;
+      // Local conversation store
+      listStoredConversations: () => Promise<{ success: boolean; conversations?: StoredConversation[]; error?: string }>;
+      searchStoredConversations: (query: string) => Promise<{ success: boolean; results?: MessageSearchResult[]; error?: string }>;
+      openStoredConversation: (conversationId: string) => Promise<{ success: boolean; error?: string } & Partial<StoredConversationWithMessages>>;
+      forgetStoredConversation: (conversationId: string) => Promise<{ success: boolean; error?: string }>;
+      syncConversationStore: () => Promise<{ success: boolean; synced?: ConversationSyncResult | null; error?: string }>;
+      // Screenshot capture target
+      getCaptureTarget: () => Promise<{ success: boolean; target?: CaptureTarget; error?: string }>;
+      setCaptureTarget: (target: CaptureTarget) => Promise<{ success: boolean; error?: string }>;
+      listCaptureWindows: () => Promise<{ success: boolean; windows?: CaptureWindowSource[]; error?: string }>;
+      // Region capture
+      submitRegionSelection: (region: CaptureRegion | null) => void;
+      onRegionCaptureCancelled: (callback: () => void) => () => void;
+      getRegionCaptureShortcut: () => Promise<{ success: boolean; shortcut?: string; error?: string }>;
+      setRegionCaptureShortcut: (accelerator: string) => Promise<{ success: boolean; error?: string }>;
+      // Live transcription
+      onTranscriptUpdate: (callback: (event: TranscriptEvent) => void) => () => void;
+      getTranscriptionSettings: () => Promise<{ success: boolean; settings?: TranscriptionSettings; error?: string }>;
+      setTranscriptionSettings: (settings: TranscriptionSettings) => Promise<{ success: boolean; error?: string }>;
+      // Live assist
+      startLiveAssist: () => Promise<CommandResponse>;
+      stopLiveAssist: () => Promise<CommandResponse>;
+      pauseLiveAssist: () => Promise<CommandResponse>;
+      resumeLiveAssist: () => Promise<CommandResponse>;
+      getLiveAssistSettings: () => Promise<{ success: boolean; settings?: LiveAssistSettings; error?: string }>;
+      setLiveAssistSettings: (settings: LiveAssistSettings) => Promise<{ success: boolean; error?: string }>;
+      sendLiveAssistAudio: (source: 'microphone' | 'system', data: string) => void;
+      sendLiveAssistScreenshot: (data: string) => void;
+      sendLiveAssistVoiceActivity: (source: 'microphone' | 'system', active: boolean) => void;
+      getQuestionDetectionSettings: () => Promise<{ success: boolean; settings?: QuestionDetectionSettings; error?: string }>;
+      setQuestionDetectionSettings: (settings: QuestionDetectionSettings) => Promise<{ success: boolean; error?: string }>;
+      onLiveAssistUpdate: (callback: (event: LiveAssistEvent) => void) => () => void;
+      // Offline upload queue
+      getUploadQueueStatus: () => Promise<{ success: boolean; status?: UploadQueueStatus; error?: string }>;
+      retryUploadQueue: () => Promise<{ success: boolean; error?: string }>;
+      discardUploadJob: (jobId: string) => Promise<{ success: boolean; error?: string }>;
+      onUploadQueueStatus: (callback: (status: UploadQueueStatus) => void) => () => void;
+      onUploadProgress: (callback: (progress: UploadProgress) => void) => () => void;
+      // Live levels for the recording HUD
+      onAudioLevels: (callback: (levels: LiveAudioLevels) => void) => () => void;
+      onSystemAudioRequest: (callback: (wanted: boolean) => void) => () => void;
+      // Screenshot review before sending
+      onScreenshotReview: (callback: (review: ScreenshotReviewRequest) => void) => () => void;
+      getScreenshotReviewEnabled: () => Promise<{ success: boolean; enabled?: boolean; error?: string }>;
+      setScreenshotReviewEnabled: (enabled: boolean) => Promise<{ success: boolean; error?: string }>;
+      // Screenshot redaction
+      getRedactionSettings: () => Promise<{ success: boolean; settings?: RedactionSettings; error?: string }>;
+      setRedactionSettings: (settings: RedactionSettings) => Promise<{ success: boolean; error?: string }>;
       notifyInsightsPanelOpened: () => void;
       notifyInsightsPanelClosed: () => void;
       // System audio recording methods
@@ -59,10 +132,16 @@ declare global {
       // System audio coordination
       notifySystemAudioStarted: () => void;
       notifySystemAudioStopped: (audioData: any) => void;
+      sendSystemAudioChunk: (chunk: ArrayBuffer, sampleRate?: number) => void;
       
       // Enhanced audio mixing
       startCombinedAudioRecording: () => Promise<{ success: boolean; error?: string }>;
       stopCombinedAudioRecording: () => Promise<{ success: boolean; buffer?: Buffer; error?: string }>;
+      // Compression of recordings before upload
+      getAudioUploadSettings: () => Promise<{ success: boolean; settings?: AudioUploadSettings; error?: string }>;
+      setAudioUploadSettings: (settings: AudioUploadSettings) => Promise<{ success: boolean; error?: string }>;
+      getVoiceActivitySettings: () => Promise<{ success: boolean; settings?: VoiceActivitySettings; error?: string }>;
+      setVoiceActivitySettings: (settings: VoiceActivitySettings) => Promise<{ success: boolean; error?: string }>;
     };
     global: Window;
   }
@@ -74,6 +153,9 @@ declare global {
 
 const CHAT_HEIGHT = 468;
 const PLAYER_BAR_HEIGHT = 70;
+const DEFAULT_WIDTH = 400;
+const REVIEW_WIDTH = 720;
+const REVIEW_HEIGHT = 560;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -86,6 +168,12 @@ const App: React.FC = () => {
   
   // UI State
   const [isInsightsVisible, setIsInsightsVisible] = useState<boolean>(false);
+  const [isHistoryVisible, setIsHistoryVisible] = useState<boolean>(false);
+  const [uploadQueueStatus, setUploadQueueStatus] = useState<UploadQueueStatus | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const [audioLevels, setAudioLevels] = useState<LiveAudioLevels | null>(null);
+  const [screenshotReview, setScreenshotReview] = useState<ScreenshotReviewRequest | null>(null);
+  const [isScreenshotReviewEnabled, setIsScreenshotReviewEnabled] = useState<boolean>(false);
   const [insights, setInsights] = useState<string>("");
   const [isInsightsLoading, setIsInsightsLoading] = useState(false);
   const [isUserActionLoading, setIsUserActionLoading] = useState(false);
@@ -93,6 +181,12 @@ const App: React.FC = () => {
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [messageCount, setMessageCount] = useState(0);
   const [isMicActive, setIsMicActive] = useState(false);
+  const [transcript, setTranscript] = useState<TranscriptSegment[]>([]);
+  const [transcriptError, setTranscriptError] = useState<string | null>(null);
+  const [liveAssistState, setLiveAssistState] = useState<LiveAssistState>('stopped');
+  const [liveAssistSettings, setLiveAssistSettings] = useState<LiveAssistSettings | null>(null);
+  const [questionDetection, setQuestionDetection] = useState<QuestionDetectionSettings | null>(null);
+  const [streamingResponse, setStreamingResponse] = useState<{ streamId: string; content: string } | null>(null);
 
   const handleMicClick = async () => {
     if (!isMicActive) {
@@ -167,6 +261,7 @@ const App: React.FC = () => {
 
   // Screenshot & Conversation State
   const [currentScreenshotUrl, setCurrentScreenshotUrl] = useState<string>('');
+  const [currentScreenshotText, setCurrentScreenshotText] = useState<string>('');
   const [currentAudioUrl, setCurrentAudioUrl] = useState<string>('');
   const [currentConversation, setCurrentConversation] = useState<ConversationResponse | null>(null);
 
@@ -223,6 +318,7 @@ const App: React.FC = () => {
     setInsights('');
     persistCurrentConversation(null);
     setIsInsightsVisible(false);
+    setIsHistoryVisible(false);
     window.api.sendAuthStateChanged();
   };
 
@@ -275,6 +371,14 @@ const App: React.FC = () => {
   //   }
   // };
 
+  const sendCommand = async (command: Command): Promise<CommandResponse> => {
+    const response = await window.api.sendCommand(command);
+    if (!response.ok) {
+      console.error(`❌ Command ${command.type} rejected (${response.requestId}):`, response.error);
+    }
+    return response;
+  };
+
   // --------------------------------------------------------------------------
   // EVENT HANDLERS
   // --------------------------------------------------------------------------
@@ -286,10 +390,25 @@ const App: React.FC = () => {
     setIsUserActionLoading(true);
     setLoadingMessage("Taking screenshot...");
     setIsInsightsLoading(true);
-    window.api.sendTextToMain('take-screenshot');
+    sendCommand({ type: 'take-screenshot' });
+  };
+
+  const handleRegionScreenshotClick = () => {
+    if (!isInsightsVisible) {
+      toggleInsights();
+    }
+    setIsUserActionLoading(true);
+    setLoadingMessage("Select a region...");
+    setIsInsightsLoading(true);
+    sendCommand({ type: 'take-region-screenshot' });
   };
 
   const handleChatClick = () => {
+    // Switching back from the history list to an already open chat
+    if (isHistoryVisible) {
+      setIsHistoryVisible(false);
+      if (isInsightsVisible) return;
+    }
     toggleInsights();
   };
 
@@ -297,24 +416,27 @@ const App: React.FC = () => {
     window.api.openExternal('https://www.contextor.app/en/pricing');
   };
 
+  const handleEndConversation = () => {
+    sendCommand({ type: 'end-conversation' });
+    persistCurrentConversation(null);
+    setIsInsightsVisible(false);
+    setInsights("");
+    setMessageCount(0);
+    setTimeout(() => {
+      window.api.resizeWindow(PLAYER_BAR_HEIGHT);
+    }, 50);
+  };
+
+  const handleCancelStream = (streamId: string) => {
+    sendCommand({ type: 'cancel-chat-stream', streamId });
+  };
+
   const handleSendMessage = async (message: string) => {
     if (!isPaid && messageCount > 5) {
       setShowPaymentModal(true);
       return;
     }
 
-    if (message === 'end-conversation') {
-      window.api.sendTextToMain('end-conversation');
-      persistCurrentConversation(null);
-      setIsInsightsVisible(false);
-      setInsights("");
-      setMessageCount(0);
-      setTimeout(() => {
-        window.api.resizeWindow(PLAYER_BAR_HEIGHT);
-      }, 50);
-      return;
-    }
-
     // Show loading for user message
     setIsUserActionLoading(true);
     setLoadingMessage("Sending message...");
@@ -331,14 +453,15 @@ const App: React.FC = () => {
       }, 50);
     }
 
-    if (message.startsWith('screenshot-url:')) {
-      const url = message.slice('screenshot-url:'.length);
-      setInsights("");
-      setCurrentScreenshotUrl('');
-      window.api.sendTextToMain(`screenshot-url:${url}`);
-    } else {
-      setCurrentScreenshotUrl('');
-      window.api.sendTextToMain(`prompt-screenshot:${message}`);
+    // Typed text is always a chat message, whatever it starts with
+    setCurrentScreenshotUrl('');
+    const response = await sendCommand({ type: 'send-chat-message', text: message });
+
+    if (!response.ok) {
+      setIsInsightsLoading(false);
+      setIsUserActionLoading(false);
+      setLoadingMessage("");
+      setInsights(`Failed to send message: ${response.error.message}`);
     }
   };
 
@@ -350,6 +473,147 @@ const App: React.FC = () => {
     window.api.openExternal('https://www.contextor.app/en/sign-up-external?electron=true');
   };
 
+  const handleHistoryClick = () => {
+    const newVisibility = !isHistoryVisible;
+    setIsHistoryVisible(newVisibility);
+    setTimeout(() => {
+      window.api.resizeWindow(newVisibility || isInsightsVisible ? CHAT_HEIGHT : PLAYER_BAR_HEIGHT);
+    }, 10);
+  };
+
+  const handleResumeConversation = (conversation: ConversationResponse) => {
+    sendCommand({ type: 'resume-conversation', conversationId: conversation.data.id });
+    persistCurrentConversation(conversation);
+    setInsights("");
+    setIsHistoryVisible(false);
+
+    if (!isInsightsVisible) {
+      setIsInsightsVisible(true);
+      window.api.notifyInsightsPanelOpened();
+    }
+    setTimeout(() => {
+      window.api.resizeWindow(CHAT_HEIGHT);
+    }, 10);
+  };
+
+  const handleConversationRenamed = (conversation: ConversationResponse) => {
+    if (currentConversation?.data.id === conversation.data.id) {
+      persistCurrentConversation(conversation);
+    }
+  };
+
+  const handleConversationDeleted = (conversationId: string) => {
+    if (currentConversation?.data.id === conversationId) {
+      setIsHistoryVisible(false);
+      handleEndConversation();
+    }
+  };
+
+  const handleRetryUploads = () => {
+    window.api.retryUploadQueue();
+  };
+
+  const handleToggleLiveAssist = async () => {
+    const response = liveAssistState === 'stopped'
+      ? await window.api.startLiveAssist()
+      : await window.api.stopLiveAssist();
+    if (!response.ok) {
+      setInsights(`Failed to ${liveAssistState === 'stopped' ? 'start' : 'stop'} live assist: ${response.error.message}`);
+    }
+  };
+
+  const handlePauseLiveAssist = () => {
+    if (liveAssistState === 'running') {
+      window.api.pauseLiveAssist();
+    } else if (liveAssistState === 'paused') {
+      window.api.resumeLiveAssist();
+    }
+  };
+
+  const handleLiveAssistSettingsChange = async (changes: Partial<LiveAssistSettings>) => {
+    if (!liveAssistSettings) return;
+
+    const settings = { ...liveAssistSettings, ...changes };
+    const result = await window.api.setLiveAssistSettings(settings);
+    if (result.success) {
+      setLiveAssistSettings(settings);
+    } else {
+      console.error('Failed to update live assist settings:', result.error);
+    }
+  };
+
+  const saveQuestionDetection = async (settings: QuestionDetectionSettings) => {
+    const result = await window.api.setQuestionDetectionSettings(settings);
+    if (result.success) {
+      setQuestionDetection(settings);
+    } else {
+      console.error('Failed to update question detection settings:', result.error);
+    }
+  };
+
+  // Automatic answers are switched on and off per conversation
+  const handleToggleAutoAnswer = () => {
+    const conversationId = currentConversation?.data.id;
+    if (!questionDetection || !conversationId) return;
+
+    const { disabledConversationIds } = questionDetection;
+    saveQuestionDetection({
+      ...questionDetection,
+      disabledConversationIds: disabledConversationIds.includes(conversationId)
+        ? disabledConversationIds.filter(id => id !== conversationId)
+        : [...disabledConversationIds, conversationId]
+    });
+  };
+
+  const handleQuestionSensitivityChange = (sensitivity: QuestionSensitivity) => {
+    if (!questionDetection) return;
+    saveQuestionDetection({ ...questionDetection, sensitivity });
+  };
+
+  const handleToggleScreenshotReview = () => {
+    const enabled = !isScreenshotReviewEnabled;
+    setIsScreenshotReviewEnabled(enabled);
+    window.api.setScreenshotReviewEnabled(enabled);
+  };
+
+  const closeScreenshotReview = () => {
+    setScreenshotReview(null);
+    window.api.setWindowSize(DEFAULT_WIDTH, CHAT_HEIGHT);
+  };
+
+  const handleScreenshotReviewSubmit = async (annotatedDataUrl: string, prompt: string, blurRegions: ImageRegion[]) => {
+    if (!screenshotReview) return;
+
+    const { reviewId } = screenshotReview;
+    closeScreenshotReview();
+    setLoadingMessage("Analyzing screenshot...");
+
+    const response = await sendCommand({
+      type: 'submit-screenshot-review',
+      reviewId,
+      imageDataUrl: annotatedDataUrl,
+      prompt,
+      blurRegions,
+    });
+
+    if (!response.ok) {
+      setIsInsightsLoading(false);
+      setIsUserActionLoading(false);
+      setLoadingMessage("");
+      setInsights(`Failed to send screenshot: ${response.error.message}`);
+    }
+  };
+
+  const handleScreenshotReviewCancel = () => {
+    if (!screenshotReview) return;
+
+    sendCommand({ type: 'cancel-screenshot-review', reviewId: screenshotReview.reviewId });
+    closeScreenshotReview();
+    setIsInsightsLoading(false);
+    setIsUserActionLoading(false);
+    setLoadingMessage("");
+  };
+
   const handleCrownClick = () => {
     window.api.openExternal('https://contextor.app/en/conversations');
   };
@@ -449,7 +713,7 @@ const App: React.FC = () => {
       }
     });
 
-    window.api.onScreenshotWithImage(async (data: { analysis: string, imageUrl: string }) => {
+    window.api.onScreenshotWithImage(async (data: { analysis: string, imageUrl: string, textContent?: string }) => {
       console.log('📸 Screenshot with image received:', data);
       if (data.analysis.trim()) {
         setIsInsightsLoading(false);
@@ -457,6 +721,7 @@ const App: React.FC = () => {
         setLoadingMessage("");
         setInsights(data.analysis);
         setCurrentScreenshotUrl(data.imageUrl);
+        setCurrentScreenshotText(data.textContent || '');
         // Ensure insights panel is visible when receiving analysis with image
         if (!isInsightsVisible) {
           setIsInsightsVisible(true);
@@ -487,6 +752,9 @@ const App: React.FC = () => {
         setLoadingMessage("");
         setInsights(data.analysis);
         setCurrentAudioUrl(data.audioUrl);
+        // The recording is now a message of its own
+        setTranscript([]);
+        setTranscriptError(null);
         console.log('🎤 Setting currentAudioUrl to:', data.audioUrl);
         setIsMicActive(false);
         // Ensure insights panel is visible when receiving analysis with audio
@@ -635,6 +903,214 @@ const App: React.FC = () => {
     return cleanup;
   }, [isInsightsVisible]);
 
+  // Streaming chat responses. Registered once so tokens aren't appended twice
+  // when the listener effect above re-runs.
+  useEffect(() => {
+    const unsubscribe = window.api.onChatStream((event: ChatStreamEvent) => {
+      switch (event.type) {
+        case 'start':
+          setIsUserActionLoading(false);
+          setLoadingMessage("");
+          setStreamingResponse({ streamId: event.streamId, content: '' });
+          break;
+        case 'token':
+          setStreamingResponse(prev => prev && prev.streamId === event.streamId
+            ? { ...prev, content: prev.content + event.delta }
+            : prev);
+          break;
+        case 'done':
+        case 'cancelled': {
+          const content = event.type === 'cancelled'
+            ? (event.content.trim() ? `${event.content}\n\n_Response cancelled._` : 'Response cancelled.')
+            : event.content;
+          setStreamingResponse(null);
+          setIsInsightsLoading(false);
+          setInsights(content);
+          setIsInsightsVisible(true);
+          window.api.notifyInsightsPanelOpened();
+          setTimeout(() => {
+            window.api.resizeWindow(CHAT_HEIGHT);
+          }, 50);
+          break;
+        }
+        case 'error':
+          setStreamingResponse(null);
+          break;
+      }
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // Region selection closed without a capture
+  useEffect(() => {
+    return window.api.onRegionCaptureCancelled(() => {
+      setIsUserActionLoading(false);
+      setIsInsightsLoading(false);
+      setLoadingMessage("");
+    });
+  }, []);
+
+  // Offline upload queue status
+  useEffect(() => {
+    window.api.getUploadQueueStatus().then(result => {
+      if (result.success && result.status) {
+        setUploadQueueStatus(result.status);
+      }
+    });
+
+    return window.api.onUploadQueueStatus(setUploadQueueStatus);
+  }, []);
+
+  // Byte progress of the capture currently going to S3
+  useEffect(() => {
+    return window.api.onUploadProgress(progress => {
+      setUploadProgress(progress.done ? null : progress);
+    });
+  }, []);
+
+  // Mic and system audio levels while the main process records
+  useEffect(() => {
+    return window.api.onAudioLevels(levels => {
+      setAudioLevels(levels.recording ? levels : null);
+    });
+  }, []);
+
+  // System audio for recordings on platforms where the main process can't capture it
+  useEffect(() => {
+    let capture: PlatformAudioCapture | null = null;
+    const stop = () => {
+      capture?.stopSystemAudioCapture();
+      capture = null;
+    };
+
+    const unsubscribe = window.api.onSystemAudioRequest(wanted => {
+      stop();
+      if (!wanted) return;
+
+      const current = new PlatformAudioCapture();
+      current.setChunkListener(chunk => {
+        const bytes = Uint8Array.from(atob(chunk.data), character => character.charCodeAt(0));
+        window.api.sendSystemAudioChunk(bytes.buffer);
+      });
+      current.startSystemAudioCapture().then(result => {
+        if (!result.success) {
+          console.warn('⚠️ Recording without system audio:', result.error);
+        } else if (capture !== current) {
+          // The recording stopped while the stream was being granted
+          current.stopSystemAudioCapture();
+        }
+      });
+      capture = current;
+    });
+
+    return () => {
+      unsubscribe();
+      stop();
+    };
+  }, []);
+
+  // Live transcript while recording
+  useEffect(() => {
+    return window.api.onTranscriptUpdate(event => {
+      switch (event.type) {
+        case 'reset':
+          setTranscript([]);
+          setTranscriptError(null);
+          break;
+        case 'segment':
+          setTranscript(prev => {
+            const index = prev.findIndex(segment => segment.id === event.segment.id);
+            if (index === -1) {
+              return [...prev, event.segment];
+            }
+            const next = [...prev];
+            next[index] = event.segment;
+            return next;
+          });
+          break;
+        case 'remove':
+          setTranscript(prev => prev.filter(segment => segment.id !== event.id));
+          break;
+        case 'error':
+          setTranscriptError(`Live transcript unavailable: ${event.message}`);
+          break;
+      }
+    });
+  }, []);
+
+  // Captures held back for annotation
+  useEffect(() => {
+    window.api.getScreenshotReviewEnabled().then(result => {
+      if (result.success) {
+        setIsScreenshotReviewEnabled(Boolean(result.enabled));
+      }
+    });
+
+    return window.api.onScreenshotReview(review => {
+      setScreenshotReview(review);
+      setIsHistoryVisible(false);
+      setLoadingMessage("Annotate the screenshot, then send it");
+      // The annotator needs more room than the chat panel
+      window.api.setWindowSize(REVIEW_WIDTH, REVIEW_HEIGHT);
+    });
+  }, []);
+
+  // Suggestions arrive without any user action
+  useEffect(() => {
+    window.api.getLiveAssistSettings().then(result => {
+      if (result.success && result.settings) {
+        setLiveAssistSettings(result.settings);
+      }
+    });
+    window.api.getQuestionDetectionSettings().then(result => {
+      if (result.success && result.settings) {
+        setQuestionDetection(result.settings);
+      }
+    });
+
+    return window.api.onLiveAssistUpdate(event => {
+      switch (event.type) {
+        case 'state':
+          setLiveAssistState(event.state);
+          break;
+        case 'suggestion':
+          setInsights(`💡 ${event.text}`);
+          setIsInsightsVisible(true);
+          window.api.notifyInsightsPanelOpened();
+          setTimeout(() => {
+            window.api.resizeWindow(CHAT_HEIGHT);
+          }, 50);
+          break;
+        case 'error':
+          setInsights(`Live assist failed: ${event.message}`);
+          break;
+      }
+    });
+  }, []);
+
+  // Capture only runs while live assist is listening, so pausing turns the mic off
+  const screenshotIntervalSeconds = liveAssistSettings?.screenshotIntervalSeconds ?? 0;
+  useEffect(() => {
+    if (liveAssistState !== 'running') return;
+
+    const capture = new PlatformAudioCapture();
+    capture.setChunkListener(chunk => window.api.sendLiveAssistAudio(chunk.source, chunk.data));
+    capture.setScreenshotListener(base64 => window.api.sendLiveAssistScreenshot(base64));
+    // Lets question detection tell when the other side stopped talking
+    capture.setVoiceActivityListener((source, active) => window.api.sendLiveAssistVoiceActivity(source, active));
+    capture.startCapture(screenshotIntervalSeconds, 'high').then(result => {
+      if (!result.success) {
+        setInsights(`Live assist could not start capturing: ${result.error}`);
+        window.api.stopLiveAssist();
+      }
+    });
+
+    return () => {
+      capture.stopCapture();
+    };
+  }, [liveAssistState, screenshotIntervalSeconds]);
+
   // --------------------------------------------------------------------------
   // EFFECTS - WINDOW RESIZING
   // --------------------------------------------------------------------------
@@ -690,13 +1166,14 @@ const App: React.FC = () => {
         <LoadingBar 
           isLoading={isUserActionLoading}
           message={loadingMessage}
+          progress={uploadProgress && { loaded: uploadProgress.bytesSent, total: uploadProgress.totalBytes }}
         />
         {showPaymentModal && (
           <PaymentModal
             onClose={() => {
               toggleInsights();
               setShowPaymentModal(false);
-              window.api.sendTextToMain('end-conversation');
+              sendCommand({ type: 'end-conversation' });
               persistCurrentConversation(null);
               setIsInsightsVisible(false);
               setInsights("");
@@ -716,24 +1193,66 @@ const App: React.FC = () => {
             playerBarRef={playerBarRef}
             onCrownClick={handleCrownClick}
             onChatClick={handleChatClick}
+            onHistoryClick={handleHistoryClick}
+            isHistoryVisible={isHistoryVisible}
             isUserActionLoading={isUserActionLoading}
+            uploadQueueStatus={uploadQueueStatus}
+            onRetryUploads={handleRetryUploads}
+            audioLevels={audioLevels}
           />
         )}
 
-        {(currentConversation || insights.trim() || isInsightsVisible) && (
+        {isAuthenticated && screenshotReview ? (
+          <ScreenshotAnnotator
+            imageDataUrl={screenshotReview.imageDataUrl}
+            onSubmit={handleScreenshotReviewSubmit}
+            onCancel={handleScreenshotReviewCancel}
+          />
+        ) : isAuthenticated && isHistoryVisible ? (
+          <ConversationList
+            currentConversationId={currentConversation?.data.id}
+            onResumeConversation={handleResumeConversation}
+            onConversationRenamed={handleConversationRenamed}
+            onConversationDeleted={handleConversationDeleted}
+            onClose={handleHistoryClick}
+          />
+        ) : (currentConversation || insights.trim() || isInsightsVisible) && (
           <InsightsPanel 
             insights={insights}
             isLoading={isInsightsLoading}
             onSendMessage={handleSendMessage}
+            onEndConversation={handleEndConversation}
+            streamingResponse={streamingResponse}
+            onCancelStream={handleCancelStream}
             screenshotUrl={currentScreenshotUrl}
+            screenshotText={currentScreenshotText}
             audioUrl={currentAudioUrl}
-            onScreenshotProcessed={() => setCurrentScreenshotUrl('')}
+            onScreenshotProcessed={() => {
+              setCurrentScreenshotUrl('');
+              setCurrentScreenshotText('');
+            }}
             onAudioProcessed={() => setCurrentAudioUrl('')}
             handleScreenshotClick={handleScreenshotClick}
+            handleRegionScreenshotClick={handleRegionScreenshotClick}
             isUserActionLoading={isUserActionLoading}
             handleMicClick={handleMicClick}
             isMicActive={isMicActive}
+            transcript={transcript}
+            transcriptError={transcriptError}
             conversationId={currentConversation?.data.id}
+            isScreenshotReviewEnabled={isScreenshotReviewEnabled}
+            onToggleScreenshotReview={handleToggleScreenshotReview}
+            liveAssistState={liveAssistState}
+            liveAssistSettings={liveAssistSettings}
+            onToggleLiveAssist={handleToggleLiveAssist}
+            onPauseLiveAssist={handlePauseLiveAssist}
+            onLiveAssistSettingsChange={handleLiveAssistSettingsChange}
+            questionSensitivity={questionDetection?.sensitivity}
+            isAutoAnswerEnabled={
+              !currentConversation || !questionDetection?.disabledConversationIds.includes(currentConversation.data.id)
+            }
+            onToggleAutoAnswer={handleToggleAutoAnswer}
+            onQuestionSensitivityChange={handleQuestionSensitivityChange}
           />
         )}
       </div>
@@ -1,4 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import type { AudioLevels } from '../../shared/audioProcessingTypes';
+import type { AudioUploadFormat } from '../../shared/audioUploadTypes';
+import type { AudioDeviceSelection, InputDevice, MonitorSource } from '../../shared/audioDeviceTypes';
+import type { SegmentDelivery, VoiceActivitySettings } from '../../shared/voiceActivityTypes';
 
 interface AudioPermissionCheckerProps {
   onPermissionGranted: () => void;
@@ -11,8 +15,46 @@ interface AudioConfig {
   echoCancellationSensitivity: 'low' | 'medium' | 'high';
   audioScenario: 'auto' | 'earphones' | 'speakers';
   voiceRecordingMode: 'headphones' | 'speakers' | 'auto';
+  channelLayout: 'mixed' | 'stereo';
+  highPassEnabled: boolean;
+  noiseSuppressionEnabled: boolean;
+  autoGainControlEnabled: boolean;
+  limiterEnabled: boolean;
+  microphoneDevice: AudioDeviceSelection | null;
+  systemOutputDevice: AudioDeviceSelection | null;
 }
 
+interface DeviceOption {
+  id: string;
+  label: string;
+}
+
+// Keeps a saved device in the list while it is unplugged
+function withSelected(options: DeviceOption[], selected: AudioDeviceSelection | null): DeviceOption[] {
+  if (!selected || options.some(option => option.id === selected.id)) return options;
+  return [...options, { id: selected.id, label: `${selected.label} (not connected)` }];
+}
+
+type ProcessingFlag = 'highPassEnabled' | 'noiseSuppressionEnabled' | 'autoGainControlEnabled' | 'limiterEnabled';
+
+const PROCESSING_STAGES: { flag: ProcessingFlag; level: keyof AudioLevels; label: string; description: string }[] = [
+  { flag: 'highPassEnabled', level: 'highPass', label: 'High-Pass Filter', description: 'Remove rumble and fan hum below 80 Hz' },
+  { flag: 'noiseSuppressionEnabled', level: 'noiseSuppression', label: 'Noise Suppression', description: 'Reduce steady background noise like fans or air conditioning' },
+  { flag: 'autoGainControlEnabled', level: 'autoGain', label: 'Automatic Gain Control', description: 'Even out your voice level, whether you are close to the mic or not' },
+  { flag: 'limiterEnabled', level: 'limiter', label: 'Limiter', description: 'Catch loud peaks so the mix never clips' },
+];
+
+const UPLOAD_FORMATS: { format: AudioUploadFormat; label: string }[] = [
+  { format: 'opus', label: 'Opus - Smallest upload, speech quality (recommended)' },
+  { format: 'flac', label: 'FLAC - Lossless, about half the size of WAV' },
+  { format: 'wav', label: 'WAV - Uncompressed, use if compressed uploads fail' },
+];
+
+const SEGMENT_DELIVERY_OPTIONS: { delivery: SegmentDelivery; label: string }[] = [
+  { delivery: 'annotated', label: 'One message, with the time of each utterance' },
+  { delivery: 'separate', label: 'A separate message for each utterance' },
+];
+
 export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({ onPermissionGranted }) => {
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
   const [isChecking, setIsChecking] = useState(true);
@@ -21,12 +63,35 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
     echoCancellationEnabled: true,
     echoCancellationSensitivity: 'medium',
     audioScenario: 'auto',
-    voiceRecordingMode: 'auto'
+    voiceRecordingMode: 'auto',
+    channelLayout: 'mixed',
+    highPassEnabled: true,
+    noiseSuppressionEnabled: true,
+    autoGainControlEnabled: true,
+    limiterEnabled: true,
+    microphoneDevice: null,
+    systemOutputDevice: null
+  });
+  const [microphones, setMicrophones] = useState<DeviceOption[]>([]);
+  const [outputs, setOutputs] = useState<DeviceOption[]>([]);
+  const [audioLevels, setAudioLevels] = useState<AudioLevels | null>(null);
+  const [uploadFormat, setUploadFormat] = useState<AudioUploadFormat>('opus');
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivitySettings>({
+    trimSilence: true,
+    maxPauseSeconds: 2,
+    delivery: 'annotated'
   });
 
   useEffect(() => {
     checkPermissions();
     loadAudioConfiguration();
+    loadAudioDevices();
+
+    // Headsets and docks come and go while the settings are open
+    navigator.mediaDevices.addEventListener('devicechange', loadAudioDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', loadAudioDevices);
+    };
   }, []);
 
   const checkPermissions = async () => {
@@ -53,11 +118,50 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
       if (result.success) {
         setAudioConfig(result.config);
       }
+      const levelsResult = await (window as any).api.getAudioLevels();
+      if (levelsResult.success) {
+        setAudioLevels(levelsResult.levels);
+      }
+      const uploadResult = await (window as any).api.getAudioUploadSettings();
+      if (uploadResult.success) {
+        setUploadFormat(uploadResult.settings.format);
+      }
+      const voiceActivityResult = await (window as any).api.getVoiceActivitySettings();
+      if (voiceActivityResult.success) {
+        setVoiceActivity(voiceActivityResult.settings);
+      }
     } catch (error) {
       console.error('Failed to load audio configuration:', error);
     }
   };
 
+  const loadAudioDevices = async () => {
+    try {
+      const result = await (window as any).api.listAudioDevices();
+      const inputs: InputDevice[] = result.success ? result.inputs : [];
+      const monitors: MonitorSource[] = result.success ? result.outputs : [];
+
+      if (inputs.length > 0) {
+        setMicrophones(inputs.map(input => ({ id: input.id, label: input.label })));
+      } else {
+        // The main process cannot list microphones here; sox finds them by name
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        setMicrophones(devices
+          .filter(device => device.kind === 'audioinput' && device.deviceId !== 'default' && device.label)
+          .map(device => ({ id: device.label, label: device.label })));
+      }
+      setOutputs(monitors.map(monitor => ({ id: monitor.name, label: monitor.description })));
+    } catch (error) {
+      console.error('Failed to list audio devices:', error);
+    }
+  };
+
+  const selectDevice = (key: 'microphoneDevice' | 'systemOutputDevice', options: DeviceOption[], id: string) => {
+    if (id === (audioConfig[key]?.id ?? '')) return;
+    const option = options.find(candidate => candidate.id === id);
+    updateAudioConfiguration({ [key]: option ? { id: option.id, label: option.label } : null });
+  };
+
   const updateAudioConfiguration = async (updates: Partial<AudioConfig>) => {
     try {
       const newConfig = { ...audioConfig, ...updates };
@@ -74,6 +178,33 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
     }
   };
 
+  const updateUploadFormat = async (format: AudioUploadFormat) => {
+    try {
+      const result = await (window as any).api.setAudioUploadSettings({ format });
+      if (result.success) {
+        setUploadFormat(format);
+      } else {
+        console.error('Failed to update upload format:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to update upload format:', error);
+    }
+  };
+
+  const updateVoiceActivity = async (updates: Partial<VoiceActivitySettings>) => {
+    try {
+      const settings = { ...voiceActivity, ...updates };
+      const result = await (window as any).api.setVoiceActivitySettings(settings);
+      if (result.success) {
+        setVoiceActivity(settings);
+      } else {
+        console.error('Failed to update silence trimming:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to update silence trimming:', error);
+    }
+  };
+
   if (isChecking) {
     return (
       <div style={{
@@ -162,6 +293,53 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
       </p>
       
       <div style={{ marginBottom: '20px' }}>
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{
+            display: 'block',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: '#333',
+            marginBottom: '8px'
+          }}>
+            Microphone:
+          </label>
+          <select
+            value={audioConfig.microphoneDevice?.id ?? ''}
+            onChange={(e) => selectDevice('microphoneDevice', microphones, e.target.value)}
+            style={{ marginLeft: '16px', width: 'calc(100% - 16px)', fontSize: '12px', padding: '4px' }}
+          >
+            <option value="">System default</option>
+            {withSelected(microphones, audioConfig.microphoneDevice).map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        
+        {outputs.length > 0 && (
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{
+              display: 'block',
+              fontSize: '14px',
+              fontWeight: 'bold',
+              color: audioConfig.systemAudioEnabled ? '#333' : '#999',
+              marginBottom: '8px'
+            }}>
+              System Audio From:
+            </label>
+            <select
+              value={audioConfig.systemOutputDevice?.id ?? ''}
+              onChange={(e) => selectDevice('systemOutputDevice', outputs, e.target.value)}
+              disabled={!audioConfig.systemAudioEnabled}
+              style={{ marginLeft: '16px', width: 'calc(100% - 16px)', fontSize: '12px', padding: '4px' }}
+            >
+              <option value="">Default output (follows system changes)</option>
+              {withSelected(outputs, audioConfig.systemOutputDevice).map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        
         <div style={{ marginBottom: '16px' }}>
           <label style={{
             display: 'flex',
@@ -217,6 +395,34 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
           </p>
         </div>
         
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            cursor: audioConfig.systemAudioEnabled ? 'pointer' : 'not-allowed',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: audioConfig.systemAudioEnabled ? '#333' : '#999'
+          }}>
+            <input
+              type="checkbox"
+              checked={audioConfig.channelLayout === 'stereo'}
+              onChange={(e) => updateAudioConfiguration({ channelLayout: e.target.checked ? 'stereo' : 'mixed' })}
+              disabled={!audioConfig.systemAudioEnabled}
+              style={{ marginRight: '8px' }}
+            />
+            Keep Speakers Separate
+          </label>
+          <p style={{
+            margin: '4px 0 0 24px',
+            fontSize: '12px',
+            color: '#666',
+            lineHeight: '1.4'
+          }}>
+            Record a stereo file with your microphone on the left and system audio on the right, so the AI can tell you apart from the other side
+          </p>
+        </div>
+        
         {audioConfig.echoCancellationEnabled && audioConfig.systemAudioEnabled && (
           <div style={{ marginBottom: '16px' }}>
             <label style={{
@@ -420,6 +626,142 @@ export const AudioPermissionChecker: React.FC<AudioPermissionCheckerProps> = ({
             </div>
           </div>
         )}
+        
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{
+            display: 'block',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: '#333',
+            marginBottom: '8px'
+          }}>
+            Microphone Processing:
+          </label>
+          {PROCESSING_STAGES.map(stage => (
+            <div key={stage.flag} style={{ marginLeft: '16px', marginBottom: '8px' }}>
+              <label style={{
+                display: 'flex',
+                alignItems: 'center',
+                cursor: 'pointer',
+                fontSize: '13px',
+                color: '#333'
+              }}>
+                <input
+                  type="checkbox"
+                  checked={audioConfig[stage.flag]}
+                  onChange={(e) => updateAudioConfiguration({ [stage.flag]: e.target.checked })}
+                  style={{ marginRight: '8px' }}
+                />
+                {stage.label}
+                {audioLevels?.[stage.level] && (
+                  <span style={{ marginLeft: 'auto', fontSize: '11px', color: '#999' }}>
+                    {audioLevels[stage.level]!.rmsDb.toFixed(1)} dB
+                  </span>
+                )}
+              </label>
+              <p style={{
+                margin: '2px 0 0 24px',
+                fontSize: '12px',
+                color: '#666',
+                lineHeight: '1.4'
+              }}>
+                {stage.description}
+              </p>
+            </div>
+          ))}
+          {audioLevels && (
+            <p style={{
+              margin: '4px 0 0 16px',
+              fontSize: '12px',
+              color: '#666'
+            }}>
+              Last recording: input {audioLevels.input.rmsDb.toFixed(1)} dB RMS, peak {audioLevels.input.peakDb.toFixed(1)} dB
+            </p>
+          )}
+        </div>
+        
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{
+            display: 'block',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: '#333',
+            marginBottom: '8px'
+          }}>
+            Upload Format:
+          </label>
+          <div style={{ marginLeft: '16px' }}>
+            {UPLOAD_FORMATS.map(option => (
+              <label key={option.format} style={{
+                display: 'flex',
+                alignItems: 'center',
+                cursor: 'pointer',
+                fontSize: '12px',
+                marginBottom: '4px'
+              }}>
+                <input
+                  type="radio"
+                  name="uploadFormat"
+                  value={option.format}
+                  checked={uploadFormat === option.format}
+                  onChange={() => updateUploadFormat(option.format)}
+                  style={{ marginRight: '6px' }}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div style={{ marginBottom: '16px' }}>
+          <label style={{
+            display: 'flex',
+            alignItems: 'center',
+            cursor: 'pointer',
+            fontSize: '14px',
+            fontWeight: 'bold',
+            color: '#333'
+          }}>
+            <input
+              type="checkbox"
+              checked={voiceActivity.trimSilence}
+              onChange={(e) => updateVoiceActivity({ trimSilence: e.target.checked })}
+              style={{ marginRight: '8px' }}
+            />
+            Trim Silence
+          </label>
+          <p style={{
+            margin: '4px 0 0 24px',
+            fontSize: '12px',
+            color: '#666',
+            lineHeight: '1.4'
+          }}>
+            Cut silence at the start and end and shorten pauses over {voiceActivity.maxPauseSeconds} s before uploading
+          </p>
+          <div style={{ marginLeft: '24px', marginTop: '6px' }}>
+            {SEGMENT_DELIVERY_OPTIONS.map(option => (
+              <label key={option.delivery} style={{
+                display: 'flex',
+                alignItems: 'center',
+                cursor: voiceActivity.trimSilence ? 'pointer' : 'not-allowed',
+                fontSize: '12px',
+                marginBottom: '4px',
+                color: voiceActivity.trimSilence ? '#333' : '#999'
+              }}>
+                <input
+                  type="radio"
+                  name="segmentDelivery"
+                  value={option.delivery}
+                  checked={voiceActivity.delivery === option.delivery}
+                  onChange={() => updateVoiceActivity({ delivery: option.delivery })}
+                  disabled={!voiceActivity.trimSilence}
+                  style={{ marginRight: '6px' }}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
       </div>
       
       <div style={{
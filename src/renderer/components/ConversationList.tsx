@@ -0,0 +1,347 @@
+import React, { useState, useEffect } from 'react';
+
+import { styles } from '../design-system/styles';
+import { apiService, ConversationResponse } from '../services/api';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type ConversationData = ConversationResponse['data'];
+
+interface ConversationListProps {
+  currentConversationId?: string;
+  onResumeConversation: (conversation: ConversationResponse) => void;
+  onConversationRenamed: (conversation: ConversationResponse) => void;
+  onConversationDeleted: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+const FONT_FAMILY = 'Helvetica, "Helvetica Neue", Arial, sans-serif';
+
+const listButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: '#666',
+  cursor: 'pointer',
+  padding: '4px 8px',
+  borderRadius: '4px',
+  transition: 'all 0.2s ease',
+  fontFamily: FONT_FAMILY,
+  fontSize: '12px',
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const ConversationList: React.FC<ConversationListProps> = ({
+  currentConversationId,
+  onResumeConversation,
+  onConversationRenamed,
+  onConversationDeleted,
+  onClose,
+}) => {
+  // --------------------------------------------------------------------------
+  // STATE MANAGEMENT
+  // --------------------------------------------------------------------------
+
+  const [conversations, setConversations] = useState<ConversationData[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [isOffline, setIsOffline] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState<string>('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  // --------------------------------------------------------------------------
+  // DATA LOADING
+  // --------------------------------------------------------------------------
+
+  const loadConversations = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await apiService.getConversations();
+      const sorted = [...response.data].sort((a, b) =>
+        b.attributes.updated_at.localeCompare(a.attributes.updated_at)
+      );
+      setConversations(sorted);
+      setIsOffline(false);
+    } catch (loadError) {
+      console.error('Failed to load conversations, falling back to local store:', loadError);
+      await loadStoredConversations();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadStoredConversations = async () => {
+    const stored = await window.api.listStoredConversations();
+    if (!stored.success || !stored.conversations) {
+      setError('Could not load conversations. Please try again.');
+      return;
+    }
+
+    // Shape local records like API conversations so the list renders the same way
+    setConversations(stored.conversations.map(conversation => ({
+      id: conversation.id,
+      type: 'conversation',
+      attributes: {
+        title: conversation.title,
+        user_id: 0,
+        message_count: conversation.messageCount,
+        created_at: conversation.createdAt,
+        updated_at: conversation.updatedAt,
+      },
+    })));
+    setIsOffline(true);
+  };
+
+  // --------------------------------------------------------------------------
+  // CONVERSATION ACTIONS
+  // --------------------------------------------------------------------------
+
+  const startRename = (conversation: ConversationData) => {
+    setPendingDeleteId(null);
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.attributes.title);
+  };
+
+  const cancelRename = () => {
+    setEditingId(null);
+    setEditingTitle('');
+  };
+
+  const submitRename = async (conversationId: string) => {
+    const title = editingTitle.trim();
+    if (!title) {
+      cancelRename();
+      return;
+    }
+
+    try {
+      const updated = await apiService.updateConversation(conversationId, { title });
+      setConversations(prev => prev.map(conversation =>
+        conversation.id === conversationId ? updated.data : conversation
+      ));
+      onConversationRenamed(updated);
+      cancelRename();
+    } catch (renameError) {
+      console.error('Failed to rename conversation:', renameError);
+      setError('Failed to rename conversation. Please try again.');
+    }
+  };
+
+  const confirmDelete = async (conversationId: string) => {
+    try {
+      await apiService.deleteConversation(conversationId);
+      await window.api.forgetStoredConversation(conversationId);
+      setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+      setPendingDeleteId(null);
+      onConversationDeleted(conversationId);
+    } catch (deleteError) {
+      console.error('Failed to delete conversation:', deleteError);
+      setError('Failed to delete conversation. Please try again.');
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // EFFECTS
+  // --------------------------------------------------------------------------
+
+  useEffect(() => {
+    loadConversations();
+  }, []);
+
+  // --------------------------------------------------------------------------
+  // RENDER FUNCTIONS
+  // --------------------------------------------------------------------------
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? '' : date.toLocaleString();
+  };
+
+  const renderHeader = () => (
+    <div style={{
+      display: 'flex',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      padding: '5px 10px',
+      borderBottom: '1px solid rgba(0, 0, 0, 0.06)',
+    }} className="no-drag">
+      <div style={{
+        fontSize: '12px',
+        color: '#666',
+        fontWeight: '500',
+        fontFamily: FONT_FAMILY,
+      }}>
+        {isLoading ? 'Loading conversations...' : `${conversations.length} conversations${isOffline ? ' (offline)' : ''}`}
+      </div>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        <button onClick={loadConversations} style={listButtonStyle}>
+          Refresh
+        </button>
+        <button onClick={onClose} style={listButtonStyle}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderTitle = (conversation: ConversationData) => {
+    if (editingId === conversation.id) {
+      return (
+        <input
+          autoFocus
+          value={editingTitle}
+          onChange={(e) => setEditingTitle(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') submitRename(conversation.id);
+            if (e.key === 'Escape') cancelRename();
+          }}
+          onClick={(e) => e.stopPropagation()}
+          style={{
+            width: '100%',
+            fontSize: '14px',
+            fontFamily: FONT_FAMILY,
+            padding: '2px 4px',
+            border: '1px solid rgba(0, 0, 0, 0.2)',
+            borderRadius: '4px',
+            boxSizing: 'border-box',
+          }}
+        />
+      );
+    }
+
+    return (
+      <div style={{
+        fontSize: '14px',
+        color: '#1a1a1a',
+        fontWeight: conversation.id === currentConversationId ? '600' : '500',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+      }}>
+        {conversation.attributes.title || 'Untitled conversation'}
+      </div>
+    );
+  };
+
+  const renderActions = (conversation: ConversationData) => {
+    // Rename and delete need the backend, so offline entries are read-only
+    if (isOffline) return null;
+
+    if (editingId === conversation.id) {
+      return (
+        <>
+          <button onClick={() => submitRename(conversation.id)} style={listButtonStyle}>Save</button>
+          <button onClick={cancelRename} style={listButtonStyle}>Cancel</button>
+        </>
+      );
+    }
+
+    if (pendingDeleteId === conversation.id) {
+      return (
+        <>
+          <button onClick={() => confirmDelete(conversation.id)} style={{ ...listButtonStyle, color: '#dc2626' }}>
+            Confirm
+          </button>
+          <button onClick={() => setPendingDeleteId(null)} style={listButtonStyle}>Cancel</button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <button onClick={() => startRename(conversation)} style={listButtonStyle}>Rename</button>
+        <button
+          onClick={() => {
+            cancelRename();
+            setPendingDeleteId(conversation.id);
+          }}
+          style={listButtonStyle}
+        >
+          Delete
+        </button>
+      </>
+    );
+  };
+
+  const renderConversation = (conversation: ConversationData) => (
+    <div
+      key={conversation.id}
+      onClick={() => {
+        if (editingId !== conversation.id) {
+          onResumeConversation({ data: conversation });
+        }
+      }}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '8px 10px',
+        borderRadius: '8px',
+        cursor: 'pointer',
+        backgroundColor: conversation.id === currentConversationId ? 'rgba(0, 0, 0, 0.05)' : 'white',
+        border: '1px solid rgba(0, 0, 0, 0.06)',
+      }}
+    >
+      <div style={{ flex: 1, minWidth: 0 }}>
+        {renderTitle(conversation)}
+        <div style={{ fontSize: '11px', color: '#888', marginTop: '2px' }}>
+          {conversation.attributes.message_count} messages · Updated {formatTimestamp(conversation.attributes.updated_at)}
+          {' · '}Created {formatTimestamp(conversation.attributes.created_at)}
+        </div>
+      </div>
+      <div style={{ display: 'flex', flexShrink: 0 }} onClick={(e) => e.stopPropagation()}>
+        {renderActions(conversation)}
+      </div>
+    </div>
+  );
+
+  const renderList = () => (
+    <div
+      className="no-drag"
+      style={{
+        ...styles.messagesContainer,
+        gap: '6px',
+        padding: '6px',
+        fontFamily: FONT_FAMILY,
+      }}
+    >
+      {error && (
+        <div style={{ color: '#dc2626', fontSize: '12px', padding: '4px 6px' }}>
+          {error}
+        </div>
+      )}
+      {conversations.length === 0 ? (
+        <div style={{
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          height: '100px',
+          color: '#666',
+          fontSize: '14px',
+        }}>
+          {isLoading ? 'Loading conversations...' : 'No conversations yet'}
+        </div>
+      ) : (
+        conversations.map(renderConversation)
+      )}
+    </div>
+  );
+
+  // --------------------------------------------------------------------------
+  // MAIN RENDER
+  // --------------------------------------------------------------------------
+
+  return (
+    <div style={styles.insightsPanel}>
+      {renderHeader()}
+      {renderList()}
+    </div>
+  );
+};
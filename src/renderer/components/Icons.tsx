@@ -18,6 +18,16 @@ export const CameraIcon: React.FC = () => (
   </svg>
 );
 
+export const RegionIcon: React.FC = () => (
+  <svg style={styles.icon} viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M2.5 6V2.5H6" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M14 2.5H17.5V6" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M17.5 14V17.5H14" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M6 17.5H2.5V14" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <rect x="6.5" y="6.5" width="7" height="7" stroke="white" strokeWidth="1.5" strokeDasharray="2 2"/>
+  </svg>
+);
+
 export const DragIcon: React.FC = () => (
   <svg style={styles.icon} viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
     <path d="M10 3L7 6H9V9H6L9 12V10H11V13L14 10H12V7H15L12 4V6H10V3Z" stroke="white" strokeWidth="1.5" fill="none"/>
@@ -50,6 +60,14 @@ export const ChatIcon: React.FC = () => (
   </svg>
 );
 
+export const HistoryIcon: React.FC = () => (
+  <svg style={styles.icon} viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
+    <path d="M3.5 10a6.5 6.5 0 1 0 1.9-4.6" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M3 3.5v3h3" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+    <path d="M10 6.5V10l2.5 1.5" stroke="white" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+  </svg>
+);
+
 export const MinimizeIcon: React.FC = () => (
   <svg style={styles.icon} viewBox="0 0 20 20" fill="none" xmlns="http://www.w3.org/2000/svg">
     <path d="M4 10h12" stroke="white" strokeWidth="1.5" strokeLinecap="round"/>
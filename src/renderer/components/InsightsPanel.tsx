@@ -4,8 +4,17 @@ import { marked } from 'marked';
 import { styles, hoverEffects } from '../design-system/styles';
 import { LoadingDots } from './LoadingDots';
 import { SendIcon } from './SendIcon';
-import { CameraIcon, MicrophoneIcon } from './Icons';
+import { CameraIcon, MicrophoneIcon, RegionIcon } from './Icons';
 import { apiService } from '../services/api';
+import { splitScreenshotText } from '../../shared/screenshotText';
+import { TRANSCRIPT_SPEAKER_LABELS, TranscriptSegment } from '../../shared/transcriptionTypes';
+import { AUDIO_UPLOAD_CONTENT_TYPES, AUDIO_UPLOAD_EXTENSIONS, audioUploadFormatFromUrl } from '../../shared/audioUploadTypes';
+import {
+  LiveAssistSettings,
+  LiveAssistState,
+  QUESTION_SENSITIVITIES,
+  QuestionSensitivity,
+} from '../../shared/liveAssistTypes';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -26,17 +35,43 @@ interface InsightsPanelProps {
   insights: string;
   isLoading: boolean;
   onSendMessage?: (message: string) => void;
+  onEndConversation?: () => void;
   screenshotUrl?: string;
+  // text_content of the screenshot message: question, redaction note and OCR text
+  screenshotText?: string;
   audioUrl?: string;
   onScreenshotProcessed?: () => void;
   onAudioProcessed?: () => void;
   handleScreenshotClick?: () => void;
+  handleRegionScreenshotClick?: () => void;
   isUserActionLoading?: boolean;
   handleMicClick?: () => void;
   isMicActive?: boolean;
+  transcript?: TranscriptSegment[];
+  transcriptError?: string | null;
   conversationId?: string;
+  streamingResponse?: { streamId: string; content: string } | null;
+  onCancelStream?: (streamId: string) => void;
+  isScreenshotReviewEnabled?: boolean;
+  onToggleScreenshotReview?: () => void;
+  liveAssistState?: LiveAssistState;
+  liveAssistSettings?: LiveAssistSettings | null;
+  onToggleLiveAssist?: () => void;
+  onPauseLiveAssist?: () => void;
+  onLiveAssistSettingsChange?: (changes: Partial<LiveAssistSettings>) => void;
+  questionSensitivity?: QuestionSensitivity;
+  isAutoAnswerEnabled?: boolean;
+  onToggleAutoAnswer?: () => void;
+  onQuestionSensitivityChange?: (sensitivity: QuestionSensitivity) => void;
 }
 
+const LIVE_ASSIST_INTERVAL_OPTIONS = [30, 60, 120, 300];
+const LIVE_ASSIST_CONTEXT_OPTIONS = [2, 5, 10, 15];
+
+// Keeps a value set elsewhere (e.g. through the preload API) selectable
+const withCurrentOption = (options: number[], current: number): number[] =>
+  options.includes(current) ? options : [...options, current].sort((a, b) => a - b);
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -45,15 +80,33 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
   insights, 
   isLoading, 
   onSendMessage, 
+  onEndConversation,
   screenshotUrl,
+  screenshotText,
   audioUrl,
   onScreenshotProcessed,
   onAudioProcessed,
   handleScreenshotClick,
+  handleRegionScreenshotClick,
   isUserActionLoading,
   handleMicClick,
   isMicActive,
-  conversationId
+  transcript = [],
+  transcriptError,
+  conversationId,
+  streamingResponse,
+  onCancelStream,
+  isScreenshotReviewEnabled,
+  onToggleScreenshotReview,
+  liveAssistState = 'stopped',
+  liveAssistSettings,
+  onToggleLiveAssist,
+  onPauseLiveAssist,
+  onLiveAssistSettingsChange,
+  questionSensitivity,
+  isAutoAnswerEnabled = true,
+  onToggleAutoAnswer,
+  onQuestionSensitivityChange
 }) => {
   // --------------------------------------------------------------------------
   // STATE MANAGEMENT
@@ -63,9 +116,11 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
   const [inputValue, setInputValue] = useState('');
   const [isSending, setIsSending] = useState(false);
   const [hoveredMessageId, setHoveredMessageId] = useState<string | null>(null);
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
   const [isInputHovered, setIsInputHovered] = useState(false);
   const [isSendButtonHovered, setIsSendButtonHovered] = useState(false);
   const [isMicButtonHovered, setIsMicButtonHovered] = useState(false);
+  const [isRegionButtonHovered, setIsRegionButtonHovered] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   // Messages State
@@ -99,9 +154,9 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     ));
   };
 
-  const createScreenshotMessage = (screenshotUrl: string): Message => ({
+  const createScreenshotMessage = (screenshotUrl: string, textContent?: string): Message => ({
     id: `${Date.now()}-image`,
-    content: '',
+    content: textContent || '',
     sender: 'user' as const,
     timestamp: new Date(),
     imageUrl: screenshotUrl,
@@ -166,12 +221,40 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
       setMessages(historyMessages);
       console.log('📚 Loaded conversation history:', historyMessages.length, 'messages');
     } catch (error) {
-      console.error('Failed to load conversation history:', error);
+      console.error('Failed to load conversation history, falling back to local store:', error);
+      await loadStoredConversationHistory();
     } finally {
       setIsLoadingHistory(false);
     }
   };
 
+  const loadStoredConversationHistory = async () => {
+    if (!conversationId) return;
+
+    try {
+      const stored = await window.api.openStoredConversation(conversationId);
+      if (!stored.success || !stored.messages) {
+        console.warn('No local history for conversation:', stored.error);
+        return;
+      }
+
+      const historyMessages: Message[] = stored.messages.map(msg => ({
+        id: msg.id,
+        content: msg.textContent || '',
+        sender: msg.senderType === 'user' ? 'user' : 'assistant',
+        timestamp: new Date(msg.createdAt),
+        type: msg.contentType as 'text' | 'screenshot' | 'audio',
+        imageUrl: msg.contentType === 'screenshot' ? msg.screenshotUrl : undefined,
+        audioUrl: msg.contentType === 'audio' ? msg.audioUrl : undefined,
+      }));
+
+      setMessages(historyMessages);
+      console.log('📦 Loaded conversation history from local store:', historyMessages.length, 'messages');
+    } catch (error) {
+      console.error('Failed to load local conversation history:', error);
+    }
+  };
+
   // --------------------------------------------------------------------------
   // MESSAGE MANAGEMENT
   // --------------------------------------------------------------------------
@@ -193,7 +276,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
 
       // Add screenshot first if pending
       if (hasPendingScreenshot(screenshotUrl, filteredMessages)) {
-        newMessages.push(createScreenshotMessage(screenshotUrl!));
+        newMessages.push(createScreenshotMessage(screenshotUrl!, screenshotText));
         onScreenshotProcessed?.();
       }
 
@@ -240,7 +323,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     setMessages([]);
     setInputValue('');
     lastProcessedInsight.current = '';
-    onSendMessage?.('end-conversation');
+    onEndConversation?.();
   };
 
   // --------------------------------------------------------------------------
@@ -273,6 +356,16 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     }
   };
 
+  const handleCopyScreenText = async (messageId: string, screenText: string) => {
+    try {
+      await navigator.clipboard.writeText(screenText);
+      setCopiedMessageId(messageId);
+      setTimeout(() => setCopiedMessageId(current => current === messageId ? null : current), 1500);
+    } catch (error) {
+      console.error('Failed to copy screen text:', error);
+    }
+  };
+
   const handleMouseEnter = (messageId: string) => {
     setHoveredMessageId(messageId);
   };
@@ -300,10 +393,10 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     }
   }, [insights, screenshotUrl, audioUrl]);
 
-  // Scroll to bottom when messages change
+  // Scroll to bottom when messages change or a streamed response grows
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [messages, streamingResponse?.content, transcript]);
 
   // --------------------------------------------------------------------------
   // RENDER FUNCTIONS
@@ -330,7 +423,9 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
         </div>
       );
     }
-    
+
+    const { caption, screenText } = splitScreenshotText(message.content);
+
     return (
       <div
         key={message.id}
@@ -351,6 +446,31 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
             objectFit: 'contain',
           }}
         />
+        {caption && (
+          <div style={{ marginTop: '6px', whiteSpace: 'pre-wrap' }}>
+            {caption}
+          </div>
+        )}
+        {screenText && (
+          <button
+            onClick={() => handleCopyScreenText(message.id, screenText)}
+            title={screenText}
+            className="no-drag"
+            style={{
+              marginTop: '6px',
+              background: 'transparent',
+              border: '1px solid rgba(0, 0, 0, 0.15)',
+              borderRadius: '4px',
+              padding: '2px 8px',
+              cursor: 'pointer',
+              fontSize: '11px',
+              color: '#666',
+              fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+            }}
+          >
+            {copiedMessageId === message.id ? 'Copied' : 'Copy text on screen'}
+          </button>
+        )}
       </div>
     );
   };
@@ -379,12 +499,15 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
       );
     }
     
+    // Older recordings are WAV; newer ones may be Opus or FLAC
+    const audioFormat = audioUploadFormatFromUrl(message.audioUrl);
+    
     const handleDownloadAudio = () => {
       if (!message.audioUrl) return;
       
       const link = document.createElement('a');
       link.href = message.audioUrl;
-      link.download = `audio-${message.id}.wav`;
+      link.download = `audio-${message.id}.${AUDIO_UPLOAD_EXTENSIONS[audioFormat]}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -440,7 +563,8 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
               console.error('❌ Failed to load audio:', message.audioUrl, e);
             }}
           >
-            <source src={message.audioUrl} type="audio/wav" />
+            <source src={message.audioUrl} type={AUDIO_UPLOAD_CONTENT_TYPES[audioFormat]} />
+            {audioFormat !== 'wav' && <source src={message.audioUrl} type="audio/wav" />}
             <source src={message.audioUrl} type="audio/mpeg" />
             <source src={message.audioUrl} type="audio/mp4" />
             Your browser does not support the audio element.
@@ -499,6 +623,44 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     </div>
   );
 
+  const renderStreamingMessage = (stream: { streamId: string; content: string }) => (
+    <div
+      key={`stream-${stream.streamId}`}
+      style={styles.messageAssistant}
+    >
+      {stream.content ? (
+        <div 
+          dangerouslySetInnerHTML={{ 
+            __html: marked(stream.content, {
+              breaks: true,
+              gfm: true
+            })
+          }} 
+        />
+      ) : (
+        <LoadingDots />
+      )}
+      <button
+        onClick={() => onCancelStream?.(stream.streamId)}
+        className="no-drag"
+        style={{
+          marginTop: '6px',
+          background: 'transparent',
+          border: '1px solid rgba(0, 0, 0, 0.2)',
+          borderRadius: '6px',
+          padding: '2px 8px',
+          cursor: 'pointer',
+          fontSize: '11px',
+          color: '#666',
+          fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+        }}
+        title="Stop generating"
+      >
+        Stop
+      </button>
+    </div>
+  );
+
   const renderUserMessage = (message: Message) => (
     <div
       key={message.id}
@@ -569,6 +731,43 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
       }}>
         {isLoadingHistory ? 'Loading history...' : `${messages.length} messages`}
       </div>
+      {onToggleScreenshotReview && (
+        <button
+          onClick={onToggleScreenshotReview}
+          title="Annotate screenshots before they are sent"
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: isScreenshotReviewEnabled ? '#007AFF' : '#666',
+            cursor: 'pointer',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+            fontSize: '12px',
+            marginLeft: 'auto',
+          }}
+        >
+          Review screenshots: {isScreenshotReviewEnabled ? 'On' : 'Off'}
+        </button>
+      )}
+      {onToggleLiveAssist && (
+        <button
+          onClick={onToggleLiveAssist}
+          title="Listen continuously and suggest answers without being asked"
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: liveAssistState === 'stopped' ? '#666' : '#007AFF',
+            cursor: 'pointer',
+            padding: '4px 8px',
+            borderRadius: '4px',
+            fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+            fontSize: '12px',
+          }}
+        >
+          Live assist: {liveAssistState === 'stopped' ? 'Off' : 'On'}
+        </button>
+      )}
       <button
         onClick={clearConversation}
         style={{
@@ -594,6 +793,127 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
     </div>
   );
 
+  const renderLiveAssistControls = () => {
+    const selectStyle = { fontSize: '12px', marginLeft: '4px' };
+
+    return (
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '4px 10px',
+        borderBottom: '1px solid rgba(0, 0, 0, 0.06)',
+        fontSize: '12px',
+        color: '#666',
+      }} className="no-drag">
+        <span style={{ color: liveAssistState === 'running' ? '#cc3333' : '#999' }}>
+          {liveAssistState === 'running' ? '● Listening' : '❚❚ Paused'}
+        </span>
+        {liveAssistSettings && (
+          <>
+            <label>
+              Suggest every
+              <select
+                value={liveAssistSettings.intervalSeconds}
+                onChange={(e) => onLiveAssistSettingsChange?.({ intervalSeconds: Number(e.target.value) })}
+                style={selectStyle}
+              >
+                {withCurrentOption(LIVE_ASSIST_INTERVAL_OPTIONS, liveAssistSettings.intervalSeconds).map(seconds => (
+                  <option key={seconds} value={seconds}>{seconds < 60 ? `${seconds}s` : `${seconds / 60} min`}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Context
+              <select
+                value={liveAssistSettings.contextMinutes}
+                onChange={(e) => onLiveAssistSettingsChange?.({ contextMinutes: Number(e.target.value) })}
+                style={selectStyle}
+              >
+                {withCurrentOption(LIVE_ASSIST_CONTEXT_OPTIONS, liveAssistSettings.contextMinutes).map(minutes => (
+                  <option key={minutes} value={minutes}>{minutes} min</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+        {questionSensitivity && (
+          <label>
+            Questions
+            <select
+              value={questionSensitivity}
+              onChange={(e) => onQuestionSensitivityChange?.(e.target.value as QuestionSensitivity)}
+              disabled={!isAutoAnswerEnabled}
+              style={selectStyle}
+            >
+              {QUESTION_SENSITIVITIES.map(sensitivity => (
+                <option key={sensitivity} value={sensitivity}>{sensitivity}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {/* The toggle belongs to a conversation, so it needs one to exist */}
+        {conversationId && onToggleAutoAnswer && (
+          <button
+            onClick={onToggleAutoAnswer}
+            title="Answer questions automatically in this conversation"
+            style={{
+              background: 'transparent',
+              border: 'none',
+              color: isAutoAnswerEnabled ? '#007AFF' : '#666',
+              cursor: 'pointer',
+              padding: '2px 6px',
+              fontSize: '12px',
+            }}
+          >
+            Auto-answer: {isAutoAnswerEnabled ? 'On' : 'Off'}
+          </button>
+        )}
+        <button
+          onClick={onPauseLiveAssist}
+          style={{
+            background: 'transparent',
+            border: 'none',
+            color: '#007AFF',
+            cursor: 'pointer',
+            padding: '2px 6px',
+            fontSize: '12px',
+            marginLeft: 'auto',
+          }}
+        >
+          {liveAssistState === 'running' ? 'Pause' : 'Resume'}
+        </button>
+      </div>
+    );
+  };
+
+  const renderLiveTranscript = () => (
+    <div style={{
+      margin: '8px 0',
+      padding: '8px 10px',
+      borderRadius: '8px',
+      border: '1px dashed rgba(0, 0, 0, 0.15)',
+      fontSize: '13px',
+      lineHeight: 1.4,
+    }}>
+      <div style={{ fontSize: '11px', color: '#999', marginBottom: '4px' }}>
+        {isMicActive ? 'Live transcript' : 'Transcript'}
+      </div>
+      {transcript.length === 0 && !transcriptError && (
+        <div style={{ color: '#999' }}>Listening…</div>
+      )}
+      {transcript.map(segment => (
+        <div key={segment.id} style={{ color: segment.isFinal ? '#333' : '#999', fontStyle: segment.isFinal ? 'normal' : 'italic' }}>
+          <span style={{ fontWeight: 600 }}>{TRANSCRIPT_SPEAKER_LABELS[segment.speaker]}: </span>
+          {segment.text}
+        </div>
+      ))}
+      {transcriptError && (
+        <div style={{ color: '#cc3333', fontSize: '12px' }}>{transcriptError}</div>
+      )}
+    </div>
+  );
+
   const renderMessagesContainer = () => (
     <div 
       ref={messagesContainerRef}
@@ -603,7 +923,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
         fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
       }}
     >
-      {messages.length === 0 ? (
+      {messages.length === 0 && !streamingResponse ? (
         <div style={{
           display: 'flex',
           alignItems: 'center',
@@ -615,8 +935,12 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
           {isLoadingHistory ? 'Loading conversation history...' : 'No messages yet'}
         </div>
       ) : (
-        messages.map(renderMessage)
+        messages
+          .filter(msg => !(streamingResponse && msg.isLoading))
+          .map(renderMessage)
       )}
+      {streamingResponse && renderStreamingMessage(streamingResponse)}
+      {(isMicActive || transcript.length > 0) && renderLiveTranscript()}
       <div ref={messagesEndRef} />
     </div>
   );
@@ -642,6 +966,28 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
         <CameraIcon />
       </button>
 
+      {handleRegionScreenshotClick && (
+        <button
+          onClick={handleRegionScreenshotClick}
+          disabled={isUserActionLoading}
+          title="Capture a region"
+          style={{
+            ...styles.cameraButton,
+            ...(isRegionButtonHovered &&
+              hoverEffects.buttonHover && {
+                backgroundColor: '#000000',
+                color: 'white',
+                fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+              }),
+          }}
+          className="no-drag"
+          onMouseEnter={() => setIsRegionButtonHovered(true)}
+          onMouseLeave={() => setIsRegionButtonHovered(false)}
+        >
+          <RegionIcon />
+        </button>
+      )}
+
       <textarea
         value={inputValue}
         onChange={(e) => setInputValue(e.target.value)}
@@ -711,6 +1057,7 @@ export const InsightsPanel: React.FC<InsightsPanelProps> = ({
   return (
     <div style={styles.insightsPanel}>
       {renderHeader()}
+      {liveAssistState !== 'stopped' && renderLiveAssistControls()}
       {renderMessagesContainer()}
       {renderInputArea()}
     </div>
@@ -3,11 +3,17 @@ import React from 'react';
 interface LoadingBarProps {
   isLoading: boolean;
   message: string;
+  // Byte progress of an upload in flight, shown under the message
+  progress?: { loaded: number; total: number } | null;
 }
 
-export const LoadingBar: React.FC<LoadingBarProps> = ({ isLoading, message }) => {
+const formatMegabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+
+export const LoadingBar: React.FC<LoadingBarProps> = ({ isLoading, message, progress }) => {
   if (!isLoading) return null;
   
+  const fraction = progress && progress.total > 0 ? Math.min(1, progress.loaded / progress.total) : null;
+  
   return (
     <>
       {/* Centered loading indicator */}
@@ -39,6 +45,27 @@ export const LoadingBar: React.FC<LoadingBarProps> = ({ isLoading, message }) =>
           animation: 'spin 1s linear infinite',
         }} />
         <span style={{ fontSize: '12px' }}>{message}</span>
+        {fraction !== null && (
+          <>
+            <div style={{
+              width: '160px',
+              height: '4px',
+              borderRadius: '2px',
+              backgroundColor: 'rgba(255, 255, 255, 0.2)',
+              overflow: 'hidden',
+            }}>
+              <div style={{
+                width: `${fraction * 100}%`,
+                height: '100%',
+                backgroundColor: '#007AFF',
+                transition: 'width 0.2s ease',
+              }} />
+            </div>
+            <span style={{ fontSize: '11px', color: 'rgba(255, 255, 255, 0.7)' }}>
+              {formatMegabytes(progress!.loaded)} / {formatMegabytes(progress!.total)} MB
+            </span>
+          </>
+        )}
       </div>
 
       <style>{`
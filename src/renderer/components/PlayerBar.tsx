@@ -1,18 +1,32 @@
 import React, { RefObject } from 'react';
-import { CrownIcon, ChatIcon } from './Icons';
+import { CrownIcon, ChatIcon, HistoryIcon } from './Icons';
+import { UploadQueueIndicator } from './UploadQueueIndicator';
+import { RecordingHud } from './RecordingHud';
+import type { UploadQueueStatus } from '../../shared/uploadQueueTypes';
+import type { LiveAudioLevels } from '../../shared/audioLevelTypes';
 
 interface PlayerBarProps {
   playerBarRef: RefObject<HTMLDivElement>;
   onCrownClick: () => void;
   onChatClick: () => void;
+  onHistoryClick: () => void;
+  isHistoryVisible: boolean;
   isUserActionLoading: boolean;
+  uploadQueueStatus: UploadQueueStatus | null;
+  onRetryUploads: () => void;
+  audioLevels: LiveAudioLevels | null;
 }
 
 export const PlayerBar: React.FC<PlayerBarProps> = ({
   playerBarRef,
   onCrownClick,
   onChatClick,
-  isUserActionLoading
+  onHistoryClick,
+  isHistoryVisible,
+  isUserActionLoading,
+  uploadQueueStatus,
+  onRetryUploads,
+  audioLevels
 }) => {
   return (
     <div
@@ -30,6 +44,7 @@ export const PlayerBar: React.FC<PlayerBarProps> = ({
       }}
       className="draggable-area"
     >
+      <RecordingHud levels={audioLevels} />
       <button
         onClick={onCrownClick}
         style={{
@@ -72,6 +87,27 @@ export const PlayerBar: React.FC<PlayerBarProps> = ({
       >
         <ChatIcon />
       </button>
+      <button
+        onClick={onHistoryClick}
+        style={{
+          padding: '10px',
+          backgroundColor: isHistoryVisible ? 'rgba(255, 255, 255, 0.25)' : 'rgba(255, 255, 255, 0.1)',
+          color: 'white',
+          border: 'none',
+          borderRadius: '8px',
+          cursor: 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          width: '40px',
+          height: '40px',
+          transition: 'all 0.2s ease',
+        }}
+        className="no-drag"
+      >
+        <HistoryIcon />
+      </button>
+      <UploadQueueIndicator status={uploadQueueStatus} onRetry={onRetryUploads} />
     </div>
   );
 }; 
\ No newline at end of file
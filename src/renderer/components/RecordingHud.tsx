@@ -0,0 +1,109 @@
+import React from 'react';
+import type { LiveAudioLevels, LiveTrackLevel } from '../../shared/audioLevelTypes';
+
+interface RecordingHudProps {
+  levels: LiveAudioLevels | null;
+}
+
+// Bottom of the meter scale; quieter than this shows an empty bar
+const METER_FLOOR_DB = -60;
+// Above this the bar turns amber, close to clipping
+const METER_HOT_DB = -12;
+// A muted mic shows up long before a whole recording is wasted
+const NO_SIGNAL_WARNING_MS = 5000;
+
+const formatElapsed = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const meterPercent = (db: number): number =>
+  Math.max(0, Math.min(100, (db - METER_FLOOR_DB) / -METER_FLOOR_DB * 100));
+
+const TrackMeter: React.FC<{ label: string; level: LiveTrackLevel | null }> = ({ label, level }) => {
+  const color = !level ? 'transparent' : level.clipping ? '#dc2626' : level.peakDb > METER_HOT_DB ? '#f59e0b' : '#22c55e';
+
+  return (
+    <div
+      title={level ? `${label}: ${Math.round(level.rmsDb)} dB RMS, ${Math.round(level.peakDb)} dB peak` : `${label}: not recording`}
+      style={{ display: 'flex', alignItems: 'center', gap: '4px', opacity: level ? 1 : 0.4 }}
+    >
+      <span style={{ width: '22px', fontSize: '9px' }}>{label}</span>
+      <div
+        style={{
+          position: 'relative',
+          width: '48px',
+          height: '4px',
+          backgroundColor: 'rgba(255, 255, 255, 0.15)',
+          borderRadius: '2px',
+          overflow: 'hidden',
+        }}
+      >
+        <div
+          style={{
+            width: `${level ? meterPercent(level.rmsDb) : 0}%`,
+            height: '100%',
+            backgroundColor: color,
+            transition: 'width 0.15s linear',
+          }}
+        />
+        {level && (
+          <div
+            style={{
+              position: 'absolute',
+              top: 0,
+              left: `${meterPercent(level.peakDb)}%`,
+              width: '2px',
+              height: '100%',
+              backgroundColor: color,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Compact recording status on the left of the player bar: mic and system
+// audio meters, elapsed time, and warnings for clipping or a silent mic
+export const RecordingHud: React.FC<RecordingHudProps> = ({ levels }) => {
+  if (!levels?.recording) return null;
+
+  const { microphone, system } = levels;
+  const isClipping = Boolean(microphone?.clipping || system?.clipping);
+  const hasNoSignal = !microphone || microphone.silentMs >= NO_SIGNAL_WARNING_MS;
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        left: '12px',
+        top: '50%',
+        transform: 'translateY(-50%)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '3px',
+        color: 'white',
+        fontSize: '11px',
+        fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <span style={{ width: '6px', height: '6px', borderRadius: '50%', backgroundColor: '#dc2626' }} />
+        <span style={{ fontVariantNumeric: 'tabular-nums' }}>{formatElapsed(levels.elapsedMs)}</span>
+        {isClipping && (
+          <span title="Audio is clipping, move away from the mic or turn the input down" style={{ color: '#dc2626', fontWeight: 'bold' }}>
+            CLIP
+          </span>
+        )}
+      </div>
+      <TrackMeter label="MIC" level={microphone} />
+      <TrackMeter label="SYS" level={system} />
+      {hasNoSignal && (
+        <span title="Check that your microphone is not muted and the right input is selected" style={{ color: '#f87171' }}>
+          No mic signal
+        </span>
+      )}
+    </div>
+  );
+};
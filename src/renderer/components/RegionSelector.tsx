@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+
+// ============================================================================
+// REGION SELECTOR
+// ============================================================================
+//
+// Rendered in the transparent overlay window opened by WindowManager. The user
+// drags a rectangle; its DIP coordinates are sent back to the main process,
+// which crops the display capture to it. Escape or a click without dragging
+// cancels.
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const MIN_REGION_SIZE = 8;
+
+export const RegionSelector: React.FC = () => {
+  const [start, setStart] = useState<Point | null>(null);
+  const [current, setCurrent] = useState<Point | null>(null);
+
+  // --------------------------------------------------------------------------
+  // EFFECTS
+  // --------------------------------------------------------------------------
+
+  useEffect(() => {
+    // The shared index.html has an opaque body; the overlay must see through it
+    document.body.style.margin = '0';
+    document.body.style.background = 'transparent';
+    document.body.style.overflow = 'hidden';
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        window.api.submitRegionSelection(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, []);
+
+  // --------------------------------------------------------------------------
+  // EVENT HANDLERS
+  // --------------------------------------------------------------------------
+
+  const handleMouseDown = (event: React.MouseEvent) => {
+    setStart({ x: event.clientX, y: event.clientY });
+    setCurrent({ x: event.clientX, y: event.clientY });
+  };
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    if (start) {
+      setCurrent({ x: event.clientX, y: event.clientY });
+    }
+  };
+
+  const handleMouseUp = () => {
+    const region = getRegion();
+    setStart(null);
+    setCurrent(null);
+
+    if (!region || region.width < MIN_REGION_SIZE || region.height < MIN_REGION_SIZE) {
+      window.api.submitRegionSelection(null);
+      return;
+    }
+
+    window.api.submitRegionSelection(region);
+  };
+
+  const getRegion = () => {
+    if (!start || !current) return null;
+    return {
+      x: Math.min(start.x, current.x),
+      y: Math.min(start.y, current.y),
+      width: Math.abs(current.x - start.x),
+      height: Math.abs(current.y - start.y),
+    };
+  };
+
+  // --------------------------------------------------------------------------
+  // MAIN RENDER
+  // --------------------------------------------------------------------------
+
+  const region = getRegion();
+
+  return (
+    <div
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        cursor: 'crosshair',
+        backgroundColor: region ? 'transparent' : 'rgba(0, 0, 0, 0.3)',
+        userSelect: 'none',
+        fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+      }}
+    >
+      {!region && (
+        <div style={{
+          position: 'absolute',
+          top: '40px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          padding: '8px 14px',
+          borderRadius: '8px',
+          backgroundColor: 'rgba(0, 0, 0, 0.8)',
+          color: 'white',
+          fontSize: '13px',
+          pointerEvents: 'none',
+        }}>
+          Drag to select a region · Esc to cancel
+        </div>
+      )}
+      {region && (
+        <div style={{
+          position: 'absolute',
+          left: region.x,
+          top: region.y,
+          width: region.width,
+          height: region.height,
+          border: '1px solid #007AFF',
+          // Dim everything outside the selection
+          boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.3)',
+          pointerEvents: 'none',
+        }}>
+          <div style={{
+            position: 'absolute',
+            bottom: '-22px',
+            right: 0,
+            padding: '2px 6px',
+            borderRadius: '4px',
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            color: 'white',
+            fontSize: '11px',
+          }}>
+            {Math.round(region.width)} × {Math.round(region.height)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,407 @@
+import React, { useState, useRef, useEffect } from 'react';
+
+import { styles } from '../design-system/styles';
+import type { ImageRegion } from '../../shared/ipcProtocol';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+type AnnotationTool = 'arrow' | 'box' | 'highlight' | 'blur' | 'text';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Annotation =
+  | { tool: 'arrow' | 'box' | 'highlight' | 'blur'; color: string; from: Point; to: Point }
+  | { tool: 'text'; color: string; at: Point; text: string };
+
+interface ScreenshotAnnotatorProps {
+  imageDataUrl: string;
+  // Blur regions are applied by the main process together with automatic redaction
+  onSubmit: (annotatedDataUrl: string, prompt: string, blurRegions: ImageRegion[]) => void;
+  onCancel: () => void;
+}
+
+const TOOLS: { id: AnnotationTool; label: string }[] = [
+  { id: 'arrow', label: 'Arrow' },
+  { id: 'box', label: 'Box' },
+  { id: 'highlight', label: 'Highlight' },
+  { id: 'blur', label: 'Blur' },
+  { id: 'text', label: 'Text' },
+];
+
+const COLORS = ['#ff3b30', '#007AFF', '#34c759', '#ffcc00'];
+
+const FONT_FAMILY = 'Helvetica, "Helvetica Neue", Arial, sans-serif';
+
+const toolbarButtonStyle = (isActive: boolean): React.CSSProperties => ({
+  background: isActive ? '#000000' : 'transparent',
+  color: isActive ? 'white' : '#333',
+  border: '1px solid rgba(0, 0, 0, 0.15)',
+  borderRadius: '4px',
+  padding: '4px 8px',
+  cursor: 'pointer',
+  fontSize: '12px',
+  fontFamily: FONT_FAMILY,
+});
+
+// ============================================================================
+// DRAWING HELPERS
+// ============================================================================
+
+// Stroke widths scale with the capture so annotations stay visible on
+// high-DPI screenshots that are displayed shrunk
+const getStrokeWidth = (canvas: HTMLCanvasElement) => Math.max(3, Math.round(canvas.width / 300));
+
+const drawAnnotation = (context: CanvasRenderingContext2D, annotation: Annotation, strokeWidth: number) => {
+  context.save();
+  context.strokeStyle = annotation.color;
+  context.fillStyle = annotation.color;
+  context.lineWidth = strokeWidth;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+
+  switch (annotation.tool) {
+    case 'box': {
+      const { from, to } = annotation;
+      context.strokeRect(from.x, from.y, to.x - from.x, to.y - from.y);
+      break;
+    }
+    case 'highlight': {
+      const { from, to } = annotation;
+      context.globalAlpha = 0.3;
+      context.fillRect(from.x, from.y, to.x - from.x, to.y - from.y);
+      break;
+    }
+    case 'blur': {
+      // Preview only: redraw the canvas onto itself through a blur filter
+      const { from, to } = annotation;
+      context.beginPath();
+      context.rect(from.x, from.y, to.x - from.x, to.y - from.y);
+      context.clip();
+      context.filter = `blur(${strokeWidth * 4}px)`;
+      context.drawImage(context.canvas, 0, 0);
+      break;
+    }
+    case 'arrow': {
+      const { from, to } = annotation;
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const headLength = strokeWidth * 5;
+
+      context.beginPath();
+      context.moveTo(from.x, from.y);
+      context.lineTo(to.x, to.y);
+      context.stroke();
+
+      context.beginPath();
+      context.moveTo(to.x, to.y);
+      context.lineTo(to.x - headLength * Math.cos(angle - Math.PI / 6), to.y - headLength * Math.sin(angle - Math.PI / 6));
+      context.lineTo(to.x - headLength * Math.cos(angle + Math.PI / 6), to.y - headLength * Math.sin(angle + Math.PI / 6));
+      context.closePath();
+      context.fill();
+      break;
+    }
+    case 'text': {
+      const fontSize = strokeWidth * 6;
+      context.font = `bold ${fontSize}px ${FONT_FAMILY}`;
+      context.textBaseline = 'top';
+
+      // Callout background keeps the text readable on any screenshot
+      const padding = fontSize / 3;
+      const width = context.measureText(annotation.text).width;
+      context.globalAlpha = 0.85;
+      context.fillStyle = 'white';
+      context.fillRect(annotation.at.x - padding, annotation.at.y - padding, width + padding * 2, fontSize + padding * 2);
+      context.globalAlpha = 1;
+      context.strokeRect(annotation.at.x - padding, annotation.at.y - padding, width + padding * 2, fontSize + padding * 2);
+      context.fillStyle = annotation.color;
+      context.fillText(annotation.text, annotation.at.x, annotation.at.y);
+      break;
+    }
+  }
+
+  context.restore();
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const ScreenshotAnnotator: React.FC<ScreenshotAnnotatorProps> = ({
+  imageDataUrl,
+  onSubmit,
+  onCancel,
+}) => {
+  // --------------------------------------------------------------------------
+  // STATE MANAGEMENT
+  // --------------------------------------------------------------------------
+
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState<string>(COLORS[0]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [draft, setDraft] = useState<Annotation | null>(null);
+  const [pendingText, setPendingText] = useState<{ at: Point; screen: Point; value: string } | null>(null);
+  const [prompt, setPrompt] = useState<string>('');
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
+
+  // --------------------------------------------------------------------------
+  // RENDERING
+  // --------------------------------------------------------------------------
+
+  const redraw = () => {
+    const canvas = canvasRef.current;
+    const image = imageRef.current;
+    if (!canvas || !image) return;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+
+    const strokeWidth = getStrokeWidth(canvas);
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0);
+    annotations.forEach(annotation => drawAnnotation(context, annotation, strokeWidth));
+    if (draft) {
+      drawAnnotation(context, draft, strokeWidth);
+    }
+  };
+
+  useEffect(() => {
+    const image = new Image();
+    image.onload = () => {
+      imageRef.current = image;
+      if (canvasRef.current) {
+        // Draw at the capture's native resolution; CSS scales it to fit
+        canvasRef.current.width = image.naturalWidth;
+        canvasRef.current.height = image.naturalHeight;
+      }
+      redraw();
+    };
+    image.src = imageDataUrl;
+  }, [imageDataUrl]);
+
+  useEffect(() => {
+    redraw();
+  }, [annotations, draft]);
+
+  // --------------------------------------------------------------------------
+  // EVENT HANDLERS
+  // --------------------------------------------------------------------------
+
+  const toImagePoint = (event: React.MouseEvent<HTMLCanvasElement>): Point => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((event.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((event.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toImagePoint(event);
+
+    if (tool === 'text') {
+      commitPendingText();
+      const rect = event.currentTarget.parentElement!.getBoundingClientRect();
+      setPendingText({
+        at: point,
+        screen: { x: event.clientX - rect.left, y: event.clientY - rect.top },
+        value: '',
+      });
+      return;
+    }
+
+    setDraft({ tool, color, from: point, to: point });
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (draft && draft.tool !== 'text') {
+      setDraft({ ...draft, to: toImagePoint(event) });
+    }
+  };
+
+  const handleMouseUp = () => {
+    if (draft && draft.tool !== 'text') {
+      const isClick = Math.abs(draft.to.x - draft.from.x) < 2 && Math.abs(draft.to.y - draft.from.y) < 2;
+      if (!isClick) {
+        setAnnotations(prev => [...prev, draft]);
+      }
+    }
+    setDraft(null);
+  };
+
+  const commitPendingText = () => {
+    if (pendingText && pendingText.value.trim()) {
+      setAnnotations(prev => [...prev, { tool: 'text', color, at: pendingText.at, text: pendingText.value.trim() }]);
+    }
+    setPendingText(null);
+  };
+
+  const handleUndo = () => {
+    setAnnotations(prev => prev.slice(0, -1));
+  };
+
+  const handleSubmit = () => {
+    const image = imageRef.current;
+    if (!image) return;
+
+    // Include a callout that is still being typed
+    const finalAnnotations = pendingText && pendingText.value.trim()
+      ? [...annotations, { tool: 'text' as const, color, at: pendingText.at, text: pendingText.value.trim() }]
+      : annotations;
+
+    const output = document.createElement('canvas');
+    output.width = image.naturalWidth;
+    output.height = image.naturalHeight;
+    const context = output.getContext('2d');
+    if (!context) return;
+
+    const strokeWidth = getStrokeWidth(output);
+    const blurRegions: ImageRegion[] = [];
+    context.drawImage(image, 0, 0);
+    finalAnnotations.forEach(annotation => {
+      if (annotation.tool === 'blur') {
+        const { from, to } = annotation;
+        blurRegions.push({
+          x: Math.round(Math.min(from.x, to.x)),
+          y: Math.round(Math.min(from.y, to.y)),
+          width: Math.round(Math.abs(to.x - from.x)),
+          height: Math.round(Math.abs(to.y - from.y)),
+        });
+        return;
+      }
+      drawAnnotation(context, annotation, strokeWidth);
+    });
+
+    onSubmit(output.toDataURL('image/png'), prompt.trim(), blurRegions);
+  };
+
+  // --------------------------------------------------------------------------
+  // RENDER FUNCTIONS
+  // --------------------------------------------------------------------------
+
+  const renderToolbar = () => (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '6px',
+      padding: '6px 10px',
+      borderBottom: '1px solid rgba(0, 0, 0, 0.06)',
+    }} className="no-drag">
+      {TOOLS.map(({ id, label }) => (
+        <button key={id} onClick={() => setTool(id)} style={toolbarButtonStyle(tool === id)}>
+          {label}
+        </button>
+      ))}
+      <div style={{ display: 'flex', gap: '4px', marginLeft: '8px' }}>
+        {COLORS.map(swatch => (
+          <button
+            key={swatch}
+            onClick={() => setColor(swatch)}
+            style={{
+              width: '18px',
+              height: '18px',
+              borderRadius: '50%',
+              backgroundColor: swatch,
+              border: color === swatch ? '2px solid #000' : '1px solid rgba(0, 0, 0, 0.2)',
+              cursor: 'pointer',
+              padding: 0,
+            }}
+          />
+        ))}
+      </div>
+      <button
+        onClick={handleUndo}
+        disabled={annotations.length === 0}
+        style={{ ...toolbarButtonStyle(false), marginLeft: 'auto', opacity: annotations.length === 0 ? 0.5 : 1 }}
+      >
+        Undo
+      </button>
+    </div>
+  );
+
+  const renderCanvas = () => (
+    <div style={{
+      flex: 1,
+      minHeight: 0,
+      position: 'relative',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      overflow: 'hidden',
+      backgroundColor: 'rgba(0, 0, 0, 0.04)',
+    }} className="no-drag">
+      <div style={{ position: 'relative', maxWidth: '100%', maxHeight: '100%' }}>
+        <canvas
+          ref={canvasRef}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={handleMouseUp}
+          onMouseLeave={handleMouseUp}
+          style={{
+            display: 'block',
+            maxWidth: '100%',
+            maxHeight: '100%',
+            cursor: tool === 'text' ? 'text' : 'crosshair',
+          }}
+        />
+        {pendingText && (
+          <input
+            autoFocus
+            value={pendingText.value}
+            onChange={(e) => setPendingText({ ...pendingText, value: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitPendingText();
+              if (e.key === 'Escape') setPendingText(null);
+            }}
+            onBlur={commitPendingText}
+            placeholder="Callout text"
+            style={{
+              position: 'absolute',
+              left: pendingText.screen.x,
+              top: pendingText.screen.y,
+              fontSize: '12px',
+              fontFamily: FONT_FAMILY,
+              padding: '2px 4px',
+              border: `1px solid ${color}`,
+              borderRadius: '4px',
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+
+  const renderFooter = () => (
+    <div style={{ ...styles.chatInputContainer, gap: '8px' }} className="no-drag">
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="What should the AI look at? (optional)"
+        style={styles.chatInput}
+      />
+      <button onClick={onCancel} style={toolbarButtonStyle(false)}>
+        Cancel
+      </button>
+      <button onClick={handleSubmit} style={toolbarButtonStyle(true)}>
+        Send
+      </button>
+    </div>
+  );
+
+  // --------------------------------------------------------------------------
+  // MAIN RENDER
+  // --------------------------------------------------------------------------
+
+  return (
+    <div style={{ ...styles.insightsPanel, height: '100%', cursor: 'default' }}>
+      {renderToolbar()}
+      {renderCanvas()}
+      {renderFooter()}
+    </div>
+  );
+};
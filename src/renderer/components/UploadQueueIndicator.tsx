@@ -0,0 +1,43 @@
+import React from 'react';
+import type { UploadQueueStatus } from '../../shared/uploadQueueTypes';
+
+interface UploadQueueIndicatorProps {
+  status: UploadQueueStatus | null;
+  onRetry: () => void;
+}
+
+// Compact pill shown in the player bar while captures wait in the offline outbox
+export const UploadQueueIndicator: React.FC<UploadQueueIndicatorProps> = ({ status, onRetry }) => {
+  if (!status || status.pending + status.failed === 0) return null;
+
+  const total = status.pending + status.failed;
+  const title = status.isProcessing
+    ? `Uploading ${total} saved ${total === 1 ? 'capture' : 'captures'}...`
+    : `${total} ${total === 1 ? 'capture' : 'captures'} waiting to upload${status.failed > 0 ? ` (${status.failed} failed)` : ''}. Click to retry now.`;
+
+  return (
+    <button
+      onClick={onRetry}
+      disabled={status.isProcessing}
+      title={title}
+      style={{
+        position: 'absolute',
+        right: '12px',
+        top: '50%',
+        transform: 'translateY(-50%)',
+        padding: '2px 8px',
+        backgroundColor: status.failed > 0 ? 'rgba(220, 38, 38, 0.8)' : 'rgba(255, 255, 255, 0.15)',
+        color: 'white',
+        border: 'none',
+        borderRadius: '10px',
+        cursor: status.isProcessing ? 'default' : 'pointer',
+        fontSize: '11px',
+        fontFamily: 'Helvetica, "Helvetica Neue", Arial, sans-serif',
+        opacity: status.isProcessing ? 0.6 : 1,
+      }}
+      className="no-drag"
+    >
+      ↑ {total}
+    </button>
+  );
+};
@@ -1,11 +1,16 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { RegionSelector } from './components/RegionSelector';
 
 const container = document.getElementById('root');
 const root = createRoot(container!);
+
+// The region capture overlay loads the same bundle under its own hash route
+const isRegionSelector = window.location.hash === '#region-selector';
+
 root.render(
   <React.StrictMode>
-    <App />
+    {isRegionSelector ? <RegionSelector /> : <App />}
   </React.StrictMode>
-); 
\ No newline at end of file
+);
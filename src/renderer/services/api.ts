@@ -5,6 +5,10 @@ interface ConversationCreateRequest {
   title?: string;
 }
 
+interface ConversationUpdateRequest {
+  title: string;
+}
+
 interface ConversationResponse {
   data: {
     id: string;
@@ -19,6 +23,10 @@ interface ConversationResponse {
   };
 }
 
+interface ConversationsResponse {
+  data: ConversationResponse['data'][];
+}
+
 interface MessageCreateRequest {
   content_type: 'text' | 'screenshot' | 'audio';
   text_content?: string;
@@ -72,6 +80,44 @@ class ApiService {
     return response.json();
   }
 
+  async getConversations(): Promise<ConversationsResponse> {
+    const response = await fetch(`${API_BASE_URL}/conversations`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch conversations: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async updateConversation(conversationId: string, data: ConversationUpdateRequest): Promise<ConversationResponse> {
+    const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ conversation: data }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update conversation: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  async deleteConversation(conversationId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}`, {
+      method: 'DELETE',
+      headers: this.getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete conversation: ${response.statusText}`);
+    }
+  }
+
   async createMessage(conversationId: string, data: MessageCreateRequest): Promise<MessageResponse> {
     const response = await fetch(`${API_BASE_URL}/conversations/${conversationId}/messages`, {
       method: 'POST',
@@ -101,4 +147,4 @@ class ApiService {
 }
 
 export const apiService = new ApiService();
-export type { ConversationResponse, MessageResponse, MessagesResponse, MessageCreateRequest, ConversationCreateRequest }; 
+export type { ConversationResponse, ConversationsResponse, MessageResponse, MessagesResponse, MessageCreateRequest, ConversationCreateRequest, ConversationUpdateRequest }; 
@@ -1,3 +1,6 @@
+import { EchoCanceller } from '../../shared/echoCanceller';
+import { CANONICAL_AUDIO_FORMAT, Resampler } from '../../shared/audioFormat';
+
 // ============================================================================
 // PLATFORM AUDIO CAPTURE SERVICE (RENDERER)
 // ============================================================================
@@ -36,10 +39,16 @@ export class PlatformAudioCapture {
   private systemAudioProcessor: ScriptProcessorNode | null = null;
   private recordingStartTime: number = 0;
   private durationInterval: NodeJS.Timeout | null = null;
+  private screenshotInterval: NodeJS.Timeout | null = null;
   private audioChunks: AudioChunk[] = [];
+  private chunkListener: ((chunk: AudioChunk) => void) | null = null;
+  private screenshotListener: ((base64: string) => void) | null = null;
+  private voiceActivityListener: ((source: AudioChunk['source'], active: boolean) => void) | null = null;
+  private voiceActive: Record<AudioChunk['source'], boolean> = { microphone: false, system: false };
 
   // Audio configuration
-  private readonly SAMPLE_RATE = 24000;
+  private readonly SAMPLE_RATE = CANONICAL_AUDIO_FORMAT.sampleRate;
+  private readonly MIME_TYPE = `audio/pcm;rate=${CANONICAL_AUDIO_FORMAT.sampleRate}`;
   private readonly AUDIO_CHUNK_DURATION = 0.1;
   private readonly BUFFER_SIZE = 4096;
 
@@ -49,8 +58,10 @@ export class PlatformAudioCapture {
   private readonly isWindows = process.platform === 'win32';
 
   // Echo cancellation
-  private aecProcessor: SimpleAEC | null = null;
-  private systemAudioBuffer: Array<{ data: string; timestamp: number }> = [];
+  private echoCanceller: EchoCanceller | null = null;
+  // System audio chunks not yet paired with a microphone chunk
+  private systemAudioBuffer: Float32Array[] = [];
+  private hasSystemReference = false;
   private readonly MAX_SYSTEM_BUFFER_SIZE = 10;
 
   // ============================================================================
@@ -73,7 +84,9 @@ export class PlatformAudioCapture {
       this.recordingStartTime = Date.now();
 
       // Initialize echo cancellation
-      this.aecProcessor = new SimpleAEC();
+      this.echoCanceller = new EchoCanceller({ sampleRate: this.SAMPLE_RATE });
+      this.systemAudioBuffer = [];
+      this.hasSystemReference = false;
 
       // Start platform-specific capture
       if (this.isMacOS) {
@@ -132,6 +145,7 @@ export class PlatformAudioCapture {
       this.cleanupAudioResources();
 
       this.state.isRecording = false;
+      this.voiceActive = { microphone: false, system: false };
       const capturedChunks = [...this.audioChunks];
       this.audioChunks = [];
 
@@ -145,6 +159,41 @@ export class PlatformAudioCapture {
     }
   }
 
+  /**
+   * Captures only system audio, from the loopback stream the main process
+   * grants screen shares on Windows, for recordings the main process makes.
+   * Chunks go to the chunk listener.
+   */
+  async startSystemAudioCapture(): Promise<{ success: boolean; error?: string }> {
+    try {
+      this.mediaStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+      // The screen itself is not needed
+      this.mediaStream.getVideoTracks().forEach(track => track.stop());
+      if (this.mediaStream.getAudioTracks().length === 0) {
+        throw new Error('No audio track in native loopback stream');
+      }
+
+      this.setupSystemAudioProcessing(this.mediaStream);
+      this.state.isSystemAudioActive = true;
+      console.log('✅ System audio loopback capture started');
+      return { success: true };
+    } catch (error) {
+      console.error('❌ Failed to start system audio loopback capture:', error);
+      this.stopSystemAudioCapture();
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  stopSystemAudioCapture(): void {
+    this.mediaStream?.getTracks().forEach(track => track.stop());
+    this.mediaStream = null;
+    this.cleanupAudioResources();
+    this.state.isSystemAudioActive = false;
+  }
+
   async captureManualScreenshot(imageQuality: 'low' | 'medium' | 'high' = 'medium'): Promise<{ success: boolean; base64?: string; error?: string }> {
     try {
       console.log('📸 Capturing manual screenshot...');
@@ -170,6 +219,24 @@ export class PlatformAudioCapture {
     return { ...this.state };
   }
 
+  /**
+   * Hands chunks to the listener as they are produced instead of keeping
+   * them until stopCapture, so a continuous session stays bounded.
+   */
+  setChunkListener(listener: ((chunk: AudioChunk) => void) | null): void {
+    this.chunkListener = listener;
+  }
+
+  // Called with every periodic screenshot (base64 JPEG)
+  setScreenshotListener(listener: ((base64: string) => void) | null): void {
+    this.screenshotListener = listener;
+  }
+
+  // Called when speech starts or stops on a source, per the chunk VAD
+  setVoiceActivityListener(listener: ((source: AudioChunk['source'], active: boolean) => void) | null): void {
+    this.voiceActivityListener = listener;
+  }
+
   // ============================================================================
   // PRIVATE METHODS - PLATFORM-SPECIFIC CAPTURE
   // ============================================================================
@@ -187,6 +254,7 @@ export class PlatformAudioCapture {
     try {
       this.micMediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          ...(await this.selectedMicrophoneConstraint()),
           sampleRate: this.SAMPLE_RATE,
           channelCount: 1,
           echoCancellation: true,
@@ -211,20 +279,33 @@ export class PlatformAudioCapture {
   private async startLinuxCapture(): Promise<void> {
     console.log('🐧 Starting Linux capture...');
 
+    // System audio is recorded from the output's monitor in the main process
+    const audioResult = await (window as any).api.startPlatformAudioCapture();
+    if (!audioResult.success) {
+      throw new Error('Failed to start Linux audio capture: ' + audioResult.error);
+    }
+
     // Get display media for screen capture
-    this.mediaStream = await navigator.mediaDevices.getDisplayMedia({
-      video: {
-        frameRate: 1,
-        width: { ideal: 1920 },
-        height: { ideal: 1080 },
-      },
-      audio: false, // Don't use system audio loopback on Linux
-    });
+    try {
+      this.mediaStream = await navigator.mediaDevices.getDisplayMedia({
+        video: {
+          frameRate: 1,
+          width: { ideal: 1920 },
+          height: { ideal: 1080 },
+        },
+        audio: false, // System audio comes from the main process
+      });
+    } catch (error) {
+      // Cancelled or refused: the main process must not keep recording for nobody
+      await (window as any).api.stopPlatformAudioCapture();
+      throw error;
+    }
 
     // Get microphone input
     try {
       this.micMediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          ...(await this.selectedMicrophoneConstraint()),
           sampleRate: this.SAMPLE_RATE,
           channelCount: 1,
           echoCancellation: true,
@@ -242,8 +323,8 @@ export class PlatformAudioCapture {
       this.state.isMicActive = false;
     }
 
-    this.state.isSystemAudioActive = false; // Limited system audio support on Linux
-    console.log('✅ Linux capture started');
+    this.state.isSystemAudioActive = true;
+    console.log('✅ Linux capture started - system audio handled by main process');
   }
 
   private async startWindowsCapture(): Promise<void> {
@@ -259,6 +340,7 @@ export class PlatformAudioCapture {
     try {
       this.micMediaStream = await navigator.mediaDevices.getUserMedia({
         audio: {
+          ...(await this.selectedMicrophoneConstraint()),
           sampleRate: this.SAMPLE_RATE,
           channelCount: 1,
           echoCancellation: true,
@@ -309,7 +391,7 @@ export class PlatformAudioCapture {
     }
 
     // Stop system audio in main process
-    await (window as any).api.stopPlatformAudioCapture();
+    await this.collectMainProcessAudio();
     this.state.isSystemAudioActive = false;
   }
 
@@ -329,6 +411,8 @@ export class PlatformAudioCapture {
       this.state.isMicActive = false;
     }
 
+    // Stop system audio in main process
+    await this.collectMainProcessAudio();
     this.state.isSystemAudioActive = false;
   }
 
@@ -361,37 +445,34 @@ export class PlatformAudioCapture {
     const micAudioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
     const micSource = micAudioContext.createMediaStreamSource(micStream);
     const micProcessor = micAudioContext.createScriptProcessor(this.BUFFER_SIZE, 1, 1);
+    const resampler = this.createResampler(micAudioContext, 'Microphone');
 
     let audioBuffer: number[] = [];
     const samplesPerChunk = this.SAMPLE_RATE * this.AUDIO_CHUNK_DURATION;
 
     micProcessor.onaudioprocess = async (e: AudioProcessingEvent) => {
       const inputData = e.inputBuffer.getChannelData(0);
-      audioBuffer.push(...inputData);
+      audioBuffer.push(...(resampler ? resampler.process(inputData) : inputData));
 
       while (audioBuffer.length >= samplesPerChunk) {
-        let chunk = audioBuffer.splice(0, samplesPerChunk);
-        let processedChunk = new Float32Array(chunk);
-
-        // Apply echo cancellation if system audio is available
-        if (this.aecProcessor && this.systemAudioBuffer.length > 0) {
-          const latestSystemAudio = this.systemAudioBuffer[this.systemAudioBuffer.length - 1];
-          const systemFloat32 = this.base64ToFloat32Array(latestSystemAudio.data);
-
-          if (this.isVoiceActive(systemFloat32)) {
-            processedChunk = this.aecProcessor.process(new Float32Array(chunk), systemFloat32);
-            console.log('🔊 Applied AEC because system audio is active');
-          }
+        let processedChunk = new Float32Array(audioBuffer.splice(0, samplesPerChunk));
+        this.reportVoiceActivity('microphone', processedChunk);
+
+        // Pair with the system audio captured over the same stretch; the
+        // canceller finds the remaining offset itself
+        if (this.echoCanceller && this.hasSystemReference) {
+          const reference = this.systemAudioBuffer.shift() ?? new Float32Array(0);
+          processedChunk = this.echoCanceller.process(processedChunk, reference);
         }
 
         const pcmData16 = this.convertFloat32ToInt16(processedChunk);
         const base64Data = this.arrayBufferToBase64(pcmData16.buffer);
 
-        this.audioChunks.push({
+        this.handleChunk({
           data: base64Data,
           timestamp: Date.now(),
           source: 'microphone',
-          mimeType: 'audio/pcm;rate=24000'
+          mimeType: this.MIME_TYPE
         });
       }
     };
@@ -407,24 +488,26 @@ export class PlatformAudioCapture {
     const micAudioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
     const micSource = micAudioContext.createMediaStreamSource(micStream);
     const micProcessor = micAudioContext.createScriptProcessor(this.BUFFER_SIZE, 1, 1);
+    const resampler = this.createResampler(micAudioContext, 'Microphone');
 
     let audioBuffer: number[] = [];
     const samplesPerChunk = this.SAMPLE_RATE * this.AUDIO_CHUNK_DURATION;
 
     micProcessor.onaudioprocess = async (e: AudioProcessingEvent) => {
       const inputData = e.inputBuffer.getChannelData(0);
-      audioBuffer.push(...inputData);
+      audioBuffer.push(...(resampler ? resampler.process(inputData) : inputData));
 
       while (audioBuffer.length >= samplesPerChunk) {
-        const chunk = audioBuffer.splice(0, samplesPerChunk);
-        const pcmData16 = this.convertFloat32ToInt16(new Float32Array(chunk));
+        const chunk = new Float32Array(audioBuffer.splice(0, samplesPerChunk));
+        this.reportVoiceActivity('microphone', chunk);
+        const pcmData16 = this.convertFloat32ToInt16(chunk);
         const base64Data = this.arrayBufferToBase64(pcmData16.buffer);
 
-        this.audioChunks.push({
+        this.handleChunk({
           data: base64Data,
           timestamp: Date.now(),
           source: 'microphone',
-          mimeType: 'audio/pcm;rate=24000'
+          mimeType: this.MIME_TYPE
         });
       }
     };
@@ -440,6 +523,7 @@ export class PlatformAudioCapture {
     const systemAudioContext = new AudioContext({ sampleRate: this.SAMPLE_RATE });
     const systemSource = systemAudioContext.createMediaStreamSource(systemStream);
     const systemProcessor = systemAudioContext.createScriptProcessor(this.BUFFER_SIZE, 1, 1);
+    const resampler = this.createResampler(systemAudioContext, 'System audio');
 
     let audioBuffer: number[] = [];
     const samplesPerChunk = this.SAMPLE_RATE * this.AUDIO_CHUNK_DURATION;
@@ -448,25 +532,24 @@ export class PlatformAudioCapture {
       const inputData = e.inputBuffer.getChannelData(0);
       if (!inputData || inputData.length === 0) return;
       
-      audioBuffer.push(...inputData);
+      audioBuffer.push(...(resampler ? resampler.process(inputData) : inputData));
 
       while (audioBuffer.length >= samplesPerChunk) {
-        const chunk = audioBuffer.splice(0, samplesPerChunk);
-        const pcmData16 = this.convertFloat32ToInt16(new Float32Array(chunk));
+        const chunk = new Float32Array(audioBuffer.splice(0, samplesPerChunk));
+        this.reportVoiceActivity('system', chunk);
+        const pcmData16 = this.convertFloat32ToInt16(chunk);
         const base64Data = this.arrayBufferToBase64(pcmData16.buffer);
 
-        this.audioChunks.push({
+        this.handleChunk({
           data: base64Data,
           timestamp: Date.now(),
           source: 'system',
-          mimeType: 'audio/pcm;rate=24000'
+          mimeType: this.MIME_TYPE
         });
 
         // Store for echo cancellation
-        this.systemAudioBuffer.push({
-          data: base64Data,
-          timestamp: Date.now()
-        });
+        this.systemAudioBuffer.push(chunk);
+        this.hasSystemReference = true;
 
         // Remove old system audio data
         if (this.systemAudioBuffer.length > this.MAX_SYSTEM_BUFFER_SIZE) {
@@ -495,7 +578,7 @@ export class PlatformAudioCapture {
     setTimeout(() => this.captureScreenshot(imageQuality), 100);
     
     // Set up interval for subsequent screenshots
-    setInterval(() => {
+    this.screenshotInterval = setInterval(() => {
       if (this.state.isRecording) {
         this.captureScreenshot(imageQuality);
       }
@@ -504,7 +587,10 @@ export class PlatformAudioCapture {
 
   private async stopScreenshotCapture(): Promise<void> {
     console.log('🛑 Stopping screenshot capture');
-    // Screenshot capture is handled by intervals, no specific cleanup needed
+    if (this.screenshotInterval) {
+      clearInterval(this.screenshotInterval);
+      this.screenshotInterval = null;
+    }
   }
 
   private async captureScreenshot(imageQuality: 'low' | 'medium' | 'high'): Promise<void> {
@@ -512,6 +598,9 @@ export class PlatformAudioCapture {
       const result = await (window as any).api.captureScreenshot({ quality: imageQuality });
       if (result.success) {
         console.log('📸 Screenshot captured successfully');
+        if (result.base64) {
+          this.screenshotListener?.(result.base64);
+        }
       } else {
         console.error('❌ Failed to capture screenshot:', result.error);
       }
@@ -524,6 +613,62 @@ export class PlatformAudioCapture {
   // PRIVATE METHODS - UTILITY FUNCTIONS
   // ============================================================================
 
+  /**
+   * The microphone picked in the audio settings. Browser device ids differ
+   * from the ones the main process uses, so the device is found by label.
+   */
+  private async selectedMicrophoneConstraint(): Promise<MediaTrackConstraints> {
+    try {
+      const result = await (window as any).api.getAudioConfiguration();
+      const selected = result?.config?.microphoneDevice;
+      if (!selected) return {};
+
+      const devices = await navigator.mediaDevices.enumerateDevices();
+      const match = devices.find(device => device.kind === 'audioinput' && (device.label === selected.label || device.deviceId === selected.id));
+      if (match) {
+        return { deviceId: { exact: match.deviceId } };
+      }
+      console.warn(`⚠️ Microphone "${selected.label}" not found, using the default input`);
+    } catch (error) {
+      console.warn('⚠️ Could not look up the selected microphone:', error);
+    }
+    return {};
+  }
+
+  // Stops main-process capture and adds the system audio it recorded
+  private async collectMainProcessAudio(): Promise<void> {
+    const result = await (window as any).api.stopPlatformAudioCapture();
+    const chunks: AudioChunk[] = result?.audioChunks ?? [];
+    chunks.filter(chunk => chunk.source === 'system').forEach(chunk => this.handleChunk(chunk));
+  }
+
+  private handleChunk(chunk: AudioChunk): void {
+    if (this.chunkListener) {
+      this.chunkListener(chunk);
+    } else {
+      this.audioChunks.push(chunk);
+    }
+  }
+
+  /**
+   * An AudioContext may not run at the rate it was asked for; the chunks
+   * must be canonical either way.
+   */
+  private createResampler(context: AudioContext, label: string): Resampler | null {
+    if (context.sampleRate === this.SAMPLE_RATE) return null;
+
+    console.log(`🔄 ${label} context runs at ${context.sampleRate} Hz, resampling to ${this.SAMPLE_RATE} Hz`);
+    return new Resampler(context.sampleRate, this.SAMPLE_RATE);
+  }
+
+  private reportVoiceActivity(source: AudioChunk['source'], samples: Float32Array): void {
+    const active = this.isVoiceActive(samples);
+    if (active === this.voiceActive[source]) return;
+
+    this.voiceActive[source] = active;
+    this.voiceActivityListener?.(source, active);
+  }
+
   private detectPlatform(): 'macos' | 'windows' | 'linux' {
     if (this.isMacOS) return 'macos';
     if (this.isWindows) return 'windows';
@@ -582,24 +727,6 @@ export class PlatformAudioCapture {
     return rms > threshold;
   }
 
-  private base64ToFloat32Array(base64: string): Float32Array {
-    const binaryString = atob(base64);
-    const bytes = new Uint8Array(binaryString.length);
-
-    for (let i = 0; i < binaryString.length; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-
-    const int16Array = new Int16Array(bytes.buffer);
-    const float32Array = new Float32Array(int16Array.length);
-
-    for (let i = 0; i < int16Array.length; i++) {
-      float32Array[i] = int16Array[i] / 32768.0;
-    }
-
-    return float32Array;
-  }
-
   private convertFloat32ToInt16(float32Array: Float32Array): Int16Array {
     const int16Array = new Int16Array(float32Array.length);
     for (let i = 0; i < float32Array.length; i++) {
@@ -619,57 +746,3 @@ export class PlatformAudioCapture {
     return btoa(binary);
   }
 }
-
-// ============================================================================
-// SIMPLE ACOUSTIC ECHO CANCELLATION
-// ============================================================================
-
-class SimpleAEC {
-  private adaptiveFilter: Float32Array;
-  private mu: number;
-  private echoDelay: number;
-  private sampleRate: number;
-  private delaySamples: number;
-  private echoGain: number;
-  private noiseFloor: number;
-  private targetErr: number;
-  private adaptRate: number;
-
-  constructor() {
-    this.adaptiveFilter = new Float32Array(1024);
-    this.mu = 0.2;
-    this.echoDelay = 100;
-    this.sampleRate = 24000;
-    this.delaySamples = Math.floor((this.echoDelay / 1000) * this.sampleRate);
-    this.echoGain = 0.5;
-    this.noiseFloor = 0.01;
-    this.targetErr = 0.002;
-    this.adaptRate = 0.1;
-
-    console.log('🎯 AEC initialized');
-  }
-
-  process(micData: Float32Array, systemData: Float32Array): Float32Array {
-    const output = new Float32Array(micData.length);
-    
-    for (let i = 0; i < micData.length; i++) {
-      const micSample = micData[i];
-      const sysIndex = Math.max(0, i - this.delaySamples);
-      const sysSample = sysIndex < systemData.length ? systemData[sysIndex] : 0;
-      
-      // Simple echo cancellation
-      const echoEstimate = sysSample * this.echoGain;
-      const error = micSample - echoEstimate;
-      
-      // Adaptive filter update
-      if (Math.abs(sysSample) > this.noiseFloor) {
-        this.echoGain += this.adaptRate * error * sysSample;
-        this.echoGain = Math.max(0, Math.min(1, this.echoGain));
-      }
-      
-      output[i] = error;
-    }
-    
-    return output;
-  }
-}
@@ -1,3 +1,5 @@
+import { CANONICAL_AUDIO_FORMAT, encodePcm, normalizeAudio } from '../../shared/audioFormat';
+
 // ============================================================================
 // SYSTEM AUDIO SERVICE
 // ============================================================================
@@ -167,22 +169,26 @@ export class SystemAudioService {
     };
   }
 
-  // Convert WebM audio to WAV format (if needed)
+  // Convert WebM audio to a canonical-format WAV (if needed)
   async convertWebmToWav(webmBuffer: ArrayBuffer): Promise<ArrayBuffer> {
     try {
       // Create an AudioContext to process the audio
       const audioContext = new AudioContext();
       
-      // Decode the WebM audio
+      // Decode the WebM audio (Opus in WebM is usually 48 kHz)
       const audioBuffer = await audioContext.decodeAudioData(webmBuffer);
+      await audioContext.close();
       
-      // Get the audio data
-      const channelData = audioBuffer.getChannelData(0); // Mono
-      const sampleRate = audioBuffer.sampleRate;
-      const length = channelData.length;
+      const channels: Float32Array[] = [];
+      for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+        channels.push(audioBuffer.getChannelData(channel));
+      }
+      const pcm = encodePcm(normalizeAudio(channels, audioBuffer.sampleRate), CANONICAL_AUDIO_FORMAT.bitsPerSample);
+      const { sampleRate, channels: channelCount, bitsPerSample } = CANONICAL_AUDIO_FORMAT;
+      const blockAlign = channelCount * bitsPerSample / 8;
       
       // Create WAV file
-      const wavBuffer = new ArrayBuffer(44 + length * 2); // 44 bytes header + 16-bit samples
+      const wavBuffer = new ArrayBuffer(44 + pcm.length); // 44 bytes header + samples
       const view = new DataView(wavBuffer);
       
       // WAV header
@@ -193,24 +199,19 @@ export class SystemAudioService {
       };
       
       writeString(0, 'RIFF');
-      view.setUint32(4, 36 + length * 2, true);
+      view.setUint32(4, 36 + pcm.length, true);
       writeString(8, 'WAVE');
       writeString(12, 'fmt ');
       view.setUint32(16, 16, true);
       view.setUint16(20, 1, true);
-      view.setUint16(22, 1, true);
+      view.setUint16(22, channelCount, true);
       view.setUint32(24, sampleRate, true);
-      view.setUint32(28, sampleRate * 2, true);
-      view.setUint16(32, 2, true);
-      view.setUint16(34, 16, true);
+      view.setUint32(28, sampleRate * blockAlign, true);
+      view.setUint16(32, blockAlign, true);
+      view.setUint16(34, bitsPerSample, true);
       writeString(36, 'data');
-      view.setUint32(40, length * 2, true);
-      
-      // Convert float samples to 16-bit integers
-      for (let i = 0; i < length; i++) {
-        const sample = Math.max(-1, Math.min(1, channelData[i]));
-        view.setInt16(44 + i * 2, sample * 0x7FFF, true);
-      }
+      view.setUint32(40, pcm.length, true);
+      new Uint8Array(wavBuffer, 44).set(pcm);
       
       return wavBuffer;
     } catch (error) {
@@ -0,0 +1,44 @@
+// ============================================================================
+// AUDIO DEVICE TYPES
+// ============================================================================
+
+// A microphone the main-process recorder can open
+export interface InputDevice {
+  // What sox is given as AUDIODEV: a PulseAudio source, ALSA device or CoreAudio device name
+  id: string;
+  label: string;
+  isDefault: boolean;
+}
+
+// An output device whose sound can be recorded as system audio
+export interface MonitorSource {
+  // What the recorder is pointed at: a PulseAudio monitor source or a PipeWire sink node
+  name: string;
+  description: string;
+  // The output device being monitored
+  sinkName: string;
+  // Monitors the current default output
+  isDefault: boolean;
+}
+
+// A chosen device; the label is kept to find the same device in the
+// renderer's enumerateDevices() list and to name it while it is unplugged
+export interface AudioDeviceSelection {
+  id: string;
+  label: string;
+}
+
+export interface AudioDeviceSettings {
+  // null records the system default input
+  microphone: AudioDeviceSelection | null;
+  // null follows the default output
+  systemOutput: AudioDeviceSelection | null;
+}
+
+export function isAudioDeviceSelection(value: unknown): value is AudioDeviceSelection | null {
+  if (value === null) return true;
+  const selection = value as AudioDeviceSelection;
+  return typeof value === 'object' &&
+    typeof selection.id === 'string' && selection.id.length > 0 &&
+    typeof selection.label === 'string';
+}
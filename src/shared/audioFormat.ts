@@ -0,0 +1,345 @@
+// ============================================================================
+// AUDIO FORMAT
+// ============================================================================
+//
+// One canonical format for everything we record. Capture paths run at
+// whatever rate their device or AudioContext gives them; each converts to
+// this format as audio arrives, so mixing, echo cancellation, transcription
+// and upload always see tracks that line up sample for sample. Pure
+// functions, usable from both the main process and the renderer.
+
+export type SampleFormat = 'int' | 'float';
+
+export interface AudioFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  sampleFormat: SampleFormat;
+}
+
+export const CANONICAL_AUDIO_FORMAT: AudioFormat = {
+  sampleRate: 16000,
+  channels: 1,
+  bitsPerSample: 16,
+  sampleFormat: 'int',
+};
+
+export const SUPPORTED_BIT_DEPTHS: Record<SampleFormat, number[]> = {
+  int: [8, 16, 24, 32],
+  float: [32, 64],
+};
+
+// Filter half-length, in zero crossings of the narrower band
+const ZERO_CROSSINGS = 16;
+// Passband edge as a fraction of the lower Nyquist, leaving room to roll off
+const CUTOFF = 0.95;
+// Odd rate pairs get their fractional delay rounded to this many steps
+const MAX_PHASES = 256;
+
+// ----------------------------------------------------------------------------
+// BIT DEPTH
+// ----------------------------------------------------------------------------
+
+/**
+ * Decodes interleaved little-endian PCM into one array per channel, scaled
+ * to -1..1. A trailing partial frame is ignored.
+ */
+export function decodePcm(bytes: Uint8Array, format: AudioFormat): Float32Array[] {
+  const { channels, bitsPerSample, sampleFormat } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = Math.floor(bytes.length / (bytesPerSample * channels));
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const read = sampleReader(view, bitsPerSample, sampleFormat);
+
+  const output: Float32Array[] = [];
+  for (let channel = 0; channel < channels; channel++) {
+    output.push(new Float32Array(frames));
+  }
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) {
+      output[channel][frame] = read((frame * channels + channel) * bytesPerSample);
+    }
+  }
+  return output;
+}
+
+/**
+ * Interleaves channels into little-endian PCM. Shorter channels are padded
+ * with silence and integer output is clipped to full scale.
+ */
+export function encodePcm(channels: Float32Array[], bitsPerSample: number = 16, sampleFormat: SampleFormat = 'int'): Uint8Array {
+  if (!SUPPORTED_BIT_DEPTHS[sampleFormat].includes(bitsPerSample)) {
+    throw new Error(`Unsupported bit depth: ${bitsPerSample}-bit ${sampleFormat}`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = Math.max(0, ...channels.map(samples => samples.length));
+  const bytes = new Uint8Array(frames * channels.length * bytesPerSample);
+  const write = sampleWriter(new DataView(bytes.buffer), bitsPerSample, sampleFormat);
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      const samples = channels[channel];
+      write((frame * channels.length + channel) * bytesPerSample, frame < samples.length ? samples[frame] : 0);
+    }
+  }
+  return bytes;
+}
+
+// ----------------------------------------------------------------------------
+// CHANNELS
+// ----------------------------------------------------------------------------
+
+/**
+ * Up- or down-mixes to the given channel count. Downmixing averages the
+ * channels that fold onto each output (stereo to mono averages left and
+ * right); upmixing repeats them (mono to stereo duplicates).
+ */
+export function mixChannels(channels: Float32Array[], targetChannels: number): Float32Array[] {
+  if (channels.length === targetChannels || channels.length === 0) return channels;
+
+  if (channels.length < targetChannels) {
+    return Array.from({ length: targetChannels }, (_, channel) => channels[channel % channels.length]);
+  }
+
+  const frames = Math.max(...channels.map(samples => samples.length));
+  const output = Array.from({ length: targetChannels }, () => new Float32Array(frames));
+  const counts = new Array(targetChannels).fill(0);
+  channels.forEach((_, channel) => counts[channel % targetChannels]++);
+
+  channels.forEach((samples, channel) => {
+    const target = output[channel % targetChannels];
+    const weight = 1 / counts[channel % targetChannels];
+    for (let i = 0; i < samples.length; i++) {
+      target[i] += samples[i] * weight;
+    }
+  });
+  return output;
+}
+
+// ----------------------------------------------------------------------------
+// SAMPLE RATE
+// ----------------------------------------------------------------------------
+
+/**
+ * Band-limited sample-rate converter (Blackman-windowed sinc, polyphase).
+ * It keeps its position as an exact ratio of the two rates, so chunks can be
+ * fed one at a time for hours without the output drifting from the input,
+ * and without clicks at chunk boundaries.
+ */
+export class Resampler {
+  private readonly up: number;
+  private readonly down: number;
+  private readonly phases: number;
+  // Taps on each side of the interpolated point, in input samples
+  private readonly halfWidth: number;
+  private readonly filters: Float32Array[];
+
+  private history = new Float32Array(0);
+  private historyStart = 0; // Input index of history[0]
+  private inputLength = 0;
+  private outputIndex = 0;
+
+  constructor(readonly fromRate: number, readonly toRate: number) {
+    if (!(fromRate > 0 && toRate > 0 && Number.isInteger(fromRate) && Number.isInteger(toRate))) {
+      throw new Error(`Invalid resampling rates ${fromRate} Hz → ${toRate} Hz`);
+    }
+
+    const divisor = greatestCommonDivisor(fromRate, toRate);
+    this.up = toRate / divisor;
+    this.down = fromRate / divisor;
+    this.phases = Math.min(this.up, MAX_PHASES);
+
+    // Downsampling moves the cutoff below the output's Nyquist
+    const cutoff = Math.min(1, toRate / fromRate) * CUTOFF;
+    this.halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+    this.filters = [];
+    for (let phase = 0; phase < this.phases; phase++) {
+      this.filters.push(this.designFilter(phase / this.phases, cutoff));
+    }
+  }
+
+  /**
+   * Converts the next chunk. Output lags the input by the filter's
+   * half-length until flush() is called.
+   */
+  process(input: Float32Array): Float32Array {
+    if (this.fromRate === this.toRate) return input;
+
+    this.append(input);
+    return this.generate(Infinity);
+  }
+
+  /**
+   * Returns the remaining output and starts over.
+   */
+  flush(): Float32Array {
+    if (this.fromRate === this.toRate) return new Float32Array(0);
+
+    const totalOutput = Math.ceil(this.inputLength * this.up / this.down);
+    // Pad with silence so the last samples have their right-hand taps
+    this.append(new Float32Array(this.halfWidth + 1));
+    const tail = this.generate(totalOutput);
+    this.reset();
+    return tail;
+  }
+
+  reset(): void {
+    this.history = new Float32Array(0);
+    this.historyStart = 0;
+    this.inputLength = 0;
+    this.outputIndex = 0;
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private designFilter(fraction: number, cutoff: number): Float32Array {
+    const taps = new Float32Array(this.halfWidth * 2);
+    let sum = 0;
+    for (let k = 0; k < taps.length; k++) {
+      // Distance from the interpolated point to input sample k
+      const x = k - this.halfWidth + 1 - fraction;
+      const t = x / this.halfWidth;
+      const blackman = Math.abs(t) >= 1 ? 0 : 0.42 + 0.5 * Math.cos(Math.PI * t) + 0.08 * Math.cos(2 * Math.PI * t);
+      taps[k] = cutoff * sinc(cutoff * x) * blackman;
+      sum += taps[k];
+    }
+    // Unity gain at DC for every phase
+    for (let k = 0; k < taps.length; k++) taps[k] /= sum;
+    return taps;
+  }
+
+  private append(input: Float32Array): void {
+    const combined = new Float32Array(this.history.length + input.length);
+    combined.set(this.history);
+    combined.set(input, this.history.length);
+    this.history = combined;
+    this.inputLength += input.length;
+  }
+
+  private generate(limit: number): Float32Array {
+    const available = this.historyStart + this.history.length;
+    // Upper bound on how many outputs the buffered input allows
+    const capacity = Math.max(0, Math.min(limit, Math.ceil(available * this.up / this.down) + 1) - this.outputIndex);
+    const output = new Float32Array(capacity);
+    let count = 0;
+
+    while (this.outputIndex < limit) {
+      // Output n sits at input position n * down / up
+      const position = this.outputIndex * this.down;
+      let base = Math.floor(position / this.up);
+      let phase = Math.round((position % this.up) * this.phases / this.up);
+      if (phase === this.phases) {
+        base++;
+        phase = 0;
+      }
+      if (base + this.halfWidth >= available) break;
+
+      const taps = this.filters[phase];
+      const first = base - this.halfWidth + 1;
+      let sample = 0;
+      for (let k = 0; k < taps.length; k++) {
+        const index = first + k - this.historyStart;
+        // Before the first input sample counts as silence
+        if (index >= 0) sample += this.history[index] * taps[k];
+      }
+      output[count++] = sample;
+      this.outputIndex++;
+    }
+
+    // Keep only what the next output still reaches back to
+    const nextFirst = Math.floor(this.outputIndex * this.down / this.up) - this.halfWidth;
+    const drop = Math.max(0, Math.min(nextFirst - this.historyStart, this.history.length));
+    if (drop > 0) {
+      this.history = this.history.slice(drop);
+      this.historyStart += drop;
+    }
+
+    return output.subarray(0, count);
+  }
+}
+
+/**
+ * Resamples a complete signal in one go.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+
+  const resampler = new Resampler(fromRate, toRate);
+  const head = resampler.process(samples);
+  const tail = resampler.flush();
+  const output = new Float32Array(head.length + tail.length);
+  output.set(head);
+  output.set(tail, head.length);
+  return output;
+}
+
+/**
+ * Brings decoded audio to the target channel count and sample rate.
+ */
+export function normalizeAudio(channels: Float32Array[], sampleRate: number, target: AudioFormat = CANONICAL_AUDIO_FORMAT): Float32Array[] {
+  return mixChannels(channels, target.channels).map(samples => resample(samples, sampleRate, target.sampleRate));
+}
+
+export function isCanonicalFormat(format: AudioFormat): boolean {
+  return format.sampleRate === CANONICAL_AUDIO_FORMAT.sampleRate &&
+    format.channels === CANONICAL_AUDIO_FORMAT.channels &&
+    format.bitsPerSample === CANONICAL_AUDIO_FORMAT.bitsPerSample &&
+    format.sampleFormat === CANONICAL_AUDIO_FORMAT.sampleFormat;
+}
+
+// ----------------------------------------------------------------------------
+// PRIVATE HELPERS
+// ----------------------------------------------------------------------------
+
+function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  while (b !== 0) {
+    const remainder = a % b;
+    a = b;
+    b = remainder;
+  }
+  return a;
+}
+
+function sampleReader(view: DataView, bitsPerSample: number, sampleFormat: SampleFormat): (offset: number) => number {
+  if (sampleFormat === 'float') {
+    return bitsPerSample === 64 ? offset => view.getFloat64(offset, true) : offset => view.getFloat32(offset, true);
+  }
+  switch (bitsPerSample) {
+    // 8-bit PCM is unsigned
+    case 8: return offset => (view.getUint8(offset) - 128) / 128;
+    case 16: return offset => view.getInt16(offset, true) / 32768;
+    case 24: return offset => ((view.getInt8(offset + 2) << 16) | view.getUint16(offset, true)) / 8388608;
+    default: return offset => view.getInt32(offset, true) / 2147483648;
+  }
+}
+
+function sampleWriter(view: DataView, bitsPerSample: number, sampleFormat: SampleFormat): (offset: number, sample: number) => void {
+  if (sampleFormat === 'float') {
+    return bitsPerSample === 64
+      ? (offset, sample) => view.setFloat64(offset, sample, true)
+      : (offset, sample) => view.setFloat32(offset, sample, true);
+  }
+
+  const scale = 2 ** (bitsPerSample - 1);
+  const toInt = (sample: number) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    return Math.round(clamped < 0 ? clamped * scale : clamped * (scale - 1));
+  };
+  switch (bitsPerSample) {
+    case 8: return (offset, sample) => view.setUint8(offset, toInt(sample) + 128);
+    case 16: return (offset, sample) => view.setInt16(offset, toInt(sample), true);
+    case 24: return (offset, sample) => {
+      const value = toInt(sample);
+      view.setUint16(offset, value & 0xffff, true);
+      view.setInt8(offset + 2, value >> 16);
+    };
+    default: return (offset, sample) => view.setInt32(offset, toInt(sample), true);
+  }
+}
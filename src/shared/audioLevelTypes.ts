@@ -0,0 +1,25 @@
+import { LevelMeter } from './audioProcessingTypes';
+
+// ============================================================================
+// LIVE AUDIO LEVEL TYPES
+// ============================================================================
+
+export const AUDIO_LEVELS_CHANNEL = 'audio-levels';
+
+// One track's level since the previous update
+export interface LiveTrackLevel extends LevelMeter {
+  // A sample reached full scale within the last second
+  clipping: boolean;
+  // How long the track has stayed below the signal threshold
+  silentMs: number;
+}
+
+// Pushed to the renderer a few times a second while recording
+export interface LiveAudioLevels {
+  // False on the final event after the recording stopped
+  recording: boolean;
+  elapsedMs: number;
+  // null when the track is not being recorded
+  microphone: LiveTrackLevel | null;
+  system: LiveTrackLevel | null;
+}
@@ -0,0 +1,31 @@
+// ============================================================================
+// AUDIO PROCESSING TYPES
+// ============================================================================
+//
+// Stages of the microphone clean-up chain, switched on and off through
+// set-audio-configuration, and the levels metered after each of them.
+
+export interface AudioProcessingSettings {
+  highPass: boolean;
+  noiseSuppression: boolean;
+  autoGain: boolean;
+  limiter: boolean;
+}
+
+export type AudioProcessingStage = keyof AudioProcessingSettings;
+
+export const DEFAULT_AUDIO_PROCESSING: AudioProcessingSettings = {
+  highPass: true,
+  noiseSuppression: true,
+  autoGain: true,
+  limiter: true,
+};
+
+// Levels in dBFS; digital silence reads as -100
+export interface LevelMeter {
+  rmsDb: number;
+  peakDb: number;
+}
+
+// Input level plus the level after each stage that ran
+export type AudioLevels = { input: LevelMeter } & Partial<Record<AudioProcessingStage, LevelMeter>>;
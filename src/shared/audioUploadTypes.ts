@@ -0,0 +1,39 @@
+// ============================================================================
+// AUDIO UPLOAD TYPES
+// ============================================================================
+//
+// Recordings are compressed before upload when the server and the local
+// encoders allow it. The format is negotiated with the presign endpoint, and
+// WAV is always the fallback.
+
+export type AudioUploadFormat = 'opus' | 'flac' | 'wav';
+
+export const AUDIO_UPLOAD_FORMATS: AudioUploadFormat[] = ['opus', 'flac', 'wav'];
+
+export const AUDIO_UPLOAD_CONTENT_TYPES: Record<AudioUploadFormat, string> = {
+  opus: 'audio/ogg',
+  flac: 'audio/flac',
+  wav: 'audio/wav',
+};
+
+export const AUDIO_UPLOAD_EXTENSIONS: Record<AudioUploadFormat, string> = {
+  opus: 'ogg',
+  flac: 'flac',
+  wav: 'wav',
+};
+
+export interface AudioUploadSettings {
+  // Preferred format; 'wav' turns compression off
+  format: AudioUploadFormat;
+}
+
+/**
+ * Works out a stored recording's format from its URL, for playback and
+ * downloads. Anything unrecognised is treated as WAV, which older uploads are.
+ */
+export function audioUploadFormatFromUrl(url: string): AudioUploadFormat {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  if (extension === 'ogg' || extension === 'opus') return 'opus';
+  if (extension === 'flac') return 'flac';
+  return 'wav';
+}
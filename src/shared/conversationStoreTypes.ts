@@ -0,0 +1,40 @@
+// ============================================================================
+// LOCAL CONVERSATION STORE TYPES
+// ============================================================================
+
+export interface StoredConversation {
+  id: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+  lastSyncedAt: string | null;
+}
+
+export interface StoredMessage {
+  id: string;
+  conversationId: string;
+  contentType: 'text' | 'screenshot' | 'audio' | string;
+  senderType?: string;
+  textContent?: string;
+  screenshotUrl?: string;
+  audioUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoredConversationWithMessages {
+  conversation: StoredConversation;
+  messages: StoredMessage[];
+}
+
+export interface MessageSearchResult {
+  conversation: StoredConversation;
+  message: StoredMessage;
+  snippet: string;
+}
+
+export interface ConversationSyncResult {
+  conversations: number;
+  messages: number;
+}
@@ -0,0 +1,420 @@
+// ============================================================================
+// ACOUSTIC ECHO CANCELLATION
+// ============================================================================
+//
+// Removes the far end (system audio played through the speakers) from the
+// microphone. Used by the main-process mixer and by PlatformAudioCapture in
+// the renderer, so it stays free of Node and DOM APIs.
+//
+// - Delay estimation: cross-correlating the microphone with the reference
+//   finds how late the echo arrives (output latency plus the air path).
+// - A multi-tap NLMS filter placed at that delay models the room and
+//   subtracts the predicted echo.
+// - Double-talk detection stops adaptation while the user talks over the far
+//   end, so the filter doesn't learn to cancel the user's own voice.
+
+export interface EchoCancellerOptions {
+  sampleRate: number;
+  // Echo tail modelled after the bulk delay; cost grows linearly with it
+  filterLengthMs?: number;
+  // Longest delay the estimator searches for
+  maxDelayMs?: number;
+  // NLMS step size (0-1): higher converges faster, lower leaves less residual
+  stepSize?: number;
+}
+
+export interface EchoDelayEstimate {
+  delaySamples: number;
+  // Normalized cross-correlation at that delay (0-1)
+  correlation: number;
+  // Regression gain of the microphone on the delayed reference
+  gain: number;
+}
+
+export interface EchoCancellerStats {
+  // null until an echo has been found
+  delayMs: number | null;
+  // Echo return loss enhancement over recent far-end-only blocks
+  erleDb: number;
+  doubleTalk: boolean;
+}
+
+const DEFAULT_FILTER_LENGTH_MS = 32;
+const DEFAULT_MAX_DELAY_MS = 400;
+const DEFAULT_STEP_SIZE = 0.5;
+
+// Correlation is searched coarsely at about this rate, then refined
+const ESTIMATION_RATE = 4000;
+// Below this the microphone isn't hearing the reference at all
+const MIN_CORRELATION = 0.3;
+const ESTIMATE_WINDOW_MS = 1000;
+const ESTIMATE_INTERVAL_MS = 1000;
+
+const BLOCK_MS = 10;
+// Mean square level (per sample) under which a signal counts as silent
+const SILENCE_ENERGY = 1e-6;
+// Microphone this much louder than the predicted echo means the user is talking
+const DOUBLE_TALK_RATIO = 2.5;
+// Once converged, a block leaving this much more residual than usual is double talk
+const RESIDUAL_RATIO = 4;
+const CONVERGED_ERLE = 16; // 12 dB
+// Speech pauses between syllables shouldn't let adaptation resume
+const DOUBLE_TALK_HOLD_MS = 150;
+// Double talk this long is more likely a changed echo path (e.g. volume)
+const MAX_DOUBLE_TALK_MS = 2000;
+// Taps placed before the estimated delay, for estimates that are slightly late
+const LEAD_FRACTION = 1 / 8;
+
+/**
+ * Finds how many samples the echo of `reference` lags behind in `mic`. Both
+ * arrays start at the same moment. Returns null when the microphone doesn't
+ * carry the reference (headphones, or nothing playing).
+ */
+export function estimateEchoDelay(
+  mic: Float32Array,
+  reference: Float32Array,
+  sampleRate: number,
+  maxDelayMs: number = DEFAULT_MAX_DELAY_MS
+): EchoDelayEstimate | null {
+  const factor = Math.max(1, Math.floor(sampleRate / ESTIMATION_RATE));
+  const maxDelay = Math.min(Math.floor(maxDelayMs / 1000 * sampleRate), mic.length - 1);
+  if (maxDelay < 0) return null;
+
+  const coarse = findBestLag(decimate(mic, factor), decimate(reference, factor), 0, Math.floor(maxDelay / factor));
+  if (!coarse) return null;
+
+  const fine = findBestLag(
+    mic,
+    reference,
+    Math.max(0, (coarse.delaySamples - 1) * factor),
+    Math.min(maxDelay, (coarse.delaySamples + 1) * factor)
+  );
+  return fine && fine.correlation >= MIN_CORRELATION ? fine : null;
+}
+
+/**
+ * Cancels echo across a whole recording. The delay is taken from the
+ * loudest second of the reference up front, so the start is covered too.
+ */
+export function cancelEcho(mic: Float32Array, reference: Float32Array, options: EchoCancellerOptions): Float32Array {
+  const canceller = new EchoCanceller(options);
+  const window = Math.round(ESTIMATE_WINDOW_MS / 1000 * options.sampleRate);
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+
+  let loudestStart = 0;
+  let loudestEnergy = 0;
+  for (let start = 0; start < reference.length; start += window) {
+    let energy = 0;
+    for (let i = start; i < Math.min(start + window, reference.length); i++) {
+      energy += reference[i] * reference[i];
+    }
+    if (energy > loudestEnergy) {
+      loudestEnergy = energy;
+      loudestStart = start;
+    }
+  }
+
+  if (loudestEnergy > 0) {
+    const end = loudestStart + window + Math.round(maxDelayMs / 1000 * options.sampleRate);
+    const estimate = estimateEchoDelay(
+      mic.subarray(loudestStart, end),
+      reference.subarray(loudestStart, end),
+      options.sampleRate,
+      maxDelayMs
+    );
+    if (estimate) {
+      canceller.setDelay(estimate);
+    }
+  }
+
+  return canceller.process(mic, reference);
+}
+
+export class EchoCanceller {
+  private readonly sampleRate: number;
+  private readonly filterLength: number;
+  private readonly maxDelay: number;
+  private readonly stepSize: number;
+  private readonly blockSize: number;
+  private readonly estimateWindow: number;
+
+  private weights: Float32Array;
+  // Ring buffers indexed by absolute sample position
+  private reference: Float32Array;
+  private referenceMask: number;
+  private micHistory: Float32Array;
+  private micMask: number;
+  private position = 0;
+
+  private echoDelay: number | null = null;
+  private echoGain = 0;
+  // Energy of the filter's echo estimate relative to the reference
+  private echoRatio = 0;
+  private samplesSinceEstimate = 0;
+  private doubleTalkHold = 0;
+  private doubleTalkRun = 0;
+  private isDoubleTalk = false;
+  private smoothedMicEnergy = 0;
+  private smoothedErrorEnergy = 0;
+
+  constructor(options: EchoCancellerOptions) {
+    this.sampleRate = options.sampleRate;
+    this.filterLength = Math.max(1, Math.round((options.filterLengthMs ?? DEFAULT_FILTER_LENGTH_MS) / 1000 * this.sampleRate));
+    this.maxDelay = Math.round((options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS) / 1000 * this.sampleRate);
+    this.stepSize = options.stepSize ?? DEFAULT_STEP_SIZE;
+    this.blockSize = Math.max(1, Math.round(BLOCK_MS / 1000 * this.sampleRate));
+    this.estimateWindow = Math.round(ESTIMATE_WINDOW_MS / 1000 * this.sampleRate);
+
+    this.weights = new Float32Array(this.filterLength);
+    const referenceSize = nextPowerOfTwo(this.maxDelay + this.estimateWindow + this.filterLength + this.blockSize);
+    this.reference = new Float32Array(referenceSize);
+    this.referenceMask = referenceSize - 1;
+    const micSize = nextPowerOfTwo(this.maxDelay + this.estimateWindow);
+    this.micHistory = new Float32Array(micSize);
+    this.micMask = micSize - 1;
+  }
+
+  /**
+   * Cancels echo from a stretch of microphone audio. `reference` is the
+   * system audio captured over the same stretch; a shorter one is padded
+   * with silence. Call repeatedly with consecutive chunks.
+   */
+  process(mic: Float32Array, reference: Float32Array): Float32Array {
+    const output = new Float32Array(mic.length);
+    for (let start = 0; start < mic.length; start += this.blockSize) {
+      this.processBlock(mic, reference, start, Math.min(start + this.blockSize, mic.length), output);
+    }
+    return output;
+  }
+
+  /**
+   * Uses a delay found elsewhere, e.g. over a whole recording, instead of
+   * waiting for the first estimate.
+   */
+  setDelay(estimate: EchoDelayEstimate): void {
+    this.applyEstimate(estimate);
+    this.samplesSinceEstimate = 0;
+  }
+
+  reset(): void {
+    this.weights.fill(0);
+    this.reference.fill(0);
+    this.micHistory.fill(0);
+    this.position = 0;
+    this.echoDelay = null;
+    this.echoGain = 0;
+    this.echoRatio = 0;
+    this.samplesSinceEstimate = 0;
+    this.doubleTalkHold = 0;
+    this.doubleTalkRun = 0;
+    this.isDoubleTalk = false;
+    this.smoothedMicEnergy = 0;
+    this.smoothedErrorEnergy = 0;
+  }
+
+  getStats(): EchoCancellerStats {
+    return {
+      delayMs: this.echoDelay === null ? null : this.echoDelay / this.sampleRate * 1000,
+      erleDb: this.smoothedErrorEnergy > 0 ? 10 * Math.log10(this.smoothedMicEnergy / this.smoothedErrorEnergy) : 0,
+      doubleTalk: this.isDoubleTalk,
+    };
+  }
+
+  // --------------------------------------------------------------------------
+  // PRIVATE METHODS
+  // --------------------------------------------------------------------------
+
+  private processBlock(mic: Float32Array, reference: Float32Array, start: number, end: number, output: Float32Array): void {
+    const length = end - start;
+    const blockStart = this.position;
+    for (let i = 0; i < length; i++) {
+      this.reference[(blockStart + i) & this.referenceMask] = start + i < reference.length ? reference[start + i] : 0;
+      this.micHistory[(blockStart + i) & this.micMask] = mic[start + i];
+    }
+    this.position += length;
+
+    this.samplesSinceEstimate += length;
+    if (this.samplesSinceEstimate >= ESTIMATE_INTERVAL_MS / 1000 * this.sampleRate &&
+        this.position >= this.estimateWindow + this.maxDelay) {
+      this.samplesSinceEstimate = 0;
+      this.reestimateDelay();
+    }
+
+    // Until the microphone is known to pick up the reference there is nothing to cancel
+    if (this.echoDelay === null) {
+      output.set(mic.subarray(start, end), start);
+      return;
+    }
+
+    const delay = this.echoDelay;
+    const bulkDelay = Math.max(0, delay - Math.floor(this.filterLength * LEAD_FRACTION));
+
+    let micEnergy = 0;
+    let alignedEnergy = 0;
+    for (let i = 0; i < length; i++) {
+      micEnergy += mic[start + i] * mic[start + i];
+      const x = this.reference[(blockStart + i - delay) & this.referenceMask];
+      alignedEnergy += x * x;
+    }
+
+    const isFarEndActive = alignedEnergy > SILENCE_ENERGY * length;
+    const predictedEcho = Math.max(this.echoGain * this.echoGain, this.echoRatio) * alignedEnergy;
+    this.isDoubleTalk = isFarEndActive && micEnergy > DOUBLE_TALK_RATIO * predictedEcho + SILENCE_ENERGY * length;
+    if (this.isDoubleTalk) {
+      this.startDoubleTalkHold();
+    }
+    const adapt = isFarEndActive && this.doubleTalkHold <= 0;
+    this.doubleTalkHold = Math.max(0, this.doubleTalkHold - length);
+
+    // x·x over the filter's taps, kept up to date sample by sample
+    let tapEnergy = 0;
+    for (let k = 0; k < this.filterLength; k++) {
+      const x = this.reference[(blockStart - bulkDelay - k) & this.referenceMask];
+      tapEnergy += x * x;
+    }
+
+    let echoEnergy = 0;
+    let errorEnergy = 0;
+    for (let i = 0; i < length; i++) {
+      const t = blockStart + i;
+      const newest = this.reference[(t - bulkDelay) & this.referenceMask];
+      const oldest = this.reference[(t - bulkDelay - this.filterLength) & this.referenceMask];
+      if (i > 0) {
+        tapEnergy = Math.max(0, tapEnergy + newest * newest - oldest * oldest);
+      }
+
+      let estimate = 0;
+      for (let k = 0; k < this.filterLength; k++) {
+        estimate += this.weights[k] * this.reference[(t - bulkDelay - k) & this.referenceMask];
+      }
+      const error = mic[start + i] - estimate;
+      output[start + i] = error;
+      echoEnergy += estimate * estimate;
+      errorEnergy += error * error;
+
+      if (adapt) {
+        const step = this.stepSize * error / (tapEnergy + SILENCE_ENERGY * this.filterLength);
+        for (let k = 0; k < this.filterLength; k++) {
+          this.weights[k] += step * this.reference[(t - bulkDelay - k) & this.referenceMask];
+        }
+      }
+    }
+
+    // Quieter near-end speech only shows in what the filter couldn't remove.
+    // This judges the block after the fact, so it holds off the next ones.
+    const isConverged = this.smoothedErrorEnergy > 0 && this.smoothedMicEnergy > CONVERGED_ERLE * this.smoothedErrorEnergy;
+    if (isFarEndActive && isConverged &&
+        errorEnergy * this.smoothedMicEnergy > RESIDUAL_RATIO * micEnergy * this.smoothedErrorEnergy) {
+      this.isDoubleTalk = true;
+      this.startDoubleTalkHold();
+    }
+
+    if (this.isDoubleTalk) {
+      this.doubleTalkRun += length;
+      if (this.doubleTalkRun > MAX_DOUBLE_TALK_MS / 1000 * this.sampleRate) {
+        this.resetFilter();
+      }
+    } else {
+      this.doubleTalkRun = 0;
+      if (adapt) {
+        this.echoRatio = 0.9 * this.echoRatio + 0.1 * (echoEnergy / alignedEnergy);
+        this.smoothedMicEnergy = 0.95 * this.smoothedMicEnergy + 0.05 * micEnergy;
+        this.smoothedErrorEnergy = 0.95 * this.smoothedErrorEnergy + 0.05 * errorEnergy;
+      }
+    }
+  }
+
+  private startDoubleTalkHold(): void {
+    this.doubleTalkHold = Math.round(DOUBLE_TALK_HOLD_MS / 1000 * this.sampleRate);
+  }
+
+  private resetFilter(): void {
+    this.weights.fill(0);
+    this.echoRatio = 0;
+    this.doubleTalkRun = 0;
+    this.smoothedMicEnergy = 0;
+    this.smoothedErrorEnergy = 0;
+  }
+
+  private reestimateDelay(): void {
+    const span = this.estimateWindow + this.maxDelay;
+    const from = this.position - span;
+    const mic = new Float32Array(span);
+    const reference = new Float32Array(span);
+    let referenceEnergy = 0;
+    for (let i = 0; i < span; i++) {
+      mic[i] = this.micHistory[(from + i) & this.micMask];
+      reference[i] = this.reference[(from + i) & this.referenceMask];
+      referenceEnergy += reference[i] * reference[i];
+    }
+
+    // A silent far end says nothing about the echo path; keep what we have
+    if (referenceEnergy <= SILENCE_ENERGY * span) return;
+
+    const estimate = estimateEchoDelay(mic, reference, this.sampleRate, this.maxDelay / this.sampleRate * 1000);
+    if (estimate) {
+      this.applyEstimate(estimate);
+    }
+  }
+
+  private applyEstimate(estimate: EchoDelayEstimate): void {
+    this.echoGain = Math.abs(estimate.gain);
+
+    // Small drift stays within the taps; a real move needs a fresh filter
+    const tolerance = Math.floor(this.filterLength * LEAD_FRACTION);
+    if (this.echoDelay === null || Math.abs(estimate.delaySamples - this.echoDelay) > tolerance) {
+      this.echoDelay = estimate.delaySamples;
+      this.resetFilter();
+    }
+  }
+}
+
+// ----------------------------------------------------------------------------
+// HELPERS
+// ----------------------------------------------------------------------------
+
+function findBestLag(mic: Float32Array, reference: Float32Array, minLag: number, maxLag: number): EchoDelayEstimate | null {
+  let best: EchoDelayEstimate | null = null;
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let cross = 0;
+    let micEnergy = 0;
+    let referenceEnergy = 0;
+    for (let n = lag; n < mic.length; n++) {
+      const x = n - lag < reference.length ? reference[n - lag] : 0;
+      cross += mic[n] * x;
+      micEnergy += mic[n] * mic[n];
+      referenceEnergy += x * x;
+    }
+    if (micEnergy <= 0 || referenceEnergy <= 0) continue;
+
+    // Echo can come back with inverted polarity
+    const correlation = Math.abs(cross) / Math.sqrt(micEnergy * referenceEnergy);
+    if (!best || correlation > best.correlation) {
+      best = { delaySamples: lag, correlation, gain: cross / referenceEnergy };
+    }
+  }
+
+  return best;
+}
+
+// Averaging doubles as the low-pass filter before dropping samples
+function decimate(samples: Float32Array, factor: number): Float32Array {
+  if (factor <= 1) return samples;
+
+  const decimated = new Float32Array(Math.floor(samples.length / factor));
+  for (let i = 0; i < decimated.length; i++) {
+    let sum = 0;
+    for (let j = 0; j < factor; j++) {
+      sum += samples[i * factor + j];
+    }
+    decimated[i] = sum / factor;
+  }
+  return decimated;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) size <<= 1;
+  return size;
+}
@@ -0,0 +1,173 @@
+// ============================================================================
+// IPC COMMAND PROTOCOL
+// ============================================================================
+//
+// Shared by the main process, the preload bridge and the renderer. Every
+// command travels as a versioned envelope with its own request ID and is
+// answered with an explicit success or error reply.
+
+export const COMMAND_PROTOCOL_VERSION = 1;
+export const COMMAND_CHANNEL = 'contextor-command';
+
+// --------------------------------------------------------------------------
+// COMMANDS
+// --------------------------------------------------------------------------
+
+export type Command =
+  | { type: 'take-screenshot' }
+  | { type: 'take-region-screenshot' }
+  | { type: 'submit-screenshot-review'; reviewId: string; imageDataUrl: string; prompt: string; blurRegions: ImageRegion[] }
+  | { type: 'cancel-screenshot-review'; reviewId: string }
+  | { type: 'end-conversation' }
+  | { type: 'resume-conversation'; conversationId: string }
+  | { type: 'start-audio-recording' }
+  | { type: 'stop-audio-recording' }
+  | { type: 'send-chat-message'; text: string }
+  | { type: 'cancel-chat-stream'; streamId: string }
+  | { type: 'start-live-assist' }
+  | { type: 'stop-live-assist' }
+  | { type: 'pause-live-assist' }
+  | { type: 'resume-live-assist' };
+
+export type CommandType = Command['type'];
+
+export interface CommandRequest<C extends Command = Command> {
+  version: number;
+  requestId: string;
+  command: C;
+}
+
+// --------------------------------------------------------------------------
+// RESPONSES
+// --------------------------------------------------------------------------
+
+export type CommandErrorCode =
+  | 'unsupported-version'
+  | 'invalid-request'
+  | 'unknown-command'
+  | 'invalid-payload'
+  | 'handler-failed';
+
+export interface CommandError {
+  code: CommandErrorCode;
+  message: string;
+}
+
+export type CommandResponse =
+  | { version: number; requestId: string; ok: true }
+  | { version: number; requestId: string; ok: false; error: CommandError };
+
+// --------------------------------------------------------------------------
+// STREAMING EVENTS
+// --------------------------------------------------------------------------
+
+export const CHAT_STREAM_CHANNEL = 'chat-stream';
+
+export type ChatStreamEvent =
+  | { streamId: string; type: 'start' }
+  | { streamId: string; type: 'token'; delta: string }
+  | { streamId: string; type: 'done'; content: string }
+  | { streamId: string; type: 'cancelled'; content: string }
+  | { streamId: string; type: 'error'; message: string };
+
+// --------------------------------------------------------------------------
+// SCREENSHOT REVIEW
+// --------------------------------------------------------------------------
+
+export const SCREENSHOT_REVIEW_CHANNEL = 'screenshot-review';
+export const PNG_DATA_URL_PREFIX = 'data:image/png;base64,';
+
+// Sent to the renderer when a capture is waiting for annotation
+export interface ScreenshotReviewRequest {
+  reviewId: string;
+  imageDataUrl: string;
+}
+
+// Rectangle in screenshot pixels, e.g. an area the user marked for blurring
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// --------------------------------------------------------------------------
+// VALIDATION
+// --------------------------------------------------------------------------
+
+const isImageRegion = (value: unknown): value is ImageRegion => {
+  if (typeof value !== 'object' || value === null) return false;
+  const region = value as Record<string, unknown>;
+  return ['x', 'y', 'width', 'height'].every(key => Number.isFinite(region[key]));
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const payloadValidators: { [T in CommandType]: (command: Record<string, unknown>) => boolean } = {
+  'take-screenshot': () => true,
+  'take-region-screenshot': () => true,
+  'submit-screenshot-review': (command) =>
+    isNonEmptyString(command.reviewId)
+    && typeof command.imageDataUrl === 'string'
+    && command.imageDataUrl.startsWith(PNG_DATA_URL_PREFIX)
+    && typeof command.prompt === 'string'
+    && Array.isArray(command.blurRegions)
+    && command.blurRegions.every(isImageRegion),
+  'cancel-screenshot-review': (command) => isNonEmptyString(command.reviewId),
+  'end-conversation': () => true,
+  'resume-conversation': (command) => isNonEmptyString(command.conversationId),
+  'start-audio-recording': () => true,
+  'stop-audio-recording': () => true,
+  'send-chat-message': (command) => isNonEmptyString(command.text),
+  'cancel-chat-stream': (command) => isNonEmptyString(command.streamId),
+  'start-live-assist': () => true,
+  'stop-live-assist': () => true,
+  'pause-live-assist': () => true,
+  'resume-live-assist': () => true,
+};
+
+export const isKnownCommandType = (type: unknown): type is CommandType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(payloadValidators, type);
+
+/**
+ * Validates an incoming command envelope.
+ * @returns null when the request is valid, otherwise the error to reply with
+ */
+export function validateCommandRequest(request: unknown): CommandError | null {
+  if (!request || typeof request !== 'object') {
+    return { code: 'invalid-request', message: 'Command request must be an object' };
+  }
+
+  const { version, requestId, command } = request as Partial<CommandRequest>;
+
+  if (version !== COMMAND_PROTOCOL_VERSION) {
+    return { code: 'unsupported-version', message: `Unsupported protocol version: ${version}` };
+  }
+
+  if (!isNonEmptyString(requestId)) {
+    return { code: 'invalid-request', message: 'Command request is missing a request ID' };
+  }
+
+  if (!command || typeof command !== 'object') {
+    return { code: 'invalid-request', message: 'Command request is missing a command' };
+  }
+
+  if (!isKnownCommandType(command.type)) {
+    return { code: 'unknown-command', message: `Unknown command: ${String(command.type)}` };
+  }
+
+  if (!payloadValidators[command.type](command)) {
+    return { code: 'invalid-payload', message: `Invalid payload for command: ${command.type}` };
+  }
+
+  return null;
+}
+
+export function createCommandSuccess(requestId: string): CommandResponse {
+  return { version: COMMAND_PROTOCOL_VERSION, requestId, ok: true };
+}
+
+export function createCommandFailure(requestId: string, error: CommandError): CommandResponse {
+  return { version: COMMAND_PROTOCOL_VERSION, requestId, ok: false, error };
+}
@@ -0,0 +1,49 @@
+import { CANONICAL_AUDIO_FORMAT } from './audioFormat';
+
+// ============================================================================
+// LIVE ASSIST TYPES
+// ============================================================================
+//
+// Live assist listens continuously and asks the AI for suggestions on its
+// own, using the last few minutes of conversation and screen as context.
+
+export const LIVE_ASSIST_CHANNEL = 'live-assist-update';
+
+// PlatformAudioCapture streams 16-bit mono PCM in the canonical format
+export const LIVE_ASSIST_SAMPLE_RATE = CANONICAL_AUDIO_FORMAT.sampleRate;
+
+export type LiveAssistState = 'stopped' | 'running' | 'paused';
+
+// Why a suggestion was requested
+export type LiveAssistTrigger = 'interval' | 'question';
+
+export interface LiveAssistSettings {
+  // How often to ask for a suggestion while the conversation keeps going
+  intervalSeconds: number;
+  // How much transcript and screen history goes with each request
+  contextMinutes: number;
+  // 0 disables periodic screenshots
+  screenshotIntervalSeconds: number;
+}
+
+// How readily a remark from the other side counts as a question
+export type QuestionSensitivity = 'low' | 'medium' | 'high';
+
+export const QUESTION_SENSITIVITIES: QuestionSensitivity[] = ['low', 'medium', 'high'];
+
+export interface QuestionDetectionSettings {
+  sensitivity: QuestionSensitivity;
+  // Conversations where detected questions are not answered automatically
+  disabledConversationIds: string[];
+}
+
+export const LIVE_ASSIST_LIMITS = {
+  intervalSeconds: { min: 15, max: 600 },
+  contextMinutes: { min: 1, max: 30 },
+  screenshotIntervalSeconds: { min: 0, max: 300 },
+};
+
+export type LiveAssistEvent =
+  | { type: 'state'; state: LiveAssistState }
+  | { type: 'suggestion'; trigger: LiveAssistTrigger; text: string }
+  | { type: 'error'; message: string };
@@ -0,0 +1,17 @@
+// ============================================================================
+// MULTIPART UPLOAD TYPES
+// ============================================================================
+
+export const UPLOAD_PROGRESS_CHANNEL = 'upload-progress';
+
+export type UploadMediaKind = 'audio' | 'screenshot';
+
+// Pushed to the renderer while a capture is being sent to S3
+export interface UploadProgress {
+  uploadId: string;
+  kind: UploadMediaKind;
+  bytesSent: number;
+  totalBytes: number;
+  // Set on the final event, whether the upload finished or failed
+  done: boolean;
+}
@@ -0,0 +1,37 @@
+// ============================================================================
+// SCREENSHOT MESSAGE TEXT
+// ============================================================================
+//
+// A screenshot message has a single text_content field. It carries the user's
+// question, a note about redactions and the text OCR found on screen; the
+// heading below lets the renderer pull the screen text back out.
+
+export const SCREEN_TEXT_HEADING = '📝 Text on screen:';
+
+export interface ScreenshotTextParts {
+  prompt?: string;
+  redactionSummary?: string | null;
+  screenText?: string;
+}
+
+export function composeScreenshotText({ prompt, redactionSummary, screenText }: ScreenshotTextParts): string | undefined {
+  const sections = [
+    prompt?.trim(),
+    redactionSummary ? `🔒 Redacted before upload: ${redactionSummary}` : undefined,
+    screenText?.trim() ? `${SCREEN_TEXT_HEADING}\n${screenText.trim()}` : undefined,
+  ].filter(Boolean);
+
+  return sections.length > 0 ? sections.join('\n\n') : undefined;
+}
+
+export function splitScreenshotText(textContent: string): { caption: string; screenText: string | null } {
+  const index = textContent.indexOf(SCREEN_TEXT_HEADING);
+  if (index === -1) {
+    return { caption: textContent.trim(), screenText: null };
+  }
+
+  return {
+    caption: textContent.slice(0, index).trim(),
+    screenText: textContent.slice(index + SCREEN_TEXT_HEADING.length).trim() || null,
+  };
+}
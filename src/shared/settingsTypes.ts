@@ -0,0 +1,107 @@
+import type { AudioDeviceSettings } from './audioDeviceTypes';
+import type { AudioUploadSettings } from './audioUploadTypes';
+import type { LiveAssistSettings, QuestionDetectionSettings } from './liveAssistTypes';
+import type { TranscriptionSettings } from './transcriptionTypes';
+import type { VoiceActivitySettings } from './voiceActivityTypes';
+
+// ============================================================================
+// APP SETTINGS TYPES
+// ============================================================================
+//
+// Preferences persisted by the main process in userData/settings.json.
+
+export type CaptureTargetMode = 'cursor-display' | 'window-display' | 'all-displays' | 'window';
+
+export interface CaptureTarget {
+  mode: CaptureTargetMode;
+  // Only used by the 'window' mode
+  windowSourceId?: string;
+  windowName?: string;
+}
+
+export interface CaptureWindowSource {
+  id: string;
+  name: string;
+  thumbnailDataUrl: string;
+}
+
+// Rectangle picked in the region selector, in DIPs relative to the display
+export interface CaptureRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Built-in detectors the redaction stage runs over OCR'd screenshot text
+export type RedactionPatternId = 'email' | 'credit-card' | 'aws-key';
+
+export interface RedactionSettings {
+  enabled: boolean;
+  patterns: RedactionPatternId[];
+  // Extra regular expression sources, matched case-insensitively
+  customPatterns: string[];
+}
+
+export interface AppSettings {
+  captureTarget: CaptureTarget;
+  // Electron accelerator for region capture, e.g. 'Control+Shift+R'
+  regionCaptureShortcut: string;
+  // Open the annotation editor before a screenshot is uploaded
+  reviewScreenshotsBeforeSending: boolean;
+  // Blur sensitive text found by OCR before a screenshot leaves the machine
+  redaction: RedactionSettings;
+  // Live speech-to-text while recording
+  transcription: TranscriptionSettings;
+  // Cadence and context window of the continuous live assist mode
+  liveAssist: LiveAssistSettings;
+  // Automatic answers to questions the other side asks during live assist
+  questionDetection: QuestionDetectionSettings;
+  // How recordings are compressed before upload
+  audioUpload: AudioUploadSettings;
+  // Microphone and output to record instead of the system defaults
+  audioDevices: AudioDeviceSettings;
+  // Silence trimming and how utterances are sent
+  voiceActivity: VoiceActivitySettings;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  captureTarget: { mode: 'cursor-display' },
+  regionCaptureShortcut: 'CommandOrControl+Shift+R',
+  reviewScreenshotsBeforeSending: false,
+  redaction: {
+    enabled: true,
+    patterns: ['email', 'credit-card', 'aws-key'],
+    customPatterns: [],
+  },
+  transcription: {
+    enabled: true,
+    engine: 'google',
+    languageCode: 'en-US',
+  },
+  liveAssist: {
+    intervalSeconds: 60,
+    contextMinutes: 5,
+    screenshotIntervalSeconds: 30,
+  },
+  questionDetection: {
+    sensitivity: 'medium',
+    disabledConversationIds: [],
+  },
+  audioUpload: {
+    format: 'opus',
+  },
+  audioDevices: {
+    microphone: null,
+    systemOutput: null,
+  },
+  voiceActivity: {
+    trimSilence: true,
+    maxPauseSeconds: 2,
+    delivery: 'annotated',
+  },
+};
+
+export const CAPTURE_TARGET_MODES: CaptureTargetMode[] = ['cursor-display', 'window-display', 'all-displays', 'window'];
+
+export const REDACTION_PATTERN_IDS: RedactionPatternId[] = ['email', 'credit-card', 'aws-key'];
@@ -0,0 +1,10 @@
+// ============================================================================
+// SYSTEM AUDIO TYPES
+// ============================================================================
+//
+// Where the main process has no native system audio capture (Windows), the
+// renderer records the loopback stream and streams it back over the
+// system-audio-chunk IPC while a recording runs.
+
+// Pushed with true when a recording needs system audio sent in, false once it stops
+export const SYSTEM_AUDIO_REQUEST_CHANNEL = 'system-audio-request';
@@ -0,0 +1,44 @@
+// ============================================================================
+// TRANSCRIPTION TYPES
+// ============================================================================
+//
+// Live transcript pushed from the main process while a recording is running.
+
+export const TRANSCRIPT_CHANNEL = 'transcript-update';
+
+export type TranscriptSource = 'microphone' | 'system';
+
+// Who spoke: the user at the microphone or the other side of the call
+export type TranscriptSpeaker = 'me' | 'them';
+
+export const TRANSCRIPT_SPEAKER_LABELS: Record<TranscriptSpeaker, string> = {
+  me: 'Me',
+  them: 'Them',
+};
+
+export type TranscriptionEngineId = 'google' | 'local';
+
+export interface TranscriptSegment {
+  id: string;
+  source: TranscriptSource;
+  speaker: TranscriptSpeaker;
+  text: string;
+  // Interim segments are replaced in place until the engine finalizes them
+  isFinal: boolean;
+  // Milliseconds since the recording started
+  startedAt: number;
+}
+
+export type TranscriptEvent =
+  | { type: 'reset' }
+  | { type: 'segment'; segment: TranscriptSegment }
+  // A microphone segment turned out to be the other side heard through the speakers
+  | { type: 'remove'; id: string }
+  | { type: 'error'; source: TranscriptSource; message: string };
+
+export interface TranscriptionSettings {
+  enabled: boolean;
+  engine: TranscriptionEngineId;
+  // BCP-47 code passed to the engine, e.g. 'en-US'
+  languageCode: string;
+}
@@ -0,0 +1,54 @@
+import { ImageRegion } from './ipcProtocol';
+
+// ============================================================================
+// UPLOAD QUEUE TYPES
+// ============================================================================
+
+export const UPLOAD_QUEUE_STATUS_CHANNEL = 'upload-queue-status';
+
+// screenshot-scan holds a capture that could not be scanned for sensitive
+// text yet; it is scanned and redacted again before it is uploaded
+export type UploadJobKind = 'screenshot-scan' | 'screenshot-upload' | 'audio-upload' | 'process-with-ai';
+
+export type UploadJobState = 'pending' | 'failed';
+
+export interface UploadJob {
+  id: string;
+  kind: UploadJobKind;
+  conversationId: string;
+  state: UploadJobState;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+  // Captured PNG/WAV bytes, stored next to the queue file
+  payloadFile?: string;
+  // text_content for the message: the screenshot's question, redaction note and
+  // screen text, or the speaker-labeled transcript of a recording. For
+  // screenshot-scan jobs only the user's question
+  prompt?: string;
+  // Rectangles the user marked to blur, for screenshot-scan jobs
+  blurRegions?: ImageRegion[];
+  // process-with-ai jobs reference the message created by a finished upload
+  messageId?: string;
+  mediaType?: 'screenshot' | 'audio';
+  mediaUrl?: string;
+}
+
+export interface UploadJobSummary {
+  id: string;
+  kind: UploadJobKind;
+  state: UploadJobState;
+  attempts: number;
+  createdAt: string;
+  nextAttemptAt: string;
+  lastError?: string;
+}
+
+export interface UploadQueueStatus {
+  pending: number;
+  failed: number;
+  isProcessing: boolean;
+  nextAttemptAt: string | null;
+  jobs: UploadJobSummary[];
+}
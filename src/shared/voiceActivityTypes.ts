@@ -0,0 +1,38 @@
+// ============================================================================
+// VOICE ACTIVITY TYPES
+// ============================================================================
+//
+// Recordings are cut down to the parts where something is heard before they
+// are uploaded: silence at either end is dropped and long pauses are
+// shortened. The pauses that were shortened split the recording into
+// utterances, which can be sent as one annotated message or one message each.
+
+// 'annotated' sends one recording listing the utterance times; 'separate'
+// uploads and analyzes every utterance as its own message
+export type SegmentDelivery = 'annotated' | 'separate';
+
+export const SEGMENT_DELIVERIES: SegmentDelivery[] = ['annotated', 'separate'];
+
+export interface VoiceActivitySettings {
+  // Off uploads the recording exactly as captured
+  trimSilence: boolean;
+  // Pauses longer than this are shortened to it and end an utterance
+  maxPauseSeconds: number;
+  delivery: SegmentDelivery;
+}
+
+export const DEFAULT_VOICE_ACTIVITY: VoiceActivitySettings = {
+  trimSilence: true,
+  maxPauseSeconds: 2,
+  delivery: 'annotated',
+};
+
+export const MAX_PAUSE_LIMITS = { min: 0.5, max: 10 };
+
+// One utterance, timed in the original recording and in the trimmed one
+export interface SpeechSegment {
+  startMs: number;
+  endMs: number;
+  // Where the utterance starts in the trimmed recording
+  offsetMs: number;
+}
@@ -2,11 +2,17 @@ declare module 'node-record-lpcm16' {
   import { Readable } from 'stream';
 
   interface RecordOptions {
-    sampleRateHertz?: number;
+    sampleRate?: number;
+    channels?: number;
     threshold?: number;
-    verbose?: boolean;
-    recordProgram?: string;
+    thresholdStart?: number | null;
+    thresholdEnd?: number | null;
     silence?: string;
+    recorder?: 'sox' | 'rec' | 'arecord';
+    endOnSilence?: boolean;
+    audioType?: string;
+    // Passed to sox as AUDIODEV
+    device?: string;
   }
 
   interface Recording {
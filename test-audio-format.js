@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// AUDIO FORMAT TEST SCRIPT
+// ============================================================================
+//
+// Resamples 24 kHz capture audio to the canonical 16 kHz the way the capture
+// paths do, chunk by chunk, and checks it against converting the whole
+// signal at once and against the expected tone after many minutes.
+// Build first (npx tsc), then: node test-audio-format.js
+
+const assert = require('assert');
+const { Resampler, resample, normalizeAudio, decodePcm, encodePcm } = require('./dist/shared/audioFormat');
+
+const FROM_RATE = 24000;
+const TO_RATE = 16000;
+
+function tone(length, frequency, sampleRate, offset = 0) {
+  const samples = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    samples[i] = Math.sin(2 * Math.PI * frequency * (offset + i) / sampleRate) * 0.5;
+  }
+  return samples;
+}
+
+function noise(length) {
+  let seed = 7;
+  return Float32Array.from({ length }, () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5);
+}
+
+function concat(parts) {
+  const output = new Float32Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+function maxDifference(a, b) {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+}
+
+function testChunkedMatchesWhole() {
+  console.log('\n1. Chunked 24 kHz → 16 kHz output matches converting it whole...');
+
+  const input = noise(2 * FROM_RATE + 7);
+  const whole = resample(input, FROM_RATE, TO_RATE);
+  assert.strictEqual(whole.length, Math.ceil(input.length * TO_RATE / FROM_RATE));
+
+  // Odd sizes put chunk boundaries on every filter phase, including single samples
+  const sizes = [1, 7, 480, 1023, 2, 4096, 333];
+  const resampler = new Resampler(FROM_RATE, TO_RATE);
+  const parts = [];
+  for (let offset = 0, i = 0; offset < input.length; i++) {
+    const size = sizes[i % sizes.length];
+    parts.push(resampler.process(input.subarray(offset, offset + size)));
+    offset += size;
+  }
+  parts.push(resampler.flush());
+  const chunked = concat(parts);
+
+  assert.strictEqual(chunked.length, whole.length);
+  assert.ok(maxDifference(chunked, whole) < 1e-6, `chunked output differs by ${maxDifference(chunked, whole)}`);
+
+  // flush() starts over, so the next recording matches too
+  const again = concat([resampler.process(input), resampler.flush()]);
+  assert.ok(maxDifference(again, whole) < 1e-6);
+  console.log(`   ✅ ${chunked.length} samples identical across ${parts.length - 1} chunks`);
+}
+
+function testNoDriftOverLongCaptures() {
+  console.log('\n2. A long capture fed in 10 ms chunks does not drift...');
+
+  const minutes = 10;
+  const chunkSize = FROM_RATE / 100;
+  const totalInput = minutes * 60 * FROM_RATE;
+  const frequency = 1000;
+  const resampler = new Resampler(FROM_RATE, TO_RATE);
+
+  let outputCount = 0;
+  let worstError = 0;
+  const check = (output) => {
+    for (let i = 0; i < output.length; i++) {
+      const n = outputCount + i;
+      // Past the filter's start-up, every sample should sit on the same tone at 16 kHz
+      if (n > 100 && n < totalInput * TO_RATE / FROM_RATE - 100) {
+        worstError = Math.max(worstError, Math.abs(output[i] - Math.sin(2 * Math.PI * frequency * n / TO_RATE) * 0.5));
+      }
+    }
+    outputCount += output.length;
+  };
+
+  for (let offset = 0; offset < totalInput; offset += chunkSize) {
+    check(resampler.process(tone(chunkSize, frequency, FROM_RATE, offset)));
+    // Output only lags by the filter half-length, it never piles up
+    assert.ok(offset + chunkSize - outputCount * FROM_RATE / TO_RATE < 64, 'output fell behind the input');
+  }
+  check(resampler.flush());
+
+  assert.strictEqual(outputCount, totalInput * TO_RATE / FROM_RATE);
+  assert.ok(worstError < 0.01, `output strayed from the tone by ${worstError}`);
+  console.log(`   ✅ ${minutes} min → ${outputCount} samples, within ${worstError.toExponential(1)} of the tone`);
+}
+
+function testNormalizeStereoCapture() {
+  console.log('\n3. A 24 kHz stereo capture is normalized to 16 kHz mono PCM...');
+
+  // Only the left channel carries sound, so the mono mix is at half level
+  const pcm = encodePcm([tone(FROM_RATE, 440, FROM_RATE), new Float32Array(FROM_RATE)], 32, 'float');
+  const channels = decodePcm(pcm, { sampleRate: FROM_RATE, channels: 2, bitsPerSample: 32, sampleFormat: 'float' });
+  const [mono] = normalizeAudio(channels, FROM_RATE);
+
+  assert.strictEqual(mono.length, TO_RATE);
+  const expected = tone(TO_RATE, 440, TO_RATE).map(sample => sample / 2);
+  assert.ok(maxDifference(mono.subarray(100, -100), expected.subarray(100, -100)) < 0.01);
+  console.log('   ✅ One second in, one second of the tone at half level out');
+}
+
+console.log('🎚️ Testing Audio Format Conversion');
+console.log('==================================');
+
+try {
+  testChunkedMatchesWhole();
+  testNoDriftOverLongCaptures();
+  testNormalizeStereoCapture();
+  console.log('\n✅ All audio format tests passed');
+} catch (error) {
+  console.error('\n❌ Audio format test failed:', error);
+  process.exit(1);
+}
@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// ECHO CANCELLATION TEST SCRIPT
+// ============================================================================
+//
+// Runs the shared echo canceller on synthetic signals: a far end, its echo
+// through a small simulated room, and a near-end talker.
+// Build first (npx tsc), then: node test-echo-cancellation.js
+
+const assert = require('assert');
+const { EchoCanceller, cancelEcho, estimateEchoDelay } = require('./dist/shared/echoCanceller');
+const { cancelEchoInWorker } = require('./dist/helpers/echoCancellerWorker');
+
+const SAMPLE_RATE = 16000;
+const ECHO_DELAY = Math.round(0.12 * SAMPLE_RATE);
+// Direct path plus a few reflections, relative to the echo delay
+const ROOM = [[0, 0.5], [7, 0.25], [45, -0.15], [160, 0.08]];
+
+// Deterministic noise so runs are comparable
+function random(seed) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 * 2 - 1;
+  };
+}
+
+// Noise with a slow syllable-like envelope, roughly how speech behaves
+function speech(seconds, seed, amplitude = 0.3) {
+  const next = random(seed);
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let smoothed = 0;
+  for (let i = 0; i < samples.length; i++) {
+    smoothed = 0.6 * smoothed + 0.4 * next();
+    const envelope = 0.55 + 0.45 * Math.sin(2 * Math.PI * 4 * i / SAMPLE_RATE + seed);
+    samples[i] = smoothed * envelope * amplitude * 2;
+  }
+  return samples;
+}
+
+function echoOf(reference) {
+  const echo = new Float32Array(reference.length);
+  for (const [offset, gain] of ROOM) {
+    for (let i = ECHO_DELAY + offset; i < echo.length; i++) {
+      echo[i] += reference[i - ECHO_DELAY - offset] * gain;
+    }
+  }
+  return echo;
+}
+
+function add(...signals) {
+  const sum = new Float32Array(signals[0].length);
+  for (const signal of signals) {
+    for (let i = 0; i < sum.length; i++) sum[i] += signal[i];
+  }
+  return sum;
+}
+
+function energy(signal, from = 0, to = signal.length) {
+  let total = 0;
+  for (let i = from; i < to; i++) total += signal[i] * signal[i];
+  return total;
+}
+
+function decibels(ratio) {
+  return 10 * Math.log10(ratio);
+}
+
+// Feed in 100 ms chunks the way capture delivers audio
+function processInChunks(canceller, mic, reference) {
+  const chunk = SAMPLE_RATE / 10;
+  const output = new Float32Array(mic.length);
+  for (let start = 0; start < mic.length; start += chunk) {
+    output.set(canceller.process(mic.subarray(start, start + chunk), reference.subarray(start, start + chunk)), start);
+  }
+  return output;
+}
+
+function testDelayEstimation() {
+  console.log('\n1. Cross-correlation finds the echo delay...');
+
+  const reference = speech(1.5, 1);
+  const estimate = estimateEchoDelay(echoOf(reference), reference, SAMPLE_RATE);
+
+  assert.ok(estimate, 'expected an echo to be found');
+  assert.ok(Math.abs(estimate.delaySamples - ECHO_DELAY) <= 2, `delay ${estimate.delaySamples} != ${ECHO_DELAY}`);
+  assert.ok(estimate.correlation > 0.5);
+  console.log(`   ✅ ${estimate.delaySamples} samples (expected ${ECHO_DELAY}), correlation ${estimate.correlation.toFixed(2)}`);
+}
+
+function testNoEchoNoEstimate() {
+  console.log('\n2. Unrelated signals produce no estimate...');
+
+  const estimate = estimateEchoDelay(speech(1.5, 2), speech(1.5, 3), SAMPLE_RATE);
+
+  assert.strictEqual(estimate, null);
+  console.log('   ✅ No echo reported');
+}
+
+function testFarEndIsCancelled() {
+  console.log('\n3. Echo of the far end is removed while the user is silent...');
+
+  const reference = speech(8, 4);
+  const mic = add(echoOf(reference), speech(8, 5, 0.002));
+  const canceller = new EchoCanceller({ sampleRate: SAMPLE_RATE });
+  const output = processInChunks(canceller, mic, reference);
+
+  // Judge after the first estimate and some convergence
+  const from = 4 * SAMPLE_RATE;
+  const erle = decibels(energy(mic, from) / energy(output, from));
+  assert.ok(erle > 20, `ERLE only ${erle.toFixed(1)} dB`);
+  assert.ok(Math.abs(canceller.getStats().delayMs - 120) < 1);
+  console.log(`   ✅ ${erle.toFixed(1)} dB of echo removed`);
+}
+
+function testDoubleTalkKeepsNearEnd() {
+  console.log('\n4. The user talking over the far end is kept intact...');
+
+  const seconds = 10;
+  const reference = speech(seconds, 6);
+  const nearEnd = new Float32Array(reference.length);
+  // The user talks from 5 s to 7 s
+  nearEnd.set(speech(2, 7, 0.25), 5 * SAMPLE_RATE);
+  const mic = add(echoOf(reference), nearEnd, speech(seconds, 10, 0.002));
+
+  const output = cancelEcho(mic, reference, { sampleRate: SAMPLE_RATE });
+
+  const talkFrom = 5 * SAMPLE_RATE;
+  const talkTo = 7 * SAMPLE_RATE;
+  const residual = new Float32Array(talkTo - talkFrom);
+  for (let i = 0; i < residual.length; i++) {
+    residual[i] = output[talkFrom + i] - nearEnd[talkFrom + i];
+  }
+  const nearEndToResidual = decibels(energy(nearEnd, talkFrom, talkTo) / energy(residual));
+  assert.ok(nearEndToResidual > 15, `near end only ${nearEndToResidual.toFixed(1)} dB above residual echo`);
+
+  // The filter must not have diverged while the user talked
+  const after = decibels(energy(mic, 8 * SAMPLE_RATE) / energy(output, 8 * SAMPLE_RATE));
+  assert.ok(after > 20, `ERLE after double talk only ${after.toFixed(1)} dB`);
+  console.log(`   ✅ Near end ${nearEndToResidual.toFixed(1)} dB above residual echo, ${after.toFixed(1)} dB ERLE afterwards`);
+}
+
+function testHeadphonesPassThrough() {
+  console.log('\n5. Without echo the microphone passes through untouched...');
+
+  const reference = speech(4, 8);
+  const mic = speech(4, 9, 0.2);
+  const canceller = new EchoCanceller({ sampleRate: SAMPLE_RATE });
+  const output = processInChunks(canceller, mic, reference);
+
+  assert.deepStrictEqual(Array.from(output), Array.from(mic));
+  assert.strictEqual(canceller.getStats().delayMs, null);
+  console.log('   ✅ Output identical to input');
+}
+
+async function testWorkerMatchesAndKeepsThreadFree() {
+  console.log('\n6. The worker gives the same result without blocking the thread...');
+
+  const reference = speech(20, 11);
+  const mic = add(echoOf(reference), speech(20, 12, 0.1));
+  const options = { sampleRate: SAMPLE_RATE };
+
+  // Timers keep firing while the worker cancels the echo
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+  const started = Date.now();
+  const output = await cancelEchoInWorker(mic, reference, options);
+  const elapsed = Date.now() - started;
+  clearInterval(timer);
+
+  assert.deepStrictEqual(Array.from(output), Array.from(cancelEcho(mic, reference, options)));
+  assert.ok(ticks >= elapsed / 10 / 4, `expected timers to keep running, ${ticks} ticks in ${elapsed} ms`);
+  console.log(`   ✅ Identical output, ${ticks} timer ticks during ${elapsed} ms`);
+}
+
+(async () => {
+  console.log('🔇 Testing Echo Cancellation');
+  console.log('============================');
+
+  try {
+    testDelayEstimation();
+    testNoEchoNoEstimate();
+    testFarEndIsCancelled();
+    testDoubleTalkKeepsNearEnd();
+    testHeadphonesPassThrough();
+    await testWorkerMatchesAndKeepsThreadFree();
+    console.log('\n✅ All echo cancellation tests passed');
+  } catch (error) {
+    console.error('\n❌ Echo cancellation test failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,269 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// LIVE ASSIST TEST SCRIPT
+// ============================================================================
+//
+// Drives question detection and live assist with scripted transcript
+// segments and a fake clock, so silence gaps and intervals run instantly.
+// Build first (npx tsc), then: node test-live-assist.js
+
+const assert = require('assert');
+const { QuestionDetector, scoreQuestion, lastSentence } = require('./dist/helpers/questionDetector');
+const { LiveAssistService } = require('./dist/helpers/liveAssistService');
+
+const SETTINGS = { intervalSeconds: 15, contextMinutes: 5, screenshotIntervalSeconds: 0 };
+
+// Replaces the global timers and Date.now until uninstalled
+function installFakeClock() {
+  const real = { setTimeout, clearTimeout, setInterval, clearInterval, now: Date.now };
+  const timers = new Map();
+  let now = real.now();
+  let nextId = 1;
+
+  const schedule = (callback, ms, repeat) => {
+    const id = nextId++;
+    timers.set(id, { callback, at: now + (ms || 0), repeat: repeat ? ms : null });
+    return id;
+  };
+  global.setTimeout = (callback, ms) => schedule(callback, ms, false);
+  global.setInterval = (callback, ms) => schedule(callback, ms, true);
+  global.clearTimeout = global.clearInterval = id => timers.delete(id);
+  Date.now = () => now;
+
+  return {
+    tick(ms) {
+      const target = now + ms;
+      for (;;) {
+        const due = [...timers.entries()]
+          .filter(([, timer]) => timer.at <= target)
+          .sort(([, a], [, b]) => a.at - b.at)[0];
+        if (!due) break;
+
+        const [id, timer] = due;
+        now = timer.at;
+        if (timer.repeat) {
+          timer.at += timer.repeat;
+        } else {
+          timers.delete(id);
+        }
+        timer.callback();
+      }
+      now = target;
+    },
+    uninstall() {
+      Object.assign(global, {
+        setTimeout: real.setTimeout,
+        clearTimeout: real.clearTimeout,
+        setInterval: real.setInterval,
+        clearInterval: real.clearInterval,
+      });
+      Date.now = real.now;
+    },
+  };
+}
+
+// Lets resolved handler promises run their continuations
+function settle() {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+let segmentCounter = 0;
+
+function segment(speaker, text, isFinal = true) {
+  return {
+    id: `segment-${++segmentCounter}`,
+    source: speaker === 'them' ? 'system' : 'microphone',
+    speaker,
+    text,
+    isFinal,
+    startedAt: segmentCounter * 1000,
+  };
+}
+
+// Hands whatever the test says straight to the transcription service as final results
+function scriptedEngine() {
+  let stream = null;
+  return {
+    id: 'scripted',
+    createStream: (options, onResult) => {
+      stream = { onResult, write: () => {}, end: async () => {} };
+      return stream;
+    },
+    // Writing opens the system stream the first time
+    say(service, text) {
+      service.writeAudio('system', Buffer.alloc(320));
+      stream.onResult({ text, isFinal: true });
+    },
+  };
+}
+
+// An assist handler whose requests stay open until the test answers them
+function deferredHandler() {
+  const requests = [];
+  const handler = context => new Promise(resolve => requests.push({ context, resolve }));
+  return { handler, requests };
+}
+
+function testScoreQuestion() {
+  console.log('\n1. Sentences are scored on punctuation and phrasing...');
+
+  assert.strictEqual(scoreQuestion('What would you change about your last project?'), 1);
+  assert.strictEqual(scoreQuestion('Walk me through how you deployed it.'), 0.6);
+  assert.strictEqual(scoreQuestion('So, do you agree with that'), 0.6);
+  assert.strictEqual(scoreQuestion('You shipped it on Friday, right'), 0.4);
+  assert.strictEqual(scoreQuestion('Thanks, that was really helpful.'), 0);
+  assert.strictEqual(scoreQuestion('  '), 0);
+
+  assert.strictEqual(lastSentence('We use Postgres. Why did you pick Mongo?'), 'Why did you pick Mongo?');
+  assert.strictEqual(lastSentence(''), '');
+  console.log('   ✅ Questions score high, statements score zero');
+}
+
+function testSilenceGap() {
+  console.log('\n2. A question is judged once the other side stays silent...');
+
+  const clock = installFakeClock();
+  try {
+    const questions = [];
+    const detector = new QuestionDetector(question => questions.push(question));
+
+    // Interim results are still changing, so they never start the gap
+    detector.addSegment(segment('them', 'What do you think', false));
+    clock.tick(5000);
+    assert.deepStrictEqual(questions, []);
+
+    detector.addSegment(segment('them', 'What do you think?'));
+    clock.tick(799);
+    assert.deepStrictEqual(questions, []);
+    clock.tick(1);
+    assert.deepStrictEqual(questions, ['What do you think?']);
+
+    // Talking again holds the evaluation until they stop
+    detector.addSegment(segment('them', 'We moved to Kubernetes last year.'));
+    detector.setVoiceActive(true);
+    clock.tick(3000);
+    detector.addSegment(segment('them', 'How did your team handle that?'));
+    clock.tick(3000);
+    assert.strictEqual(questions.length, 1);
+    detector.setVoiceActive(false);
+    clock.tick(800);
+    assert.deepStrictEqual(questions, ['What do you think?', 'How did your team handle that?']);
+
+    // Segments inside the gap join the same turn and it is judged once
+    detector.addSegment(segment('them', 'So tell me'));
+    clock.tick(500);
+    detector.addSegment(segment('them', 'about your last role.'));
+    clock.tick(800);
+    assert.deepStrictEqual(questions.slice(2), ['So tell me about your last role.']);
+
+    // The user answering first cancels the candidate
+    detector.addSegment(segment('them', 'Can you hear me?'));
+    clock.tick(300);
+    detector.addSegment(segment('me', 'Yes, loud and clear.'));
+    clock.tick(5000);
+    assert.strictEqual(questions.length, 3);
+
+    // Low sensitivity waits longer and wants a clearer question
+    detector.setSensitivity('low');
+    detector.addSegment(segment('them', 'Do you agree with that'));
+    clock.tick(5000);
+    detector.addSegment(segment('them', 'Which database would you pick?'));
+    clock.tick(1199);
+    assert.strictEqual(questions.length, 3);
+    clock.tick(1);
+    assert.deepStrictEqual(questions.slice(3), ['Which database would you pick?']);
+    console.log('   ✅ Fired after the gap, held while talking, reset by the user');
+  } finally {
+    clock.uninstall();
+  }
+}
+
+async function testQuestionOutranksInterval() {
+  console.log('\n3. A question waiting behind a request beats the interval...');
+
+  const clock = installFakeClock();
+  const { handler, requests } = deferredHandler();
+  const events = [];
+  const service = new LiveAssistService(handler, event => events.push(event), () => {});
+  const engine = scriptedEngine();
+  try {
+    service.start(engine, { sampleRate: 16000, languageCode: 'en-US' }, SETTINGS);
+    clock.tick(1000);
+    engine.say(service, 'We are looking at the quarterly numbers.');
+
+    // The interval fires with new speech and its request stays open
+    clock.tick(14000);
+    assert.deepStrictEqual(requests.map(request => request.context.trigger), ['interval']);
+
+    engine.say(service, 'What would you cut first?');
+    clock.tick(800);
+    // Another interval while the question is waiting does not replace it
+    clock.tick(15000);
+    assert.strictEqual(requests.length, 1);
+
+    requests[0].resolve('Mention the growth in Q3.');
+    await settle();
+    assert.deepStrictEqual(requests.map(request => request.context.trigger), ['interval', 'question']);
+    assert.strictEqual(requests[1].context.question, 'What would you cut first?');
+    assert.match(requests[1].context.transcript, /^Them: We are looking at the quarterly numbers\. What would you cut first\?$/);
+
+    requests[1].resolve('Travel, then tooling.');
+    await settle();
+    assert.strictEqual(requests.length, 2, 'expected the queued interval to be dropped');
+    assert.deepStrictEqual(
+      events.filter(event => event.type === 'suggestion').map(event => [event.trigger, event.text]),
+      [['interval', 'Mention the growth in Q3.'], ['question', 'Travel, then tooling.']]
+    );
+    console.log('   ✅ Interval, then the question; the waiting interval dropped');
+  } finally {
+    await service.stop();
+    clock.uninstall();
+  }
+}
+
+async function testPerConversationOptOut() {
+  console.log('\n4. Conversations that opted out do not answer questions...');
+
+  const clock = installFakeClock();
+  const { handler, requests } = deferredHandler();
+  let answerQuestions = false;
+  const service = new LiveAssistService(handler, () => {}, () => {}, () => answerQuestions);
+  const engine = scriptedEngine();
+  try {
+    service.start(engine, { sampleRate: 16000, languageCode: 'en-US' }, SETTINGS);
+    engine.say(service, 'How long have you been using TypeScript?');
+    clock.tick(800);
+    assert.strictEqual(requests.length, 0);
+
+    // Checked when the question arrives, so switching conversations takes effect
+    answerQuestions = true;
+    engine.say(service, 'And what made you pick it?');
+    clock.tick(800);
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].context.trigger, 'question');
+    assert.strictEqual(requests[0].context.question, 'And what made you pick it?');
+    requests[0].resolve(null);
+    await settle();
+    console.log('   ✅ Skipped while opted out, answered once opted back in');
+  } finally {
+    await service.stop();
+    clock.uninstall();
+  }
+}
+
+(async () => {
+  console.log('💡 Testing Live Assist');
+  console.log('======================');
+
+  try {
+    testScoreQuestion();
+    testSilenceGap();
+    await testQuestionOutranksInterval();
+    await testPerConversationOptOut();
+    console.log('\n✅ All live assist tests passed');
+  } catch (error) {
+    console.error('\n❌ Live assist test failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,226 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// MULTIPART UPLOAD TEST SCRIPT
+// ============================================================================
+//
+// Uploads large captures to a fake API and S3 on localhost that fail part of
+// the way through, and checks that the next attempt resumes where the last
+// one stopped, even when the capture was encoded to different bytes.
+// Build first (npx tsc), then: node test-multipart-upload.js
+
+const assert = require('assert');
+const crypto = require('crypto');
+const fs = require('fs');
+const http = require('http');
+const os = require('os');
+const path = require('path');
+const { MultipartUploader } = require('./dist/helpers/multipartUploader');
+
+const MB = 1024 * 1024;
+const MESSAGES_PATH = '/conversations/1/messages';
+
+function bytes(length, seed) {
+  const body = Buffer.alloc(length);
+  for (let i = 0; i < length; i += 4096) body[i] = (i / 4096 + seed) % 256;
+  return body;
+}
+
+// Records every request and keeps the parts S3 would have stored
+function startFakeServer() {
+  const server = http.createServer((request, response) => {
+    const chunks = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      const url = new URL(request.url, 'http://localhost');
+      const body = Buffer.concat(chunks);
+      const json = (status, value) => {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(value));
+      };
+      server.calls.push(url.pathname.split('/').pop());
+
+      switch (url.pathname) {
+        case `${MESSAGES_PATH}/create_multipart_upload`:
+          server.uploadCount++;
+          return json(200, { upload_id: `upload-${server.uploadCount}`, filename: `audio-${server.uploadCount}.opus` });
+        case `${MESSAGES_PATH}/get_multipart_part_url`:
+          return json(200, { upload_url: `http://127.0.0.1:${server.address().port}/s3?part=${url.searchParams.get('part_number')}` });
+        case `${MESSAGES_PATH}/complete_multipart_upload`:
+          server.completed = JSON.parse(body.toString());
+          return json(200, {});
+        case `${MESSAGES_PATH}/abort_multipart_upload`:
+          server.aborted.push(JSON.parse(body.toString()).upload_id);
+          return json(200, {});
+        case '/s3': {
+          const partNumber = Number(url.searchParams.get('part'));
+          if (server.failPart === partNumber) {
+            server.failPart = null;
+            response.writeHead(403);
+            return response.end();
+          }
+          server.parts.set(partNumber, body);
+          response.writeHead(200, { ETag: `"etag-${partNumber}-${body.length}"` });
+          return response.end();
+        }
+        default:
+          return json(404, {});
+      }
+    });
+  });
+  Object.assign(server, { calls: [], parts: new Map(), aborted: [], uploadCount: 0, completed: null, failPart: null });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+function request(server, body, source) {
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+  return {
+    kind: 'audio',
+    body,
+    source,
+    contentType: 'audio/ogg',
+    token: 'test-token',
+    messagesUrl: `${baseUrl}${MESSAGES_PATH}`,
+    single: { uploadUrl: `${baseUrl}/s3?part=0`, filename: 'single.opus' },
+  };
+}
+
+async function testResumeAfterFailure(rootDir) {
+  console.log('\n1. A failed upload resumes from its first missing part...');
+
+  const server = await startFakeServer();
+  try {
+    const source = bytes(20 * MB, 1);
+    const firstEncoding = bytes(12 * MB, 2);
+    // The encoder picked a new random stream serial, so the bytes differ
+    const secondEncoding = bytes(12 * MB, 3);
+
+    server.failPart = 2;
+    await assert.rejects(new MultipartUploader(() => {}, rootDir).upload(request(server, firstEncoding, source)), /status 403/);
+    assert.deepStrictEqual([...server.parts.keys()], [1]);
+
+    // A new uploader, as after a restart, finds the session on disk
+    server.calls = [];
+    const filename = await new MultipartUploader(() => {}, rootDir).upload(request(server, secondEncoding, source));
+
+    assert.strictEqual(filename, 'audio-1.opus');
+    assert.strictEqual(server.uploadCount, 1, 'expected no second multipart upload');
+    assert.ok(!server.calls.includes('create_multipart_upload'));
+    assert.deepStrictEqual(server.completed.parts.map(part => part.part_number), [1, 2, 3]);
+    assert.strictEqual(server.completed.parts[0].etag, `"etag-1-${5 * MB}"`);
+
+    // The stored parts join up into the first encoding, not a mix of both
+    const assembled = Buffer.concat([1, 2, 3].map(partNumber => server.parts.get(partNumber)));
+    assert.ok(assembled.equals(firstEncoding), 'expected the parts of one encoding');
+    assert.deepStrictEqual(fs.readdirSync(rootDir).filter(file => file.endsWith('.body')), []);
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(rootDir, 'multipart.json'), 'utf8')), []);
+    console.log('   ✅ Part 1 kept, parts 2 and 3 sent, stored body cleaned up');
+  } finally {
+    server.close();
+  }
+}
+
+async function testSameBytesResume(rootDir) {
+  console.log('\n2. Captures sent as they are resume by their bytes...');
+
+  const server = await startFakeServer();
+  try {
+    const capture = bytes(11 * MB, 4);
+    server.failPart = 3;
+    await assert.rejects(new MultipartUploader(() => {}, rootDir).upload({ ...request(server, capture), kind: 'screenshot' }), /status 403/);
+    await new MultipartUploader(() => {}, rootDir).upload({ ...request(server, capture), kind: 'screenshot' });
+
+    assert.strictEqual(server.uploadCount, 1);
+    assert.ok(Buffer.concat([1, 2, 3].map(partNumber => server.parts.get(partNumber))).equals(capture));
+    console.log('   ✅ One multipart upload, completed on the second try');
+  } finally {
+    server.close();
+  }
+}
+
+async function testStaleSessionsAreAborted(rootDir) {
+  console.log('\n3. Sessions too old to resume are aborted on the server...');
+
+  const server = await startFakeServer();
+  try {
+    const stale = {
+      key: 'stale',
+      uploadId: 'upload-old',
+      filename: 'old.opus',
+      messagesUrl: `http://127.0.0.1:${server.address().port}${MESSAGES_PATH}`,
+      bodyFile: 'stale.body',
+      partSize: 5 * MB,
+      totalBytes: 12 * MB,
+      parts: [{ partNumber: 1, etag: '"etag-old"' }],
+      createdAt: new Date(Date.now() - 8 * 24 * 60 * 60 * 1000).toISOString(),
+    };
+    fs.writeFileSync(path.join(rootDir, 'multipart.json'), JSON.stringify([stale]));
+    fs.writeFileSync(path.join(rootDir, 'stale.body'), 'old');
+
+    await new MultipartUploader(() => {}, rootDir).upload(request(server, bytes(MB, 5)));
+
+    assert.deepStrictEqual(server.aborted, ['upload-old']);
+    assert.ok(!fs.existsSync(path.join(rootDir, 'stale.body')));
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(rootDir, 'multipart.json'), 'utf8')), []);
+    console.log('   ✅ Aborted, forgotten and its stored body deleted');
+  } finally {
+    server.close();
+  }
+}
+
+async function testMismatchedStoredBody(rootDir) {
+  console.log('\n4. A stored body that no longer matches its session is not sent...');
+
+  const server = await startFakeServer();
+  try {
+    const source = bytes(20 * MB, 6);
+    const encoding = bytes(12 * MB, 7);
+    const upload = request(server, encoding, source);
+    const key = crypto.createHash('sha256')
+      .update(`${upload.kind}\n${upload.messagesUrl}\n${upload.contentType}\n`)
+      .update(source)
+      .digest('hex');
+
+    // The stored copy was cut short, so it is not the body the parts came from
+    fs.writeFileSync(path.join(rootDir, 'multipart.json'), JSON.stringify([{
+      key,
+      uploadId: 'upload-truncated',
+      filename: 'truncated.opus',
+      messagesUrl: upload.messagesUrl,
+      bodyFile: `${key}.body`,
+      partSize: 5 * MB,
+      totalBytes: encoding.length,
+      parts: [{ partNumber: 1, etag: '"etag-truncated"' }],
+      createdAt: new Date().toISOString(),
+    }]));
+    fs.writeFileSync(path.join(rootDir, `${key}.body`), bytes(3 * MB, 8));
+
+    const filename = await new MultipartUploader(() => {}, rootDir).upload(upload);
+
+    assert.deepStrictEqual(server.aborted, ['upload-truncated']);
+    assert.strictEqual(filename, 'audio-1.opus');
+    assert.ok(Buffer.concat([1, 2, 3].map(partNumber => server.parts.get(partNumber))).equals(encoding));
+    console.log('   ✅ Session aborted and the new encoding uploaded in full');
+  } finally {
+    server.close();
+  }
+}
+
+(async () => {
+  console.log('📦 Testing Multipart Uploads');
+  console.log('============================');
+
+  const rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'contextor-uploads-'));
+  try {
+    await testResumeAfterFailure(rootDir);
+    await testSameBytesResume(rootDir);
+    await testStaleSessionsAreAborted(rootDir);
+    await testMismatchedStoredBody(rootDir);
+    console.log('\n✅ All multipart upload tests passed');
+  } catch (error) {
+    console.error('\n❌ Multipart upload test failed:', error);
+    process.exit(1);
+  } finally {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  }
+})();
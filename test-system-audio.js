@@ -0,0 +1,318 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// SYSTEM AUDIO RECORDING TEST SCRIPT
+// ============================================================================
+//
+// Records through AudioService with fake microphone and system audio sources
+// and checks that both tracks end up in the recording.
+// Build first (npx tsc), then: node test-system-audio.js
+
+const assert = require('assert');
+const { AudioService } = require('./dist/helpers/audioService');
+const { ProcessAudioSource } = require('./dist/helpers/audioSources');
+const { parseWav } = require('./dist/helpers/wavFile');
+
+const SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+const MIC_FREQUENCY = 440;
+const SYSTEM_FREQUENCY = 1000;
+
+// Stands in for sox or parec: the test pushes PCM whenever it likes
+class FakeSource {
+  constructor(name = 'fake', { failToStart = false } = {}) {
+    this.name = name;
+    this.failToStart = failToStart;
+    this.onChunk = null;
+    this.stopped = false;
+  }
+
+  async start(onChunk) {
+    if (this.failToStart) throw new Error(`${this.name} is not available`);
+    this.onChunk = onChunk;
+  }
+
+  async stop() {
+    this.stopped = true;
+    this.onChunk = null;
+  }
+
+  // Delivers the audio in small chunks, the way a recorder would
+  feed(pcm, sampleRate = SAMPLE_RATE) {
+    const chunkBytes = Math.round(sampleRate * CHUNK_MS / 1000) * 2;
+    for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+      this.onChunk(pcm.subarray(offset, offset + chunkBytes), sampleRate);
+    }
+  }
+}
+
+function tone(seconds, frequency, sampleRate = SAMPLE_RATE, amplitude = 0.3) {
+  const samples = Math.round(seconds * sampleRate);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin(2 * Math.PI * frequency * i / sampleRate) * amplitude;
+    buffer.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return buffer;
+}
+
+function channelsOf(wav) {
+  const { format, data } = parseWav(wav);
+  const frames = data.length / (2 * format.channels);
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < format.channels; c++) {
+      channels[c][i] = data.readInt16LE((i * format.channels + c) * 2) / 32768;
+    }
+  }
+  return { format, channels };
+}
+
+// Relative power at one frequency (Goertzel)
+function powerAt(samples, frequency) {
+  const coefficient = 2 * Math.cos(2 * Math.PI * frequency / SAMPLE_RATE);
+  let previous = 0;
+  let beforePrevious = 0;
+  for (const sample of samples) {
+    const current = sample + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  const power = previous * previous + beforePrevious * beforePrevious - coefficient * previous * beforePrevious;
+  return power / (samples.length * samples.length);
+}
+
+// Mic clean-up and echo cancellation would change the tones; switch them off
+function plainService(microphone, system) {
+  const service = new AudioService(undefined, microphone, system);
+  service.setEchoCancellation(false);
+  service.setAudioProcessing({ highPass: false, noiseSuppression: false, autoGain: false, limiter: false });
+  return service;
+}
+
+async function testMicAndSystemAreMixed() {
+  console.log('\n1. Microphone and system audio are mixed into one track...');
+
+  const microphone = new FakeSource('mic');
+  const system = new FakeSource('system');
+  const service = plainService(microphone, system);
+  const chunks = [];
+  service.setChunkListener((source, chunk) => chunks.push(source));
+
+  await service.startRecording();
+  microphone.feed(tone(2, MIC_FREQUENCY));
+  system.feed(tone(2, SYSTEM_FREQUENCY));
+  const wav = await service.stopRecording();
+
+  assert.ok(wav, 'expected a recording');
+  assert.ok(microphone.stopped && system.stopped, 'expected both sources to be stopped');
+  const { format, channels } = channelsOf(wav);
+  assert.strictEqual(format.sampleRate, SAMPLE_RATE);
+  assert.strictEqual(channels.length, 1);
+  assert.strictEqual(channels[0].length, 2 * SAMPLE_RATE);
+
+  const mic = powerAt(channels[0], MIC_FREQUENCY);
+  const sys = powerAt(channels[0], SYSTEM_FREQUENCY);
+  assert.ok(mic > 0.005 && sys > 0.005, `expected both tones, got ${mic} and ${sys}`);
+  assert.ok(Math.abs(10 * Math.log10(mic / sys)) < 1, 'expected both tones at the same level');
+  assert.ok(chunks.includes('microphone') && chunks.includes('system'), 'expected chunks from both sources');
+  console.log('   ✅ Both tones present in the mix');
+}
+
+async function testStereoKeepsTracksApart() {
+  console.log('\n2. Stereo layout puts system audio on the right channel...');
+
+  const microphone = new FakeSource('mic');
+  const system = new FakeSource('system');
+  const service = plainService(microphone, system);
+  service.setChannelLayout('stereo');
+
+  await service.startRecording();
+  microphone.feed(tone(1, MIC_FREQUENCY));
+  system.feed(tone(1, SYSTEM_FREQUENCY));
+  const { channels } = channelsOf(await service.stopRecording());
+
+  assert.strictEqual(channels.length, 2);
+  const [left, right] = channels;
+  assert.ok(powerAt(left, MIC_FREQUENCY) > 100 * powerAt(left, SYSTEM_FREQUENCY));
+  assert.ok(powerAt(right, SYSTEM_FREQUENCY) > 100 * powerAt(right, MIC_FREQUENCY));
+  console.log('   ✅ Mic on the left, system audio on the right');
+}
+
+async function testSystemAudioIsResampled() {
+  console.log('\n3. System audio at 48 kHz is converted to the recording rate...');
+
+  const microphone = new FakeSource('mic');
+  const system = new FakeSource('system');
+  const service = plainService(microphone, system);
+  service.setChannelLayout('stereo');
+
+  await service.startRecording();
+  microphone.feed(tone(1, MIC_FREQUENCY));
+  system.feed(tone(1, SYSTEM_FREQUENCY, 48000), 48000);
+  const { format, channels } = channelsOf(await service.stopRecording());
+
+  assert.strictEqual(format.sampleRate, SAMPLE_RATE);
+  const [, right] = channels;
+  assert.strictEqual(right.length, SAMPLE_RATE, 'expected one second of system audio after the flush');
+  assert.ok(powerAt(right, SYSTEM_FREQUENCY) > 0.01, 'expected the system tone at its original pitch');
+  console.log('   ✅ Resampled to 16 kHz without changing pitch or length');
+}
+
+async function testFailingSourceLeavesMicOnly() {
+  console.log('\n4. A system source that cannot start leaves a mic-only recording...');
+
+  const microphone = new FakeSource('mic');
+  const service = plainService(microphone, new FakeSource('system', { failToStart: true }));
+
+  await service.startRecording();
+  microphone.feed(tone(1, MIC_FREQUENCY));
+  const { channels } = channelsOf(await service.stopRecording());
+
+  assert.strictEqual(channels.length, 1);
+  assert.ok(powerAt(channels[0], MIC_FREQUENCY) > 0.01);
+  assert.ok(powerAt(channels[0], SYSTEM_FREQUENCY) < 1e-6);
+  console.log('   ✅ Recording continued without system audio');
+}
+
+async function testRendererChunksWithoutSource() {
+  console.log('\n5. Without a native source, chunks sent over IPC are mixed in...');
+
+  const microphone = new FakeSource('mic');
+  const service = plainService(microphone, null);
+  service.setChannelLayout('stereo');
+  // The renderer is asked for system audio for exactly as long as the recording runs
+  const requests = [];
+  service.setSystemAudioRequestListener(wanted => requests.push(wanted));
+
+  service.appendSystemAudioChunk(tone(0.5, SYSTEM_FREQUENCY));
+  await service.startRecording();
+  assert.deepStrictEqual(requests, [true]);
+  microphone.feed(tone(1, MIC_FREQUENCY));
+  service.appendSystemAudioChunk(tone(1, SYSTEM_FREQUENCY));
+  const { channels } = channelsOf(await service.stopRecording());
+  service.appendSystemAudioChunk(tone(0.5, SYSTEM_FREQUENCY));
+
+  assert.deepStrictEqual(requests, [true, false]);
+  assert.strictEqual(channels.length, 2);
+  assert.ok(powerAt(channels[1], SYSTEM_FREQUENCY) > 0.01);
+  assert.strictEqual(channels[1].length, SAMPLE_RATE, 'chunks outside the recording must be ignored');
+
+  // A native source needs nothing from the renderer
+  const native = plainService(new FakeSource('mic'), new FakeSource('system'));
+  native.setSystemAudioRequestListener(wanted => requests.push(wanted));
+  await native.startRecording();
+  await native.stopRecording();
+  assert.deepStrictEqual(requests, [true, false]);
+  console.log('   ✅ Renderer asked to start and stop, only chunks sent while recording were kept');
+}
+
+async function testProcessSourceReassemblesFrames() {
+  console.log('\n6. A process source mixes its stereo output down frame by frame...');
+
+  // Writes 0.5 s of stereo PCM in odd-sized pieces: left at 0.5, right at -0.25
+  const script = `
+    const frames = 4000;
+    const pcm = Buffer.alloc(frames * 4);
+    for (let i = 0; i < frames; i++) {
+      pcm.writeInt16LE(16384, i * 4);
+      pcm.writeInt16LE(-8192, i * 4 + 2);
+    }
+    for (let offset = 0; offset < pcm.length; offset += 333) {
+      process.stdout.write(pcm.subarray(offset, offset + 333));
+    }
+    setInterval(() => {}, 1000);
+  `;
+  const source = new ProcessAudioSource({
+    name: 'fake recorder',
+    program: process.execPath,
+    args: ['-e', script],
+    sampleRate: 8000,
+    channels: 2,
+  });
+
+  const received = [];
+  await source.start((chunk, sampleRate) => received.push({ chunk, sampleRate }));
+  await new Promise(resolve => setTimeout(resolve, 1000));
+  await source.stop();
+
+  const pcm = Buffer.concat(received.map(({ chunk }) => chunk));
+  assert.ok(received.every(({ sampleRate }) => sampleRate === 8000));
+  assert.ok(received.every(({ chunk }) => chunk.length % 2 === 0), 'expected whole samples in every chunk');
+  assert.strictEqual(pcm.length, 4000 * 2);
+  for (let i = 0; i < 4000; i++) {
+    assert.ok(Math.abs(pcm.readInt16LE(i * 2) - 4096) <= 1, `sample ${i} is ${pcm.readInt16LE(i * 2)}`);
+  }
+  console.log(`   ✅ ${received.length} chunks, 4000 mono samples at the channel average`);
+}
+
+async function testMissingProgramFailsToStart() {
+  console.log('\n7. A missing recorder program rejects start...');
+
+  const source = new ProcessAudioSource({
+    name: 'missing recorder',
+    program: 'contextor-no-such-recorder',
+    args: [],
+    sampleRate: SAMPLE_RATE,
+    channels: 1,
+  });
+
+  await assert.rejects(source.start(() => {}), /ENOENT/);
+  await source.stop();
+  console.log('   ✅ Start rejected with ENOENT');
+}
+
+async function testLiveLevelsAreReported() {
+  console.log('\n8. Live levels are reported for each track while recording...');
+
+  const microphone = new FakeSource('mic');
+  const system = new FakeSource('system');
+  const service = plainService(microphone, system);
+  const updates = [];
+  service.setLevelListener(levels => updates.push(levels));
+
+  await service.startRecording();
+  microphone.feed(tone(0.5, MIC_FREQUENCY));
+  system.feed(tone(0.1, SYSTEM_FREQUENCY, SAMPLE_RATE, 1));
+  await new Promise(resolve => setTimeout(resolve, 450));
+  await service.stopRecording();
+
+  const live = updates.filter(levels => levels.recording);
+  assert.ok(live.length >= 2, `expected periodic updates, got ${live.length}`);
+  const [first] = live;
+  // A sine at 0.3 of full scale is about -13.5 dBFS RMS
+  assert.ok(Math.abs(first.microphone.rmsDb + 13.5) < 0.5, `mic RMS was ${first.microphone.rmsDb}`);
+  assert.ok(!first.microphone.clipping && first.system.clipping, 'expected only the full-scale system tone to clip');
+
+  const last = live[live.length - 1];
+  assert.strictEqual(last.microphone.rmsDb, -100, 'expected an empty window once the chunks stopped');
+  assert.ok(last.microphone.silentMs >= 200, 'expected the silence since the last chunk to be timed');
+  assert.ok(last.elapsedMs > first.elapsedMs);
+
+  const final = updates[updates.length - 1];
+  assert.deepStrictEqual(
+    { recording: final.recording, microphone: final.microphone, system: final.system },
+    { recording: false, microphone: null, system: null }
+  );
+  console.log(`   ✅ ${live.length} updates, then a final one after stopping`);
+}
+
+(async () => {
+  console.log('🔊 Testing System Audio Recording');
+  console.log('=================================');
+
+  try {
+    await testMicAndSystemAreMixed();
+    await testStereoKeepsTracksApart();
+    await testSystemAudioIsResampled();
+    await testFailingSourceLeavesMicOnly();
+    await testRendererChunksWithoutSource();
+    await testProcessSourceReassemblesFrames();
+    await testMissingProgramFailsToStart();
+    await testLiveLevelsAreReported();
+    console.log('\n✅ All system audio tests passed');
+  } catch (error) {
+    console.error('\n❌ System audio test failed:', error);
+    process.exit(1);
+  }
+})();
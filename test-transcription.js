@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// LIVE TRANSCRIPTION TEST SCRIPT
+// ============================================================================
+//
+// Runs the transcription pipeline offline with the local stand-in engine.
+// Build first (npx tsc), then: node test-transcription.js
+
+const assert = require('assert');
+const { TranscriptionService, formatTranscript } = require('./dist/helpers/transcriptionService');
+const { LocalTranscriptionEngine } = require('./dist/helpers/localTranscriptionEngine');
+const { AudioService } = require('./dist/helpers/audioService');
+
+const SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+
+function silence(ms) {
+  return Buffer.alloc(Math.round(SAMPLE_RATE * ms / 1000) * 2);
+}
+
+function tone(ms, amplitude = 0.3, frequency = 440) {
+  const samples = Math.round(SAMPLE_RATE * ms / 1000);
+  const buffer = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * amplitude;
+    buffer.writeInt16LE(Math.round(value * 32767), i * 2);
+  }
+  return buffer;
+}
+
+// Feed audio the way sox delivers it: in small chunks
+function feed(service, source, pcm) {
+  const chunkBytes = SAMPLE_RATE * CHUNK_MS / 1000 * 2;
+  for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+    service.write(source, pcm.subarray(offset, offset + chunkBytes));
+  }
+}
+
+async function testUtterancesBecomeSegments() {
+  console.log('\n1. Utterances separated by silence become final segments...');
+
+  const events = [];
+  const service = new TranscriptionService(event => events.push(event));
+  service.start(new LocalTranscriptionEngine({ phrases: ['hello there', 'how are you'] }), {
+    sampleRate: SAMPLE_RATE,
+    languageCode: 'en-US',
+  });
+
+  feed(service, 'microphone', Buffer.concat([
+    silence(500), tone(1500), silence(1000), tone(800), silence(1000),
+  ]));
+  const segments = await service.stop();
+
+  assert.strictEqual(events[0].type, 'reset');
+  const interim = events.filter(event => event.type === 'segment' && !event.segment.isFinal);
+  assert.ok(interim.length >= 2, 'expected interim results while speaking');
+
+  assert.deepStrictEqual(segments.map(segment => segment.text), ['hello there', 'how are you']);
+  assert.ok(segments.every(segment => segment.source === 'microphone' && segment.isFinal));
+  assert.notStrictEqual(segments[0].id, segments[1].id);
+  console.log('   ✅ Interim and final segments delivered');
+}
+
+async function testStopFlushesOpenUtterance() {
+  console.log('\n2. Stopping mid-utterance finalizes it...');
+
+  const service = new TranscriptionService(() => {});
+  service.start(new LocalTranscriptionEngine(), { sampleRate: SAMPLE_RATE, languageCode: 'en-US' });
+
+  feed(service, 'microphone', Buffer.concat([silence(200), tone(1200)]));
+  const segments = await service.stop();
+
+  assert.strictEqual(segments.length, 1);
+  assert.match(segments[0].text, /^\[speech \d+\.\ds\]$/);
+  assert.strictEqual(service.isActive(), false);
+  console.log('   ✅ Trailing speech kept as', segments[0].text);
+}
+
+async function testSourcesAreKeptApart() {
+  console.log('\n3. Microphone and system audio are transcribed separately...');
+
+  const service = new TranscriptionService(() => {});
+  service.start(new LocalTranscriptionEngine({ phrases: ['first', 'second'] }), {
+    sampleRate: SAMPLE_RATE,
+    languageCode: 'en-US',
+  });
+
+  feed(service, 'microphone', Buffer.concat([tone(600), silence(800)]));
+  feed(service, 'system', Buffer.concat([tone(600), silence(800)]));
+  const segments = await service.stop();
+
+  assert.deepStrictEqual(segments.map(segment => segment.source), ['microphone', 'system']);
+  console.log('   ✅ Segments attributed to their source');
+}
+
+async function testQuietAudioIsIgnored() {
+  console.log('\n4. Background noise below the threshold produces nothing...');
+
+  const events = [];
+  const service = new TranscriptionService(event => events.push(event));
+  service.start(new LocalTranscriptionEngine(), { sampleRate: SAMPLE_RATE, languageCode: 'en-US' });
+
+  feed(service, 'microphone', tone(2000, 0.005));
+  const segments = await service.stop();
+
+  assert.strictEqual(segments.length, 0);
+  assert.deepStrictEqual(events.map(event => event.type), ['reset']);
+  console.log('   ✅ No segments for silence');
+}
+
+async function testEngineErrorsAreReported() {
+  console.log('\n5. Engine failures are reported and stop that source...');
+
+  let writes = 0;
+  const failingEngine = {
+    id: 'failing',
+    createStream: (options, onResult, onError) => ({
+      write: () => {
+        writes++;
+        onError(new Error('no credentials'));
+      },
+      end: async () => {},
+    }),
+  };
+
+  const events = [];
+  const service = new TranscriptionService(event => events.push(event));
+  service.start(failingEngine, { sampleRate: SAMPLE_RATE, languageCode: 'en-US' });
+
+  feed(service, 'microphone', tone(500));
+  await service.stop();
+
+  const errors = events.filter(event => event.type === 'error');
+  assert.strictEqual(errors.length, 1);
+  assert.strictEqual(errors[0].source, 'microphone');
+  assert.strictEqual(writes, 1, 'audio must not be sent to a failed stream');
+  console.log('   ✅ Error surfaced once');
+}
+
+async function testSpeakersAreLabeled() {
+  console.log('\n6. Speech is labeled by the channel that carried it...');
+
+  const events = [];
+  const service = new TranscriptionService(event => events.push(event));
+  service.start(new LocalTranscriptionEngine({ phrases: ['question', 'answer'] }), {
+    sampleRate: SAMPLE_RATE,
+    languageCode: 'en-US',
+  });
+
+  // The other side asks a question; the microphone hears it faintly
+  // through the speakers, then the user answers
+  feed(service, 'system', Buffer.concat([tone(1000, 0.3), silence(2000)]));
+  feed(service, 'microphone', Buffer.concat([tone(1000, 0.05), silence(800), tone(800, 0.3), silence(800)]));
+  const segments = await service.stop();
+
+  assert.deepStrictEqual(
+    segments.map(segment => [segment.speaker, segment.source]),
+    [['them', 'system'], ['me', 'microphone']]
+  );
+  assert.ok(events.some(event => event.type === 'remove'), 'echoed speech must be withdrawn');
+  assert.strictEqual(formatTranscript(segments), 'Them: question\nMe: [speech 0.8s]');
+  console.log('   ✅ Echo dropped, remaining speech attributed');
+}
+
+async function testTranscriptMergesTurns() {
+  console.log('\n7. Consecutive segments of one speaker form a single turn...');
+
+  const segment = (speaker, text, startedAt) => ({ id: text, source: 'microphone', speaker, text, isFinal: true, startedAt });
+  const transcript = formatTranscript([
+    segment('them', 'So tell me', 0),
+    segment('me', 'Sure.', 3000),
+    segment('them', 'about yourself.', 1000),
+    segment('me', 'I build apps.', 4000),
+  ]);
+
+  assert.strictEqual(transcript, 'Them: So tell me about yourself.\nMe: Sure. I build apps.');
+  console.log('   ✅ Turns merged in time order');
+}
+
+async function testRendererSystemAudioIsTranscribed() {
+  console.log('\n8. System audio the renderer sends in reaches the transcript...');
+
+  const transcription = new TranscriptionService(() => {});
+  transcription.start(new LocalTranscriptionEngine({ phrases: ['can you hear me'] }), {
+    sampleRate: SAMPLE_RATE,
+    languageCode: 'en-US',
+  });
+
+  // As on Windows: no native system source, chunks arrive over IPC
+  const microphone = { name: 'quiet mic', start: async () => {}, stop: async () => {} };
+  const recording = new AudioService(undefined, microphone, null);
+  recording.setEchoCancellation(false);
+  recording.setChunkListener((source, chunk) => transcription.write(source, chunk));
+  let requested = false;
+  recording.setSystemAudioRequestListener(wanted => requested = wanted);
+
+  await recording.startRecording();
+  assert.strictEqual(requested, true, 'expected the renderer to be asked for system audio');
+  const pcm = Buffer.concat([tone(700), silence(800)]);
+  const chunkBytes = SAMPLE_RATE * CHUNK_MS / 1000 * 2;
+  for (let offset = 0; offset < pcm.length; offset += chunkBytes) {
+    recording.appendSystemAudioChunk(pcm.subarray(offset, offset + chunkBytes));
+  }
+  await recording.stopRecording();
+  const segments = await transcription.stop();
+
+  assert.strictEqual(formatTranscript(segments), 'Them: can you hear me');
+  console.log('   ✅ Transcribed as the other side');
+}
+
+(async () => {
+  console.log('📝 Testing Live Transcription');
+  console.log('=============================');
+
+  try {
+    await testUtterancesBecomeSegments();
+    await testStopFlushesOpenUtterance();
+    await testSourcesAreKeptApart();
+    await testQuietAudioIsIgnored();
+    await testEngineErrorsAreReported();
+    await testSpeakersAreLabeled();
+    await testTranscriptMergesTurns();
+    await testRendererSystemAudioIsTranscribed();
+    console.log('\n✅ All transcription tests passed');
+  } catch (error) {
+    console.error('\n❌ Transcription test failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// VOICE ACTIVITY TEST SCRIPT
+// ============================================================================
+//
+// Trims synthetic recordings made of tones and background noise and checks
+// what is kept, where the utterances land and how they are annotated.
+// Build first (npx tsc), then: node test-voice-activity.js
+
+const assert = require('assert');
+const { trimSilence, extractSegment, annotateRecording, annotateSegment } = require('./dist/helpers/voiceActivity');
+const { AudioService } = require('./dist/helpers/audioService');
+const { parseWav, writeWav } = require('./dist/helpers/wavFile');
+const { CANONICAL_AUDIO_FORMAT } = require('./dist/shared/audioFormat');
+
+const SAMPLE_RATE = 16000;
+
+// Seconds of tone or of quiet room noise, as 16-bit mono PCM
+function recording(parts) {
+  let seed = 1;
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+  const samples = [];
+  for (const { seconds, tone } of parts) {
+    const count = Math.round(seconds * SAMPLE_RATE);
+    for (let i = 0; i < count; i++) {
+      samples.push(tone ? Math.sin(2 * Math.PI * 440 * i / SAMPLE_RATE) * 0.3 : random() * 0.002);
+    }
+  }
+  const pcm = Buffer.alloc(samples.length * 2);
+  samples.forEach((value, i) => pcm.writeInt16LE(Math.round(value * 32767), i * 2));
+  return pcm;
+}
+
+function durationMs(wav) {
+  const { format, data } = parseWav(wav);
+  return data.length / (format.channels * 2) / format.sampleRate * 1000;
+}
+
+const TWO_UTTERANCES = [
+  { seconds: 1 },
+  { seconds: 1, tone: true },
+  { seconds: 5 },
+  { seconds: 1, tone: true },
+  { seconds: 1 },
+];
+
+async function testSilenceIsTrimmed() {
+  console.log('\n1. Silence at the ends is dropped and a long pause shortened...');
+
+  const trimmed = trimSilence(writeWav(recording(TWO_UTTERANCES), CANONICAL_AUDIO_FORMAT), 2000);
+
+  assert.ok(trimmed, 'expected something to be heard');
+  assert.strictEqual(trimmed.originalMs, 9000);
+  assert.strictEqual(trimmed.segments.length, 2);
+  const [first, second] = trimmed.segments;
+  // Each utterance keeps 200 ms either side, the pause between them 2 s
+  assert.ok(Math.abs(first.startMs - 800) <= 20 && Math.abs(first.endMs - 2200) <= 20, JSON.stringify(first));
+  assert.ok(Math.abs(second.startMs - 6800) <= 20 && Math.abs(second.endMs - 8200) <= 20, JSON.stringify(second));
+  assert.strictEqual(first.offsetMs, 0);
+  assert.ok(Math.abs(second.offsetMs - (first.endMs - first.startMs + 2000)) <= 1);
+  assert.ok(Math.abs(durationMs(trimmed.wav) - trimmed.trimmedMs) <= 1);
+  assert.ok(trimmed.trimmedMs < 5000, `expected under 5 s, got ${trimmed.trimmedMs} ms`);
+  console.log(`   ✅ 9 s trimmed to ${trimmed.trimmedMs} ms with 2 utterances`);
+}
+
+async function testShortPausesStayInside() {
+  console.log('\n2. Pauses shorter than the limit stay inside one utterance...');
+
+  const trimmed = trimSilence(writeWav(recording(TWO_UTTERANCES), CANONICAL_AUDIO_FORMAT), 6000);
+
+  assert.strictEqual(trimmed.segments.length, 1);
+  assert.ok(Math.abs(trimmed.trimmedMs - 7400) <= 40, `got ${trimmed.trimmedMs} ms`);
+  console.log('   ✅ One utterance, only the ends trimmed');
+}
+
+async function testNothingAudible() {
+  console.log('\n3. Room noise alone counts as nothing heard...');
+
+  const wav = writeWav(recording([{ seconds: 3 }]), CANONICAL_AUDIO_FORMAT);
+  assert.strictEqual(trimSilence(wav, 2000), null);
+  assert.strictEqual(trimSilence(writeWav(Buffer.alloc(32000), CANONICAL_AUDIO_FORMAT), 2000), null);
+  console.log('   ✅ Noise and digital silence both return null');
+}
+
+async function testStereoIsCutAlike() {
+  console.log('\n4. Stereo recordings are cut on both channels...');
+
+  // Speech only on the right channel
+  const right = recording(TWO_UTTERANCES);
+  const left = recording([{ seconds: 9 }]);
+  const interleaved = Buffer.alloc(right.length * 2);
+  for (let i = 0; i < right.length / 2; i++) {
+    interleaved.writeInt16LE(left.readInt16LE(i * 2), i * 4);
+    interleaved.writeInt16LE(right.readInt16LE(i * 2), i * 4 + 2);
+  }
+  const trimmed = trimSilence(writeWav(interleaved, { ...CANONICAL_AUDIO_FORMAT, channels: 2 }), 2000);
+
+  assert.strictEqual(trimmed.segments.length, 2);
+  const { format } = parseWav(trimmed.wav);
+  assert.strictEqual(format.channels, 2);
+  assert.ok(Math.abs(durationMs(trimmed.wav) - trimmed.trimmedMs) <= 1);
+  console.log('   ✅ Both channels kept the same length');
+}
+
+async function testSegmentsAreExtracted() {
+  console.log('\n5. Each utterance can be cut out on its own...');
+
+  const trimmed = trimSilence(writeWav(recording(TWO_UTTERANCES), CANONICAL_AUDIO_FORMAT), 2000);
+  const second = trimmed.segments[1];
+  const { data } = parseWav(extractSegment(trimmed.wav, second));
+
+  assert.ok(Math.abs(data.length / 2 / SAMPLE_RATE * 1000 - (second.endMs - second.startMs)) <= 1);
+  // The tone sits in the middle of the cut, padded with room noise
+  const middle = Math.floor(data.length / 4);
+  const peak = Math.max(...Array.from({ length: 400 }, (_, i) => Math.abs(data.readInt16LE((middle + i) * 2))));
+  assert.ok(peak > 8000, `expected the tone, got peak ${peak}`);
+  console.log('   ✅ Second utterance cut with its padding');
+}
+
+async function testAnnotations() {
+  console.log('\n6. Transcript lines are annotated with their utterance...');
+
+  const segments = [
+    { startMs: 800, endMs: 2200, offsetMs: 0 },
+    { startMs: 7800, endMs: 9200, offsetMs: 3400 },
+  ];
+  const transcript = [
+    { id: 'a', source: 'microphone', speaker: 'me', text: 'Hello there', isFinal: true, startedAt: 900 },
+    { id: 'b', source: 'system', speaker: 'them', text: 'Hi again', isFinal: true, startedAt: 7700 },
+  ];
+
+  const whole = annotateRecording(segments, transcript);
+  assert.ok(whole.includes('1. 0:01-0:02') && whole.includes('2. 0:08-0:09'), whole);
+  assert.ok(whole.endsWith('Me: Hello there\nThem: Hi again'), whole);
+  assert.strictEqual(annotateRecording(segments.slice(0, 1), []), undefined);
+
+  assert.strictEqual(annotateSegment(segments, 0, transcript), 'Part 1 of 2 (0:01-0:02)\nMe: Hello there');
+  assert.strictEqual(annotateSegment(segments, 1, transcript), 'Part 2 of 2 (0:08-0:09)\nThem: Hi again');
+  console.log('   ✅ Utterance list and per-part transcripts look right');
+}
+
+// A microphone that plays back whatever PCM it was given
+class FakeMicrophone {
+  constructor(pcm) {
+    this.name = 'fake mic';
+    this.pcm = pcm;
+  }
+
+  async start(onChunk) {
+    this.onChunk = onChunk;
+  }
+
+  async stop() {
+    for (let offset = 0; offset < this.pcm.length; offset += 3200) {
+      this.onChunk(this.pcm.subarray(offset, offset + 3200), SAMPLE_RATE);
+    }
+  }
+}
+
+async function testAudioServiceTrims() {
+  console.log('\n7. AudioService trims recordings and drops silent ones...');
+
+  const service = new AudioService(undefined, new FakeMicrophone(recording(TWO_UTTERANCES)), null);
+  service.setSystemAudioRecording(false);
+  service.setAudioProcessing({ highPass: false, noiseSuppression: false, autoGain: false, limiter: false });
+  await service.startRecording();
+  const wav = await service.stopRecording();
+
+  assert.ok(wav && durationMs(wav) < 5000, 'expected the trimmed recording');
+  assert.strictEqual(service.getSegments().length, 2);
+
+  const muted = new AudioService(undefined, new FakeMicrophone(Buffer.alloc(SAMPLE_RATE * 2 * 5)), null);
+  muted.setSystemAudioRecording(false);
+  await muted.startRecording();
+  assert.strictEqual(await muted.stopRecording(), null);
+  assert.deepStrictEqual(muted.getSegments(), []);
+
+  const untrimmed = new AudioService(undefined, new FakeMicrophone(recording(TWO_UTTERANCES)), null);
+  untrimmed.setSystemAudioRecording(false);
+  untrimmed.setVoiceActivity({ trimSilence: false, maxPauseSeconds: 2, delivery: 'annotated' });
+  await untrimmed.startRecording();
+  assert.strictEqual(durationMs(await untrimmed.stopRecording()), 9000);
+  assert.strictEqual(untrimmed.getSegments(), null);
+  console.log('   ✅ Trimmed when on, 5 s of silence discarded, untouched when off');
+}
+
+(async () => {
+  console.log('🗣️ Testing Voice Activity Trimming');
+  console.log('==================================');
+
+  try {
+    await testSilenceIsTrimmed();
+    await testShortPausesStayInside();
+    await testNothingAudible();
+    await testStereoIsCutAlike();
+    await testSegmentsAreExtracted();
+    await testAnnotations();
+    await testAudioServiceTrims();
+    console.log('\n✅ All voice activity tests passed');
+  } catch (error) {
+    console.error('\n❌ Voice activity test failed:', error);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,160 @@
+#!/usr/bin/env node
+
+// ============================================================================
+// WAV FILE TEST SCRIPT
+// ============================================================================
+//
+// Parses hand-built WAV files with the header variations real recorders
+// produce: extra chunks, WAVE_FORMAT_EXTENSIBLE and placeholder sizes.
+// Build first (npx tsc), then: node test-wav-file.js
+
+const assert = require('assert');
+const { parseWav, isWav, writeWav } = require('./dist/helpers/wavFile');
+
+const PLACEHOLDER_SIZE = 0xffffffff;
+
+// A chunk header and body, padded to an even length
+function chunk(id, body, declaredSize = body.length) {
+  const header = Buffer.alloc(8);
+  header.write(id, 0, 'ascii');
+  header.writeUInt32LE(declaredSize, 4);
+  return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+}
+
+function riff(chunks, declaredSize) {
+  const body = Buffer.concat(chunks);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(declaredSize ?? body.length + 4, 4);
+  header.write('WAVE', 8, 'ascii');
+  return Buffer.concat([header, body]);
+}
+
+function fmtBody(formatTag, channels, sampleRate, bitsPerSample) {
+  const body = Buffer.alloc(16);
+  const blockAlign = channels * bitsPerSample / 8;
+  body.writeUInt16LE(formatTag, 0);
+  body.writeUInt16LE(channels, 2);
+  body.writeUInt32LE(sampleRate, 4);
+  body.writeUInt32LE(sampleRate * blockAlign, 8);
+  body.writeUInt16LE(blockAlign, 12);
+  body.writeUInt16LE(bitsPerSample, 14);
+  return body;
+}
+
+// 40-byte fmt chunk whose real encoding is in the sub-format GUID
+function extensibleFmtBody(subFormat, channels, sampleRate, bitsPerSample) {
+  const extension = Buffer.alloc(24);
+  extension.writeUInt16LE(22, 0); // cbSize
+  extension.writeUInt16LE(bitsPerSample, 2); // valid bits
+  extension.writeUInt32LE(channels === 2 ? 0x3 : 0x4, 4); // channel mask
+  extension.writeUInt16LE(subFormat, 8);
+  Buffer.from('000000001000800000aa00389b71', 'hex').copy(extension, 10);
+  return Buffer.concat([fmtBody(0xfffe, channels, sampleRate, bitsPerSample), extension]);
+}
+
+function bytes(length) {
+  return Buffer.from(Array.from({ length }, (_, i) => (i * 37 + 11) % 256));
+}
+
+function testExtraChunks() {
+  console.log('\n1. LIST and fact chunks around fmt are skipped...');
+
+  // sox writes a LIST chunk first; an odd size exercises the padding byte
+  // INFO list holding one 7-byte software tag, 19 bytes in all
+  const list = chunk('LIST', Buffer.concat([Buffer.from('INFO', 'ascii'), chunk('ISFT', Buffer.from('sox 14\0', 'ascii')).subarray(0, 15)]));
+  const data = bytes(400);
+  const wav = riff([
+    list,
+    chunk('fmt ', fmtBody(0x0003, 1, 48000, 32)),
+    chunk('fact', Buffer.from([100, 0, 0, 0])),
+    chunk('data', data),
+  ]);
+
+  const parsed = parseWav(wav);
+  assert.deepStrictEqual(parsed.format, { sampleRate: 48000, channels: 1, bitsPerSample: 32, sampleFormat: 'float' });
+  assert.ok(parsed.data.equals(data));
+
+  // Chunks that follow the data chunk don't become part of the audio
+  const trailing = riff([chunk('fmt ', fmtBody(0x0001, 1, 16000, 16)), chunk('data', data), chunk('LIST', bytes(30))]);
+  assert.ok(parseWav(trailing).data.equals(data));
+  console.log('   ✅ Audio found behind a 19-byte LIST chunk and a fact chunk');
+}
+
+function testExtensibleFormat() {
+  console.log('\n2. WAVE_FORMAT_EXTENSIBLE uses its sub-format...');
+
+  const stereo24 = riff([chunk('fmt ', extensibleFmtBody(0x0001, 2, 44100, 24)), chunk('data', bytes(600))]);
+  assert.deepStrictEqual(parseWav(stereo24).format, { sampleRate: 44100, channels: 2, bitsPerSample: 24, sampleFormat: 'int' });
+
+  const float32 = riff([chunk('fmt ', extensibleFmtBody(0x0003, 1, 48000, 32)), chunk('data', bytes(400))]);
+  assert.strictEqual(parseWav(float32).format.sampleFormat, 'float');
+
+  // A-law and friends are still refused
+  const alaw = riff([chunk('fmt ', extensibleFmtBody(0x0006, 1, 8000, 8)), chunk('data', bytes(100))]);
+  assert.throws(() => parseWav(alaw), /Unsupported WAV encoding 0x6/);
+
+  // Claiming extensible without the extension is malformed
+  const truncated = riff([chunk('fmt ', fmtBody(0xfffe, 1, 16000, 16)), chunk('data', bytes(100))]);
+  assert.throws(() => parseWav(truncated), /missing its sub-format/);
+  console.log('   ✅ PCM and float sub-formats decoded, others rejected');
+}
+
+function testPlaceholderSizes() {
+  console.log('\n3. Placeholder sizes from piped recorders are tolerated...');
+
+  // 301 bytes of 16-bit stereo: 75 whole frames and one partial frame
+  const data = bytes(301);
+  const wav = riff([
+    chunk('fmt ', fmtBody(0x0001, 2, 16000, 16)),
+    chunk('data', data, PLACEHOLDER_SIZE).subarray(0, 8 + data.length),
+  ], PLACEHOLDER_SIZE);
+
+  const parsed = parseWav(wav);
+  assert.strictEqual(parsed.data.length, 300);
+  assert.ok(parsed.data.equals(data.subarray(0, 300)));
+
+  // A recording cut short declares more data than it holds
+  const cut = riff([chunk('fmt ', fmtBody(0x0001, 1, 16000, 16)), chunk('data', bytes(1000), 1000).subarray(0, 8 + 500)]);
+  assert.strictEqual(parseWav(cut).data.length, 500);
+  console.log('   ✅ Data read to the end of the file, partial frame dropped');
+}
+
+function testWriteAndDetect() {
+  console.log('\n4. Written files parse back and non-WAV input is refused...');
+
+  const formats = [
+    { sampleRate: 16000, channels: 1, bitsPerSample: 16, sampleFormat: 'int' },
+    { sampleRate: 44100, channels: 2, bitsPerSample: 24, sampleFormat: 'int' },
+    { sampleRate: 48000, channels: 2, bitsPerSample: 32, sampleFormat: 'float' },
+  ];
+  for (const format of formats) {
+    const data = bytes(format.channels * format.bitsPerSample / 8 * 99);
+    const wav = writeWav(data, format);
+    const parsed = parseWav(wav);
+    assert.deepStrictEqual(parsed.format, format);
+    assert.ok(parsed.data.equals(data));
+    assert.strictEqual(wav.indexOf('fact') !== -1, format.sampleFormat === 'float');
+  }
+
+  assert.strictEqual(isWav(Buffer.from('OggS not a wav file')), false);
+  const dataFirst = riff([chunk('data', bytes(100)), chunk('fmt ', fmtBody(0x0001, 1, 16000, 16))]);
+  assert.throws(() => parseWav(dataFirst), /comes before its fmt chunk/);
+  assert.throws(() => parseWav(riff([chunk('fmt ', fmtBody(0x0001, 1, 16000, 16))])), /no data chunk/);
+  assert.throws(() => writeWav(bytes(10), { sampleRate: 16000, channels: 1, bitsPerSample: 12, sampleFormat: 'int' }), /bit depth/);
+  console.log('   ✅ Round trips for int and float, bad files rejected');
+}
+
+console.log('📄 Testing WAV Files');
+console.log('====================');
+
+try {
+  testExtraChunks();
+  testExtensibleFormat();
+  testPlaceholderSizes();
+  testWriteAndDetect();
+  console.log('\n✅ All WAV file tests passed');
+} catch (error) {
+  console.error('\n❌ WAV file test failed:', error);
+  process.exit(1);
+}